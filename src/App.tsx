@@ -4,8 +4,10 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AppLayout } from "./components/layout/AppLayout";
+import AnalysisCenter from "./pages/AnalysisCenter";
 import Dashboard from "./pages/Dashboard";
 import EncryptionStudio from "./pages/EncryptionStudio";
+import KeyVault from "./pages/KeyVault";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,8 +23,8 @@ const App = () => (
             <Route index element={<Dashboard />} />
             <Route path="encrypt" element={<EncryptionStudio />} />
             <Route path="files" element={<div className="p-8 text-center text-muted-foreground">File Laboratory - Coming Soon</div>} />
-            <Route path="vault" element={<div className="p-8 text-center text-muted-foreground">Key Vault - Coming Soon</div>} />
-            <Route path="analysis" element={<div className="p-8 text-center text-muted-foreground">Analysis Center - Coming Soon</div>} />
+            <Route path="vault" element={<KeyVault />} />
+            <Route path="analysis" element={<AnalysisCenter />} />
             <Route path="learn" element={<div className="p-8 text-center text-muted-foreground">Learning Hub - Coming Soon</div>} />
             <Route path="settings" element={<div className="p-8 text-center text-muted-foreground">Settings - Coming Soon</div>} />
           </Route>
@@ -10,27 +10,36 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   Upload, Download, File, FileText, Archive, Trash2, 
-  FolderOpen, Zap, Clock, HardDrive, CheckCircle 
+  FolderOpen, Zap, Clock, HardDrive, CheckCircle, RefreshCw 
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { encryptAES256, decryptAES256 } from '@/lib/crypto';
+import { useVault } from '@/hooks/use-vault';
+import { shortKeyId } from '@/lib/fingerprint';
+import { KEY_ALGORITHMS, canUseKeyFor, keyAlgorithmOf } from '@/lib/keystore';
+import { ENVELOPE_ALGORITHMS } from '@/lib/envelope';
+import { decryptBlob, detectBlobEnvelope, encryptBlob, saveStream } from '@/lib/stream';
+import { isAbortError, runCryptoJob } from '@/lib/workerPool';
+import { kdfCostFromSettings } from '@/lib/settings';
 
 interface FileItem {
   id: string;
   name: string;
   size: number;
   type: string;
-  content: string;
+  data: Blob;
+  // Streamed envelopes are encrypted or decrypted while the file is saved, so
+  // the result is never held in memory whole
+  output?: () => ReadableStream<Uint8Array>;
   encrypted: boolean;
   processedAt: string;
 }
 
 interface BatchOperation {
   id: string;
-  type: 'encrypt' | 'decrypt';
+  type: 'encrypt' | 'decrypt' | 're-encrypt';
   files: FileItem[];
   progress: number;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'cancelled' | 'error';
   startTime: number;
   endTime?: number;
 }
@@ -43,13 +52,20 @@ export function AdvancedFileHandler() {
   const [compressionEnabled, setCompressionEnabled] = useState(false);
   const [currentOperation, setCurrentOperation] = useState<BatchOperation | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
-
-  const supportedFormats = {
-    text: ['.txt', '.md', '.json', '.xml', '.csv', '.log'],
-    code: ['.js', '.ts', '.py', '.java', '.cpp', '.html', '.css'],
-    config: ['.config', '.ini', '.yml', '.yaml', '.toml'],
-  };
+  const { status: vaultStatus, keyPairs } = useVault();
+  const [rotationKeyId, setRotationKeyId] = useState('');
+
+  // Retired encryption key pairs whose successor is still in the vault and
+  // can take new encryptions; signing keys have no files to move
+  const rotations = keyPairs.flatMap(keyPair => {
+    if (KEY_ALGORITHMS[keyAlgorithmOf(keyPair)].usage !== 'encryption') return [];
+    const successor = keyPairs.find(candidate => candidate.id === keyPair.replacedBy);
+    return successor && canUseKeyFor(successor, 'encrypt') ? [{ retired: keyPair, successor }] : [];
+  });
+  const rotation = rotations.find(({ retired }) => retired.id === rotationKeyId) ?? null;
+  const encryptedFileCount = files.filter(file => file.encrypted).length;
 
   const handleMultipleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(event.target.files || []);
@@ -61,14 +77,13 @@ export function AdvancedFileHandler() {
 
     for (const file of selectedFiles) {
       try {
-        const content = await readFileContent(file);
         const fileItem: FileItem = {
           id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
           name: file.name,
           size: file.size,
-          type: file.type || 'text/plain',
-          content,
-          encrypted: false,
+          type: file.type || 'application/octet-stream',
+          data: file,
+          encrypted: (await detectBlobEnvelope(file)) !== null,
           processedAt: new Date().toISOString()
         };
         newFiles.push(fileItem);
@@ -90,21 +105,7 @@ export function AdvancedFileHandler() {
     });
   };
 
-  const readFileContent = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string);
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      
-      if (file.type.startsWith('text/') || file.size < 1024 * 1024) { // 1MB limit for auto-text detection
-        reader.readAsText(file);
-      } else {
-        reject(new Error('File type not supported or file too large'));
-      }
-    });
-  };
-
-  const startBatchOperation = async (type: 'encrypt' | 'decrypt') => {
+  const startBatchOperation = async (type: BatchOperation['type']) => {
     if (files.length === 0) {
       toast({
         title: "No Files",
@@ -114,7 +115,26 @@ export function AdvancedFileHandler() {
       return;
     }
 
-    if (!batchPassword && selectedAlgorithm === 'aes256') {
+    // Re-encryption only touches files sealed to a key pair; password and
+    // streamed envelopes are skipped without being read
+    const sealedToKey = async (file: FileItem) => {
+      const algorithm = file.output ? null : await detectBlobEnvelope(file.data);
+      return algorithm !== null && ENVELOPE_ALGORITHMS[algorithm].secret === 'privateKey';
+    };
+    const keySealed = type === 're-encrypt' ? await Promise.all(files.map(sealedToKey)) : [];
+    const batchFiles = type === 're-encrypt' ? files.filter((_, index) => keySealed[index]) : files;
+    if (type === 're-encrypt' && (!rotation || batchFiles.length === 0)) {
+      toast({
+        title: rotation ? "No Encrypted Files" : "Key Required",
+        description: rotation
+          ? "Upload files encrypted to the retired key first."
+          : "Choose a rotated key pair to re-encrypt from.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (type !== 're-encrypt' && !batchPassword && selectedAlgorithm === 'aes256') {
       toast({
         title: "Password Required",
         description: "Please enter a password for batch encryption.",
@@ -126,7 +146,7 @@ export function AdvancedFileHandler() {
     const operation: BatchOperation = {
       id: Date.now().toString(),
       type,
-      files: [...files],
+      files: [...batchFiles],
       progress: 0,
       status: 'processing',
       startTime: Date.now()
@@ -135,54 +155,98 @@ export function AdvancedFileHandler() {
     setBatchOperations(prev => [...prev, operation]);
     setCurrentOperation(operation);
 
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    const fileProgress = batchFiles.map(() => 0);
+
+    const reportProgress = () => {
+      const progress = (fileProgress.reduce((sum, value) => sum + value, 0) / batchFiles.length) * 100;
+      setBatchOperations(prev =>
+        prev.map(op =>
+          op.id === operation.id
+            ? { ...op, progress }
+            : op
+        )
+      );
+      setCurrentOperation(prev => prev && { ...prev, progress });
+    };
+
+    // Each file is its own pool job, so files are processed in parallel off the main thread
+    const processFile = async (file: FileItem, index: number): Promise<FileItem> => {
+      const options = {
+        signal: controller.signal,
+        onProgress: (fraction: number) => {
+          fileProgress[index] = fraction;
+          reportProgress();
+        }
+      };
+
+      if (file.output) {
+        throw new Error('it is processed while saving; upload the saved file to process it again');
+      }
+
+      let processedData = file.data;
+      let output: FileItem['output'];
+      const envelope = type === 'decrypt' ? await detectBlobEnvelope(file.data) : null;
+
+      if (type === 're-encrypt' && rotation) {
+        const { retired, successor } = rotation;
+        const oldKey = { privateKey: retired.privateKey, publicKey: retired.publicKey };
+        processedData = new Blob([
+          await runCryptoJob('reencryptForKey', [await file.data.text(), oldKey, successor.publicKey], options)
+        ]);
+      } else if (envelope === 'aes-256-gcm-stream') {
+        output = () => decryptBlob(file.data, batchPassword);
+      } else if (envelope) {
+        // Text envelopes from earlier versions and the text tools
+        const text = await runCryptoJob('decryptEnvelope', [await file.data.text(), { password: batchPassword }], options);
+        processedData = new Blob([text]);
+      } else if (selectedAlgorithm === 'aes256') {
+        if (type === 'encrypt') {
+          const cost = kdfCostFromSettings();
+          output = () => encryptBlob(file.data, batchPassword, cost);
+        } else {
+          processedData = new Blob([await runCryptoJob('decryptAES256', [await file.data.text(), batchPassword], options)]);
+        }
+      }
+
+      fileProgress[index] = 1;
+      reportProgress();
+
+      return {
+        ...file,
+        data: processedData,
+        size: processedData.size,
+        output,
+        encrypted: type !== 'decrypt',
+        processedAt: new Date().toISOString()
+      };
+    };
+
     try {
-      const processedFiles = [];
-      const totalFiles = files.length;
-
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const progress = ((i + 1) / totalFiles) * 100;
-        
-        // Update progress
-        setBatchOperations(prev => 
-          prev.map(op => 
-            op.id === operation.id 
-              ? { ...op, progress }
-              : op
-          )
-        );
-
-        try {
-          let processedContent = file.content;
-          
-          if (selectedAlgorithm === 'aes256') {
-            if (type === 'encrypt') {
-              const encrypted = await encryptAES256(file.content, batchPassword);
-              processedContent = encrypted.encrypted;
-            } else {
-              processedContent = await decryptAES256(file.content, batchPassword);
-            }
-          }
-
-          const processedFile: FileItem = {
-            ...file,
-            content: processedContent,
-            encrypted: type === 'encrypt',
-            processedAt: new Date().toISOString()
-          };
-
-          processedFiles.push(processedFile);
-          
-          // Small delay to show progress
-          await new Promise(resolve => setTimeout(resolve, 100));
-        } catch (error) {
+      const results = await Promise.allSettled(batchFiles.map(processFile));
+      const processedFiles: FileItem[] = [];
+      let succeeded = 0;
+
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          processedFiles.push(result.value);
+          succeeded++;
+          return;
+        }
+
+        // Failed and cancelled files stay in the list unchanged
+        processedFiles.push(batchFiles[index]);
+        if (!isAbortError(result.reason)) {
           toast({
             title: "Processing Error",
-            description: `Failed to ${type} ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            description: `Failed to ${type} ${batchFiles[index].name}: ${result.reason instanceof Error ? result.reason.message : 'Unknown error'}`,
             variant: "destructive",
           });
         }
-      }
+      });
+
+      const cancelled = controller.signal.aborted;
 
       // Update operation as completed
       setBatchOperations(prev => 
@@ -190,8 +254,8 @@ export function AdvancedFileHandler() {
           op.id === operation.id 
             ? { 
                 ...op, 
-                progress: 100, 
-                status: 'completed' as const,
+                progress: cancelled ? op.progress : 100, 
+                status: cancelled ? 'cancelled' as const : 'completed' as const,
                 endTime: Date.now(),
                 files: processedFiles
               }
@@ -199,12 +263,12 @@ export function AdvancedFileHandler() {
         )
       );
 
-      setFiles(processedFiles);
+      setFiles(prev => prev.map(file => processedFiles.find(processed => processed.id === file.id) ?? file));
       setCurrentOperation(null);
 
       toast({
-        title: "Batch Operation Complete",
-        description: `Successfully ${type}ed ${processedFiles.length} files.`,
+        title: cancelled ? "Batch Operation Cancelled" : "Batch Operation Complete",
+        description: `Successfully ${type}ed ${succeeded} of ${batchFiles.length} files.`,
       });
 
     } catch (error) {
@@ -222,21 +286,31 @@ export function AdvancedFileHandler() {
         description: `Batch ${type}ion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive",
       });
+    } finally {
+      batchAbortRef.current = null;
     }
   };
 
-  const downloadFile = (file: FileItem) => {
-    const blob = new Blob([file.content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = file.encrypted 
-      ? `${file.name}.encrypted` 
+  const cancelBatchOperation = () => {
+    batchAbortRef.current?.abort();
+  };
+
+  const downloadFile = async (file: FileItem) => {
+    const fileName = file.encrypted
+      ? `${file.name}.encrypted`
       : file.name.replace('.encrypted', '');
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+
+    try {
+      await saveStream(file.output?.() ?? file.data.stream(), fileName);
+    } catch (error) {
+      // Closing the save dialog is not an error worth reporting
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      toast({
+        title: "Download Failed",
+        description: `Failed to save ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    }
   };
 
   const downloadAllAsArchive = async () => {
@@ -244,14 +318,14 @@ export function AdvancedFileHandler() {
 
     try {
       // Create a simple archive format (concatenated files with separators)
-      let archiveContent = '';
-      files.forEach((file, index) => {
-        archiveContent += `\n--- FILE ${index + 1}: ${file.name} ---\n`;
-        archiveContent += file.content;
-        archiveContent += `\n--- END OF FILE ${index + 1} ---\n`;
-      });
+      const archiveParts: BlobPart[] = [];
+      for (const [index, file] of files.entries()) {
+        archiveParts.push(`\n--- FILE ${index + 1}: ${file.name} ---\n`);
+        archiveParts.push(file.output ? await new Response(file.output()).blob() : file.data);
+        archiveParts.push(`\n--- END OF FILE ${index + 1} ---\n`);
+      }
 
-      const blob = new Blob([archiveContent], { type: 'text/plain' });
+      const blob = new Blob(archiveParts, { type: 'application/octet-stream' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -358,7 +432,7 @@ export function AdvancedFileHandler() {
                     Click to upload multiple files or drag and drop
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Supported: Text files, Code files, Config files
+                    Any file type; large files are encrypted in streamed chunks
                   </p>
                 </div>
                 
@@ -366,7 +440,6 @@ export function AdvancedFileHandler() {
                   ref={fileInputRef}
                   type="file"
                   multiple
-                  accept=".txt,.md,.json,.xml,.csv,.log,.js,.ts,.py,.java,.cpp,.html,.css,.config,.ini,.yml,.yaml,.toml"
                   onChange={handleMultipleFileUpload}
                   className="hidden"
                 />
@@ -374,7 +447,8 @@ export function AdvancedFileHandler() {
                 <Alert>
                   <FileText className="h-4 w-4" />
                   <AlertDescription>
-                    Supported formats: {Object.values(supportedFormats).flat().join(', ')}
+                    Documents, archives, images and other binaries are all supported. Encrypted
+                    files keep their algorithm and key derivation settings in the file header.
                   </AlertDescription>
                 </Alert>
 
@@ -421,7 +495,7 @@ export function AdvancedFileHandler() {
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium truncate">{file.name}</p>
                           <p className="text-xs text-muted-foreground">
-                            {formatFileSize(file.size)} • {file.encrypted ? 'Encrypted' : 'Plain text'}
+                            {formatFileSize(file.size)} • {file.encrypted ? 'Encrypted' : 'Plain'}
                           </p>
                         </div>
                         <div className="flex gap-1">
@@ -491,6 +565,9 @@ export function AdvancedFileHandler() {
                     <span>{Math.round(currentOperation.progress)}%</span>
                   </div>
                   <Progress value={currentOperation.progress} className="w-full" />
+                  <Button onClick={cancelBatchOperation} variant="outline" size="sm" className="w-full">
+                    Cancel
+                  </Button>
                 </div>
               )}
 
@@ -513,11 +590,47 @@ export function AdvancedFileHandler() {
                 </Button>
               </div>
 
+              <div className="space-y-2 border-t pt-4">
+                <Label htmlFor="rotationKey">Re-encrypt After Key Rotation</Label>
+                {vaultStatus !== 'unlocked' ? (
+                  <p className="text-sm text-muted-foreground">
+                    Unlock the Key Vault to move files from a rotated key pair to its successor.
+                  </p>
+                ) : rotations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No rotated encryption key pairs. Rotate an encryption key pair in the Key Vault to re-encrypt its files here.
+                  </p>
+                ) : (
+                  <div className="flex flex-col md:flex-row gap-4">
+                    <Select value={rotationKeyId} onValueChange={setRotationKeyId}>
+                      <SelectTrigger id="rotationKey" className="monaco-editor">
+                        <SelectValue placeholder="Choose a retired key pair..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {rotations.map(({ retired, successor }) => (
+                          <SelectItem key={retired.id} value={retired.id}>
+                            {retired.label ?? KEY_ALGORITHMS[keyAlgorithmOf(retired)].name} · {shortKeyId(retired.id)} → {shortKeyId(successor.id)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => startBatchOperation('re-encrypt')}
+                      disabled={!rotation || encryptedFileCount === 0 || !!currentOperation}
+                      variant="outline"
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Re-encrypt ({encryptedFileCount} files)
+                    </Button>
+                  </div>
+                )}
+              </div>
+
               <Alert>
                 <HardDrive className="h-4 w-4" />
                 <AlertDescription>
                   All file processing happens locally in your browser. 
-                  Large files may take longer to process.
+                  Files are encrypted in 64 KB chunks, so even multi-gigabyte files stay within bounded memory.
                 </AlertDescription>
               </Alert>
             </CardContent>
@@ -545,6 +658,7 @@ export function AdvancedFileHandler() {
                             className={
                               operation.status === 'completed' ? 'bg-green-500/20 text-green-300' :
                               operation.status === 'error' ? 'bg-red-500/20 text-red-300' :
+                              operation.status === 'cancelled' ? 'bg-muted text-muted-foreground' :
                               operation.status === 'processing' ? 'bg-blue-500/20 text-blue-300' :
                               'bg-yellow-500/20 text-yellow-300'
                             }
@@ -15,6 +15,30 @@ const algorithmData = [
     cons: ['Requires secure key management', 'Same key for encrypt/decrypt', 'Key must be shared securely'],
     securityColor: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30'
   },
+  {
+    id: 'chacha20',
+    name: 'ChaCha20-Poly1305',
+    icon: Zap,
+    security: 'Very High',
+    speed: 'Fast',
+    description: 'RFC 8439 AEAD combining the ChaCha20 stream cipher with the Poly1305 authenticator. Keys are derived from your password with PBKDF2.',
+    useCases: ['Mobile and embedded devices', 'TLS 1.3 and WireGuard', 'Secure messaging', 'Systems without AES hardware'],
+    pros: ['Constant-time in software', 'Authenticated encryption', 'No lookup tables', 'IETF standard'],
+    cons: ['96-bit nonce must never repeat', 'Slower than hardware AES', 'Same key for encrypt/decrypt'],
+    securityColor: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30'
+  },
+  {
+    id: 'xchacha20',
+    name: 'XChaCha20-Poly1305',
+    icon: Zap,
+    security: 'Very High',
+    speed: 'Fast',
+    description: 'ChaCha20-Poly1305 extended with a 192-bit nonce via HChaCha20, so random nonces are safe for any number of messages.',
+    useCases: ['Encrypting many messages under one key', 'File and backup encryption', 'libsodium interoperability'],
+    pros: ['Random nonces are safe', 'Authenticated encryption', 'Constant-time in software'],
+    cons: ['Not yet an RFC', 'Slightly larger ciphertext', 'Same key for encrypt/decrypt'],
+    securityColor: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30'
+  },
   {
     id: 'rsa',
     name: 'RSA',
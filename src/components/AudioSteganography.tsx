@@ -0,0 +1,332 @@
+import { useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { journaled } from '@/lib/journal';
+import { kdfCostFromSettings } from '@/lib/settings';
+import { stegoPayloadSize, type StegoContent } from '@/lib/stego';
+import { wavInfo, wavStegoCapacity, type WavInfo } from '@/lib/wavstego';
+import { runCryptoJob } from '@/lib/workerPool';
+import { Download, FileText, Lock, Music, ShieldCheck, Unlock, Upload } from 'lucide-react';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const download = (data: Uint8Array, name: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+interface Carrier {
+  name: string;
+  bytes: Uint8Array;
+  info: WavInfo;
+}
+
+// Hides text or files in the lowest bit of the samples of a 16-bit PCM WAV
+export function AudioSteganography() {
+  const [mode, setMode] = useState<'hide' | 'reveal'>('hide');
+  const [carrier, setCarrier] = useState<Carrier | null>(null);
+  const [payloadKind, setPayloadKind] = useState<'text' | 'file'>('text');
+  const [secretText, setSecretText] = useState('');
+  const [secretFile, setSecretFile] = useState<{ name: string; type: string; data: Uint8Array } | null>(null);
+  const [password, setPassword] = useState('');
+  const [processed, setProcessed] = useState<Uint8Array | null>(null);
+  const [revealed, setRevealed] = useState<StegoContent | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const secretFileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const content = useMemo((): StegoContent | null => {
+    if (payloadKind === 'file') return secretFile && { kind: 'file', ...secretFile };
+    return secretText.trim() ? { kind: 'text', text: secretText } : null;
+  }, [payloadKind, secretText, secretFile]);
+  const capacity = carrier ? wavStegoCapacity(carrier.info) : 0;
+  const required = useMemo(
+    () => (content ? stegoPayloadSize(content, password !== '', kdfCostFromSettings()) : 0),
+    [content, password]
+  );
+  const fits = required <= capacity;
+
+  const handleAudio = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      setCarrier({ name: file.name, bytes, info: wavInfo(bytes) });
+      setProcessed(null);
+      setRevealed(null);
+    } catch (error) {
+      toast({
+        title: "Unsupported Audio",
+        description: error instanceof Error ? error.message : "Could not read the WAV file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSecretFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setSecretFile({ name: file.name, type: file.type, data: new Uint8Array(await file.arrayBuffer()) });
+    } catch (error) {
+      toast({
+        title: "Read Failed",
+        description: error instanceof Error ? error.message : "Could not read the file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleHide = async () => {
+    if (!carrier || !content) return;
+
+    setIsProcessing(true);
+    try {
+      const algorithm = `LSB 16-bit PCM${password ? ' + AES-256-GCM' : ''}`;
+      const input = content.kind === 'text' ? content.text : new File([content.data], content.name, { type: content.type });
+      const result = await journaled(
+        { tool: 'steganography', operation: content.kind === 'text' ? 'Hide text in audio' : 'Hide file in audio', algorithm, input },
+        () => runCryptoJob('embedWavPayload', [
+          carrier.bytes,
+          content,
+          { passphrase: password || undefined, cost: kdfCostFromSettings() }
+        ]),
+        output => ({ output })
+      );
+      setProcessed(result);
+      toast({
+        title: content.kind === 'text' ? "Text Hidden Successfully" : "File Hidden Successfully",
+        description: `Hidden ${formatBytes(required)} in the audio${password ? ', encrypted' : ''}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Processing Failed",
+        description: error instanceof Error ? error.message : "Failed to hide data in the audio.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!carrier) return;
+
+    setIsProcessing(true);
+    try {
+      const { content: found, encrypted } = await journaled(
+        { tool: 'steganography', operation: 'Reveal from audio', algorithm: 'LSB 16-bit PCM' },
+        () => runCryptoJob('extractWavPayload', [carrier.bytes, password || undefined]),
+        ({ content }) => ({ output: content.kind === 'text' ? content.text : content.data })
+      );
+      setRevealed(found);
+      const size = found.kind === 'text' ? new TextEncoder().encode(found.text).length : found.data.length;
+      toast({
+        title: found.kind === 'text' ? "Text Revealed" : "File Revealed",
+        description: `Found ${formatBytes(size)}${encrypted ? ', decrypted with the passphrase' : ''}; checksum verified.`,
+      });
+    } catch (error) {
+      setRevealed(null);
+      toast({
+        title: "Nothing Revealed",
+        description: error instanceof Error ? error.message : "Failed to extract data from the audio.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const downloadProcessed = () => {
+    if (!processed || !carrier) return;
+    download(processed, `hidden-${carrier.name.replace(/\.[^.]*$/, '')}.wav`, 'audio/wav');
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Music className="w-5 h-5 text-primary" />
+          Audio Steganography
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Hide messages and files in the lowest bit of each sample of an uncompressed 16-bit WAV file
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as 'hide' | 'reveal')} className="space-y-4">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="hide">
+              <Lock className="w-4 h-4 mr-2" />
+              Hide
+            </TabsTrigger>
+            <TabsTrigger value="reveal">
+              <Unlock className="w-4 h-4 mr-2" />
+              Reveal
+            </TabsTrigger>
+          </TabsList>
+
+          <div className="space-y-2">
+            <Label>WAV File</Label>
+            <Button variant="outline" className="w-full" onClick={() => audioInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              {carrier ? carrier.name : 'Choose a 16-bit PCM WAV file'}
+            </Button>
+            <input
+              ref={audioInputRef}
+              type="file"
+              accept=".wav,audio/wav,audio/x-wav,audio/wave"
+              onChange={handleAudio}
+              className="hidden"
+            />
+            {carrier && (
+              <p className="text-xs text-muted-foreground">
+                {carrier.info.channels} channel{carrier.info.channels > 1 ? 's' : ''} · {carrier.info.sampleRate.toLocaleString()} Hz · {carrier.info.duration.toFixed(1)} s · holds {formatBytes(capacity)}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="audioStegoPassword">Passphrase (Optional)</Label>
+            <Input
+              id="audioStegoPassword"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Encrypts the payload with AES-256-GCM..."
+            />
+          </div>
+
+          <TabsContent value="hide" className="space-y-4 mt-0">
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={payloadKind === 'text' ? 'default' : 'outline'}
+                onClick={() => setPayloadKind('text')}
+              >
+                <FileText className="w-4 h-4 mr-2" />
+                Text
+              </Button>
+              <Button
+                variant={payloadKind === 'file' ? 'default' : 'outline'}
+                onClick={() => setPayloadKind('file')}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                File
+              </Button>
+            </div>
+
+            {payloadKind === 'text' ? (
+              <Textarea
+                value={secretText}
+                onChange={(e) => setSecretText(e.target.value)}
+                placeholder="Enter the secret message to hide in the audio..."
+                className="monaco-editor min-h-[100px]"
+                rows={4}
+              />
+            ) : (
+              <div className="space-y-2">
+                <Button variant="outline" className="w-full" onClick={() => secretFileInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  {secretFile ? `${secretFile.name} (${formatBytes(secretFile.data.length)})` : 'Choose a file'}
+                </Button>
+                <input ref={secretFileInputRef} type="file" onChange={handleSecretFile} className="hidden" />
+              </div>
+            )}
+
+            {carrier && (
+              <div className="border rounded-lg p-4 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span>Capacity</span>
+                  <span className={fits ? 'text-muted-foreground' : 'text-red-500'}>
+                    {formatBytes(required)} of {formatBytes(capacity)}
+                  </span>
+                </div>
+                <Progress value={capacity > 0 ? Math.min(100, (required / capacity) * 100) : 100} />
+                {!fits && (
+                  <p className="text-xs text-red-500">The payload does not fit. Use a longer recording or less data.</p>
+                )}
+              </div>
+            )}
+
+            <Button
+              onClick={handleHide}
+              disabled={!carrier || !content || !fits || isProcessing}
+              className="w-full premium-button"
+            >
+              {isProcessing ? 'Processing...' : `Hide ${payloadKind === 'file' ? 'File' : 'Text'} in Audio`}
+            </Button>
+
+            {processed && (
+              <Button onClick={downloadProcessed} variant="outline" className="w-full">
+                <Download className="w-4 h-4 mr-2" />
+                Download WAV with Hidden Data
+              </Button>
+            )}
+          </TabsContent>
+
+          <TabsContent value="reveal" className="space-y-4 mt-0">
+            <Button
+              onClick={handleReveal}
+              disabled={!carrier || isProcessing}
+              className="w-full premium-button-secondary"
+            >
+              {isProcessing ? 'Processing...' : 'Reveal Hidden Data'}
+            </Button>
+
+            {revealed?.kind === 'text' && (
+              <div className="space-y-2">
+                <Label>Revealed Secret Text</Label>
+                <Textarea value={revealed.text} readOnly className="monaco-editor min-h-[100px]" rows={4} />
+              </div>
+            )}
+
+            {revealed?.kind === 'file' && (
+              <div className="border rounded-lg p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <FileText className="w-4 h-4 text-primary" />
+                  <span className="font-medium break-all">{revealed.name}</span>
+                  <Badge variant="outline" className="text-xs">{revealed.type || 'unknown type'}</Badge>
+                  <Badge className="bg-green-500/20 text-green-300 text-xs">
+                    <ShieldCheck className="w-3 h-3 mr-1" />
+                    Checksum verified
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">{formatBytes(revealed.data.length)}</p>
+                <Button
+                  onClick={() => download(revealed.data, revealed.name, revealed.type || 'application/octet-stream')}
+                  variant="outline"
+                  className="w-full"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download {revealed.name}
+                </Button>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,359 @@
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { KeyFingerprint } from '@/components/KeyFingerprint';
+import { useToast } from '@/hooks/use-toast';
+import { useContacts } from '@/hooks/use-contacts';
+import {
+  CONTACT_TRUST_NAMES,
+  addContacts,
+  exportKeyring,
+  removeContact,
+  updateContact,
+  type Contact,
+  type ContactTrust
+} from '@/lib/contacts';
+import { shortKeyId } from '@/lib/fingerprint';
+import { KEY_ALGORITHMS, keyAlgorithmOf } from '@/lib/keystore';
+import { listVaultPublicKeys } from '@/lib/vault';
+import { runCryptoJob } from '@/lib/workerPool';
+import { Users, UserPlus, Upload, Download, Trash2, FileKey, ShieldCheck, ShieldAlert, ShieldX } from 'lucide-react';
+
+const TRUST_BADGES: Record<ContactTrust, 'default' | 'secondary' | 'destructive'> = {
+  'verified': 'default',
+  'unverified': 'secondary',
+  'revoked': 'destructive',
+};
+
+export const Contacts = () => {
+  const contacts = useContacts();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+  const [notes, setNotes] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editNotes, setEditNotes] = useState('');
+  const [includeOwnKeys, setIncludeOwnKeys] = useState(true);
+  const keyFileRef = useRef<HTMLInputElement>(null);
+  const keyringFileRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const selectedContact = contacts.find(contact => contact.id === selectedId) ?? null;
+
+  const selectContact = (contact: Contact) => {
+    setSelectedId(contact.id);
+    setEditNotes(contact.notes ?? '');
+  };
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: "destructive",
+    });
+  };
+
+  const handleAddContact = async () => {
+    try {
+      const found = await runCryptoJob('contactsFromKeyMaterial', [publicKey, name]);
+      const added = addContacts(found.map(contact => ({
+        ...contact,
+        email: email.trim() || undefined,
+        notes: notes.trim() || undefined,
+      })));
+      if (added === 0) {
+        throw new Error('This key is already in your contacts.');
+      }
+
+      setName('');
+      setEmail('');
+      setPublicKey('');
+      setNotes('');
+      toast({
+        title: "Contact Added",
+        description: `${found[0].name} added. Compare fingerprints with them before marking the key verified.`,
+      });
+    } catch (error) {
+      reportError("Add Failed", error);
+    }
+  };
+
+  const handleKeyFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) setPublicKey(await file.text());
+    event.target.value = '';
+  };
+
+  const handleImportKeyring = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const found = await runCryptoJob('parseKeyring', [await file.text()]);
+      const added = addContacts(found);
+      toast({
+        title: "Keyring Imported",
+        description: `${added} new contact(s), ${found.length - added} already known. Imported keys start out unverified.`,
+      });
+    } catch (error) {
+      reportError("Import Failed", error);
+    }
+  };
+
+  const handleExportKeyring = async () => {
+    try {
+      const ownKeys = includeOwnKeys ? await listVaultPublicKeys() : [];
+      const entries = [
+        ...ownKeys.map(keyPair => ({
+          id: keyPair.id,
+          name: keyPair.owner ?? keyPair.label ?? `${KEY_ALGORITHMS[keyAlgorithmOf(keyPair)].name} key`,
+          email: keyPair.email,
+          publicKey: keyPair.publicKey,
+          algorithm: keyAlgorithmOf(keyPair),
+        })),
+        ...contacts.filter(contact => contact.trust !== 'revoked'),
+      ];
+      if (entries.length === 0) {
+        throw new Error('There are no keys to export.');
+      }
+
+      const blob = new Blob([exportKeyring(entries)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'word-lock-keyring.json';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Keyring Exported",
+        description: `${entries.length} public key(s) saved to word-lock-keyring.json.`,
+      });
+    } catch (error) {
+      reportError("Export Failed", error);
+    }
+  };
+
+  const setTrust = (contact: Contact, trust: ContactTrust) => {
+    updateContact(contact.id, { trust });
+    toast({
+      title: `Contact ${CONTACT_TRUST_NAMES[trust]}`,
+      description: trust === 'revoked'
+        ? `${contact.name}'s key will no longer be offered as a recipient.`
+        : `${contact.name}'s key is now ${CONTACT_TRUST_NAMES[trust].toLowerCase()}.`,
+    });
+  };
+
+  const handleRemoveContact = (contact: Contact) => {
+    removeContact(contact.id);
+    if (selectedId === contact.id) setSelectedId(null);
+    toast({
+      title: "Contact Removed",
+      description: `${contact.name} removed from your contacts.`,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Add Contact */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserPlus className="w-5 h-5 text-primary" />
+            Add Contact
+          </CardTitle>
+          <CardDescription>Save a teammate's public key to encrypt messages for them and verify their signatures</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="contactName">Name</Label>
+              <Input id="contactName" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Alice" />
+            </div>
+            <div>
+              <Label htmlFor="contactEmail">Email</Label>
+              <Input id="contactEmail" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <Label htmlFor="contactKey">Public Key</Label>
+              <Button size="sm" variant="ghost" onClick={() => keyFileRef.current?.click()} className="h-6 px-2">
+                <FileKey className="w-3 h-3 mr-1" />
+                Load File
+              </Button>
+              <input
+                ref={keyFileRef}
+                type="file"
+                accept=".pem,.pub,.json,.jwk,.txt"
+                onChange={handleKeyFile}
+                className="hidden"
+              />
+            </div>
+            <Textarea
+              id="contactKey"
+              value={publicKey}
+              onChange={(e) => setPublicKey(e.target.value)}
+              placeholder="Paste a PEM public key, JWK, OpenSSH public key or Base64 SPKI..."
+              className="min-h-[100px] font-mono text-sm"
+            />
+          </div>
+          <div>
+            <Label htmlFor="contactNotes">Notes</Label>
+            <Input id="contactNotes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Where the key came from" />
+          </div>
+          <Button onClick={handleAddContact} disabled={!publicKey.trim()}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Add Contact
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Team Keyring */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-secondary" />
+            Team Keyring
+          </CardTitle>
+          <CardDescription>Share public keys with your team as a single file</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Switch id="includeOwnKeys" checked={includeOwnKeys} onCheckedChange={setIncludeOwnKeys} />
+            <Label htmlFor="includeOwnKeys">Include my own public keys</Label>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => keyringFileRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import Keyring
+            </Button>
+            <input
+              ref={keyringFileRef}
+              type="file"
+              accept=".json,.jwks,.pem,.pub,.txt"
+              onChange={handleImportKeyring}
+              className="hidden"
+            />
+            <Button variant="outline" onClick={handleExportKeyring}>
+              <Download className="w-4 h-4 mr-2" />
+              Export Keyring
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Contact List */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Contacts ({contacts.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {contacts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Users className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No contacts yet. Add a teammate's public key or import a keyring.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {contacts.map(contact => (
+                <div key={contact.id} className="border rounded-lg p-4 flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{contact.name}</span>
+                      {contact.email && <span className="text-xs text-muted-foreground">&lt;{contact.email}&gt;</span>}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={TRUST_BADGES[contact.trust]} className="text-xs">{CONTACT_TRUST_NAMES[contact.trust]}</Badge>
+                      <Badge variant="outline" className="text-xs">{KEY_ALGORITHMS[contact.algorithm].name}</Badge>
+                      <Badge variant="outline" className="font-mono text-xs">{shortKeyId(contact.id)}</Badge>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => selectContact(contact)}>
+                      {selectedId === contact.id ? 'Selected' : 'Details'}
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => handleRemoveContact(contact)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Contact Details */}
+      {selectedContact && (
+        <Card className="glass-card border-primary/20">
+          <CardHeader>
+            <CardTitle>{selectedContact.name}</CardTitle>
+            <CardDescription>
+              {KEY_ALGORITHMS[selectedContact.algorithm].name} · {selectedContact.keySize} bits · added {new Date(selectedContact.added).toLocaleDateString()}
+              {selectedContact.verifiedAt && ` · verified ${new Date(selectedContact.verifiedAt).toLocaleDateString()}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Ask {selectedContact.name} to read out their fingerprint or show their emoji words, and mark the key
+              verified only if they match.
+            </p>
+            <KeyFingerprint
+              publicKey={selectedContact.publicKey}
+              title={`${selectedContact.algorithm} ${selectedContact.keySize}`}
+            />
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => setTrust(selectedContact, 'verified')} disabled={selectedContact.trust === 'verified'}>
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Mark Verified
+              </Button>
+              <Button variant="outline" onClick={() => setTrust(selectedContact, 'unverified')} disabled={selectedContact.trust === 'unverified'}>
+                <ShieldAlert className="w-4 h-4 mr-2" />
+                Mark Unverified
+              </Button>
+              <Button variant="destructive" onClick={() => setTrust(selectedContact, 'revoked')} disabled={selectedContact.trust === 'revoked'}>
+                <ShieldX className="w-4 h-4 mr-2" />
+                Revoke
+              </Button>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="contactEditNotes">Notes</Label>
+              <Textarea
+                id="contactEditNotes"
+                value={editNotes}
+                onChange={(e) => setEditNotes(e.target.value)}
+                rows={3}
+              />
+              <Button
+                variant="outline"
+                onClick={() => updateContact(selectedContact.id, { notes: editNotes.trim() || undefined })}
+                disabled={editNotes === (selectedContact.notes ?? '')}
+              >
+                Save Notes
+              </Button>
+            </div>
+
+            <div>
+              <Label>Public Key</Label>
+              <Textarea value={selectedContact.publicKey} readOnly className="font-mono text-xs" rows={4} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
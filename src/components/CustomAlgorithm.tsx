@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Code, Play, Save, Trash2, BookOpen, Lightbulb, Cpu } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { recordOperation } from '@/lib/journal';
 
 interface CustomAlgorithmProps {}
 
@@ -181,6 +182,13 @@ export function CustomAlgorithm() {
     }
 
     setIsExecuting(true);
+    const record = {
+      tool: 'custom',
+      operation: testMode === 'encrypt' ? 'Encrypt' : 'Decrypt',
+      algorithm: algorithmName.trim() || 'Untitled algorithm',
+      input: text,
+      startedAt: Date.now()
+    } as const;
     
     try {
       // Parse parameters
@@ -199,6 +207,7 @@ export function CustomAlgorithm() {
       
       const result = executeCode(text, parsedParams);
       setTestOutput(result || '');
+      void recordOperation({ ...record, output: String(result ?? '') });
       
       toast({
         title: "Code Executed",
@@ -206,6 +215,7 @@ export function CustomAlgorithm() {
       });
     } catch (error) {
       setTestOutput(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      void recordOperation({ ...record, error });
       toast({
         title: "Execution Error",
         description: "Failed to execute the algorithm code. Check your syntax.",
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -6,9 +6,19 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Copy, Download, RotateCcw, Shield, Key, Hash, Code, Eye, EyeOff, Lock, Unlock } from 'lucide-react';
+import { Copy, Download, RotateCcw, Shield, Key, Hash, Code, Eye, EyeOff, Lock, Unlock, Zap } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { encryptAES256, decryptAES256, encryptRSA, decryptRSA, analyzePasswordStrength } from '@/lib/crypto';
+import { analyzePasswordStrength } from '@/lib/crypto';
+import { isAbortError } from '@/lib/workerPool';
+import { useCryptoJob } from '@/hooks/use-crypto-job';
+import { useContacts } from '@/hooks/use-contacts';
+import { CONTACT_TRUST_NAMES } from '@/lib/contacts';
+import { ENVELOPE_ALGORITHMS, detectEnvelopeAlgorithm, type EnvelopeAlgorithm } from '@/lib/envelope';
+import { shortKeyId } from '@/lib/fingerprint';
+import { recordOperation, type JournalRecord } from '@/lib/journal';
+import { canUseKeyFor, keyAlgorithmOf } from '@/lib/keystore';
+import { kdfCostFromSettings } from '@/lib/settings';
+import { getVaultKeyPairs, listVaultPublicKeys, type VaultPublicKey } from '@/lib/vault';
 
 interface EncryptionCardProps {
   mode: 'encrypt' | 'decrypt';
@@ -24,6 +34,22 @@ const algorithms = [
     security: 'Very High',
     color: 'bg-emerald-500/20 text-emerald-300'
   },
+  { 
+    id: 'chacha20', 
+    name: 'ChaCha20-Poly1305', 
+    icon: Zap,
+    description: 'RFC 8439 stream cipher with Poly1305 authentication',
+    security: 'Very High',
+    color: 'bg-emerald-500/20 text-emerald-300'
+  },
+  { 
+    id: 'xchacha20', 
+    name: 'XChaCha20-Poly1305', 
+    icon: Zap,
+    description: 'ChaCha20-Poly1305 with extended 192-bit random nonces',
+    security: 'Very High',
+    color: 'bg-emerald-500/20 text-emerald-300'
+  },
   { 
     id: 'rsa', 
     name: 'RSA', 
@@ -66,6 +92,18 @@ const algorithms = [
   },
 ];
 
+// Algorithms keyed by a password rather than an RSA key pair
+const passwordAlgorithms = ['aes256', 'chacha20', 'xchacha20'];
+
+const envelopeAlgorithmIds: Partial<Record<EnvelopeAlgorithm, string>> = {
+  'aes-256-gcm': 'aes256',
+  'chacha20-legacy': 'chacha20',
+  'chacha20-poly1305': 'chacha20',
+  'xchacha20-poly1305': 'xchacha20',
+  'rsa-oaep': 'rsa',
+  'hybrid-rsa': 'rsa',
+};
+
 export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
   const [inputText, setInputText] = useState('');
   const [outputText, setOutputText] = useState('');
@@ -75,12 +113,17 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
   const [aesPassword, setAesPassword] = useState('');
   const [rsaPublicKey, setRsaPublicKey] = useState('');
   const [rsaPrivateKey, setRsaPrivateKey] = useState('');
+  const contacts = useContacts();
   const [showPassword, setShowPassword] = useState(false);
   const [passwordStrength, setPasswordStrength] = useState<any>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const { toast } = useToast();
+  // The outcome of the latest run, journaled once the user acts on it
+  const settledRecord = useRef<JournalRecord | null>(null);
+  const { run: runJob } = useCryptoJob();
 
   const selectedAlgorithm = algorithms.find(a => a.id === algorithm);
+  const detectedEnvelope = mode === 'decrypt' ? detectEnvelopeAlgorithm(inputText) : null;
 
   // Legacy encryption functions for backward compatibility
   const caesarCipher = (text: string, shift: number, decrypt: boolean = false) => {
@@ -130,16 +173,47 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
   };
 
   const processText = async () => {
+    settledRecord.current = null;
     if (!inputText.trim()) {
       setOutputText('');
       return;
     }
 
     setIsProcessing(true);
+    let superseded = false;
+    const record: JournalRecord = {
+      tool: 'standard',
+      operation: mode === 'encrypt' ? 'Encrypt' : 'Decrypt',
+      algorithm: detectedEnvelope ? ENVELOPE_ALGORITHMS[detectedEnvelope].name : selectedAlgorithm?.name ?? algorithm,
+      input: inputText,
+      startedAt: Date.now()
+    };
     try {
       let result = '';
       const isDecrypt = mode === 'decrypt';
 
+      if (detectedEnvelope) {
+        const { secret, name } = ENVELOPE_ALGORITHMS[detectedEnvelope];
+        if (secret === 'password' && !aesPassword) {
+          setOutputText(`Password required for ${name} decryption`);
+          setIsProcessing(false);
+          return;
+        }
+        if (secret === 'privateKey' && !rsaPrivateKey) {
+          setOutputText(`Private key required for ${name} decryption`);
+          setIsProcessing(false);
+          return;
+        }
+        result = await runJob('decryptEnvelope', [inputText, { password: aesPassword, privateKey: rsaPrivateKey }]);
+        setOutputText(result);
+        settledRecord.current = { ...record, output: result };
+        toast({
+          title: "Decryption Successful",
+          description: `Text processed using ${name}.`,
+        });
+        return;
+      }
+
       switch (algorithm) {
         case 'aes256':
           if (!aesPassword) {
@@ -148,10 +222,24 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
             return;
           }
           if (mode === 'encrypt') {
-            const encrypted = await encryptAES256(inputText, aesPassword);
+            const encrypted = await runJob('encryptAES256', [inputText, aesPassword, kdfCostFromSettings()]);
             result = encrypted.encrypted;
           } else {
-            result = await decryptAES256(inputText, aesPassword);
+            result = await runJob('decryptAES256', [inputText, aesPassword]);
+          }
+          break;
+        case 'chacha20':
+        case 'xchacha20':
+          if (!aesPassword) {
+            setOutputText(`Password required for ${selectedAlgorithm?.name} encryption`);
+            setIsProcessing(false);
+            return;
+          }
+          if (mode === 'encrypt') {
+            const op = algorithm === 'xchacha20' ? 'encryptXChaCha20' : 'encryptChaCha20';
+            result = (await runJob(op, [inputText, aesPassword, kdfCostFromSettings()])).encrypted;
+          } else {
+            result = await runJob('decryptChaCha20', [inputText, aesPassword]);
           }
           break;
         case 'rsa':
@@ -161,14 +249,14 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
               setIsProcessing(false);
               return;
             }
-            result = await encryptRSA(inputText, rsaPublicKey);
+            result = await runJob('encryptRSA', [inputText, rsaPublicKey]);
           } else {
             if (!rsaPrivateKey) {
               setOutputText('Private key required for RSA decryption');
               setIsProcessing(false);
               return;
             }
-            result = await decryptRSA(inputText, rsaPrivateKey);
+            result = await runJob('decryptRSA', [inputText, rsaPrivateKey]);
           }
           break;
         case 'caesar':
@@ -188,11 +276,18 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
       }
 
       setOutputText(result);
+      settledRecord.current = { ...record, output: result };
       toast({
         title: `${mode === 'encrypt' ? 'Encryption' : 'Decryption'} Successful`,
         description: `Text processed using ${algorithms.find(a => a.id === algorithm)?.name}.`,
       });
     } catch (error) {
+      // A newer keystroke superseded this run
+      if (isAbortError(error)) {
+        superseded = true;
+        return;
+      }
+      settledRecord.current = { ...record, error };
       setOutputText('Error: Invalid input or operation failed');
       toast({
         title: "Processing Error",
@@ -200,7 +295,7 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
+      if (!superseded) setIsProcessing(false);
     }
   };
 
@@ -213,13 +308,32 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
     }
   }, [aesPassword]);
 
+  // Pasted envelopes describe their own algorithm; show the matching key inputs
+  useEffect(() => {
+    if (detectedEnvelope) {
+      setAlgorithm(
+        envelopeAlgorithmIds[detectedEnvelope] ??
+        (ENVELOPE_ALGORITHMS[detectedEnvelope].secret === 'password' ? 'aes256' : 'rsa')
+      );
+    }
+  }, [detectedEnvelope]);
+
   // Auto-process when inputs change
   useEffect(() => {
     const timeoutId = setTimeout(processText, 300);
     return () => clearTimeout(timeoutId);
   }, [inputText, algorithm, caesarShift, xorPassword, aesPassword, rsaPublicKey, rsaPrivateKey, mode]);
 
+  // Auto-processing runs on every pause in typing, so a journal entry per
+  // run would hold fingerprints of each partial input and password attempt.
+  // Only the result the user copies or downloads is journaled, once.
+  const journalSettledResult = () => {
+    if (settledRecord.current) void recordOperation(settledRecord.current);
+    settledRecord.current = null;
+  };
+
   const handleCopy = async () => {
+    journalSettledResult();
     try {
       await navigator.clipboard.writeText(outputText);
       toast({
@@ -245,6 +359,7 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
   };
 
   const handleDownload = () => {
+    journalSettledResult();
     const blob = new Blob([outputText], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -256,30 +371,32 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
     URL.revokeObjectURL(url);
   };
 
-  const loadFromLocalStorage = (keyType: 'public' | 'private') => {
-    const savedKeys = localStorage.getItem('rsa-keypairs');
-    if (savedKeys) {
-      try {
-        const keyPairs = JSON.parse(savedKeys);
-        if (keyPairs.length > 0) {
-          const latestKey = keyPairs[0];
-          if (keyType === 'public') {
-            setRsaPublicKey(latestKey.publicKey);
-          } else {
-            setRsaPrivateKey(latestKey.privateKey);
-          }
-          toast({
-            title: "Key Loaded",
-            description: `${keyType === 'public' ? 'Public' : 'Private'} key loaded from Key Manager.`,
-          });
-        }
-      } catch (error) {
-        toast({
-          title: "Load Failed",
-          description: "No keys found. Generate keys in the Key Manager first.",
-          variant: "destructive",
-        });
+  // Revoked contacts are never offered as recipients
+  const rsaContacts = contacts.filter(contact => contact.algorithm === 'RSA-OAEP' && contact.trust !== 'revoked');
+
+  // Public keys can be read while the vault is locked; private keys cannot
+  const loadFromVault = async (keyType: 'public' | 'private') => {
+    try {
+      const isRsaKey = (keyPair: VaultPublicKey) => keyAlgorithmOf(keyPair) === 'RSA-OAEP';
+      if (keyType === 'public') {
+        const latestKey = (await listVaultPublicKeys()).find(keyPair => isRsaKey(keyPair) && canUseKeyFor(keyPair, 'encrypt'));
+        if (!latestKey) throw new Error('No RSA-OAEP keys found. Generate keys in the Key Vault first.');
+        setRsaPublicKey(latestKey.publicKey);
+      } else {
+        const latestKey = (await getVaultKeyPairs()).find(isRsaKey);
+        if (!latestKey) throw new Error('No RSA-OAEP keys found. Generate keys in the Key Vault first.');
+        setRsaPrivateKey(latestKey.privateKey);
       }
+      toast({
+        title: "Key Loaded",
+        description: `${keyType === 'public' ? 'Public' : 'Private'} key loaded from the Key Vault.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Load Failed",
+        description: error instanceof Error ? error.message : "Could not read the Key Vault.",
+        variant: "destructive",
+      });
     }
   };
 
@@ -345,9 +462,9 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
         </div>
 
         {/* Algorithm-specific Settings */}
-        {algorithm === 'aes256' && (
+        {passwordAlgorithms.includes(algorithm) && (
           <div className="space-y-2">
-            <Label htmlFor="aesPassword">AES-256 Password</Label>
+            <Label htmlFor="aesPassword">{selectedAlgorithm?.name} Password</Label>
             <div className="relative">
               <Input
                 id="aesPassword"
@@ -408,12 +525,30 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => loadFromLocalStorage('public')}
+                    onClick={() => loadFromVault('public')}
                     className="text-xs"
                   >
-                    Load from Key Manager
+                    Load from Key Vault
                   </Button>
                 </div>
+                {rsaContacts.length > 0 && (
+                  <Select
+                    value={rsaContacts.find(contact => contact.publicKey === rsaPublicKey)?.id ?? ''}
+                    onValueChange={(id) => setRsaPublicKey(rsaContacts.find(contact => contact.id === id)?.publicKey ?? '')}
+                  >
+                    <SelectTrigger className="mb-2">
+                      <SelectValue placeholder="Encrypt for a contact..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rsaContacts.map(contact => (
+                        <SelectItem key={contact.id} value={contact.id}>
+                          {contact.name} · {shortKeyId(contact.id)}
+                          {contact.trust !== 'verified' && ` · ${CONTACT_TRUST_NAMES[contact.trust].toLowerCase()}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <Textarea
                   id="rsaPublicKey"
                   placeholder="Paste RSA public key here..."
@@ -423,7 +558,7 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
                   rows={4}
                 />
                 <p className="text-xs text-muted-foreground mt-1">
-                  Use the Key Manager tab to generate or import RSA keys
+                  Use the Key Vault to generate RSA keys or add contacts' public keys
                 </p>
               </div>
             ) : (
@@ -433,10 +568,10 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => loadFromLocalStorage('private')}
+                    onClick={() => loadFromVault('private')}
                     className="text-xs"
                   >
-                    Load from Key Manager
+                    Load from Key Vault
                   </Button>
                 </div>
                 <Textarea
@@ -497,8 +632,13 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
             className="monaco-editor min-h-[120px] resize-none"
             rows={6}
           />
-          <div className="text-xs text-muted-foreground">
-            {inputText.length} characters
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{inputText.length} characters</span>
+            {detectedEnvelope && (
+              <Badge variant="outline" className="text-xs">
+                Detected {ENVELOPE_ALGORITHMS[detectedEnvelope].name} envelope
+              </Badge>
+            )}
           </div>
         </div>
 
@@ -530,6 +670,9 @@ export function EncryptionCard({ mode, onModeChange }: EncryptionCardProps) {
               {algorithm === 'aes256' && outputText && (
                 <span className="ml-2">• AES-256-GCM encrypted</span>
               )}
+              {(algorithm === 'chacha20' || algorithm === 'xchacha20') && outputText && (
+                <span className="ml-2">• {selectedAlgorithm?.name} encrypted</span>
+              )}
               {algorithm === 'rsa' && outputText && (
                 <span className="ml-2">• RSA-OAEP encrypted</span>
               )}
@@ -0,0 +1,442 @@
+import { useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import {
+  checkChecksums,
+  checksumManifestName,
+  findChecksumFile,
+  formatChecksumManifest,
+  parseChecksumManifest,
+  type ChecksumEntry,
+  type ChecksumStatus,
+  type FileDigests
+} from '@/lib/checksums';
+import { HASH_ALGORITHMS, type HashAlgorithm } from '@/lib/hashes';
+import { recordOperation } from '@/lib/journal';
+import { saveStream } from '@/lib/stream';
+import { isAbortError, runCryptoJob } from '@/lib/workerPool';
+import { CheckCircle, Copy, Download, FileCheck, Upload, X, XCircle } from 'lucide-react';
+
+interface ChecksumFile {
+  id: string;
+  file: File;
+  // Folder-relative path for folder uploads, otherwise the file name
+  path: string;
+  progress: number;
+  digests: FileDigests;
+  error?: string;
+}
+
+interface LoadedManifest {
+  name: string;
+  text: string;
+}
+
+const ALGORITHMS = Object.keys(HASH_ALGORITHMS) as HashAlgorithm[];
+
+const STATUS_LABELS: Record<ChecksumStatus | 'pending', string> = {
+  ok: 'OK',
+  failed: 'FAILED',
+  missing: 'Missing',
+  pending: 'Not hashed'
+};
+
+const formatFileSize = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unitIndex = 0;
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+  return `${size.toFixed(1)} ${units[unitIndex]}`;
+};
+
+// Hashes dropped files of any size in the worker pool, several algorithms in
+// one read of each file, and writes or checks sha256sum-style manifests
+export const FileChecksums = () => {
+  const [files, setFiles] = useState<ChecksumFile[]>([]);
+  const [algorithms, setAlgorithms] = useState<HashAlgorithm[]>(['SHA-256']);
+  const [manifest, setManifest] = useState<LoadedManifest | null>(null);
+  const [manifestAlgorithm, setManifestAlgorithm] = useState<HashAlgorithm | 'auto'>('auto');
+  const [isHashing, setIsHashing] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const manifestInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const parsedManifest = useMemo(() => {
+    if (!manifest) return null;
+    try {
+      const algorithm = manifestAlgorithm === 'auto' ? undefined : manifestAlgorithm;
+      return { ...parseChecksumManifest(manifest.text, manifest.name, algorithm), error: null };
+    } catch (error) {
+      return { entries: [], invalidLines: [], error: error instanceof Error ? error.message : 'Invalid manifest' };
+    }
+  }, [manifest, manifestAlgorithm]);
+
+  const entries = parsedManifest?.entries ?? [];
+  const fileForEntry = (entry: ChecksumEntry, fileList = files) => findChecksumFile(entry.name, fileList);
+  const checks = checkChecksums(entries, entry => fileForEntry(entry)?.digests);
+
+  // The selected algorithms plus whatever the manifest lists the file under
+  const missingAlgorithms = (item: ChecksumFile, fileList: ChecksumFile[]) => {
+    const wanted = new Set(algorithms);
+    for (const entry of entries) {
+      if (fileForEntry(entry, fileList)?.id === item.id) wanted.add(entry.algorithm);
+    }
+    return [...wanted].filter(algorithm => !item.digests[algorithm]);
+  };
+
+  const updateFile = (id: string, changes: (item: ChecksumFile) => Partial<ChecksumFile>) => {
+    setFiles(prev => prev.map(item => (item.id === id ? { ...item, ...changes(item) } : item)));
+  };
+
+  // Each file is its own pool job, so several files are hashed in parallel
+  const hashFiles = async (fileList: ChecksumFile[]) => {
+    const jobs = fileList
+      .map(item => ({ item, pending: missingAlgorithms(item, fileList) }))
+      .filter(({ pending }) => pending.length > 0);
+    if (jobs.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsHashing(true);
+    try {
+      await Promise.all(jobs.map(async ({ item, pending }) => {
+        updateFile(item.id, () => ({ progress: 0, error: undefined }));
+        const record = { tool: 'hash', operation: 'Hash file', algorithm: pending.join(', ') } as const;
+        const startedAt = Date.now();
+        try {
+          const digests = await runCryptoJob('hashFile', [item.file, pending], {
+            signal: controller.signal,
+            onProgress: fraction => updateFile(item.id, () => ({ progress: fraction }))
+          });
+          updateFile(item.id, current => ({ digests: { ...current.digests, ...digests }, progress: 1 }));
+          // Spares the journal a second read when SHA-256 was one of them
+          const sha256 = digests['SHA-256'] ?? item.digests['SHA-256'];
+          const input = sha256 ? { sha256, bytes: item.file.size, preview: item.path } : item.file;
+          void recordOperation({ ...record, startedAt, input });
+        } catch (error) {
+          if (!isAbortError(error)) {
+            updateFile(item.id, () => ({ error: error instanceof Error ? error.message : 'Could not read the file' }));
+            void recordOperation({ ...record, startedAt, error });
+          }
+        }
+      }));
+    } finally {
+      abortRef.current = null;
+      setIsHashing(false);
+    }
+  };
+
+  const addFiles = (selected: File[]) => {
+    if (selected.length === 0) return;
+    const added = selected.map(file => ({
+      id: Date.now().toString() + Math.random().toString(36).slice(2, 11),
+      file,
+      path: file.webkitRelativePath || file.name,
+      progress: 0,
+      digests: {}
+    }));
+    const fileList = [...files, ...added];
+    setFiles(fileList);
+    hashFiles(fileList);
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === "dragenter" || e.type === "dragover") {
+      setDragActive(true);
+    } else if (e.type === "dragleave") {
+      setDragActive(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+    if (!isHashing) addFiles([...e.dataTransfer.files]);
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles([...(e.target.files ?? [])]);
+    e.target.value = '';
+  };
+
+  const handleManifestInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setManifest({ name: file.name, text: await file.text() });
+    setManifestAlgorithm('auto');
+  };
+
+  const toggleAlgorithm = (algorithm: HashAlgorithm, checked: boolean) => {
+    setAlgorithms(prev => (checked ? ALGORITHMS.filter(a => a === algorithm || prev.includes(a)) : prev.filter(a => a !== algorithm)));
+  };
+
+  const removeFile = (id: string) => setFiles(prev => prev.filter(item => item.id !== id));
+
+  const handleClear = () => {
+    abortRef.current?.abort();
+    setFiles([]);
+    setManifest(null);
+  };
+
+  const handleCopy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied to Clipboard",
+      description: "Hash value copied successfully.",
+    });
+  };
+
+  const handleDownloadManifest = async (algorithm: HashAlgorithm) => {
+    const text = formatChecksumManifest(files.map(item => ({ name: item.path, digest: item.digests[algorithm]! })));
+    try {
+      await saveStream(new Blob([text]).stream(), checksumManifestName(algorithm));
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Could not save the manifest.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // A file passes when every manifest line for it matches
+  const fileStatus = (item: ChecksumFile): ChecksumStatus | 'pending' | null => {
+    const own = checks.filter(check => fileForEntry(check)?.id === item.id);
+    if (own.length === 0) return null;
+    if (own.some(check => check.status === 'failed')) return 'failed';
+    return own.every(check => check.status === 'ok') ? 'ok' : 'pending';
+  };
+
+  const passed = checks.filter(check => check.status === 'ok').length;
+  const failed = checks.filter(check => check.status === 'failed').length;
+  const unlisted = checks.filter(check => check.status === 'missing' && !fileForEntry(check));
+  const allHashed = (algorithm: HashAlgorithm) => files.length > 0 && files.every(item => item.digests[algorithm]);
+  const needsHashing = files.some(item => missingAlgorithms(item, files).length > 0);
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCheck className="w-5 h-5 text-primary" />
+          File Checksums
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label>Algorithms</Label>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+            {ALGORITHMS.map(algorithm => (
+              <div key={algorithm} className="flex items-center gap-2">
+                <Checkbox
+                  id={`checksum-${algorithm}`}
+                  checked={algorithms.includes(algorithm)}
+                  onCheckedChange={(checked) => toggleAlgorithm(algorithm, checked === true)}
+                />
+                <Label htmlFor={`checksum-${algorithm}`} className="flex items-center gap-2 font-normal">
+                  {HASH_ALGORITHMS[algorithm].name}
+                  {HASH_ALGORITHMS[algorithm].insecure && <Badge variant="destructive" className="text-xs">Insecure</Badge>}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div
+          className={`relative border-2 border-dashed rounded-lg p-6 text-center transition-all duration-300 ${
+            dragActive ? 'border-primary bg-primary/5' : 'border-border/50 hover:border-border'
+          }`}
+          onDragEnter={handleDrag}
+          onDragLeave={handleDrag}
+          onDragOver={handleDrag}
+          onDrop={handleDrop}
+        >
+          <Upload className="w-6 h-6 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-sm font-medium">
+            Drop files here, or{' '}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isHashing}
+              className="text-primary hover:text-primary-glow underline"
+            >
+              browse
+            </button>
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Files of any size are read in pieces; nothing leaves your browser.
+          </p>
+          <input ref={fileInputRef} type="file" multiple onChange={handleFileInput} className="hidden" />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => manifestInputRef.current?.click()}>
+            <FileCheck className="w-4 h-4 mr-2" />
+            Verify Against Manifest
+          </Button>
+          <input ref={manifestInputRef} type="file" onChange={handleManifestInput} className="hidden" />
+          {needsHashing && !isHashing && (
+            <Button variant="outline" onClick={() => hashFiles(files)}>
+              Hash Files
+            </Button>
+          )}
+          {isHashing && (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          )}
+          {(files.length > 0 || manifest) && (
+            <Button variant="ghost" onClick={handleClear}>
+              Clear All
+            </Button>
+          )}
+        </div>
+
+        {manifest && parsedManifest && (
+          <div className="border rounded-lg p-3 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{manifest.name}</span>
+                <Badge variant="outline">{entries.length} file(s)</Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select value={manifestAlgorithm} onValueChange={(value) => setManifestAlgorithm(value as HashAlgorithm | 'auto')}>
+                  <SelectTrigger className="w-40 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Detect algorithm</SelectItem>
+                    {ALGORITHMS.map(algorithm => (
+                      <SelectItem key={algorithm} value={algorithm}>{HASH_ALGORITHMS[algorithm].name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" variant="ghost" onClick={() => setManifest(null)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {parsedManifest.error ? (
+              <Alert variant="destructive">
+                <AlertDescription>{parsedManifest.error}</AlertDescription>
+              </Alert>
+            ) : (
+              <>
+                <p className="text-sm">
+                  <span className="text-green-600">{passed} passed</span>
+                  {' • '}
+                  <span className={failed > 0 ? 'text-red-600' : 'text-muted-foreground'}>{failed} failed</span>
+                  {' • '}
+                  <span className="text-muted-foreground">{unlisted.length} not provided</span>
+                </p>
+                {parsedManifest.invalidLines.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Skipped unreadable line(s) {parsedManifest.invalidLines.join(', ')}.
+                  </p>
+                )}
+                {unlisted.length > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    <p>Add these files to check them:</p>
+                    <ul className="font-mono break-all">
+                      {unlisted.slice(0, 20).map(check => <li key={check.name}>{check.name}</li>)}
+                      {unlisted.length > 20 && <li>and {unlisted.length - 20} more</li>}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {files.length > 0 && (
+          <div className="space-y-3">
+            {files.map(item => {
+              const status = fileStatus(item);
+              const shown = ALGORITHMS.filter(algorithm => item.digests[algorithm] && (algorithms.includes(algorithm) || status));
+              return (
+                <div key={item.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{item.path}</p>
+                      <p className="text-xs text-muted-foreground">{formatFileSize(item.file.size)}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {status && (
+                        <Badge variant={status === 'ok' ? 'default' : status === 'failed' ? 'destructive' : 'outline'}>
+                          {status === 'ok' && <CheckCircle className="w-3 h-3 mr-1" />}
+                          {status === 'failed' && <XCircle className="w-3 h-3 mr-1" />}
+                          {STATUS_LABELS[status]}
+                        </Badge>
+                      )}
+                      {manifest && !status && !parsedManifest?.error && <Badge variant="outline">Not in manifest</Badge>}
+                      <Button size="sm" variant="ghost" onClick={() => removeFile(item.id)} disabled={isHashing} className="h-6 px-2">
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {item.error ? (
+                    <p className="text-xs text-red-600">{item.error}</p>
+                  ) : item.progress < 1 && isHashing ? (
+                    <Progress value={item.progress * 100} className="h-2" />
+                  ) : null}
+
+                  {shown.map(algorithm => {
+                    const expected = checks.find(check => check.algorithm === algorithm && fileForEntry(check)?.id === item.id);
+                    return (
+                      <div key={algorithm} className="flex items-start gap-2">
+                        <Badge variant="outline" className="text-xs shrink-0">{HASH_ALGORITHMS[algorithm].name}</Badge>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs font-mono break-all">{item.digests[algorithm]}</p>
+                          {expected?.status === 'failed' && (
+                            <p className="text-xs font-mono break-all text-red-600">expected {expected.digest}</p>
+                          )}
+                        </div>
+                        <Button size="sm" variant="ghost" onClick={() => handleCopy(item.digests[algorithm]!)} className="h-6 px-2">
+                          <Copy className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {algorithms.map(algorithm => (
+              <Button
+                key={algorithm}
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownloadManifest(algorithm)}
+                disabled={!allHashed(algorithm)}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {checksumManifestName(algorithm)}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,11 +7,14 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { FileChecksums } from '@/components/FileChecksums';
+import { HmacToolbox } from '@/components/HmacToolbox';
 import { useToast } from '@/hooks/use-toast';
-import { hashSHA256, hashSHA512, hashMD5, generateHMAC } from '@/lib/crypto';
-import { Hash, Copy, CheckCircle, XCircle, Shield, Key } from 'lucide-react';
-
-type HashAlgorithm = 'sha256' | 'sha512' | 'md5' | 'hmac';
+import { HASH_ALGORITHMS, hashAlgorithmsForDigest, type HashAlgorithm } from '@/lib/hashes';
+import { recordOperation, type JournalRecord } from '@/lib/journal';
+import { runCryptoJob } from '@/lib/workerPool';
+import { Hash, Copy, CheckCircle, XCircle, Shield, Key, AlertTriangle } from 'lucide-react';
 
 interface HashResult {
   algorithm: HashAlgorithm;
@@ -22,47 +25,31 @@ interface HashResult {
 
 export const HashSuite = () => {
   const [inputText, setInputText] = useState('');
-  const [selectedAlgorithm, setSelectedAlgorithm] = useState<HashAlgorithm>('sha256');
-  const [hmacSecret, setHmacSecret] = useState('');
+  const [selectedAlgorithm, setSelectedAlgorithm] = useState<HashAlgorithm>('SHA-256');
   const [hashResult, setHashResult] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [hashHistory, setHashHistory] = useState<HashResult[]>([]);
   const [verificationHash, setVerificationHash] = useState('');
   const [verificationResult, setVerificationResult] = useState<boolean | null>(null);
   const { toast } = useToast();
+  // The latest hash, journaled once the user asks for it or copies it
+  const settledRecord = useRef<JournalRecord | null>(null);
 
-  const algorithms = [
-    {
-      id: 'sha256' as const,
-      name: 'SHA-256',
-      description: 'Secure Hash Algorithm 256-bit',
-      security: 'High',
-      color: 'text-green-600'
-    },
-    {
-      id: 'sha512' as const,
-      name: 'SHA-512',
-      description: 'Secure Hash Algorithm 512-bit',
-      security: 'Very High',
-      color: 'text-emerald-600'
-    },
-    {
-      id: 'md5' as const,
-      name: 'MD5',
-      description: 'Message Digest 5 (Legacy)',
-      security: 'Low',
-      color: 'text-orange-600'
-    },
-    {
-      id: 'hmac' as const,
-      name: 'HMAC-SHA256',
-      description: 'Hash-based Message Authentication Code',
-      security: 'High',
-      color: 'text-blue-600'
-    }
-  ];
+  const algorithms = (Object.keys(HASH_ALGORITHMS) as HashAlgorithm[]).map(id => {
+    const { name, description, bits, insecure } = HASH_ALGORITHMS[id];
+    return { id, name, description, security: insecure ? 'Insecure' : bits >= 384 ? 'Very High' : 'High' };
+  });
+
+  // Hashing also runs on every pause in typing; journaling each of those runs
+  // would store a fingerprint of every prefix of the input, so only explicit
+  // runs and copied results are journaled
+  const journalSettledResult = () => {
+    if (settledRecord.current) void recordOperation(settledRecord.current);
+    settledRecord.current = null;
+  };
 
-  const processHash = async () => {
+  const processHash = async (journal = false) => {
+    settledRecord.current = null;
     if (!inputText.trim()) {
       toast({
         title: "Input Required",
@@ -72,33 +59,12 @@ export const HashSuite = () => {
       return;
     }
 
-    if (selectedAlgorithm === 'hmac' && !hmacSecret.trim()) {
-      toast({
-        title: "Secret Required",
-        description: "HMAC requires a secret key.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsProcessing(true);
+    const record: JournalRecord = { tool: 'hash', operation: 'Hash text', algorithm: selectedAlgorithm, input: inputText, startedAt: Date.now() };
     try {
-      let result = '';
-      
-      switch (selectedAlgorithm) {
-        case 'sha256':
-          result = await hashSHA256(inputText);
-          break;
-        case 'sha512':
-          result = await hashSHA512(inputText);
-          break;
-        case 'md5':
-          result = hashMD5(inputText);
-          break;
-        case 'hmac':
-          result = await generateHMAC(inputText, hmacSecret);
-          break;
-      }
+      const result = await runCryptoJob('hashText', [selectedAlgorithm, inputText]);
+      settledRecord.current = { ...record, output: result };
+      if (journal) journalSettledResult();
       
       setHashResult(result);
       
@@ -117,6 +83,7 @@ export const HashSuite = () => {
         description: `${algorithms.find(a => a.id === selectedAlgorithm)?.name} hash created successfully.`,
       });
     } catch (error) {
+      if (journal) void recordOperation({ ...record, error });
       toast({
         title: "Hash Generation Failed",
         description: "An error occurred while generating the hash.",
@@ -128,6 +95,7 @@ export const HashSuite = () => {
   };
 
   const handleCopy = (text: string) => {
+    if (text === hashResult) journalSettledResult();
     navigator.clipboard.writeText(text);
     toast({
       title: "Copied to Clipboard",
@@ -138,21 +106,29 @@ export const HashSuite = () => {
   const handleClear = () => {
     setInputText('');
     setHashResult('');
-    setHmacSecret('');
     setVerificationHash('');
     setVerificationResult(null);
   };
 
+  // Accepts a bare digest or a line of checksum tool output, where the
+  // digest comes first and a file name follows
+  const expectedHash = verificationHash.trim().split(/\s+/)[0].toLowerCase();
+
   const verifyHash = () => {
-    if (!hashResult || !verificationHash) {
+    if (!hashResult || !expectedHash) {
       setVerificationResult(null);
       return;
     }
     
-    const isMatch = hashResult.toLowerCase() === verificationHash.toLowerCase().trim();
+    const isMatch = hashResult.toLowerCase() === expectedHash;
     setVerificationResult(isMatch);
   };
 
+  // When the lengths differ the expected hash came from another algorithm
+  const suggestedAlgorithms = verificationResult === false && expectedHash.length !== hashResult.length
+    ? hashAlgorithmsForDigest(expectedHash)
+    : [];
+
   useEffect(() => {
     verifyHash();
   }, [hashResult, verificationHash]);
@@ -167,7 +143,7 @@ export const HashSuite = () => {
     } else {
       setHashResult('');
     }
-  }, [inputText, selectedAlgorithm, hmacSecret]);
+  }, [inputText, selectedAlgorithm]);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('en-US', {
@@ -180,7 +156,7 @@ export const HashSuite = () => {
 
   const getSecurityBadgeVariant = (security: string) => {
     switch (security) {
-      case 'Low': return 'destructive';
+      case 'Insecure': return 'destructive';
       case 'High': return 'default';
       case 'Very High': return 'secondary';
       default: return 'outline';
@@ -222,18 +198,14 @@ export const HashSuite = () => {
             </p>
           </div>
 
-          {selectedAlgorithm === 'hmac' && (
-            <div>
-              <Label htmlFor="hmacSecret">HMAC Secret Key</Label>
-              <Input
-                id="hmacSecret"
-                type="password"
-                placeholder="Enter secret key for HMAC..."
-                value={hmacSecret}
-                onChange={(e) => setHmacSecret(e.target.value)}
-                className="font-mono"
-              />
-            </div>
+          {HASH_ALGORITHMS[selectedAlgorithm].insecure && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {HASH_ALGORITHMS[selectedAlgorithm].name} is broken: different inputs with the same hash can be
+                made on purpose. Use it only to compare against published legacy checksums.
+              </AlertDescription>
+            </Alert>
           )}
 
           <div>
@@ -285,7 +257,7 @@ export const HashSuite = () => {
           )}
 
           <div className="flex gap-2">
-            <Button onClick={processHash} disabled={isProcessing || !inputText.trim()}>
+            <Button onClick={() => processHash(true)} disabled={isProcessing || !inputText.trim()}>
               {isProcessing ? (
                 <>
                   <div className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin mr-2" />
@@ -319,7 +291,7 @@ export const HashSuite = () => {
             <div className="relative">
               <Input
                 id="verificationHash"
-                placeholder="Paste hash to verify against..."
+                placeholder="Paste hash or checksum line to verify against..."
                 value={verificationHash}
                 onChange={(e) => setVerificationHash(e.target.value)}
                 className="font-mono pr-12"
@@ -339,10 +311,21 @@ export const HashSuite = () => {
                 {verificationResult ? 'Hash verification successful' : 'Hash verification failed'}
               </p>
             )}
+            {suggestedAlgorithms.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                The expected hash has {expectedHash.length * 4} bits; try {suggestedAlgorithms.map(id => HASH_ALGORITHMS[id].name).join(' or ')}.
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      {/* File Checksums */}
+      <FileChecksums />
+
+      {/* HMAC and Key Derivation */}
+      <HmacToolbox />
+
       {/* Hash History */}
       {hashHistory.length > 0 && (
         <Card className="glass-card">
@@ -68,15 +68,17 @@ const tutorials: Tutorial[] = [
   {
     id: 'steganography-guide',
     title: 'Hide Messages in Images',
-    description: 'Use steganography to hide secret messages inside images',
+    description: 'Use steganography to hide secret messages and files inside images',
     steps: [
       'Open the Steganography tab',
       'Upload an image (PNG or JPG)',
-      'Enter your secret message',
-      'Add password protection (optional)',
-      'Click "Hide Text in Image"',
-      'Download the processed image',
-      'Share the image - your message is hidden inside!'
+      'Enter your secret message, or switch to File and pick a file',
+      'Add a passphrase to encrypt and scatter it (optional)',
+      'Pick bits per channel and check that it fits',
+      'Click "Hide Text in Image" or "Hide File in Image"',
+      'Download the processed PNG',
+      'Share the image - your message is hidden inside!',
+      'Images made with the earlier red-channel version still reveal their text'
     ],
     duration: '4 min',
     difficulty: 'intermediate',
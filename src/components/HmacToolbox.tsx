@@ -0,0 +1,375 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { BYTE_ENCODING_NAMES, bytesToString, stringToBytes, type ByteEncoding } from '@/lib/encoding';
+import { HASH_ALGORITHMS, type HashAlgorithm } from '@/lib/hashes';
+import { HMAC_ALGORITHMS, decodeMac } from '@/lib/hmac';
+import { journaled } from '@/lib/journal';
+import { runCryptoJob } from '@/lib/workerPool';
+import { CheckCircle, Copy, KeyRound, XCircle } from 'lucide-react';
+
+type InputEncoding = Exclude<ByteEncoding, 'base64url'>;
+type OutputEncoding = Exclude<ByteEncoding, 'text'>;
+type HkdfMode = 'full' | 'extract' | 'expand';
+
+interface EncodedValue {
+  value: string;
+  encoding: InputEncoding;
+}
+
+const INPUT_ENCODINGS: InputEncoding[] = ['text', 'hex', 'base64'];
+const OUTPUT_ENCODINGS: OutputEncoding[] = ['hex', 'base64', 'base64url'];
+
+const decodeField = (label: string, { value, encoding }: EncodedValue) => {
+  try {
+    return stringToBytes(value, encoding);
+  } catch (error) {
+    throw new Error(`${label}: ${error instanceof Error ? error.message : 'invalid value'}`);
+  }
+};
+
+interface EncodedFieldProps {
+  id: string;
+  label: string;
+  field: EncodedValue;
+  onChange: (field: EncodedValue) => void;
+  placeholder?: string;
+  multiline?: boolean;
+  secret?: boolean;
+}
+
+const EncodedField = ({ id, label, field, onChange, placeholder, multiline, secret }: EncodedFieldProps) => (
+  <div>
+    <div className="flex items-center justify-between mb-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={field.encoding} onValueChange={(value) => onChange({ ...field, encoding: value as InputEncoding })}>
+        <SelectTrigger className="w-36 h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {INPUT_ENCODINGS.map(encoding => (
+            <SelectItem key={encoding} value={encoding}>{BYTE_ENCODING_NAMES[encoding]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    {multiline ? (
+      <Textarea
+        id={id}
+        value={field.value}
+        onChange={(e) => onChange({ ...field, value: e.target.value })}
+        placeholder={placeholder}
+        className="min-h-[100px] font-mono text-sm"
+      />
+    ) : (
+      <Input
+        id={id}
+        type={secret ? 'password' : 'text'}
+        value={field.value}
+        onChange={(e) => onChange({ ...field, value: e.target.value })}
+        placeholder={placeholder}
+        className="font-mono"
+      />
+    )}
+  </div>
+);
+
+// HMAC signing and checking plus HKDF and PBKDF2, for reproducing webhook
+// signatures and request signing schemes while debugging them
+export const HmacToolbox = () => {
+  const [algorithm, setAlgorithm] = useState<HashAlgorithm>('SHA-256');
+  const [outputEncoding, setOutputEncoding] = useState<OutputEncoding>('hex');
+  const [output, setOutput] = useState<Uint8Array | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const [hmacKey, setHmacKey] = useState<EncodedValue>({ value: '', encoding: 'text' });
+  const [message, setMessage] = useState<EncodedValue>({ value: '', encoding: 'text' });
+  const [expectedMac, setExpectedMac] = useState('');
+  const [verification, setVerification] = useState<boolean | null>(null);
+
+  const [hkdfMode, setHkdfMode] = useState<HkdfMode>('full');
+  const [keyMaterial, setKeyMaterial] = useState<EncodedValue>({ value: '', encoding: 'hex' });
+  const [hkdfSalt, setHkdfSalt] = useState<EncodedValue>({ value: '', encoding: 'hex' });
+  const [hkdfInfo, setHkdfInfo] = useState<EncodedValue>({ value: '', encoding: 'text' });
+  const [hkdfLength, setHkdfLength] = useState(32);
+
+  const [password, setPassword] = useState<EncodedValue>({ value: '', encoding: 'text' });
+  const [pbkdf2Salt, setPbkdf2Salt] = useState<EncodedValue>({ value: '', encoding: 'text' });
+  const [iterations, setIterations] = useState(600000);
+  const [pbkdf2Length, setPbkdf2Length] = useState(32);
+
+  const run = async (task: () => Promise<Uint8Array>) => {
+    setIsProcessing(true);
+    setVerification(null);
+    try {
+      setOutput(await task());
+    } catch (error) {
+      setOutput(null);
+      toast({
+        title: "Operation Failed",
+        description: error instanceof Error ? error.message : "Could not compute the result.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  const handleHmac = () => run(() => {
+    const key = decodeField('Key', hmacKey);
+    const data = decodeField('Message', message);
+    return journaled(
+      { tool: 'hash', operation: 'HMAC', algorithm: `HMAC-${algorithm}`, input: data },
+      () => runCryptoJob('hmac', [algorithm, key, data]),
+      mac => ({ output: mac })
+    );
+  });
+
+  const handleVerify = async () => {
+    setIsProcessing(true);
+    try {
+      const expected = decodeMac(expectedMac);
+      const key = decodeField('Key', hmacKey);
+      const data = decodeField('Message', message);
+      setVerification(await journaled(
+        { tool: 'hash', operation: 'Verify HMAC', algorithm: `HMAC-${algorithm}`, input: data },
+        () => runCryptoJob('verifyHmac', [algorithm, key, data, expected]),
+        valid => (valid ? {} : { error: 'MAC does not match' })
+      ));
+    } catch (error) {
+      setVerification(null);
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "Could not read the expected MAC.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Key material and derived keys are secrets, so derivations are journaled
+  // without fingerprints
+  const handleHkdf = () => run(() => {
+    const input = decodeField(hkdfMode === 'expand' ? 'Pseudorandom key' : 'Input key material', keyMaterial);
+    const derive = () => {
+      switch (hkdfMode) {
+        case 'full':
+          return runCryptoJob('hkdf', [algorithm, input, decodeField('Salt', hkdfSalt), decodeField('Info', hkdfInfo), hkdfLength]);
+        case 'extract':
+          return runCryptoJob('hkdfExtract', [algorithm, input, decodeField('Salt', hkdfSalt)]);
+        case 'expand':
+          return runCryptoJob('hkdfExpand', [algorithm, input, decodeField('Info', hkdfInfo), hkdfLength]);
+      }
+    };
+    const operation = hkdfMode === 'full' ? 'HKDF' : `HKDF ${hkdfMode}`;
+    return journaled({ tool: 'hash', operation, algorithm: `HKDF-${algorithm}` }, derive);
+  });
+
+  const handlePbkdf2 = () => run(() => {
+    setProgress(0);
+    const secret = decodeField('Password', password);
+    const salt = decodeField('Salt', pbkdf2Salt);
+    return journaled(
+      { tool: 'hash', operation: 'PBKDF2', algorithm: `PBKDF2-HMAC-${algorithm}` },
+      () => runCryptoJob('pbkdf2', [algorithm, secret, salt, iterations, pbkdf2Length], { onProgress: setProgress })
+    );
+  });
+
+  const outputText = output ? bytesToString(output, outputEncoding) : '';
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(outputText);
+    toast({
+      title: "Copied to Clipboard",
+      description: "Result copied successfully.",
+    });
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-primary" />
+          HMAC & Key Derivation
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="macAlgorithm">Hash</Label>
+            <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as HashAlgorithm)}>
+              <SelectTrigger id="macAlgorithm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HMAC_ALGORITHMS.map(id => (
+                  <SelectItem key={id} value={id}>{HASH_ALGORITHMS[id].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="macOutput">Output Encoding</Label>
+            <Select value={outputEncoding} onValueChange={(value) => setOutputEncoding(value as OutputEncoding)}>
+              <SelectTrigger id="macOutput">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OUTPUT_ENCODINGS.map(encoding => (
+                  <SelectItem key={encoding} value={encoding}>{BYTE_ENCODING_NAMES[encoding]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Tabs defaultValue="hmac" onValueChange={() => setOutput(null)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="hmac">HMAC</TabsTrigger>
+            <TabsTrigger value="hkdf">HKDF</TabsTrigger>
+            <TabsTrigger value="pbkdf2">PBKDF2</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="hmac" className="space-y-4">
+            <EncodedField id="hmacKey" label="Key" field={hmacKey} onChange={setHmacKey} placeholder="Signing secret" secret />
+            <EncodedField id="hmacMessage" label="Message" field={message} onChange={setMessage} placeholder="Request body or string to sign" multiline />
+            <div>
+              <Label htmlFor="expectedMac">Expected MAC</Label>
+              <div className="relative">
+                <Input
+                  id="expectedMac"
+                  value={expectedMac}
+                  onChange={(e) => {
+                    setExpectedMac(e.target.value);
+                    setVerification(null);
+                  }}
+                  placeholder="Hex, Base64 or a header value like sha256=..."
+                  className="font-mono pr-10"
+                />
+                {verification !== null && (
+                  <div className="absolute top-1/2 right-3 transform -translate-y-1/2">
+                    {verification ? (
+                      <CheckCircle className="w-5 h-5 text-green-600" />
+                    ) : (
+                      <XCircle className="w-5 h-5 text-red-600" />
+                    )}
+                  </div>
+                )}
+              </div>
+              {verification !== null && (
+                <p className={`text-xs mt-1 ${verification ? 'text-green-600' : 'text-red-600'}`}>
+                  {verification ? 'The MAC matches' : 'The MAC does not match'}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleHmac} disabled={isProcessing}>
+                Compute HMAC
+              </Button>
+              <Button variant="outline" onClick={handleVerify} disabled={isProcessing || !expectedMac.trim()}>
+                Verify
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="hkdf" className="space-y-4">
+            <div>
+              <Label htmlFor="hkdfMode">Step</Label>
+              <Select value={hkdfMode} onValueChange={(value) => setHkdfMode(value as HkdfMode)}>
+                <SelectTrigger id="hkdfMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Extract and expand</SelectItem>
+                  <SelectItem value="extract">Extract only (outputs the pseudorandom key)</SelectItem>
+                  <SelectItem value="expand">Expand only (from a pseudorandom key)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <EncodedField
+              id="hkdfKeyMaterial"
+              label={hkdfMode === 'expand' ? 'Pseudorandom Key' : 'Input Key Material'}
+              field={keyMaterial}
+              onChange={setKeyMaterial}
+            />
+            {hkdfMode !== 'expand' && (
+              <EncodedField id="hkdfSalt" label="Salt" field={hkdfSalt} onChange={setHkdfSalt} placeholder="Optional" />
+            )}
+            {hkdfMode !== 'extract' && (
+              <>
+                <EncodedField id="hkdfInfo" label="Info" field={hkdfInfo} onChange={setHkdfInfo} placeholder="Optional context" />
+                <div>
+                  <Label htmlFor="hkdfLength">Output Length (bytes)</Label>
+                  <Input
+                    id="hkdfLength"
+                    type="number"
+                    min={1}
+                    value={hkdfLength}
+                    onChange={(e) => setHkdfLength(Number(e.target.value))}
+                  />
+                </div>
+              </>
+            )}
+            <Button onClick={handleHkdf} disabled={isProcessing || !keyMaterial.value}>
+              Derive
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="pbkdf2" className="space-y-4">
+            <EncodedField id="pbkdf2Password" label="Password" field={password} onChange={setPassword} secret />
+            <EncodedField id="pbkdf2Salt" label="Salt" field={pbkdf2Salt} onChange={setPbkdf2Salt} />
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="pbkdf2Iterations">Iterations</Label>
+                <Input
+                  id="pbkdf2Iterations"
+                  type="number"
+                  min={1}
+                  value={iterations}
+                  onChange={(e) => setIterations(Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="pbkdf2Length">Output Length (bytes)</Label>
+                <Input
+                  id="pbkdf2Length"
+                  type="number"
+                  min={1}
+                  value={pbkdf2Length}
+                  onChange={(e) => setPbkdf2Length(Number(e.target.value))}
+                />
+              </div>
+            </div>
+            {progress !== null && <Progress value={progress * 100} className="h-2" />}
+            <Button onClick={handlePbkdf2} disabled={isProcessing}>
+              Derive
+            </Button>
+          </TabsContent>
+        </Tabs>
+
+        {output && (
+          <div>
+            <Label htmlFor="macResult">Result ({output.length} bytes)</Label>
+            <div className="relative">
+              <Textarea id="macResult" value={outputText} readOnly className="font-mono text-sm pr-12" rows={3} />
+              <Button size="sm" variant="ghost" onClick={handleCopy} className="absolute top-2 right-2">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
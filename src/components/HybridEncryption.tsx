@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { Shield, Key, Zap, Download, Copy, Trash2, RefreshCw } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Shield, Key, Zap, Download, Copy, Trash2, RefreshCw, Users } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -7,50 +7,116 @@ import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { VaultUnlock } from '@/components/VaultUnlock';
 import { toast } from '@/hooks/use-toast';
-import { hybridEncrypt, hybridDecrypt, generateRSAKeyPair, type KeyPair } from '@/lib/crypto';
+import { useContacts } from '@/hooks/use-contacts';
+import { useVault } from '@/hooks/use-vault';
+import { CONTACT_TRUST_NAMES, recipientContacts } from '@/lib/contacts';
+import type { KeyPair } from '@/lib/crypto';
+import { ECIES_CURVES, eciesCurveOfKey, type EciesCurve } from '@/lib/ecies';
+import { ENVELOPE_ALGORITHMS, detectEnvelopeAlgorithm } from '@/lib/envelope';
+import { shortKeyId } from '@/lib/fingerprint';
+import { journaled } from '@/lib/journal';
+import { KEY_ALGORITHMS, canUseKeyFor, keyAlgorithmOf } from '@/lib/keystore';
+import { listRecipients } from '@/lib/recipients';
+import { addVaultKeyPair } from '@/lib/vault';
+import { runCryptoJob } from '@/lib/workerPool';
+
+type RecipientType = 'RSA-2048' | EciesCurve;
+
+// Which vault key pair is active; only its id, the key itself stays in the vault
+const ACTIVE_KEY_STORAGE_KEY = 'hybrid-active-key';
+
+const RECIPIENT_TYPES: Record<RecipientType, string> = {
+  'RSA-2048': 'RSA-2048 (OAEP)',
+  'P-256': 'ECIES P-256',
+  'P-384': 'ECIES P-384',
+  'X25519': 'ECIES X25519',
+};
+
+// Stored key pairs this tool can encrypt to
+function isRecipientKey(keyPair: KeyPair): boolean {
+  return keyAlgorithmOf(keyPair) === 'RSA-OAEP' || !!eciesCurveOfKey(keyPair.algorithm);
+}
 
 export function HybridEncryption() {
   const [mode, setMode] = useState<'encrypt' | 'decrypt'>('encrypt');
   const [inputText, setInputText] = useState('');
   const [outputText, setOutputText] = useState('');
-  const [keyPair, setKeyPair] = useState<KeyPair | null>(null);
-  const [encryptedKey, setEncryptedKey] = useState('');
+  const { status: vaultStatus, keyPairs: vaultKeyPairs } = useVault();
+  const contacts = useContacts();
+  const [activeKeyId, setActiveKeyId] = useState(() => localStorage.getItem(ACTIVE_KEY_STORAGE_KEY) ?? '');
+  const [recipientType, setRecipientType] = useState<RecipientType>('RSA-2048');
+  const [selectedRecipients, setSelectedRecipients] = useState<string[]>([]);
+  const [extraRecipients, setExtraRecipients] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
 
-  // Load existing key pair from localStorage
+  const storedKeys = useMemo(() => vaultKeyPairs.filter(isRecipientKey), [vaultKeyPairs]);
+  const keyPair = storedKeys.find(stored => stored.id === activeKeyId) ?? null;
+  // Expired or restricted keys still decrypt but are not offered as recipients
+  const encryptionKeys = storedKeys.filter(stored => canUseKeyFor(stored, 'encrypt'));
+  const listedKeys = mode === 'encrypt' ? encryptionKeys : storedKeys;
+  const contactKeys = useMemo(() => recipientContacts(contacts), [contacts]);
+
+  // The active key is always a recipient once the vault has provided it
   useEffect(() => {
-    const savedKeyPair = localStorage.getItem('hybrid-keypair');
-    if (savedKeyPair) {
-      try {
-        setKeyPair(JSON.parse(savedKeyPair));
-      } catch (error) {
-        console.error('Failed to load key pair:', error);
-      }
-    }
-  }, []);
+    if (!keyPair) return;
+    setSelectedRecipients(prev => prev.includes(keyPair.publicKey) ? prev : [...prev, keyPair.publicKey]);
+  }, [keyPair]);
+
+  // Rotating the active key hands its place to the successor
+  useEffect(() => {
+    const successorId = keyPair?.replacedBy;
+    if (!successorId || !storedKeys.some(stored => stored.id === successorId)) return;
+    setActiveKeyId(successorId);
+    localStorage.setItem(ACTIVE_KEY_STORAGE_KEY, successorId);
+  }, [keyPair, storedKeys]);
+
+  const eccCurve = keyPair ? eciesCurveOfKey(keyPair.algorithm) : undefined;
+
+  const activateKeyPair = (id: string) => {
+    setActiveKeyId(id);
+    localStorage.setItem(ACTIVE_KEY_STORAGE_KEY, id);
+  };
+
+  const toggleRecipient = (publicKey: string, checked: boolean) => {
+    setSelectedRecipients(prev => checked ? [...prev, publicKey] : prev.filter(selected => selected !== publicKey));
+  };
+
+  const recipientPublicKeys = () => [
+    ...selectedRecipients.filter(publicKey =>
+      encryptionKeys.some(known => known.publicKey === publicKey) ||
+      contactKeys.some(contact => contact.publicKey === publicKey)
+    ),
+    ...extraRecipients.split(/\s+/).filter(Boolean)
+  ];
+
+  const selectStoredKey = (id: string) => {
+    if (storedKeys.some(stored => stored.id === id)) activateKeyPair(id);
+  };
 
   const generateKeys = async () => {
     setIsProcessing(true);
     setProgress(10);
     
     try {
-      const newKeyPair = await generateRSAKeyPair(2048);
-      setKeyPair(newKeyPair);
-      
-      // Save to localStorage
-      localStorage.setItem('hybrid-keypair', JSON.stringify(newKeyPair));
+      const newKeyPair = recipientType === 'RSA-2048'
+        ? await runCryptoJob('generateRSAKeyPair', [2048])
+        : await runCryptoJob('generateECCKeyPair', [recipientType]);
+      activateKeyPair(await addVaultKeyPair(newKeyPair));
       
       setProgress(100);
       toast({
         title: "Keys Generated",
-        description: "New RSA key pair generated for hybrid encryption.",
+        description: `New ${RECIPIENT_TYPES[recipientType]} key pair generated for hybrid encryption.`,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to generate key pair.",
+        description: error instanceof Error ? error.message : "Failed to generate key pair.",
         variant: "destructive",
       });
     } finally {
@@ -69,10 +135,19 @@ export function HybridEncryption() {
       return;
     }
 
-    if (!keyPair) {
+    if (mode === 'encrypt' && recipientPublicKeys().length === 0) {
       toast({
         title: "Error",
-        description: "Please generate a key pair first.",
+        description: "Please choose at least one recipient.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (mode === 'decrypt' && storedKeys.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please generate or select a key pair first.",
         variant: "destructive",
       });
       return;
@@ -81,30 +156,57 @@ export function HybridEncryption() {
     setIsProcessing(true);
     setProgress(20);
 
+    const envelope = mode === 'encrypt' ? 'hybrid-multi' : detectEnvelopeAlgorithm(inputText);
+    const record = {
+      tool: 'hybrid',
+      operation: mode === 'encrypt' ? 'Encrypt' : 'Decrypt',
+      algorithm: envelope ? ENVELOPE_ALGORITHMS[envelope].name : 'Unrecognized format',
+      input: inputText
+    } as const;
+
     try {
       if (mode === 'encrypt') {
         setProgress(50);
-        const result = await hybridEncrypt(inputText, keyPair.publicKey);
-        setOutputText(result.encrypted);
-        setEncryptedKey(result.metadata.encryptedKey);
+        const recipients = recipientPublicKeys();
+        const encrypted = await journaled(
+          record,
+          () => runCryptoJob('encryptForRecipients', [inputText, recipients]),
+          output => ({ output })
+        );
+        setOutputText(encrypted);
         setProgress(100);
         
         toast({
           title: "Text Encrypted",
-          description: "Text successfully encrypted using hybrid encryption.",
+          description: `Text encrypted for ${listRecipients(encrypted).length} recipient(s).`,
+        });
+      } else if (envelope === 'hybrid-multi') {
+        setProgress(50);
+        const { text, keyIndex } = await journaled(
+          record,
+          () => runCryptoJob('decryptForRecipients', [inputText, storedKeys]),
+          ({ text }) => ({ output: text })
+        );
+        setOutputText(text);
+        setProgress(100);
+
+        toast({
+          title: "Text Decrypted",
+          description: `Opened with your ${KEY_ALGORITHMS[keyAlgorithmOf(storedKeys[keyIndex])].name} key ${shortKeyId(storedKeys[keyIndex].id)}.`,
         });
       } else {
-        if (!encryptedKey) {
-          toast({
-            title: "Error",
-            description: "Missing encrypted key for decryption.",
-            variant: "destructive",
-          });
-          return;
+        // Single-recipient output from before multi-recipient encryption
+        if (!keyPair) {
+          throw new Error('Select the key pair this message was encrypted for.');
         }
-        
         setProgress(50);
-        const result = await hybridDecrypt(inputText, keyPair.privateKey, { encryptedKey });
+        const result = await journaled(
+          record,
+          () => eccCurve
+            ? runCryptoJob('eciesDecrypt', [inputText, keyPair.privateKey])
+            : runCryptoJob('hybridDecrypt', [inputText, keyPair.privateKey]),
+          output => ({ output })
+        );
         setOutputText(result);
         setProgress(100);
         
@@ -154,7 +256,6 @@ export function HybridEncryption() {
   const clearAll = () => {
     setInputText('');
     setOutputText('');
-    setEncryptedKey('');
     setProgress(0);
   };
 
@@ -167,7 +268,7 @@ export function HybridEncryption() {
         </div>
         <div>
           <h2 className="text-2xl font-bold">Hybrid Encryption</h2>
-          <p className="text-muted-foreground">RSA + AES encryption for maximum security and performance</p>
+          <p className="text-muted-foreground">RSA or elliptic-curve key exchange + AES for maximum security and performance</p>
         </div>
       </div>
 
@@ -197,13 +298,17 @@ export function HybridEncryption() {
           <div className="flex items-start gap-3">
             <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20">3</Badge>
             <div>
-              <p className="font-medium">Encrypt AES Key with RSA</p>
-              <p className="text-sm text-muted-foreground">The AES key is encrypted with your RSA public key</p>
+              <p className="font-medium">Wrap AES Key for Each Recipient</p>
+              <p className="text-sm text-muted-foreground">
+                The AES key is wrapped once per recipient with RSA-OAEP or ECIES and travels inside the output, tagged with the recipient's key id
+              </p>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {vaultStatus !== 'unlocked' && <VaultUnlock />}
+
       {/* Progress */}
       {progress > 0 && (
         <div className="space-y-2">
@@ -224,7 +329,7 @@ export function HybridEncryption() {
               Key Management
             </CardTitle>
             <CardDescription>
-              {keyPair ? 'RSA key pair ready for use' : 'Generate an RSA key pair to start'}
+              {keyPair ? `${KEY_ALGORITHMS[keyAlgorithmOf(keyPair)].name} key pair ready for use` : 'Generate or select a key pair to start'}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -234,6 +339,12 @@ export function HybridEncryption() {
                   <span className="text-sm font-medium">Status</span>
                   <Badge variant="secondary" className="bg-green-500/10 text-green-500">Ready</Badge>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Algorithm</span>
+                  <span className="text-sm text-muted-foreground">
+                    {eccCurve ? `ECIES ${eccCurve}` : 'RSA-OAEP'}
+                  </span>
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Key Size</span>
                   <span className="text-sm text-muted-foreground">{keyPair.keySize} bits</span>
@@ -272,9 +383,44 @@ export function HybridEncryption() {
               </div>
             )}
             
+            {storedKeys.length > 0 && (
+              <div className="space-y-2">
+                <Label>Use a Key from the Key Vault</Label>
+                <Select value={keyPair?.id ?? ''} onValueChange={selectStoredKey}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a stored key pair" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {storedKeys.map(stored => (
+                      <SelectItem key={stored.id} value={stored.id}>
+                        {stored.label ?? KEY_ALGORITHMS[keyAlgorithmOf(stored)].name} · {shortKeyId(stored.id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>New Key Type</Label>
+              <Select value={recipientType} onValueChange={(value: RecipientType) => setRecipientType(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RECIPIENT_TYPES) as RecipientType[]).map(type => (
+                    <SelectItem key={type} value={type}>
+                      {RECIPIENT_TYPES[type]}
+                      {type !== 'RSA-2048' && ` · ${ECIES_CURVES[type].keySize}-bit`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <Button
               onClick={generateKeys}
-              disabled={isProcessing}
+              disabled={isProcessing || vaultStatus !== 'unlocked'}
               className="w-full"
             >
               <RefreshCw className={`w-4 h-4 mr-2 ${isProcessing ? 'animate-spin' : ''}`} />
@@ -312,6 +458,84 @@ export function HybridEncryption() {
         </Card>
       </div>
 
+      {/* Recipients */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Recipients
+          </CardTitle>
+          <CardDescription>
+            {mode === 'encrypt'
+              ? 'Anyone whose key is selected below can decrypt the message'
+              : `Decryption automatically tries the ${storedKeys.length} key(s) in your Key Vault`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {listedKeys.length > 0 ? (
+            <div className="space-y-2">
+              {listedKeys.map(known => (
+                <div key={known.publicKey} className="flex items-center gap-3">
+                  {mode === 'encrypt' && (
+                    <Checkbox
+                      id={`recipient-${known.id}`}
+                      checked={selectedRecipients.includes(known.publicKey)}
+                      onCheckedChange={(checked) => toggleRecipient(known.publicKey, checked === true)}
+                    />
+                  )}
+                  <Label htmlFor={`recipient-${known.id}`} className="flex flex-1 items-center gap-2 font-normal">
+                    <Badge variant="outline">{KEY_ALGORITHMS[keyAlgorithmOf(known)].name}</Badge>
+                    <span className="font-mono text-xs text-muted-foreground">{shortKeyId(known.id)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {known === keyPair ? 'Your active key' : known.label ?? new Date(known.created).toLocaleDateString()}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No encryption keys yet. Generate one above or in the Key Vault.</p>
+          )}
+
+          {mode === 'encrypt' && contactKeys.length > 0 && (
+            <div className="space-y-2">
+              <Label>Contacts</Label>
+              {contactKeys.map(contact => (
+                <div key={contact.id} className="flex items-center gap-3">
+                  <Checkbox
+                    id={`contact-${contact.id}`}
+                    checked={selectedRecipients.includes(contact.publicKey)}
+                    onCheckedChange={(checked) => toggleRecipient(contact.publicKey, checked === true)}
+                  />
+                  <Label htmlFor={`contact-${contact.id}`} className="flex flex-1 items-center gap-2 font-normal">
+                    <Badge variant="outline">{KEY_ALGORITHMS[contact.algorithm].name}</Badge>
+                    <span className="font-mono text-xs text-muted-foreground">{shortKeyId(contact.id)}</span>
+                    <span className="text-xs">{contact.name}</span>
+                    {contact.trust !== 'verified' && (
+                      <Badge variant="secondary" className="text-xs">{CONTACT_TRUST_NAMES[contact.trust]}</Badge>
+                    )}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {mode === 'encrypt' && (
+            <div className="space-y-2">
+              <Label htmlFor="extraRecipients">Other Recipients' Public Keys</Label>
+              <Textarea
+                id="extraRecipients"
+                placeholder="Paste colleagues' RSA or EC public keys (Base64), one per line..."
+                value={extraRecipients}
+                onChange={(e) => setExtraRecipients(e.target.value)}
+                className="font-mono text-xs"
+                rows={3}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Input/Output */}
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
@@ -349,36 +573,9 @@ export function HybridEncryption() {
         </Card>
       </div>
 
-      {/* Encrypted Key Display */}
-      {mode === 'encrypt' && encryptedKey && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Encrypted Key</CardTitle>
-            <CardDescription>This key is needed for decryption (automatically handled)</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Textarea
-              value={encryptedKey}
-              readOnly
-              className="min-h-[100px] resize-none font-mono text-xs"
-            />
-            <div className="flex gap-2 mt-4">
-              <Button
-                onClick={() => copyToClipboard(encryptedKey, 'Encrypted key')}
-                variant="outline"
-                size="sm"
-              >
-                <Copy className="w-4 h-4 mr-2" />
-                Copy Key
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
       {/* Actions */}
       <div className="flex flex-wrap gap-2">
-        <Button onClick={processText} disabled={isProcessing || !keyPair} className="gap-2">
+        <Button onClick={processText} disabled={isProcessing} className="gap-2">
           <Shield className="w-4 h-4" />
           {mode === 'encrypt' ? 'Encrypt Text' : 'Decrypt Text'}
         </Button>
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { fingerprintEmoji, fingerprintRandomart, formatFingerprint, keyFingerprint } from '@/lib/fingerprint';
+
+interface KeyFingerprintProps {
+  publicKey: string;
+  // Shown in the randomart frame, like ssh-keygen's "[RSA 2048]"
+  title?: string;
+}
+
+// A key's fingerprint as hex, emoji words and randomart, for comparing
+// keys over the phone or side by side
+export const KeyFingerprint = ({ publicKey, title }: KeyFingerprintProps) => {
+  const [fingerprint, setFingerprint] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    keyFingerprint(publicKey)
+      .then(value => {
+        if (!cancelled) setFingerprint(value);
+      })
+      .catch(() => {
+        if (!cancelled) setFingerprint('');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [publicKey]);
+
+  if (!fingerprint) return null;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Fingerprint (SHA-256)</Label>
+        <p className="font-mono text-xs break-all">{formatFingerprint(fingerprint)}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Emoji Words</Label>
+          <div className="grid grid-cols-4 gap-2 mt-1">
+            {fingerprintEmoji(fingerprint).map(({ emoji, word }, index) => (
+              <div key={index} className="flex flex-col items-center rounded bg-muted/50 p-2">
+                <span className="text-2xl">{emoji}</span>
+                <span className="text-xs text-muted-foreground">{word}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div>
+          <Label>Randomart</Label>
+          <pre className="mt-1 font-mono text-xs leading-tight bg-muted/50 rounded p-2 w-fit">
+            {fingerprintRandomart(fingerprint, title)}
+          </pre>
+        </div>
+      </div>
+    </div>
+  );
+};
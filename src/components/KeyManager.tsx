@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,49 +7,159 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyFingerprint } from '@/components/KeyFingerprint';
+import { PaperKeyBackup } from '@/components/PaperKeyBackup';
+import { PaperKeyRestore } from '@/components/PaperKeyRestore';
+import { VaultUnlock } from '@/components/VaultUnlock';
 import { useToast } from '@/hooks/use-toast';
-import { generateRSAKeyPair, type KeyPair } from '@/lib/crypto';
-import { Key, Download, Upload, Copy, Trash2, Shield, Clock } from 'lucide-react';
+import { useVault } from '@/hooks/use-vault';
+import type { KeyAlgorithm, KeyMetadata, KeyPair, KeyPairUsage } from '@/lib/crypto';
+import { eciesCurveOfKey } from '@/lib/ecies';
+import {
+  KEY_FAMILY_ALGORITHMS,
+  KEY_FORMAT_NAMES,
+  exportPublicKeyPem,
+  type KeyInspection
+} from '@/lib/keyformats';
+import { base64ToBytes, bytesToBase64 } from '@/lib/encoding';
+import { shortKeyId } from '@/lib/fingerprint';
+import { KEY_ALGORITHMS, isKeyExpired, keyAlgorithmOf, keyUsagesOf } from '@/lib/keystore';
+import { loadSettings } from '@/lib/settings';
+import { findShareTexts } from '@/lib/shamir';
+import { isSignatureAlgorithm } from '@/lib/signatures';
+import {
+  addVaultKeyPair,
+  addVaultKeyPairs,
+  removeVaultKeyPair,
+  rotateVaultKeyPair,
+  updateVaultKeyMetadata,
+  type StoredKeyPair
+} from '@/lib/vault';
+import { runCryptoJob } from '@/lib/workerPool';
+import { Key, Download, Upload, Copy, Trash2, Shield, Clock, AlertTriangle, FileKey, RefreshCw, Split, Puzzle } from 'lucide-react';
+
+type ExportFormat = 'pem' | 'jwk' | 'openssh' | 'word-lock';
+
+const EXPORT_FORMATS: Record<ExportFormat, string> = {
+  'pem': 'PEM (OpenSSL)',
+  'jwk': 'JSON Web Key',
+  'openssh': 'OpenSSH public key',
+  'word-lock': 'Word Lock JSON',
+};
+
+const USAGE_NAMES: Record<KeyPairUsage, string> = {
+  'encrypt': 'Offer for new encryptions',
+  'sign': 'Offer for new signatures',
+};
+
+// Expiry is stored as an instant but edited as a local date; a key stays
+// valid until the end of its expiry day
+const toDateInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string) => value ? new Date(`${value}T23:59:59.999`).toISOString() : undefined;
+
+const generateKeyPair = async (algorithm: KeyAlgorithm, keySize: 2048 | 4096): Promise<KeyPair> => {
+  const eciesCurve = eciesCurveOfKey(algorithm);
+  if (eciesCurve) return runCryptoJob('generateECCKeyPair', [eciesCurve]);
+  if (isSignatureAlgorithm(algorithm)) return runCryptoJob('generateSigningKeyPair', [algorithm, keySize]);
+  return runCryptoJob('generateRSAKeyPair', [keySize]);
+};
+
+const metadataOf = (keyPair: KeyPair): KeyMetadata => ({
+  label: keyPair.label,
+  owner: keyPair.owner,
+  email: keyPair.email,
+  usages: keyUsagesOf(keyPair),
+  expires: keyPair.expires,
+});
 
 export const KeyManager = () => {
-  const [keyPairs, setKeyPairs] = useState<KeyPair[]>([]);
-  const [selectedKeyPair, setSelectedKeyPair] = useState<KeyPair | null>(null);
+  const { status: vaultStatus, keyPairs } = useVault();
+  const [selectedKeyId, setSelectedKeyId] = useState<string | null>(null);
+  const [metadataDraft, setMetadataDraft] = useState<KeyMetadata>({});
   const [keySize, setKeySize] = useState<2048 | 4096>(2048);
+  const [keyAlgorithm, setKeyAlgorithm] = useState<KeyAlgorithm>('RSA-OAEP');
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
   const [importData, setImportData] = useState('');
+  const [importPassword, setImportPassword] = useState('');
+  const [importInspection, setImportInspection] = useState<KeyInspection | null>(null);
+  const [importError, setImportError] = useState('');
+  const [importAlgorithm, setImportAlgorithm] = useState<KeyAlgorithm | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('pem');
+  const [exportIncludePrivate, setExportIncludePrivate] = useState(false);
+  const [exportPassword, setExportPassword] = useState('');
+  const [shareCount, setShareCount] = useState(5);
+  const [shareThreshold, setShareThreshold] = useState(3);
+  const [keyShares, setKeyShares] = useState<string[]>([]);
+  const [recoveryShares, setRecoveryShares] = useState('');
+  const importFileRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  // Load key pairs from localStorage on mount
+  const remindBackup = loadSettings().backupKeys;
+  const selectedKeyPair = keyPairs.find(keyPair => keyPair.id === selectedKeyId) ?? null;
+  const successorKeyPair = keyPairs.find(keyPair => keyPair.id === selectedKeyPair?.replacedBy) ?? null;
+
+  const selectKeyPair = (keyPair: StoredKeyPair) => {
+    setSelectedKeyId(keyPair.id);
+    setMetadataDraft(metadataOf(keyPair));
+    setKeyShares([]);
+  };
+
+  // Forget the selected private key and its shares once the vault locks
   useEffect(() => {
-    const savedKeys = localStorage.getItem('rsa-keypairs');
-    if (savedKeys) {
-      try {
-        setKeyPairs(JSON.parse(savedKeys));
-      } catch (error) {
-        console.error('Failed to load saved key pairs:', error);
-      }
+    if (vaultStatus !== 'unlocked') {
+      setSelectedKeyId(null);
+      setKeyShares([]);
     }
-  }, []);
+  }, [vaultStatus]);
 
-  // Save key pairs to localStorage whenever they change
+  // Detect the format and key type of pasted key material as it changes
   useEffect(() => {
-    localStorage.setItem('rsa-keypairs', JSON.stringify(keyPairs));
-  }, [keyPairs]);
+    setImportInspection(null);
+    setImportError('');
+    setImportAlgorithm(null);
+    if (!importData.trim()) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      runCryptoJob('inspectKeyMaterial', [importData])
+        .then(inspection => {
+          if (cancelled) return;
+          setImportInspection(inspection);
+          setImportAlgorithm(inspection.keys[0]?.algorithm ?? null);
+        })
+        .catch(error => {
+          if (!cancelled) setImportError(error instanceof Error ? error.message : 'Unrecognized key format');
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [importData]);
 
   const handleGenerateKeyPair = async () => {
     setIsGenerating(true);
     try {
-      const newKeyPair = await generateRSAKeyPair(keySize);
-      setKeyPairs(prev => [newKeyPair, ...prev]);
-      setSelectedKeyPair(newKeyPair);
+      const newKeyPair = await generateKeyPair(keyAlgorithm, keySize);
+      const id = await addVaultKeyPair(newKeyPair);
+      selectKeyPair({ ...newKeyPair, id });
       toast({
         title: "Key Pair Generated",
-        description: `New ${keySize}-bit RSA key pair created successfully.`,
+        description: `New ${newKeyPair.keySize}-bit ${KEY_ALGORITHMS[keyAlgorithm].name} key pair created successfully.${remindBackup ? ' Print a paper backup of it from the key details.' : ''}`,
       });
     } catch (error) {
       toast({
         title: "Generation Failed",
-        description: "Failed to generate RSA key pair. Please try again.",
+        description: "Failed to generate key pair. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -57,79 +167,261 @@ export const KeyManager = () => {
     }
   };
 
-  const handleCopyKey = (key: string, type: 'public' | 'private') => {
+  // The successor keeps the algorithm; RSA keys never shrink below their old size
+  const handleRotateKeyPair = async (keyPair: StoredKeyPair) => {
+    setIsRotating(true);
+    try {
+      const successor = await generateKeyPair(keyAlgorithmOf(keyPair), keyPair.keySize > 2048 ? 4096 : 2048);
+      const id = await rotateVaultKeyPair(keyPair.id, successor);
+      selectKeyPair({ ...keyPair, ...successor, replaces: keyPair.id, id });
+      toast({
+        title: "Key Pair Rotated",
+        description: `${shortKeyId(keyPair.id)} is retired and now only decrypts and verifies. Re-encrypt its files to ${shortKeyId(id)} from the batch file handler.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Rotation Failed",
+        description: error instanceof Error ? error.message : "Could not rotate the key pair.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  // Shares hold the raw PKCS#8 key, which keeps them short enough to print
+  const handleSplitKey = async (keyPair: StoredKeyPair) => {
+    try {
+      setKeyShares(await runCryptoJob('splitSecretIntoShares', [base64ToBytes(keyPair.privateKey), shareCount, shareThreshold]));
+      toast({
+        title: "Private Key Split",
+        description: `Any ${shareThreshold} of the ${shareCount} shares recover the key. Hand them to different people.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Split Failed",
+        description: error instanceof Error ? error.message : "Could not split the private key.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const shareFileText = (keyPair: StoredKeyPair, share: string, index: number) => [
+    `# Word Lock private key share ${index + 1} of ${keyShares.length} for key ${shortKeyId(keyPair.id)}`,
+    `# Any ${shareThreshold} shares recover the key. Keep this share apart from the others.`,
+    share,
+    ''
+  ].join('\n');
+
+  // Recovered keys go through the normal import so their type can be checked
+  const handleRecoverKey = async () => {
+    try {
+      const shares = findShareTexts(recoveryShares);
+      if (shares.length === 0) {
+        throw new Error('No shares found. Each share starts with "WLSS:".');
+      }
+      const secret = await runCryptoJob('recoverSecretFromShares', [shares]);
+      setImportData(await runCryptoJob('exportPrivateKeyPem', [bytesToBase64(secret)]));
+      setRecoveryShares('');
+      toast({
+        title: "Private Key Recovered",
+        description: "Check the recovered key under Import Key Pair and import it into the vault.",
+      });
+    } catch (error) {
+      toast({
+        title: "Recovery Failed",
+        description: error instanceof Error ? error.message : "Could not combine the shares.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopyKey = (key: string, type: 'public' | 'private' | 'share') => {
     navigator.clipboard.writeText(key);
     toast({
       title: "Copied to Clipboard",
-      description: `${type === 'public' ? 'Public' : 'Private'} key copied successfully.`,
+      description: `${type === 'public' ? 'Public key' : type === 'private' ? 'Private key' : 'Key share'} copied successfully.`,
     });
   };
 
-  const handleDownloadKey = (keyPair: KeyPair) => {
-    const keyData = {
-      publicKey: keyPair.publicKey,
-      privateKey: keyPair.privateKey,
-      keySize: keyPair.keySize,
-      created: keyPair.created,
-      exported: new Date().toISOString()
-    };
-    
-    const blob = new Blob([JSON.stringify(keyData, null, 2)], { type: 'application/json' });
+  const saveFile = (text: string, fileName: string, type: string) => {
+    const blob = new Blob([text], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `rsa-keypair-${keyPair.keySize}-${new Date().toISOString().split('T')[0]}.json`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Key Pair Downloaded",
-      description: "RSA key pair exported successfully.",
-    });
   };
 
-  const handleImportKey = () => {
+  const buildExport = async (keyPair: KeyPair) => {
+    const baseName = `${keyAlgorithmOf(keyPair).toLowerCase()}-${keyPair.keySize}-${new Date().toISOString().split('T')[0]}`;
+
+    switch (exportFormat) {
+      case 'pem': {
+        const privatePem = exportIncludePrivate
+          ? await runCryptoJob('exportPrivateKeyPem', [keyPair.privateKey, exportPassword || undefined])
+          : '';
+        return { text: exportPublicKeyPem(keyPair.publicKey) + privatePem, fileName: `${baseName}.pem`, type: 'application/x-pem-file' };
+      }
+      case 'jwk': {
+        const jwk = await runCryptoJob('exportKeyPairJwk', [keyPair, exportIncludePrivate]);
+        return { text: JSON.stringify(jwk, null, 2), fileName: `${baseName}.jwk`, type: 'application/jwk+json' };
+      }
+      case 'openssh':
+        return {
+          text: await runCryptoJob('exportOpenSshPublicKey', [keyPair.publicKey, `word-lock-${keyAlgorithmOf(keyPair).toLowerCase()}`]),
+          fileName: `${baseName}.pub`,
+          type: 'text/plain'
+        };
+      case 'word-lock': {
+        const keyData = {
+          publicKey: keyPair.publicKey,
+          ...(exportIncludePrivate ? { privateKey: keyPair.privateKey } : {}),
+          keySize: keyPair.keySize,
+          created: keyPair.created,
+          algorithm: keyAlgorithmOf(keyPair),
+          ...metadataOf(keyPair),
+          exported: new Date().toISOString()
+        };
+        return { text: JSON.stringify(keyData, null, 2), fileName: `${baseName}.json`, type: 'application/json' };
+      }
+    }
+  };
+
+  const handleExportKey = async (keyPair: KeyPair, target: 'download' | 'clipboard') => {
     try {
-      const keyData = JSON.parse(importData);
-      if (!keyData.publicKey || !keyData.privateKey) {
-        throw new Error('Invalid key format');
+      const { text, fileName, type } = await buildExport(keyPair);
+      if (target === 'download') {
+        saveFile(text, fileName, type);
+      } else {
+        await navigator.clipboard.writeText(text);
       }
-      
-      const importedKeyPair: KeyPair = {
-        publicKey: keyData.publicKey,
-        privateKey: keyData.privateKey,
-        keySize: keyData.keySize || 2048,
-        created: keyData.created || new Date().toISOString()
-      };
-      
-      setKeyPairs(prev => [importedKeyPair, ...prev]);
+      toast({
+        title: target === 'download' ? "Key Exported" : "Copied to Clipboard",
+        description: `${EXPORT_FORMATS[exportFormat]} ${exportIncludePrivate && exportFormat !== 'openssh' ? 'key pair' : 'public key'} exported.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not export the key.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportJwks = async () => {
+    try {
+      saveFile(await runCryptoJob('exportJwks', [keyPairs, false]), 'word-lock-public-keys.jwks.json', 'application/jwk-set+json');
+      toast({
+        title: "Public Keys Exported",
+        description: `${keyPairs.length} public key(s) saved as a JWK Set.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not export the keys.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) setImportData(await file.text());
+    event.target.value = '';
+  };
+
+  const handleImportKey = async () => {
+    try {
+      const imported = await runCryptoJob('importKeyMaterial', [importData, importPassword || undefined]);
+      const withPrivateKeys = imported.filter(key => key.privateKey);
+      if (withPrivateKeys.length === 0) {
+        throw new Error('Only public keys were found. Add public keys of other people under Contacts instead.');
+      }
+
+      const newKeyPairs = withPrivateKeys
+        .filter(key => !keyPairs.some(existing => existing.publicKey === key.publicKey))
+        .map((key): KeyPair => ({
+          label: key.comment,
+          ...key.metadata,
+          publicKey: key.publicKey,
+          privateKey: key.privateKey!,
+          keySize: key.keySize,
+          created: key.created ?? new Date().toISOString(),
+          algorithm: withPrivateKeys.length === 1 && importAlgorithm ? importAlgorithm : key.algorithm
+        }));
+      if (newKeyPairs.length === 0) {
+        throw new Error('These keys are already stored.');
+      }
+
+      await addVaultKeyPairs(newKeyPairs);
       setImportData('');
+      setImportPassword('');
       toast({
         title: "Key Pair Imported",
-        description: "RSA key pair imported successfully.",
+        description: `${newKeyPairs.length} key pair(s) imported from ${KEY_FORMAT_NAMES[withPrivateKeys[0].format]}.`,
       });
     } catch (error) {
       toast({
         title: "Import Failed",
-        description: "Invalid key format. Please check your input.",
+        description: error instanceof Error ? error.message : "Invalid key format. Please check your input.",
         variant: "destructive",
       });
     }
   };
 
-  const handleDeleteKeyPair = (keyPair: KeyPair) => {
-    setKeyPairs(prev => prev.filter(kp => kp.created !== keyPair.created));
-    if (selectedKeyPair?.created === keyPair.created) {
-      setSelectedKeyPair(null);
+  const handleSaveMetadata = async (keyPair: StoredKeyPair) => {
+    const text = (value?: string) => value?.trim() || undefined;
+    try {
+      await updateVaultKeyMetadata(keyPair.id, {
+        label: text(metadataDraft.label),
+        owner: text(metadataDraft.owner),
+        email: text(metadataDraft.email),
+        usages: metadataDraft.usages,
+        expires: metadataDraft.expires,
+      });
+      toast({
+        title: "Key Details Saved",
+        description: `Updated ${text(metadataDraft.label) ?? shortKeyId(keyPair.id)}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Could not update the key pair.",
+        variant: "destructive",
+      });
     }
-    toast({
-      title: "Key Pair Deleted",
-      description: "RSA key pair removed from storage.",
+  };
+
+  const toggleUsage = (usage: KeyPairUsage, enabled: boolean) => {
+    setMetadataDraft(prev => {
+      const usages = (prev.usages ?? []).filter(existing => existing !== usage);
+      return { ...prev, usages: enabled ? [...usages, usage] : usages };
     });
   };
 
+  const handleDeleteKeyPair = async (keyPair: StoredKeyPair) => {
+    try {
+      await removeVaultKeyPair(keyPair.id);
+      if (selectedKeyId === keyPair.id) {
+        setSelectedKeyId(null);
+      }
+      toast({
+        title: "Key Pair Deleted",
+        description: "Key pair removed from the vault.",
+      });
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Could not remove the key pair.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatKeyPreview = (key: string, maxLength: number = 50) => {
     if (key.length <= maxLength) return key;
     return key.substring(0, maxLength) + '...';
@@ -145,6 +437,10 @@ export const KeyManager = () => {
     });
   };
 
+  if (vaultStatus !== 'unlocked') {
+    return <VaultUnlock />;
+  }
+
   return (
     <div className="space-y-6">
       {/* Key Generation */}
@@ -152,14 +448,33 @@ export const KeyManager = () => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Key className="w-5 h-5 text-primary" />
-            RSA Key Pair Generation
+            Key Pair Generation
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex gap-4 items-end">
+            <div className="flex-1">
+              <Label htmlFor="keyAlgorithm">Algorithm</Label>
+              <Select value={keyAlgorithm} onValueChange={(value: KeyAlgorithm) => setKeyAlgorithm(value)}>
+                <SelectTrigger id="keyAlgorithm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(KEY_ALGORITHMS) as KeyAlgorithm[]).map(algorithm => (
+                    <SelectItem key={algorithm} value={algorithm}>
+                      {KEY_ALGORITHMS[algorithm].name} ({KEY_ALGORITHMS[algorithm].usage})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex-1">
               <Label htmlFor="keySize">Key Size (bits)</Label>
-              <Select value={keySize.toString()} onValueChange={(value) => setKeySize(Number(value) as 2048 | 4096)}>
+              <Select
+                value={keySize.toString()}
+                onValueChange={(value) => setKeySize(Number(value) as 2048 | 4096)}
+                disabled={!keyAlgorithm.startsWith('RSA')}
+              >
                 <SelectTrigger id="keySize">
                   <SelectValue />
                 </SelectTrigger>
@@ -200,15 +515,76 @@ export const KeyManager = () => {
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
-            <Label htmlFor="importData">Key Pair JSON Data</Label>
+            <div className="flex items-center justify-between mb-1">
+              <Label htmlFor="importData">Key Data</Label>
+              <Button size="sm" variant="ghost" onClick={() => importFileRef.current?.click()} className="h-6 px-2">
+                <FileKey className="w-3 h-3 mr-1" />
+                Load File
+              </Button>
+              <input
+                ref={importFileRef}
+                type="file"
+                accept=".pem,.key,.pub,.json,.jwk,.jwks,.txt"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+            </div>
             <Textarea
               id="importData"
-              placeholder="Paste your exported key pair JSON data here..."
+              placeholder="Paste a PEM private key, JWK / JWK Set, OpenSSH public key or exported key pair JSON..."
               value={importData}
               onChange={(e) => setImportData(e.target.value)}
               className="min-h-[100px] font-mono text-sm"
             />
           </div>
+
+          {importError && (
+            <p className="text-sm text-destructive">{importError}</p>
+          )}
+
+          {importInspection && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">{KEY_FORMAT_NAMES[importInspection.format]}</Badge>
+              {importInspection.keys.map((key, index) => (
+                <Badge key={index} variant="secondary">
+                  {key.family} · {key.keySize} bits · {key.hasPrivateKey ? 'private key' : 'public key only'}
+                  {key.comment && ` · ${key.comment}`}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {importInspection?.encrypted && (
+            <div>
+              <Label htmlFor="importPassword">Private Key Password</Label>
+              <Input
+                id="importPassword"
+                type="password"
+                value={importPassword}
+                onChange={(e) => setImportPassword(e.target.value)}
+                placeholder="Password the key was encrypted with"
+              />
+            </div>
+          )}
+
+          {importInspection?.keys.length === 1 && importAlgorithm && (
+            <div>
+              <Label htmlFor="importAlgorithm">Use As</Label>
+              <Select value={importAlgorithm} onValueChange={(value: KeyAlgorithm) => setImportAlgorithm(value)}>
+                <SelectTrigger id="importAlgorithm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {KEY_FAMILY_ALGORITHMS[importInspection.keys[0].family].map(algorithm => (
+                    <SelectItem key={algorithm} value={algorithm}>
+                      {KEY_ALGORITHMS[algorithm].name} ({KEY_ALGORITHMS[algorithm].usage})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <Button onClick={handleImportKey} disabled={!importData.trim()}>
             <Upload className="w-4 h-4 mr-2" />
             Import Key Pair
@@ -216,10 +592,42 @@ export const KeyManager = () => {
         </CardContent>
       </Card>
 
+      {/* Key Recovery */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Puzzle className="w-5 h-5 text-accent" />
+            Recover from Shares
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            placeholder="Paste enough key shares (each starting with WLSS:) to recover a private key..."
+            value={recoveryShares}
+            onChange={(e) => setRecoveryShares(e.target.value)}
+            className="min-h-[100px] font-mono text-sm"
+          />
+          <Button variant="outline" onClick={handleRecoverKey} disabled={!recoveryShares.trim()}>
+            <Puzzle className="w-4 h-4 mr-2" />
+            Recover Private Key
+          </Button>
+        </CardContent>
+      </Card>
+
+      <PaperKeyRestore />
+
       {/* Key Pairs List */}
       <Card className="glass-card">
         <CardHeader>
-          <CardTitle>Stored Key Pairs ({keyPairs.length})</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle>Stored Key Pairs ({keyPairs.length})</CardTitle>
+            {keyPairs.length > 0 && (
+              <Button size="sm" variant="outline" onClick={handleExportJwks}>
+                <Download className="w-4 h-4 mr-2" />
+                Public Keys (JWKS)
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           {keyPairs.length === 0 ? (
@@ -229,30 +637,59 @@ export const KeyManager = () => {
             </div>
           ) : (
             <div className="space-y-4">
-              {keyPairs.map((keyPair, index) => (
-                <div key={keyPair.created} className="border rounded-lg p-4 space-y-3">
+              {keyPairs.map((keyPair) => (
+                <div key={keyPair.id} className="border rounded-lg p-4 space-y-3">
                   <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <Badge variant="outline" className="text-xs">
-                        {keyPair.keySize} bits
-                      </Badge>
-                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                        <Clock className="w-3 h-3" />
-                        {formatDate(keyPair.created)}
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{keyPair.label ?? KEY_ALGORITHMS[keyAlgorithmOf(keyPair)].name}</span>
+                        <Badge variant="outline" className="font-mono text-xs">{shortKeyId(keyPair.id)}</Badge>
                       </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline" className="text-xs">
+                          {keyPair.keySize} bits
+                        </Badge>
+                        <Badge variant="secondary" className="text-xs">
+                          {KEY_ALGORITHMS[keyAlgorithmOf(keyPair)].name}
+                        </Badge>
+                        {keyPair.retired && (
+                          <Badge variant="outline" className="text-xs">Retired</Badge>
+                        )}
+                        {remindBackup && !keyPair.backedUp && !keyPair.retired && (
+                          <Badge variant="outline" className="text-xs">Not Backed Up</Badge>
+                        )}
+                        {isKeyExpired(keyPair) ? (
+                          <Badge variant="destructive" className="text-xs">Expired</Badge>
+                        ) : keyPair.expires && (
+                          <Badge variant="outline" className="text-xs">Expires {new Date(keyPair.expires).toLocaleDateString()}</Badge>
+                        )}
+                        {keyUsagesOf(keyPair).length === 0 && (
+                          <Badge variant="outline" className="text-xs">Disabled</Badge>
+                        )}
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Clock className="w-3 h-3" />
+                          {formatDate(keyPair.created)}
+                        </div>
+                      </div>
+                      {(keyPair.owner || keyPair.email) && (
+                        <p className="text-xs text-muted-foreground">
+                          {[keyPair.owner, keyPair.email && `<${keyPair.email}>`].filter(Boolean).join(' ')}
+                        </p>
+                      )}
                     </div>
                     <div className="flex gap-2">
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => setSelectedKeyPair(keyPair)}
+                        onClick={() => selectKeyPair(keyPair)}
                       >
-                        {selectedKeyPair?.created === keyPair.created ? 'Selected' : 'Select'}
+                        {selectedKeyId === keyPair.id ? 'Selected' : 'Select'}
                       </Button>
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => handleDownloadKey(keyPair)}
+                        onClick={() => selectKeyPair(keyPair)}
+                        title="Export"
                       >
                         <Download className="w-4 h-4" />
                       </Button>
@@ -321,14 +758,110 @@ export const KeyManager = () => {
             <div className="grid grid-cols-2 gap-4 text-sm">
               <div>
                 <Label>Key Size</Label>
-                <p className="font-mono">{selectedKeyPair.keySize} bits</p>
+                <p className="font-mono">{selectedKeyPair.keySize} bits · {KEY_ALGORITHMS[keyAlgorithmOf(selectedKeyPair)].name}</p>
               </div>
               <div>
                 <Label>Created</Label>
                 <p className="font-mono">{formatDate(selectedKeyPair.created)}</p>
               </div>
             </div>
-            
+
+            <KeyFingerprint
+              publicKey={selectedKeyPair.publicKey}
+              title={`${keyAlgorithmOf(selectedKeyPair)} ${selectedKeyPair.keySize}`}
+            />
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label>Rotation</Label>
+              {selectedKeyPair.replaces && (
+                <p className="text-sm text-muted-foreground">
+                  Replaces <span className="font-mono">{shortKeyId(selectedKeyPair.replaces)}</span>
+                </p>
+              )}
+              {selectedKeyPair.retired ? (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  <span>
+                    Retired {formatDate(selectedKeyPair.retired)}. It still decrypts and verifies, but is no
+                    longer offered for new encryptions or signatures.
+                  </span>
+                  {successorKeyPair && (
+                    <Button size="sm" variant="outline" onClick={() => selectKeyPair(successorKeyPair)}>
+                      Show successor {shortKeyId(successorKeyPair.id)}
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Rotating generates a new {KEY_ALGORITHMS[keyAlgorithmOf(selectedKeyPair)].name} key pair with the same
+                    details and retires this one. Files encrypted to it can then be re-encrypted in the batch file handler.
+                  </p>
+                  <Button variant="outline" onClick={() => handleRotateKeyPair(selectedKeyPair)} disabled={isRotating}>
+                    <RefreshCw className={`w-4 h-4 mr-2 ${isRotating ? 'animate-spin' : ''}`} />
+                    {isRotating ? 'Rotating...' : 'Rotate Key Pair'}
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label>Details</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="keyLabel" className="text-xs">Label</Label>
+                  <Input
+                    id="keyLabel"
+                    value={metadataDraft.label ?? ''}
+                    onChange={(e) => setMetadataDraft(prev => ({ ...prev, label: e.target.value }))}
+                    placeholder="e.g. Work laptop"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="keyExpires" className="text-xs">Expires</Label>
+                  <Input
+                    id="keyExpires"
+                    type="date"
+                    value={toDateInput(metadataDraft.expires)}
+                    onChange={(e) => setMetadataDraft(prev => ({ ...prev, expires: fromDateInput(e.target.value) }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="keyOwner" className="text-xs">Owner</Label>
+                  <Input
+                    id="keyOwner"
+                    value={metadataDraft.owner ?? ''}
+                    onChange={(e) => setMetadataDraft(prev => ({ ...prev, owner: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="keyEmail" className="text-xs">Email</Label>
+                  <Input
+                    id="keyEmail"
+                    type="email"
+                    value={metadataDraft.email ?? ''}
+                    onChange={(e) => setMetadataDraft(prev => ({ ...prev, email: e.target.value }))}
+                  />
+                </div>
+              </div>
+              {keyUsagesOf({ algorithm: selectedKeyPair.algorithm }).map(usage => (
+                <div key={usage} className="flex items-center gap-2">
+                  <Switch
+                    id={`keyUsage-${usage}`}
+                    checked={metadataDraft.usages?.includes(usage) ?? false}
+                    onCheckedChange={(checked) => toggleUsage(usage, checked)}
+                  />
+                  <Label htmlFor={`keyUsage-${usage}`}>{USAGE_NAMES[usage]}</Label>
+                </div>
+              ))}
+              <Button variant="outline" onClick={() => handleSaveMetadata(selectedKeyPair)}>
+                Save Details
+              </Button>
+            </div>
+
             <Separator />
             
             <div className="space-y-3">
@@ -352,6 +885,144 @@ export const KeyManager = () => {
                 />
               </div>
             </div>
+
+            <Separator />
+
+            <PaperKeyBackup keyPair={selectedKeyPair} />
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label>Split into Shares</Label>
+              <p className="text-sm text-muted-foreground">
+                Split the private key into printable shares so that no single person holds it, but enough of
+                them together can recover it.
+              </p>
+              <div className="flex flex-wrap items-end gap-4">
+                <div>
+                  <Label htmlFor="shareThreshold" className="text-xs">Shares Needed</Label>
+                  <Input
+                    id="shareThreshold"
+                    type="number"
+                    min={2}
+                    max={shareCount}
+                    value={shareThreshold}
+                    onChange={(e) => setShareThreshold(Number(e.target.value))}
+                    className="w-24"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="shareCount" className="text-xs">Total Shares</Label>
+                  <Input
+                    id="shareCount"
+                    type="number"
+                    min={2}
+                    max={255}
+                    value={shareCount}
+                    onChange={(e) => setShareCount(Number(e.target.value))}
+                    className="w-24"
+                  />
+                </div>
+                <Button variant="outline" onClick={() => handleSplitKey(selectedKeyPair)}>
+                  <Split className="w-4 h-4 mr-2" />
+                  Split Private Key
+                </Button>
+              </div>
+
+              {keyShares.map((share, index) => (
+                <div key={index} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Share {index + 1} of {keyShares.length}</span>
+                    <div className="flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleCopyKey(shareFileText(selectedKeyPair, share, index), 'share')}
+                        className="h-6 px-2"
+                      >
+                        <Copy className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => saveFile(
+                          shareFileText(selectedKeyPair, share, index),
+                          `key-${shortKeyId(selectedKeyPair.id).toLowerCase()}-share-${index + 1}-of-${keyShares.length}.txt`,
+                          'text/plain'
+                        )}
+                        className="h-6 px-2"
+                      >
+                        <Download className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  <pre className="font-mono text-xs bg-muted/50 rounded p-2 whitespace-pre-wrap">{share}</pre>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label>Export</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Select value={exportFormat} onValueChange={(value: ExportFormat) => setExportFormat(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                      <SelectItem
+                        key={format}
+                        value={format}
+                        disabled={format === 'openssh' && !['RSA', 'EC'].some(prefix => keyAlgorithmOf(selectedKeyPair).startsWith(prefix))}
+                      >
+                        {EXPORT_FORMATS[format]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="exportIncludePrivate"
+                    checked={exportIncludePrivate && exportFormat !== 'openssh'}
+                    onCheckedChange={setExportIncludePrivate}
+                    disabled={exportFormat === 'openssh'}
+                  />
+                  <Label htmlFor="exportIncludePrivate">Include private key</Label>
+                </div>
+              </div>
+
+              {exportIncludePrivate && exportFormat === 'pem' && (
+                <Input
+                  type="password"
+                  value={exportPassword}
+                  onChange={(e) => setExportPassword(e.target.value)}
+                  placeholder="Password to encrypt the private key (recommended)"
+                />
+              )}
+
+              {exportIncludePrivate && exportFormat !== 'openssh' && !(exportFormat === 'pem' && exportPassword) && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    The private key will be written unencrypted.
+                    {exportFormat === 'pem' ? ' Set a password to export an encrypted PKCS#8 key.' : ' Use PEM with a password to protect it.'}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2">
+                <Button onClick={() => handleExportKey(selectedKeyPair, 'download')}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </Button>
+                <Button variant="outline" onClick={() => handleExportKey(selectedKeyPair, 'clipboard')}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy
+                </Button>
+              </div>
+            </div>
           </CardContent>
         </Card>
       )}
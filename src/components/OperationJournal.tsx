@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useJournal } from '@/hooks/use-journal';
+import {
+  JOURNAL_TOOL_NAMES,
+  clearJournal,
+  exportJournal,
+  isJournalEnabled,
+  type JournalEntry,
+  type JournalExportFormat,
+  type JournalFingerprint,
+  type JournalStatus,
+  type JournalTool,
+} from '@/lib/journal';
+import { saveStream } from '@/lib/stream';
+import { CheckCircle, Download, History, Search, Trash2, XCircle } from 'lucide-react';
+
+// Rendering thousands of rows at once stalls the page; search narrows it down
+const MAX_SHOWN = 200;
+
+const TOOLS = Object.keys(JOURNAL_TOOL_NAMES) as JournalTool[];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const matchesSearch = (entry: JournalEntry, query: string) => {
+  if (!query) return true;
+  const fields = [
+    entry.operation,
+    entry.algorithm,
+    JOURNAL_TOOL_NAMES[entry.tool],
+    entry.error,
+    entry.input?.sha256,
+    entry.input?.preview,
+    entry.output?.sha256,
+    entry.output?.preview,
+  ];
+  return fields.some(field => field?.toLowerCase().includes(query));
+};
+
+function FingerprintLine({ label, fingerprint }: { label: string; fingerprint?: JournalFingerprint }) {
+  if (!fingerprint) return null;
+  return (
+    <div className="text-xs">
+      <span className="text-muted-foreground">{label} </span>
+      <span className="font-mono" title={fingerprint.sha256}>{fingerprint.sha256.slice(0, 16)}…</span>
+      <span className="text-muted-foreground"> · {formatBytes(fingerprint.bytes)}</span>
+      {fingerprint.preview && (
+        <p className="font-mono bg-muted/50 rounded p-1 mt-1 break-all">{fingerprint.preview}</p>
+      )}
+    </div>
+  );
+}
+
+export function OperationJournal() {
+  const entries = useJournal();
+  const [query, setQuery] = useState('');
+  const [tool, setTool] = useState<JournalTool | 'all'>('all');
+  const [status, setStatus] = useState<JournalStatus | 'all'>('all');
+  const { toast } = useToast();
+
+  const enabled = isJournalEnabled();
+  const search = query.trim().toLowerCase();
+  const filtered = entries.filter(entry =>
+    (tool === 'all' || entry.tool === tool) &&
+    (status === 'all' || entry.status === status) &&
+    matchesSearch(entry, search)
+  );
+  const failures = filtered.filter(entry => entry.status === 'failure').length;
+
+  const handleExport = async (format: JournalExportFormat) => {
+    const type = format === 'csv' ? 'text/csv' : 'application/json';
+    try {
+      await saveStream(new Blob([exportJournal(filtered, format)], { type }).stream(), `operation-journal.${format}`);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not save the journal.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Delete every entry in the operation journal?')) return;
+    try {
+      await clearJournal();
+      toast({
+        title: "Journal Cleared",
+        description: "All recorded operations have been deleted.",
+      });
+    } catch (error) {
+      toast({
+        title: "Clear Failed",
+        description: error instanceof Error ? error.message : "Could not clear the journal.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          Operation Journal
+        </CardTitle>
+        <CardDescription>
+          {enabled
+            ? 'Operations are recorded by fingerprint; text is kept only if allowed in Settings.'
+            : 'Recording is off. Turn on Record Operations in Settings to keep a journal.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search operations, algorithms, errors or fingerprints..."
+              className="pl-9"
+            />
+          </div>
+          <Select value={tool} onValueChange={(value) => setTool(value as JournalTool | 'all')}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All tools</SelectItem>
+              {TOOLS.map(id => (
+                <SelectItem key={id} value={id}>{JOURNAL_TOOL_NAMES[id]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={status} onValueChange={(value) => setStatus(value as JournalStatus | 'all')}>
+            <SelectTrigger className="md:w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any outcome</SelectItem>
+              <SelectItem value="success">Succeeded</SelectItem>
+              <SelectItem value="failure">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground mr-auto">
+            {filtered.length} of {entries.length} operations{failures > 0 && `, ${failures} failed`}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={filtered.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={filtered.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            JSON
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleClear} disabled={entries.length === 0}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+
+        {filtered.length > 0 ? (
+          <div className="space-y-3">
+            {filtered.slice(0, MAX_SHOWN).map(entry => (
+              <div key={entry.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  {entry.status === 'success'
+                    ? <CheckCircle className="w-4 h-4 text-green-500" />
+                    : <XCircle className="w-4 h-4 text-red-500" />}
+                  <span className="text-sm font-medium">{entry.operation}</span>
+                  <Badge variant="outline" className="text-xs">{entry.algorithm}</Badge>
+                  <Badge variant="secondary" className="text-xs">{JOURNAL_TOOL_NAMES[entry.tool]}</Badge>
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {formatDate(entry.startedAt)} · {entry.finishedAt - entry.startedAt} ms
+                  </span>
+                </div>
+                {entry.error && <p className="text-xs text-red-500">{entry.error}</p>}
+                <FingerprintLine label="In" fingerprint={entry.input} />
+                <FingerprintLine label="Out" fingerprint={entry.output} />
+              </div>
+            ))}
+            {filtered.length > MAX_SHOWN && (
+              <p className="text-xs text-muted-foreground text-center">
+                Showing the newest {MAX_SHOWN}; search or export to see the rest.
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {entries.length > 0 ? 'No operations match these filters.' : 'No operations recorded yet.'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
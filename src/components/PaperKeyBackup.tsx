@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { QrCode } from '@/components/QrCode';
+import { useToast } from '@/hooks/use-toast';
+import { formatFingerprint, shortKeyId } from '@/lib/fingerprint';
+import { KEY_ALGORITHMS, keyAlgorithmOf } from '@/lib/keystore';
+import type { PaperKey } from '@/lib/paperkey';
+import { markVaultKeyBackedUp, type StoredKeyPair } from '@/lib/vault';
+import { runCryptoJob } from '@/lib/workerPool';
+import { AlertTriangle, FileText, Printer } from 'lucide-react';
+
+interface PaperKeyBackupProps {
+  keyPair: StoredKeyPair;
+}
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Renders the private key as QR codes and words for printing. Nothing is
+// written to disk; the printed page is the backup.
+export const PaperKeyBackup = ({ keyPair }: PaperKeyBackupProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [paperKey, setPaperKey] = useState<PaperKey | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const qrCodesRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const algorithmName = KEY_ALGORITHMS[keyAlgorithmOf(keyPair)].name;
+
+  useEffect(() => {
+    setPaperKey(null);
+    setPassphrase('');
+    setConfirmPassphrase('');
+  }, [keyPair.id]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      setPaperKey(await runCryptoJob('createPaperKey', [keyPair.privateKey, keyAlgorithmOf(keyPair), passphrase || undefined]));
+    } catch (error) {
+      toast({
+        title: "Backup Failed",
+        description: error instanceof Error ? error.message : "Could not create the paper backup.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!paperKey) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast({
+        title: "Print Failed",
+        description: "The print window was blocked. Allow pop-ups for this site and try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const qrCodes = [...(qrCodesRef.current?.querySelectorAll('svg') ?? [])].map((svg, index) => `
+      <figure>${svg.outerHTML}<figcaption>QR code ${index + 1} of ${paperKey.qrCodes.length}</figcaption></figure>`);
+    const words = paperKey.words?.map((word, index) => `<li><span>${index + 1}.</span> ${word}</li>`) ?? [];
+    const title = keyPair.label ?? `${algorithmName} key`;
+
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>Paper backup - ${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #000; margin: 1.5cm; }
+  h1 { font-size: 18pt; margin: 0 0 4pt; }
+  p { font-size: 10pt; margin: 2pt 0; }
+  .fingerprint { font-family: monospace; font-size: 9pt; word-break: break-all; }
+  .codes { display: flex; flex-wrap: wrap; gap: 0.8cm; margin: 0.8cm 0; }
+  figure { margin: 0; text-align: center; font-size: 9pt; break-inside: avoid; }
+  svg { width: 6.5cm; height: 6.5cm; }
+  ol { columns: 4; font-family: monospace; font-size: 11pt; list-style: none; padding: 0; }
+  li span { display: inline-block; width: 2.5em; text-align: right; color: #555; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(`${algorithmName} · ${keyPair.keySize} bits · key ${shortKeyId(keyPair.id)}`)}</p>
+<p class="fingerprint">SHA-256 ${formatFingerprint(keyPair.id)}</p>
+<p>Printed ${escapeHtml(new Date().toLocaleString())}. ${paperKey.encrypted
+  ? 'The key is encrypted with a passphrase, which is not on this page.'
+  : '<strong>This page holds the unencrypted private key. Store it like cash.</strong>'}</p>
+<p>Restore it under Key Vault, Restore Paper Backup, by scanning ${paperKey.qrCodes.length > 1 ? 'all QR codes' : 'the QR code'}${words.length > 0 ? ' or typing the words' : ''}.</p>
+<div class="codes">${qrCodes.join('')}</div>
+${words.length > 0 ? `<ol>${words.join('')}</ol>` : ''}
+</body>
+</html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+
+    try {
+      await markVaultKeyBackedUp(keyPair.id);
+    } catch (error) {
+      console.error('Failed to record the backup:', error);
+    }
+  };
+
+  const passphraseMismatch = passphrase !== confirmPassphrase;
+
+  return (
+    <div className="space-y-3">
+      <Label>Paper Backup</Label>
+      <p className="text-sm text-muted-foreground">
+        Print the private key as QR codes and, for shorter keys, a list of words to keep offline. A passphrase
+        encrypts the key on the page; without it the backup cannot be restored.
+        {keyPair.backedUp && ` Last printed ${new Date(keyPair.backedUp).toLocaleDateString()}.`}
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase (recommended)"
+        />
+        <Input
+          type="password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          placeholder="Confirm passphrase"
+          disabled={!passphrase}
+        />
+      </div>
+
+      {!passphrase && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Without a passphrase, anyone who sees the printed page has the private key.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleCreate} disabled={isCreating || passphraseMismatch}>
+          <FileText className="w-4 h-4 mr-2" />
+          {isCreating ? 'Creating...' : 'Create Paper Backup'}
+        </Button>
+        {paperKey && (
+          <Button onClick={handlePrint}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        )}
+      </div>
+
+      {paperKey && (
+        <div className="border rounded-lg p-3 space-y-3">
+          <div ref={qrCodesRef} className="flex flex-wrap gap-4">
+            {paperKey.qrCodes.map((text, index) => (
+              <div key={index} className="text-center text-xs text-muted-foreground space-y-1">
+                <QrCode text={text} className="w-48 h-48" />
+                {paperKey.qrCodes.length > 1 && <p>{index + 1} of {paperKey.qrCodes.length}</p>}
+              </div>
+            ))}
+          </div>
+          {paperKey.words ? (
+            <ol className="grid grid-cols-3 md:grid-cols-6 gap-x-4 gap-y-1 font-mono text-xs">
+              {paperKey.words.map((word, index) => (
+                <li key={index}>
+                  <span className="text-muted-foreground">{index + 1}.</span> {word}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              This key is too long to write down as words; restore it from the QR codes.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
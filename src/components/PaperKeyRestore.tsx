@@ -0,0 +1,187 @@
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useVault } from '@/hooks/use-vault';
+import { shortKeyId } from '@/lib/fingerprint';
+import { KEY_ALGORITHMS } from '@/lib/keystore';
+import { addVaultKeyPair } from '@/lib/vault';
+import { runCryptoJob } from '@/lib/workerPool';
+import { Camera, FileText, X } from 'lucide-react';
+
+// Large photos are scaled down before scanning; QR modules stay several
+// pixels wide at this size on a printed page
+const MAX_SCAN_DIMENSION = 2000;
+
+async function readImage(file: File): Promise<ImageData> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_SCAN_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not read the image');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// Restores a key pair from a printed paper backup: typed words, or photos
+// and scans of its QR codes, decoded in the browser
+export const PaperKeyRestore = () => {
+  const { keyPairs } = useVault();
+  const [words, setWords] = useState('');
+  const [qrCodes, setQrCodes] = useState<string[]>([]);
+  const [passphrase, setPassphrase] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleImages = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])];
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsScanning(true);
+    try {
+      const scanned: string[] = [];
+      for (const file of files) {
+        try {
+          scanned.push(...await runCryptoJob('scanPaperKeyImage', [await readImage(file)]));
+        } catch (error) {
+          throw new Error(`${file.name}: ${error instanceof Error ? error.message : 'could not be scanned'}`);
+        }
+      }
+      setQrCodes(prev => [...new Set([...prev, ...scanned])]);
+      toast({
+        title: "QR Codes Scanned",
+        description: `Found ${scanned.length} backup QR code(s).`,
+      });
+    } catch (error) {
+      toast({
+        title: "Scan Failed",
+        description: error instanceof Error ? error.message : "No QR code could be read from the image.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      const key = await runCryptoJob('restorePaperKey', [{ words, qrCodes }, passphrase || undefined]);
+      if (keyPairs.some(existing => existing.publicKey === key.publicKey)) {
+        throw new Error('This key pair is already stored.');
+      }
+
+      const now = new Date().toISOString();
+      const id = await addVaultKeyPair({
+        publicKey: key.publicKey,
+        privateKey: key.privateKey!,
+        keySize: key.keySize,
+        algorithm: key.algorithm,
+        created: now,
+        backedUp: now
+      });
+      setWords('');
+      setQrCodes([]);
+      setPassphrase('');
+      toast({
+        title: "Key Pair Restored",
+        description: `${KEY_ALGORITHMS[key.algorithm].name} key pair ${shortKeyId(id)} restored from the paper backup.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "Could not restore the paper backup.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const qrCodeLabel = (text: string) => text.split(':')[1];
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5 text-accent" />
+          Restore Paper Backup
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="paperKeyWords">Words</Label>
+          <Textarea
+            id="paperKeyWords"
+            placeholder="Type the words from the backup in order; the first four letters of each are enough..."
+            value={words}
+            onChange={(e) => setWords(e.target.value)}
+            disabled={qrCodes.length > 0}
+            className="min-h-[80px] font-mono text-sm"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => imageInputRef.current?.click()} disabled={isScanning}>
+              <Camera className="w-4 h-4 mr-2" />
+              {isScanning ? 'Scanning...' : 'Scan QR Code Images'}
+            </Button>
+            <input
+              ref={imageInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleImages}
+              className="hidden"
+            />
+            {qrCodes.length > 0 && (
+              <Button size="sm" variant="ghost" onClick={() => setQrCodes([])}>
+                <X className="w-4 h-4 mr-1" />
+                Clear
+              </Button>
+            )}
+          </div>
+          {qrCodes.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {qrCodes.map(text => (
+                <Badge key={text} variant="secondary">QR code {qrCodeLabel(text)}</Badge>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Photos or scans of the printed page; a page with several QR codes can be scanned at once.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="paperKeyPassphrase">Passphrase</Label>
+          <Input
+            id="paperKeyPassphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Only if the backup was encrypted"
+          />
+        </div>
+
+        <Button onClick={handleRestore} disabled={isRestoring || (!words.trim() && qrCodes.length === 0)}>
+          <FileText className="w-4 h-4 mr-2" />
+          {isRestoring ? 'Restoring...' : 'Restore Key Pair'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
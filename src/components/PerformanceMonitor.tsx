@@ -5,11 +5,17 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
 import { 
   Activity, Clock, Zap, HardDrive, Cpu, Monitor, 
   TrendingUp, BarChart3, Target, Gauge, CheckCircle,
-  AlertTriangle, Info, Wifi, Battery, Thermometer
+  AlertTriangle, Info, Wifi, Battery, Thermometer, Key
 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { KDF_NAMES, KDF_PROFILES, describeKdf, newKdfParams, type KdfCost, type KdfName } from '@/lib/kdf';
+import { runCryptoJob } from '@/lib/workerPool';
+import { loadSettings, saveSettings } from '@/lib/settings';
 
 interface PerformanceMetrics {
   encryptionSpeed: number; // operations per second
@@ -48,6 +54,10 @@ export function PerformanceMonitor() {
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [performanceHistory, setPerformanceHistory] = useState<number[]>([]);
   const [benchmarkResults, setBenchmarkResults] = useState<any>(null);
+  const [kdfAlgorithm, setKdfAlgorithm] = useState<KdfName>(() => loadSettings().kdfAlgorithm);
+  const [kdfTargetMs, setKdfTargetMs] = useState(500);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [kdfCalibration, setKdfCalibration] = useState<{ cost: KdfCost; measuredMs: number } | null>(null);
 
   // Initialize system info
   useEffect(() => {
@@ -182,6 +192,44 @@ export function PerformanceMonitor() {
     }
   };
 
+  const runKdfCalibration = async () => {
+    setIsCalibrating(true);
+    setKdfCalibration(null);
+
+    try {
+      const cost = await runCryptoJob('calibrateKdf', [KDF_PROFILES.interactive[kdfAlgorithm], kdfTargetMs]);
+
+      // Time the chosen parameters once so the user sees the real unlock delay
+      const start = performance.now();
+      await runCryptoJob('deriveKeyBytes', ['calibration', newKdfParams(cost)]);
+      setKdfCalibration({ cost, measuredMs: Math.round(performance.now() - start) });
+    } catch (error) {
+      console.error('KDF calibration failed:', error);
+      toast({
+        title: "Calibration Failed",
+        description: error instanceof Error ? error.message : "Could not measure key derivation speed.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  const applyKdfCalibration = () => {
+    if (!kdfCalibration) return;
+
+    saveSettings({
+      ...loadSettings(),
+      kdfAlgorithm: kdfCalibration.cost.name,
+      kdfProfile: 'calibrated',
+      kdfCalibrated: kdfCalibration.cost,
+    });
+    toast({
+      title: "KDF Profile Updated",
+      description: `New encryptions will use ${describeKdf(kdfCalibration.cost)}.`,
+    });
+  };
+
   const getPerformanceGrade = (score: number): string => {
     if (score > 1000) return 'Excellent';
     if (score > 750) return 'Very Good';
@@ -242,7 +290,7 @@ export function PerformanceMonitor() {
       </Card>
 
       <Tabs defaultValue="metrics" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4 glass-card">
+        <TabsList className="grid w-full grid-cols-5 glass-card">
           <TabsTrigger value="metrics" className="data-[state=active]:bg-primary/20">
             <Gauge className="w-4 h-4 mr-2" />
             Metrics
@@ -259,6 +307,10 @@ export function PerformanceMonitor() {
             <TrendingUp className="w-4 h-4 mr-2" />
             Optimization
           </TabsTrigger>
+          <TabsTrigger value="kdf" className="data-[state=active]:bg-primary/20">
+            <Key className="w-4 h-4 mr-2" />
+            Key Derivation
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="metrics">
@@ -558,6 +610,78 @@ export function PerformanceMonitor() {
             </div>
           </div>
         </TabsContent>
+
+        <TabsContent value="kdf">
+          <div className="space-y-4">
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>
+                Passwords are stretched before use so each guess costs an attacker the same time it costs you to unlock.
+                Calibrate to the slowest delay you are comfortable waiting on this device.
+              </AlertDescription>
+            </Alert>
+
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle className="text-lg">Calibrate Key Derivation</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Function</Label>
+                    <Select value={kdfAlgorithm} onValueChange={(value: KdfName) => setKdfAlgorithm(value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(KDF_NAMES) as KdfName[]).map(name => (
+                          <SelectItem key={name} value={name}>{KDF_NAMES[name]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Target Unlock Time</Label>
+                    <Select value={kdfTargetMs.toString()} onValueChange={(value) => setKdfTargetMs(parseInt(value))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="250">250 ms</SelectItem>
+                        <SelectItem value="500">500 ms</SelectItem>
+                        <SelectItem value="1000">1 second</SelectItem>
+                        <SelectItem value="2000">2 seconds</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <Button onClick={runKdfCalibration} disabled={isCalibrating} className="w-full">
+                  <Gauge className="w-4 h-4 mr-2" />
+                  {isCalibrating ? 'Calibrating...' : 'Run Calibration'}
+                </Button>
+
+                {kdfCalibration && (
+                  <div className="space-y-3 p-3 rounded-lg bg-muted/30">
+                    <div className="flex justify-between">
+                      <span>Parameters:</span>
+                      <span className="font-mono text-sm">{describeKdf(kdfCalibration.cost)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Measured:</span>
+                      <span className="font-mono">{kdfCalibration.measuredMs} ms</span>
+                    </div>
+                    <Button onClick={applyKdfCalibration} variant="outline" size="sm" className="w-full">
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      Use for New Encryptions
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
       </Tabs>
     </div>
   );
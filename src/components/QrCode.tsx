@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { encodeQr, qrSvgPath, type QrErrorCorrection } from '@/lib/qrcode';
+
+interface QrCodeProps {
+  text: string;
+  level?: QrErrorCorrection;
+  className?: string;
+}
+
+// Text as an SVG QR code with the standard four-module quiet zone. Colors are
+// fixed black on white so the code stays scannable in dark mode and in print.
+export const QrCode = ({ text, level = 'M', className }: QrCodeProps) => {
+  const matrix = useMemo(() => encodeQr(text, level), [text, level]);
+  const size = matrix.length + 8;
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${size} ${size}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+      className={className}
+    >
+      <rect width={size} height={size} fill="#fff" />
+      <path d={qrSvgPath(matrix)} fill="#000" />
+    </svg>
+  );
+};
@@ -8,34 +8,10 @@ import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from '@/hooks/use-toast';
-
-interface SettingsData {
-  theme: 'dark' | 'light' | 'auto';
-  autoSave: boolean;
-  encryptionDefault: string;
-  keySize: number;
-  showAdvanced: boolean;
-  enableAnimations: boolean;
-  enableSounds: boolean;
-  maxFileSize: number;
-  compressionLevel: number;
-  backupKeys: boolean;
-  clearOnExit: boolean;
-}
-
-const defaultSettings: SettingsData = {
-  theme: 'dark',
-  autoSave: true,
-  encryptionDefault: 'aes256',
-  keySize: 2048,
-  showAdvanced: false,
-  enableAnimations: true,
-  enableSounds: false,
-  maxFileSize: 10,
-  compressionLevel: 6,
-  backupKeys: true,
-  clearOnExit: false,
-};
+import { defaultSettings, kdfCostFromSettings, loadSettings, saveSettings as persistSettings, type SettingsData } from '@/lib/settings';
+import { KDF_NAMES, describeKdf, type KdfName } from '@/lib/kdf';
+import { deleteJournal } from '@/lib/journal';
+import { deleteVault } from '@/lib/vault';
 
 export function Settings() {
   const [settings, setSettings] = useState<SettingsData>(defaultSettings);
@@ -43,15 +19,7 @@ export function Settings() {
 
   // Load settings from localStorage on mount
   useEffect(() => {
-    const savedSettings = localStorage.getItem('securetext-settings');
-    if (savedSettings) {
-      try {
-        const parsed = JSON.parse(savedSettings);
-        setSettings({ ...defaultSettings, ...parsed });
-      } catch (error) {
-        console.error('Failed to load settings:', error);
-      }
-    }
+    setSettings(loadSettings());
   }, []);
 
   const updateSetting = <K extends keyof SettingsData>(key: K, value: SettingsData[K]) => {
@@ -61,7 +29,7 @@ export function Settings() {
 
   const saveSettings = () => {
     try {
-      localStorage.setItem('securetext-settings', JSON.stringify(settings));
+      persistSettings(settings);
       setHasChanges(false);
       toast({
         title: "Settings Saved",
@@ -126,9 +94,19 @@ export function Settings() {
     reader.readAsText(file);
   };
 
-  const clearAllData = () => {
-    if (confirm('Are you sure you want to clear all stored data? This action cannot be undone.')) {
+  const clearAllData = async () => {
+    if (confirm('Are you sure you want to clear all stored data, including the key vault? This action cannot be undone.')) {
       localStorage.clear();
+      try {
+        await deleteVault();
+      } catch (error) {
+        console.error('Failed to delete key vault:', error);
+      }
+      try {
+        await deleteJournal();
+      } catch (error) {
+        console.error('Failed to delete operation journal:', error);
+      }
       setSettings(defaultSettings);
       setHasChanges(false);
       toast({
@@ -226,7 +204,8 @@ export function Settings() {
                   <SelectItem value="aes256">AES-256-GCM</SelectItem>
                   <SelectItem value="rsa">RSA</SelectItem>
                   <SelectItem value="hybrid">Hybrid (RSA + AES)</SelectItem>
-                  <SelectItem value="chacha20">ChaCha20</SelectItem>
+                  <SelectItem value="chacha20">ChaCha20-Poly1305</SelectItem>
+                  <SelectItem value="xchacha20">XChaCha20-Poly1305</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -244,8 +223,61 @@ export function Settings() {
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label>Key Derivation</Label>
+              <Select value={settings.kdfAlgorithm} onValueChange={(value: KdfName) => updateSetting('kdfAlgorithm', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(KDF_NAMES) as KdfName[]).map(name => (
+                    <SelectItem key={name} value={name}>{KDF_NAMES[name]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>KDF Profile</Label>
+              <Select
+                value={settings.kdfProfile}
+                onValueChange={(value: SettingsData['kdfProfile']) => updateSetting('kdfProfile', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="interactive">Interactive</SelectItem>
+                  <SelectItem value="moderate">Moderate</SelectItem>
+                  <SelectItem value="paranoid">Paranoid</SelectItem>
+                  <SelectItem value="calibrated" disabled={settings.kdfCalibrated?.name !== settings.kdfAlgorithm}>
+                    Calibrated
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{describeKdf(kdfCostFromSettings(settings))}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Vault Auto-Lock</Label>
+              <Select
+                value={settings.vaultAutoLockMinutes.toString()}
+                onValueChange={(value) => updateSetting('vaultAutoLockMinutes', parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="5">After 5 minutes idle</SelectItem>
+                  <SelectItem value="15">After 15 minutes idle</SelectItem>
+                  <SelectItem value="60">After 1 hour idle</SelectItem>
+                  <SelectItem value="0">Never</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="flex items-center justify-between">
-              <Label>Auto-save Keys</Label>
+              <Label>Remind Me to Back Up Keys</Label>
               <Switch
                 checked={settings.backupKeys}
                 onCheckedChange={(checked) => updateSetting('backupKeys', checked)}
@@ -308,6 +340,78 @@ export function Settings() {
           </CardContent>
         </Card>
 
+        {/* Operation Journal */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Operation Journal</CardTitle>
+            <CardDescription>Keep a searchable record of Studio operations</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label>Record Operations</Label>
+              <Switch
+                checked={settings.journalEnabled}
+                onCheckedChange={(checked) => updateSetting('journalEnabled', checked)}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>Include Plaintext</Label>
+                <p className="text-xs text-muted-foreground">
+                  Store text previews and file names, not just fingerprints
+                </p>
+              </div>
+              <Switch
+                checked={settings.journalPlaintext}
+                disabled={!settings.journalEnabled}
+                onCheckedChange={(checked) => updateSetting('journalPlaintext', checked)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Keep Entries For</Label>
+              <Select
+                value={settings.journalRetentionDays.toString()}
+                onValueChange={(value) => updateSetting('journalRetentionDays', parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">1 day</SelectItem>
+                  <SelectItem value="7">7 days</SelectItem>
+                  <SelectItem value="30">30 days</SelectItem>
+                  <SelectItem value="365">1 year</SelectItem>
+                  <SelectItem value="0">Forever</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Maximum Entries</Label>
+              <Select
+                value={settings.journalMaxEntries.toString()}
+                onValueChange={(value) => updateSetting('journalMaxEntries', parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="100">100</SelectItem>
+                  <SelectItem value="1000">1,000</SelectItem>
+                  <SelectItem value="10000">10,000</SelectItem>
+                  <SelectItem value="0">Unlimited</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              With Clear on Exit on, the journal is emptied when the app closes.
+            </p>
+          </CardContent>
+        </Card>
+
         {/* Data Management */}
         <Card>
           <CardHeader>
@@ -0,0 +1,403 @@
+import { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { VaultUnlock } from '@/components/VaultUnlock';
+import { useToast } from '@/hooks/use-toast';
+import { useVault } from '@/hooks/use-vault';
+import { shortKeyId } from '@/lib/fingerprint';
+import { journaled } from '@/lib/journal';
+import { KEY_ALGORITHMS, canUseKeyFor, isKeyExpired, keyAlgorithmOf } from '@/lib/keystore';
+import {
+  SIGNATURE_ALGORITHMS,
+  isSignatureAlgorithm,
+  parseDetachedSignature,
+  type DetachedSignature,
+  type SignatureAlgorithm
+} from '@/lib/signatures';
+import { addVaultKeyPair } from '@/lib/vault';
+import { runCryptoJob } from '@/lib/workerPool';
+import { PenTool, ShieldCheck, Copy, Upload, Download, CheckCircle, XCircle, Key, FileText } from 'lucide-react';
+
+export function SignVerify() {
+  const { status: vaultStatus, keyPairs } = useVault();
+  const [selectedKeyId, setSelectedKeyId] = useState('');
+  const [newKeyAlgorithm, setNewKeyAlgorithm] = useState<SignatureAlgorithm>('ECDSA-P256');
+  const [message, setMessage] = useState('');
+  const [signature, setSignature] = useState('');
+  const [externalPublicKey, setExternalPublicKey] = useState('');
+  const [textResult, setTextResult] = useState<boolean | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [detached, setDetached] = useState<DetachedSignature | null>(null);
+  const [fileResult, setFileResult] = useState<boolean | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const signatureInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const signingKeys = keyPairs.filter(keyPair => isSignatureAlgorithm(keyPair.algorithm));
+  const selectedKey = signingKeys.find(keyPair => keyPair.id === selectedKeyId) ?? null;
+  // Expired or restricted keys can still verify, but not sign
+  const canSign = !!selectedKey && canUseKeyFor(selectedKey, 'sign');
+
+  // Pick the newest signing key once the vault provides them
+  const firstSigningKey = signingKeys.find(keyPair => canUseKeyFor(keyPair, 'sign'))?.id ?? '';
+  useEffect(() => {
+    if (!selectedKeyId && firstSigningKey) setSelectedKeyId(firstSigningKey);
+  }, [selectedKeyId, firstSigningKey]);
+
+  // Reset stale results whenever the inputs they were computed from change
+  useEffect(() => setTextResult(null), [message, signature, externalPublicKey, selectedKeyId]);
+  useEffect(() => setFileResult(null), [file, detached, selectedKeyId]);
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: "destructive",
+    });
+  };
+
+  const generateSigningKey = async () => {
+    setIsProcessing(true);
+    try {
+      const keyPair = await runCryptoJob('generateSigningKeyPair', [newKeyAlgorithm]);
+      setSelectedKeyId(await addVaultKeyPair(keyPair));
+      toast({
+        title: "Signing Key Generated",
+        description: `${KEY_ALGORITHMS[newKeyAlgorithm].name} key pair saved to the Key Vault.`,
+      });
+    } catch (error) {
+      reportError("Generation Failed", error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const signText = async () => {
+    if (!selectedKey || !canSign || !isSignatureAlgorithm(selectedKey.algorithm)) return;
+
+    setIsProcessing(true);
+    try {
+      const algorithm = selectedKey.algorithm;
+      setSignature(await journaled(
+        { tool: 'sign', operation: 'Sign message', algorithm: SIGNATURE_ALGORITHMS[algorithm].name, input: message },
+        () => runCryptoJob('signMessage', [message, selectedKey.privateKey, algorithm]),
+        output => ({ output })
+      ));
+      toast({
+        title: "Message Signed",
+        description: `Signed with ${SIGNATURE_ALGORITHMS[selectedKey.algorithm].name}.`,
+      });
+    } catch (error) {
+      reportError("Signing Failed", error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const verifyText = async () => {
+    const publicKey = externalPublicKey.trim() || selectedKey?.publicKey;
+    const algorithm = selectedKey?.algorithm;
+    if (!publicKey || !isSignatureAlgorithm(algorithm)) return;
+
+    setIsProcessing(true);
+    try {
+      setTextResult(await journaled(
+        { tool: 'sign', operation: 'Verify message', algorithm: SIGNATURE_ALGORITHMS[algorithm].name, input: message },
+        () => runCryptoJob('verifySignature', [message, signature.trim(), publicKey, algorithm]),
+        valid => (valid ? {} : { error: 'Signature does not match' })
+      ));
+    } catch (error) {
+      setTextResult(false);
+      reportError("Verification Failed", error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const signUploadedFile = async () => {
+    if (!file || !selectedKey || !canSign) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await journaled(
+        { tool: 'sign', operation: 'Sign file', algorithm: KEY_ALGORITHMS[keyAlgorithmOf(selectedKey)].name, input: file },
+        () => runCryptoJob('signFile', [file, file.name, selectedKey]),
+        ({ signature }) => ({ output: signature })
+      );
+      const blob = new Blob([JSON.stringify(result, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${file.name}.sig`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Signature Created",
+        description: `Detached signature saved as ${file.name}.sig`,
+      });
+    } catch (error) {
+      reportError("Signing Failed", error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const loadSignatureFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const signatureFile = event.target.files?.[0];
+    if (!signatureFile) return;
+
+    try {
+      setDetached(parseDetachedSignature(await signatureFile.text()));
+    } catch (error) {
+      setDetached(null);
+      reportError("Invalid Signature File", error);
+    }
+  };
+
+  const verifyUploadedFile = async () => {
+    if (!file || !detached) return;
+
+    setIsProcessing(true);
+    try {
+      // A selected key is trusted over the key the signature file carries
+      const publicKey = selectedKey?.algorithm === detached.algorithm ? selectedKey.publicKey : detached.publicKey;
+      setFileResult(await journaled(
+        { tool: 'sign', operation: 'Verify file', algorithm: SIGNATURE_ALGORITHMS[detached.algorithm].name, input: file },
+        () => runCryptoJob('verifyFile', [file, detached, publicKey]),
+        valid => (valid ? {} : { error: 'Signature does not match' })
+      ));
+    } catch (error) {
+      setFileResult(false);
+      reportError("Verification Failed", error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const embeddedKeyOwner = detached
+    ? keyPairs.find(keyPair => keyPair.publicKey === detached.publicKey) ?? null
+    : null;
+
+  const handleCopy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied to Clipboard",
+      description: "Signature copied successfully.",
+    });
+  };
+
+  const renderResult = (result: boolean | null) => result !== null && (
+    <div className={`flex items-center gap-2 text-sm ${result ? 'text-green-600' : 'text-red-600'}`}>
+      {result ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+      {result ? 'Signature is valid' : 'Signature is NOT valid for this content and key'}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {vaultStatus !== 'unlocked' && <VaultUnlock />}
+
+      {/* Signing Keys */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Key className="w-5 h-5 text-primary" />
+            Signing Key
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Stored Signing Keys</Label>
+              <Select value={selectedKeyId} onValueChange={setSelectedKeyId} disabled={signingKeys.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No signing keys stored" />
+                </SelectTrigger>
+                <SelectContent>
+                  {signingKeys.map(keyPair => (
+                    <SelectItem key={keyPair.id} value={keyPair.id}>
+                      {keyPair.label ?? KEY_ALGORITHMS[keyAlgorithmOf(keyPair)].name} · {shortKeyId(keyPair.id)}
+                      {isKeyExpired(keyPair) ? ' · expired' : !canUseKeyFor(keyPair, 'sign') && ' · verify only'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>New Signing Key</Label>
+              <div className="flex gap-2">
+                <Select value={newKeyAlgorithm} onValueChange={(value: SignatureAlgorithm) => setNewKeyAlgorithm(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SIGNATURE_ALGORITHMS) as SignatureAlgorithm[]).map(algorithm => (
+                      <SelectItem key={algorithm} value={algorithm}>{SIGNATURE_ALGORITHMS[algorithm].name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={generateSigningKey} disabled={isProcessing || vaultStatus !== 'unlocked'} variant="outline">
+                  Generate
+                </Button>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="text" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-2 glass-card">
+          <TabsTrigger value="text" className="data-[state=active]:bg-primary/20">
+            <PenTool className="w-4 h-4 mr-2" />
+            Text
+          </TabsTrigger>
+          <TabsTrigger value="file" className="data-[state=active]:bg-secondary/20">
+            <FileText className="w-4 h-4 mr-2" />
+            File
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="text">
+          <Card className="glass-card">
+            <CardContent className="space-y-4 pt-6">
+              <div>
+                <Label htmlFor="signMessage">Message</Label>
+                <Textarea
+                  id="signMessage"
+                  placeholder="Enter the message to sign or verify..."
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  className="min-h-[120px] font-mono"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="signature">Signature (Base64)</Label>
+                <div className="relative">
+                  <Textarea
+                    id="signature"
+                    placeholder="Sign a message or paste a signature to verify..."
+                    value={signature}
+                    onChange={(e) => setSignature(e.target.value)}
+                    className="font-mono text-sm pr-12"
+                    rows={3}
+                  />
+                  {signature && (
+                    <Button size="sm" variant="ghost" onClick={() => handleCopy(signature)} className="absolute top-2 right-2">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="externalPublicKey">Signer's Public Key (optional)</Label>
+                <Textarea
+                  id="externalPublicKey"
+                  placeholder="Leave empty to verify with the selected signing key..."
+                  value={externalPublicKey}
+                  onChange={(e) => setExternalPublicKey(e.target.value)}
+                  className="font-mono text-xs"
+                  rows={2}
+                />
+              </div>
+
+              {renderResult(textResult)}
+
+              <div className="flex gap-2">
+                <Button onClick={signText} disabled={isProcessing || !canSign || !message}>
+                  <PenTool className="w-4 h-4 mr-2" />
+                  Sign
+                </Button>
+                <Button onClick={verifyText} variant="outline" disabled={isProcessing || !selectedKey || !message || !signature.trim()}>
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Verify
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="file">
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="text-lg">Detached Signatures</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <input
+                ref={fileInputRef}
+                type="file"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="hidden"
+              />
+              <input
+                ref={signatureInputRef}
+                type="file"
+                accept=".sig,application/json"
+                onChange={loadSignatureFile}
+                className="hidden"
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  {file ? file.name : 'Choose File'}
+                </Button>
+                <Button variant="outline" onClick={() => signatureInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  {detached ? `${detached.fileName}.sig` : 'Load Signature (.sig)'}
+                </Button>
+              </div>
+
+              {detached && (
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <Badge variant="outline">{SIGNATURE_ALGORITHMS[detached.algorithm].name}</Badge>
+                  <span className="text-muted-foreground">Signed {new Date(detached.created).toLocaleString()}</span>
+                  {embeddedKeyOwner ? (
+                    <Badge className="bg-green-500/20 text-green-300">Signer key is in your Key Manager</Badge>
+                  ) : (
+                    <Badge className="bg-yellow-500/20 text-yellow-300">Unknown signer key</Badge>
+                  )}
+                </div>
+              )}
+
+              {detached && !embeddedKeyOwner && (
+                <Alert>
+                  <ShieldCheck className="h-4 w-4" />
+                  <AlertDescription>
+                    The signature file carries its own public key. A valid result only proves the file matches that key,
+                    not who owns it; select a trusted signing key to verify against it instead.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {renderResult(fileResult)}
+
+              <div className="flex gap-2">
+                <Button onClick={signUploadedFile} disabled={isProcessing || !file || !canSign}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Sign &amp; Download .sig
+                </Button>
+                <Button onClick={verifyUploadedFile} variant="outline" disabled={isProcessing || !file || !detached}>
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Verify File
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import {
+  IMAGE_CHANNEL_NAMES,
+  bitPlane,
+  steganalysisVerdict,
+  type ImageChannel,
+  type SteganalysisReport,
+  type SteganalysisVerdict,
+} from '@/lib/steganalysis';
+import { runCryptoJob } from '@/lib/workerPool';
+import { AlertTriangle, CheckCircle, FileSearch, ScanSearch, Upload } from 'lucide-react';
+
+const VERDICTS: Record<SteganalysisVerdict, { label: string; description: string; className: string }> = {
+  found: {
+    label: 'Hidden data found',
+    description: 'The image holds data in the Steganography tool\'s format.',
+    className: 'bg-red-500/20 text-red-300',
+  },
+  likely: {
+    label: 'Embedding likely',
+    description: 'The low bits look like they carry data that is not in a format this app reads.',
+    className: 'bg-orange-500/20 text-orange-300',
+  },
+  possible: {
+    label: 'Embedding possible',
+    description: 'The low bits are slightly more random than usual; a small payload may be hidden.',
+    className: 'bg-yellow-500/20 text-yellow-300',
+  },
+  clean: {
+    label: 'No sign of embedding',
+    description: 'The low bits look like those of an unaltered image.',
+    className: 'bg-green-500/20 text-green-300',
+  },
+};
+
+const chiSquareConfig = {
+  probability: { label: 'Embedding probability', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const rsConfig = {
+  regular: { label: 'Regular (R)', color: 'hsl(var(--primary))' },
+  singular: { label: 'Singular (S)', color: 'hsl(var(--accent))' },
+  regularNegative: { label: 'Regular (R−)', color: 'hsl(var(--secondary))' },
+  singularNegative: { label: 'Singular (S−)', color: 'hsl(0 84% 60%)' },
+} satisfies ChartConfig;
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// The low bits have to be read exactly as stored, as in the Steganography tool
+async function readImagePixels(file: File): Promise<ImageData> {
+  const bitmap = await createImageBitmap(file, { premultiplyAlpha: 'none', colorSpaceConversion: 'none' });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not read the image');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+function BitPlaneView({ image }: { image: ImageData }) {
+  const [channel, setChannel] = useState<ImageChannel>(0);
+  const [bit, setBit] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const plane = useMemo(() => bitPlane(image, channel, bit), [image, channel, bit]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    canvas.width = plane.width;
+    canvas.height = plane.height;
+    context.putImageData(new ImageData(plane.data, plane.width, plane.height), 0, 0);
+  }, [plane]);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={channel.toString()} onValueChange={(value) => setChannel(parseInt(value) as ImageChannel)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IMAGE_CHANNEL_NAMES.map((name, index) => (
+              <SelectItem key={name} value={index.toString()}>{name} channel</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={bit.toString()} onValueChange={(value) => setBit(parseInt(value))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[0, 1, 2, 3, 4, 5, 6, 7].map(index => (
+              <SelectItem key={index} value={index.toString()}>
+                Bit {index}{index === 0 ? ' (least significant)' : index === 7 ? ' (most significant)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <canvas ref={canvasRef} className="max-w-full max-h-96 mx-auto rounded-lg border [image-rendering:pixelated]" />
+      <p className="text-xs text-muted-foreground">
+        The low planes of a photo still show its shapes; noise that ignores them, especially in a band at the top, is a sign of hidden data.
+      </p>
+    </div>
+  );
+}
+
+// Inspects a suspicious image for data hidden in its low bits
+export function Steganalysis() {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [imagePixels, setImagePixels] = useState<ImageData | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [report, setReport] = useState<SteganalysisReport | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const verdict = report ? VERDICTS[steganalysisVerdict(report)] : null;
+  const chiSquareData = report?.chiSquare.map(point => ({ sampled: point.sampled, probability: point.probability * 100 }));
+  const rsData = report?.rs.map(result => ({
+    channel: IMAGE_CHANNEL_NAMES[result.channel],
+    regular: result.regular * 100,
+    singular: result.singular * 100,
+    regularNegative: result.regularNegative * 100,
+    singularNegative: result.singularNegative * 100,
+  }));
+
+  const handleImage = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setImagePixels(await readImagePixels(file));
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+      setImageUrl(URL.createObjectURL(file));
+      setReport(null);
+    } catch (error) {
+      toast({
+        title: "Upload Failed",
+        description: "Could not read the image. Please choose another file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAnalyze = async () => {
+    if (!imagePixels) return;
+
+    setIsAnalyzing(true);
+    try {
+      setReport(await runCryptoJob('analyzeStegoImage', [imagePixels, passphrase || undefined]));
+    } catch (error) {
+      toast({
+        title: "Analysis Failed",
+        description: error instanceof Error ? error.message : "Could not analyze the image.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScanSearch className="w-5 h-5 text-primary" />
+            Steganalysis
+          </CardTitle>
+          <CardDescription>
+            Look for data hidden in the low bits of an image with bit-plane views, chi-square and RS analysis
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div
+            className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center cursor-pointer hover:border-primary/50 transition-colors"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {imageUrl ? (
+              <div className="space-y-2">
+                <img src={imageUrl} alt="Suspect" className="max-w-full max-h-48 mx-auto rounded-lg" />
+                <p className="text-sm text-muted-foreground">
+                  {imagePixels && `${imagePixels.width} × ${imagePixels.height} · `}Click to change image
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Upload className="w-8 h-8 mx-auto text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">
+                  Click to upload an image to inspect (PNG works best; JPEG recompression wipes low bits)
+                </p>
+              </div>
+            )}
+          </div>
+          <input ref={fileInputRef} type="file" accept="image/*" onChange={handleImage} className="hidden" />
+
+          <div className="space-y-2">
+            <Label htmlFor="steganalysisPassphrase">Passphrase (Optional)</Label>
+            <Input
+              id="steganalysisPassphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Lets scattered, encrypted payloads be found and read..."
+            />
+          </div>
+
+          <Button onClick={handleAnalyze} disabled={!imagePixels || isAnalyzing} className="w-full premium-button">
+            <FileSearch className="w-4 h-4 mr-2" />
+            {isAnalyzing ? 'Analyzing...' : 'Analyze Image'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {report && verdict && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="flex flex-wrap items-center gap-2">
+              {report.frame ? <AlertTriangle className="w-5 h-5 text-red-400" /> : <CheckCircle className="w-5 h-5 text-primary" />}
+              Findings
+              <Badge className={verdict.className}>{verdict.label}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {verdict.description} {report.opaquePixels.toLocaleString()} opaque pixels of {(report.width * report.height).toLocaleString()} examined.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="border rounded-lg p-4 space-y-2">
+              <h4 className="font-medium">Extraction</h4>
+              {report.frame ? (
+                <div className="space-y-1 text-sm">
+                  <p>
+                    {formatBytes(report.frame.length)} at {report.frame.bitsPerChannel} bit{report.frame.bitsPerChannel > 1 ? 's' : ''} per channel
+                    {report.frame.encrypted && ', encrypted'}
+                    {report.frame.scattered && ', scattered by passphrase'}
+                  </p>
+                  {report.payload?.content.kind === 'text' && (
+                    <p className="font-mono text-xs bg-muted/50 rounded p-2 break-all max-h-32 overflow-auto">
+                      {report.payload.content.text}
+                    </p>
+                  )}
+                  {report.payload?.content.kind === 'file' && (
+                    <p className="text-muted-foreground">
+                      File {report.payload.content.name} ({report.payload.content.type || 'unknown type'}, {formatBytes(report.payload.content.data.length)}); open it in the Steganography tool to download.
+                    </p>
+                  )}
+                  {report.extractionError && <p className="text-red-400">{report.extractionError}</p>}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {report.extractionError ?? `No Steganography frame found${passphrase ? ' with this passphrase' : '; a scattered payload needs its passphrase to be located'}.`}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-medium">RS Estimate of Embedded Data</h4>
+              {report.rs.map(result => (
+                <div key={result.channel} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>{IMAGE_CHANNEL_NAMES[result.channel]}</span>
+                    <span className="text-muted-foreground">{percent(result.estimate)} of low bits</span>
+                  </div>
+                  <Progress value={result.estimate * 100} />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && chiSquareData && rsData && (
+        <div className="grid lg:grid-cols-2 gap-6">
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="text-base">Chi-Square Attack</CardTitle>
+              <CardDescription>
+                Probability of embedding over a growing share of the image, from the top. A plateau near 100% that drops off marks where sequential data ends.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chiSquareConfig} className="h-64 w-full">
+                <LineChart data={chiSquareData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="sampled" tickFormatter={(value) => `${value}%`} />
+                  <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `First ${payload[0]?.payload.sampled}% of the image`} />} />
+                  <Line dataKey="probability" stroke="var(--color-probability)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="text-base">RS Analysis</CardTitle>
+              <CardDescription>
+                Regular and singular pixel groups per channel, in percent. In an unaltered image R is well above S; embedding pulls them together.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={rsConfig} className="h-64 w-full">
+                <BarChart data={rsData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="channel" />
+                  <YAxis tickFormatter={(value) => `${value}%`} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="regular" fill="var(--color-regular)" isAnimationActive={false} />
+                  <Bar dataKey="singular" fill="var(--color-singular)" isAnimationActive={false} />
+                  <Bar dataKey="regularNegative" fill="var(--color-regularNegative)" isAnimationActive={false} />
+                  <Bar dataKey="singularNegative" fill="var(--color-singularNegative)" isAnimationActive={false} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {imagePixels && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="text-base">Bit Planes</CardTitle>
+            <CardDescription>One bit of one colour channel, white where it is set</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BitPlaneView image={imagePixels} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,89 +1,118 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Upload, Download, Eye, EyeOff, Image, Lock, Unlock, AlertCircle } from 'lucide-react';
+import { Upload, Download, Eye, EyeOff, Image, Lock, Unlock, AlertCircle, FileText, ShieldCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AudioSteganography } from '@/components/AudioSteganography';
+import { TextSteganography } from '@/components/TextSteganography';
+import { journaled } from '@/lib/journal';
+import { kdfCostFromSettings } from '@/lib/settings';
+import { STEGO_BIT_DEPTHS, stegoCapacity, stegoPayloadSize, type StegoContent } from '@/lib/stego';
+import { runCryptoJob } from '@/lib/workerPool';
+
+const BIT_DEPTH_NAMES: Record<number, string> = {
+  1: '1 bit per channel (invisible)',
+  2: '2 bits per channel',
+  3: '3 bits per channel',
+  4: '4 bits per channel (most capacity, visible)',
+};
+
+// Hidden bits only survive if the colours are read exactly as stored, so
+// colour management and alpha premultiplication are turned off
+async function readImagePixels(file: File): Promise<ImageData> {
+  const bitmap = await createImageBitmap(file, { premultiplyAlpha: 'none', colorSpaceConversion: 'none' });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not read the image');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+function encodePng({ width, height, data }: { width: number; height: number; data: Uint8ClampedArray }): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not draw the image');
+  }
+  context.putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/png');
+  });
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface SecretFile {
+  name: string;
+  type: string;
+  data: Uint8Array;
+}
 
 export function Steganography() {
   const [mode, setMode] = useState<'hide' | 'reveal'>('hide');
+  const [payloadKind, setPayloadKind] = useState<'text' | 'file'>('text');
   const [secretText, setSecretText] = useState('');
-  const [revealedText, setRevealedText] = useState('');
+  const [secretFile, setSecretFile] = useState<SecretFile | null>(null);
+  const [revealed, setRevealed] = useState<StegoContent | null>(null);
   const [password, setPassword] = useState('');
   const [originalImage, setOriginalImage] = useState<string | null>(null);
+  const [imagePixels, setImagePixels] = useState<ImageData | null>(null);
+  const [bitsPerChannel, setBitsPerChannel] = useState(1);
   const [processedImage, setProcessedImage] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const secretFileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  // LSB Steganography implementation
-  const textToBinary = (text: string): string => {
-    return text.split('').map(char => 
-      char.charCodeAt(0).toString(2).padStart(8, '0')
-    ).join('') + '1111111111111110'; // End marker
-  };
-
-  const binaryToText = (binary: string): string => {
-    const endMarker = '1111111111111110';
-    const endIndex = binary.indexOf(endMarker);
-    if (endIndex === -1) return '';
-    
-    const textBinary = binary.substring(0, endIndex);
-    const chars = [];
-    for (let i = 0; i < textBinary.length; i += 8) {
-      const byte = textBinary.substr(i, 8);
-      if (byte.length === 8) {
-        chars.push(String.fromCharCode(parseInt(byte, 2)));
-      }
-    }
-    return chars.join('');
-  };
+  const content = useMemo((): StegoContent | null => {
+    if (payloadKind === 'file') return secretFile && { kind: 'file', ...secretFile };
+    return secretText.trim() ? { kind: 'text', text: secretText } : null;
+  }, [payloadKind, secretText, secretFile]);
+  const contentSize = content?.kind === 'file' ? content.data.length : new TextEncoder().encode(secretText).length;
+  const capacity = useMemo(
+    () => (imagePixels ? stegoCapacity(imagePixels, bitsPerChannel) : 0),
+    [imagePixels, bitsPerChannel]
+  );
+  const required = useMemo(
+    () => (content ? stegoPayloadSize(content, password !== '', kdfCostFromSettings()) : 0),
+    [content, password]
+  );
+  const fits = required <= capacity;
 
-  const hideTextInImage = (canvas: HTMLCanvasElement, text: string): void => {
-    const ctx = canvas.getContext('2d')!;
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    
-    const binary = textToBinary(text);
-    let binaryIndex = 0;
-    
-    for (let i = 0; i < data.length && binaryIndex < binary.length; i += 4) {
-      // Use only red channel for simplicity
-      if (binaryIndex < binary.length) {
-        const bit = parseInt(binary[binaryIndex]);
-        data[i] = (data[i] & 0xFE) | bit; // Clear LSB and set new bit
-        binaryIndex++;
-      }
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-  };
+  const handleSecretFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
 
-  const revealTextFromImage = (canvas: HTMLCanvasElement): string => {
-    const ctx = canvas.getContext('2d')!;
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    
-    let binary = '';
-    for (let i = 0; i < data.length; i += 4) {
-      binary += (data[i] & 1).toString(); // Extract LSB from red channel
+    try {
+      setSecretFile({ name: file.name, type: file.type, data: new Uint8Array(await file.arrayBuffer()) });
+    } catch (error) {
+      toast({
+        title: "Read Failed",
+        description: error instanceof Error ? error.message : "Could not read the file.",
+        variant: "destructive",
+      });
     }
-    
-    return binaryToText(binary);
-  };
-
-  const processImage = async (file: File): Promise<string> => {
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string);
-      reader.readAsDataURL(file);
-    });
   };
 
   const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -100,11 +129,12 @@ export function Steganography() {
     }
 
     try {
-      const imageUrl = await processImage(file);
-      setOriginalImage(imageUrl);
+      setImagePixels(await readImagePixels(file));
+      if (originalImage) URL.revokeObjectURL(originalImage);
+      setOriginalImage(URL.createObjectURL(file));
       setProcessedImage(null);
-      setRevealedText('');
-      
+      setRevealed(null);
+
       toast({
         title: "Image Loaded",
         description: `Image loaded successfully (${(file.size / 1024).toFixed(1)} KB)`,
@@ -118,138 +148,100 @@ export function Steganography() {
     }
   };
 
-  const handleHideText = () => {
-    if (!originalImage || !secretText.trim()) {
+  const handleHide = async () => {
+    if (!imagePixels || !content) {
       toast({
         title: "Missing Data",
-        description: "Please upload an image and enter text to hide.",
+        description: `Please upload an image and ${payloadKind === 'file' ? 'choose a file' : 'enter text'} to hide.`,
         variant: "destructive",
       });
       return;
     }
 
     setIsProcessing(true);
-    
-    const img = new window.Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      
-      const ctx = canvas.getContext('2d')!;
-      ctx.drawImage(img, 0, 0);
-      
-      try {
-        const textToHide = password ? btoa(secretText + '|' + password) : secretText;
-        hideTextInImage(canvas, textToHide);
-        
-        canvas.toBlob((blob) => {
-          if (blob) {
-            const url = URL.createObjectURL(blob);
-            setProcessedImage(url);
-            setIsProcessing(false);
-            
-            toast({
-              title: "Text Hidden Successfully",
-              description: `Hidden ${secretText.length} characters in the image.`,
-            });
-          }
-        }, 'image/png');
-      } catch (error) {
-        setIsProcessing(false);
-        toast({
-          title: "Processing Failed",
-          description: "Failed to hide text in image.",
-          variant: "destructive",
-        });
-      }
-    };
-    
-    img.src = originalImage;
+    try {
+      const algorithm = `LSB ${bitsPerChannel}-bit RGB${password ? ' + AES-256-GCM' : ''}`;
+      const input = content.kind === 'text' ? content.text : new File([content.data], content.name, { type: content.type });
+      const png = await journaled(
+        { tool: 'steganography', operation: content.kind === 'text' ? 'Hide text' : 'Hide file', algorithm, input },
+        async () => encodePng(await runCryptoJob('embedStegoPayload', [
+          imagePixels,
+          content,
+          { bitsPerChannel, passphrase: password || undefined, cost: kdfCostFromSettings() }
+        ])),
+        output => ({ output })
+      );
+      if (processedImage) URL.revokeObjectURL(processedImage);
+      setProcessedImage(URL.createObjectURL(png));
+
+      toast({
+        title: content.kind === 'text' ? "Text Hidden Successfully" : "File Hidden Successfully",
+        description: `Hidden ${formatBytes(required)} in the image${password ? ', encrypted and scattered' : ''}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Processing Failed",
+        description: error instanceof Error ? error.message : "Failed to hide data in image.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  const handleRevealText = () => {
-    if (!originalImage) {
+  const handleReveal = async () => {
+    if (!imagePixels) {
       toast({
         title: "No Image",
-        description: "Please upload an image to reveal hidden text.",
+        description: "Please upload an image to reveal hidden data.",
         variant: "destructive",
       });
       return;
     }
 
     setIsProcessing(true);
-    
-    const img = new window.Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      
-      const ctx = canvas.getContext('2d')!;
-      ctx.drawImage(img, 0, 0);
-      
-      try {
-        const hiddenText = revealTextFromImage(canvas);
-        
-        if (hiddenText) {
-          if (password) {
-            try {
-              const decoded = atob(hiddenText);
-              const parts = decoded.split('|');
-              if (parts.length === 2 && parts[1] === password) {
-                setRevealedText(parts[0]);
-                toast({
-                  title: "Text Revealed",
-                  description: "Hidden text extracted successfully.",
-                });
-              } else {
-                setRevealedText('');
-                toast({
-                  title: "Wrong Password",
-                  description: "The password is incorrect or no text was hidden with this password.",
-                  variant: "destructive",
-                });
-              }
-            } catch {
-              setRevealedText(hiddenText);
-              toast({
-                title: "Text Revealed",
-                description: "Hidden text extracted (no password protection detected).",
-              });
-            }
-          } else {
-            setRevealedText(hiddenText);
-            toast({
-              title: "Text Revealed",
-              description: "Hidden text extracted successfully.",
-            });
-          }
-        } else {
-          setRevealedText('');
-          toast({
-            title: "No Hidden Text",
-            description: "No hidden text found in this image.",
-            variant: "destructive",
-          });
-        }
-      } catch (error) {
-        toast({
-          title: "Processing Failed",
-          description: "Failed to extract text from image.",
-          variant: "destructive",
-        });
-      } finally {
-        setIsProcessing(false);
-      }
-    };
-    
-    img.src = originalImage;
+    try {
+      const { content: found, bitsPerChannel: depth, encrypted, legacy } = await journaled(
+        { tool: 'steganography', operation: 'Reveal', algorithm: 'LSB RGB' },
+        () => runCryptoJob('extractStegoPayload', [imagePixels, password || undefined]),
+        ({ content }) => ({ output: content.kind === 'text' ? content.text : content.data })
+      );
+      setRevealed(found);
+      const size = found.kind === 'text' ? new TextEncoder().encode(found.text).length : found.data.length;
+      toast({
+        title: found.kind === 'text' ? "Text Revealed" : "File Revealed",
+        description: legacy
+          ? `Found ${formatBytes(size)} in the older red-channel format, which has no checksum.`
+          : `Found ${formatBytes(size)} at ${depth} bit${depth > 1 ? 's' : ''} per channel${encrypted ? ', decrypted with the passphrase' : ''}; checksum verified.`,
+      });
+    } catch (error) {
+      setRevealed(null);
+      toast({
+        title: "Nothing Revealed",
+        description: error instanceof Error ? error.message : "Failed to extract data from image.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const downloadRevealedFile = () => {
+    if (revealed?.kind !== 'file') return;
+
+    const url = URL.createObjectURL(new Blob([revealed.data], { type: revealed.type || 'application/octet-stream' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = revealed.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
   const downloadProcessedImage = () => {
     if (!processedImage) return;
-    
+
     const a = document.createElement('a');
     a.href = processedImage;
     a.download = 'steganography-result.png';
@@ -268,7 +260,7 @@ export function Steganography() {
             <Badge className="bg-purple-500/20 text-purple-300">Advanced</Badge>
           </CardTitle>
           <p className="text-sm text-muted-foreground">
-            Hide secret messages inside images using LSB (Least Significant Bit) technique
+            Hide secret messages and files in the low bits of an image's red, green and blue channels
           </p>
         </CardHeader>
       </Card>
@@ -277,6 +269,7 @@ export function Steganography() {
         <AlertCircle className="h-4 w-4" />
         <AlertDescription>
           All steganography processing happens locally in your browser. Your images and messages never leave your device.
+          Results are saved as PNG; sharing them through services that recompress images destroys the hidden data.
         </AlertDescription>
       </Alert>
 
@@ -284,11 +277,11 @@ export function Steganography() {
         <TabsList className="grid w-full grid-cols-2 glass-card">
           <TabsTrigger value="hide" className="data-[state=active]:bg-primary/20">
             <Lock className="w-4 h-4 mr-2" />
-            Hide Text
+            Hide
           </TabsTrigger>
           <TabsTrigger value="reveal" className="data-[state=active]:bg-secondary/20">
             <Unlock className="w-4 h-4 mr-2" />
-            Reveal Text
+            Reveal
           </TabsTrigger>
         </TabsList>
 
@@ -297,18 +290,20 @@ export function Steganography() {
             {/* Image Upload */}
             <div className="space-y-2">
               <Label>Upload Image</Label>
-              <div 
+              <div
                 className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center cursor-pointer hover:border-primary/50 transition-colors"
                 onClick={() => fileInputRef.current?.click()}
               >
                 {originalImage ? (
                   <div className="space-y-2">
-                    <img 
-                      src={originalImage} 
-                      alt="Original" 
+                    <img
+                      src={originalImage}
+                      alt="Original"
                       className="max-w-full max-h-48 mx-auto rounded-lg"
                     />
-                    <p className="text-sm text-muted-foreground">Click to change image</p>
+                    <p className="text-sm text-muted-foreground">
+                      {imagePixels && `${imagePixels.width} × ${imagePixels.height} · `}Click to change image
+                    </p>
                   </div>
                 ) : (
                   <div className="space-y-2">
@@ -328,14 +323,14 @@ export function Steganography() {
               />
             </div>
 
-            {/* Password Protection */}
+            {/* Passphrase */}
             <div className="space-y-2">
-              <Label htmlFor="stegoPassword">Password Protection (Optional)</Label>
+              <Label htmlFor="stegoPassword">Passphrase (Optional)</Label>
               <div className="relative">
                 <Input
                   id="stegoPassword"
                   type={showPassword ? "text" : "password"}
-                  placeholder="Enter password to protect hidden text..."
+                  placeholder="Encrypts the message and scatters it across the image..."
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   className="pr-10 monaco-editor"
@@ -350,39 +345,110 @@ export function Steganography() {
                   {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                 </Button>
               </div>
+              <p className="text-xs text-muted-foreground">
+                With a passphrase the message is sealed with AES-256-GCM and written to pixels in an order only the passphrase reproduces.
+              </p>
             </div>
 
             <TabsContent value="hide" className="space-y-4 mt-0">
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant={payloadKind === 'text' ? 'default' : 'outline'}
+                  onClick={() => setPayloadKind('text')}
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  Text
+                </Button>
+                <Button
+                  variant={payloadKind === 'file' ? 'default' : 'outline'}
+                  onClick={() => setPayloadKind('file')}
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  File
+                </Button>
+              </div>
+
+              {payloadKind === 'text' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="secretText">Secret Text to Hide</Label>
+                  <Textarea
+                    id="secretText"
+                    value={secretText}
+                    onChange={(e) => setSecretText(e.target.value)}
+                    placeholder="Enter the secret message you want to hide in the image..."
+                    className="monaco-editor min-h-[100px]"
+                    rows={4}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Secret File to Hide</Label>
+                  <Button variant="outline" className="w-full" onClick={() => secretFileInputRef.current?.click()}>
+                    <Upload className="w-4 h-4 mr-2" />
+                    {secretFile ? `${secretFile.name} (${formatBytes(secretFile.data.length)})` : 'Choose a file'}
+                  </Button>
+                  <input
+                    ref={secretFileInputRef}
+                    type="file"
+                    onChange={handleSecretFile}
+                    className="hidden"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The file name and type are stored with it, along with a SHA-256 checksum that is checked on extraction.
+                  </p>
+                </div>
+              )}
+
               <div className="space-y-2">
-                <Label htmlFor="secretText">Secret Text to Hide</Label>
-                <Textarea
-                  id="secretText"
-                  value={secretText}
-                  onChange={(e) => setSecretText(e.target.value)}
-                  placeholder="Enter the secret message you want to hide in the image..."
-                  className="monaco-editor min-h-[100px]"
-                  rows={4}
-                />
-                <p className="text-xs text-muted-foreground">
-                  {secretText.length} characters • Large images can hide more text
-                </p>
+                <Label>Embedding Depth</Label>
+                <Select value={bitsPerChannel.toString()} onValueChange={(value) => setBitsPerChannel(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STEGO_BIT_DEPTHS.map(depth => (
+                      <SelectItem key={depth} value={depth.toString()}>{BIT_DEPTH_NAMES[depth]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
 
-              <Button 
-                onClick={handleHideText}
-                disabled={!originalImage || !secretText.trim() || isProcessing}
+              {/* Capacity */}
+              {imagePixels && (
+                <div className="border rounded-lg p-4 space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span>Capacity</span>
+                    <span className={fits ? 'text-muted-foreground' : 'text-red-500'}>
+                      {formatBytes(required)} of {formatBytes(capacity)}
+                    </span>
+                  </div>
+                  <Progress value={capacity > 0 ? Math.min(100, (required / capacity) * 100) : 100} />
+                  <p className="text-xs text-muted-foreground">
+                    {fits
+                      ? `${formatBytes(contentSize)} of ${payloadKind === 'file' ? 'file data' : 'text'} plus framing${password ? ' and encryption' : ''}; ${formatBytes(capacity - required)} to spare.`
+                      : `The ${payloadKind === 'file' ? 'file' : 'message'} does not fit. Use more bits per channel, a larger image or less data.`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {STEGO_BIT_DEPTHS.map(depth => `${depth} bit${depth > 1 ? 's' : ''}: ${formatBytes(stegoCapacity(imagePixels, depth))}`).join(' · ')}
+                  </p>
+                </div>
+              )}
+
+              <Button
+                onClick={handleHide}
+                disabled={!imagePixels || !content || !fits || isProcessing}
                 className="w-full premium-button"
               >
-                {isProcessing ? 'Processing...' : 'Hide Text in Image'}
+                {isProcessing ? 'Processing...' : `Hide ${payloadKind === 'file' ? 'File' : 'Text'} in Image`}
               </Button>
 
               {processedImage && (
                 <div className="space-y-4">
                   <div className="border rounded-lg p-4 space-y-2">
                     <h4 className="font-medium">Processed Image</h4>
-                    <img 
-                      src={processedImage} 
-                      alt="Processed" 
+                    <img
+                      src={processedImage}
+                      alt="Processed"
                       className="max-w-full max-h-48 mx-auto rounded-lg"
                     />
                     <Button
@@ -391,7 +457,7 @@ export function Steganography() {
                       className="w-full"
                     >
                       <Download className="w-4 h-4 mr-2" />
-                      Download Image with Hidden Text
+                      Download Image with Hidden Data
                     </Button>
                   </div>
                 </div>
@@ -399,32 +465,57 @@ export function Steganography() {
             </TabsContent>
 
             <TabsContent value="reveal" className="space-y-4 mt-0">
-              <Button 
-                onClick={handleRevealText}
-                disabled={!originalImage || isProcessing}
+              <Button
+                onClick={handleReveal}
+                disabled={!imagePixels || isProcessing}
                 className="w-full premium-button-secondary"
               >
-                {isProcessing ? 'Processing...' : 'Reveal Hidden Text'}
+                {isProcessing ? 'Processing...' : 'Reveal Hidden Data'}
               </Button>
 
-              {revealedText && (
+              {revealed?.kind === 'text' && (
                 <div className="space-y-2">
                   <Label>Revealed Secret Text</Label>
                   <Textarea
-                    value={revealedText}
+                    value={revealed.text}
                     readOnly
                     className="monaco-editor min-h-[100px]"
                     rows={4}
                   />
                   <p className="text-xs text-muted-foreground">
-                    {revealedText.length} characters revealed
+                    {revealed.text.length} characters revealed
                   </p>
                 </div>
               )}
+
+              {revealed?.kind === 'file' && (
+                <div className="border rounded-lg p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <FileText className="w-4 h-4 text-primary" />
+                    <span className="font-medium break-all">{revealed.name}</span>
+                    <Badge variant="outline" className="text-xs">{revealed.type || 'unknown type'}</Badge>
+                    <Badge className="bg-green-500/20 text-green-300 text-xs">
+                      <ShieldCheck className="w-3 h-3 mr-1" />
+                      Checksum verified
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{formatBytes(revealed.data.length)}</p>
+                  <Button onClick={downloadRevealedFile} variant="outline" className="w-full">
+                    <Download className="w-4 h-4 mr-2" />
+                    Download {revealed.name}
+                  </Button>
+                </div>
+              )}
             </TabsContent>
           </CardContent>
         </Card>
       </Tabs>
+
+      {/* Text Carriers */}
+      <TextSteganography />
+
+      {/* Audio Carrier */}
+      <AudioSteganography />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,273 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { journaled } from '@/lib/journal';
+import { kdfCostFromSettings } from '@/lib/settings';
+import {
+  TEXT_STEGO_METHODS,
+  scanTextStego,
+  textStegoCapacity,
+  textStegoPayloadSize,
+  type TextStegoMethod,
+  type TextStegoPayload,
+} from '@/lib/textstego';
+import { runCryptoJob } from '@/lib/workerPool';
+import { Copy, Lock, MessageSquareText, Unlock } from 'lucide-react';
+
+const METHODS = Object.keys(TEXT_STEGO_METHODS) as TextStegoMethod[];
+
+// Hides short messages in ordinary text with invisible characters, trailing
+// whitespace or look-alike letters
+export function TextSteganography() {
+  const [mode, setMode] = useState<'hide' | 'reveal'>('hide');
+  const [method, setMethod] = useState<TextStegoMethod>('zero-width');
+  const [cover, setCover] = useState('');
+  const [message, setMessage] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [output, setOutput] = useState('');
+  const [suspect, setSuspect] = useState('');
+  const [revealed, setRevealed] = useState<TextStegoPayload | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { toast } = useToast();
+
+  const capacity = useMemo(() => textStegoCapacity(cover, method), [cover, method]);
+  const required = useMemo(
+    () => textStegoPayloadSize(message, passphrase !== '', kdfCostFromSettings()),
+    [message, passphrase]
+  );
+  const fits = required <= capacity;
+  const scan = useMemo(() => scanTextStego(suspect), [suspect]);
+
+  const handleHide = async () => {
+    if (!cover.trim() || !message) {
+      toast({
+        title: "Missing Data",
+        description: "Please enter a cover text and a message to hide.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const algorithm = `${TEXT_STEGO_METHODS[method].name}${passphrase ? ' + AES-256-GCM' : ''}`;
+      const result = await journaled(
+        { tool: 'steganography', operation: 'Hide in text', algorithm, input: message },
+        () => runCryptoJob('embedTextStego', [
+          cover,
+          message,
+          method,
+          { passphrase: passphrase || undefined, cost: kdfCostFromSettings() }
+        ]),
+        result => ({ output: result })
+      );
+      setOutput(result);
+      toast({
+        title: "Message Hidden",
+        description: `Hidden with ${TEXT_STEGO_METHODS[method].name.toLowerCase()}${passphrase ? ', encrypted first' : ''}. Copy the text as a whole to keep it intact.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Processing Failed",
+        description: error instanceof Error ? error.message : "Failed to hide the message.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!suspect) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await journaled(
+        { tool: 'steganography', operation: 'Reveal from text', algorithm: 'Text carriers', input: suspect },
+        () => runCryptoJob('extractTextStego', [suspect, passphrase || undefined]),
+        result => ({ output: result.message })
+      );
+      setRevealed(result);
+      toast({
+        title: "Message Revealed",
+        description: `Found in ${TEXT_STEGO_METHODS[result.method].name.toLowerCase()}${result.encrypted ? ', decrypted with the passphrase' : ''}.`,
+      });
+    } catch (error) {
+      setRevealed(null);
+      toast({
+        title: "Nothing Revealed",
+        description: error instanceof Error ? error.message : "Failed to extract a message.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const copyOutput = () => {
+    navigator.clipboard.writeText(output);
+    toast({
+      title: "Copied to Clipboard",
+      description: "The cover text with the hidden message was copied.",
+    });
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquareText className="w-5 h-5 text-primary" />
+          Text Steganography
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Hide short tokens in chat messages or documents with invisible characters, trailing whitespace or look-alike letters
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as 'hide' | 'reveal')} className="space-y-4">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="hide">
+              <Lock className="w-4 h-4 mr-2" />
+              Hide
+            </TabsTrigger>
+            <TabsTrigger value="reveal">
+              <Unlock className="w-4 h-4 mr-2" />
+              Reveal
+            </TabsTrigger>
+          </TabsList>
+
+          <div className="space-y-2">
+            <Label htmlFor="textStegoPassphrase">Passphrase (Optional)</Label>
+            <Input
+              id="textStegoPassphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Encrypts the message before it is hidden..."
+            />
+          </div>
+
+          <TabsContent value="hide" className="space-y-4 mt-0">
+            <div className="space-y-2">
+              <Label>Carrier</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as TextStegoMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METHODS.map(id => (
+                    <SelectItem key={id} value={id}>{TEXT_STEGO_METHODS[id].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{TEXT_STEGO_METHODS[method].description}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="textStegoCover">Cover Text</Label>
+              <Textarea
+                id="textStegoCover"
+                value={cover}
+                onChange={(e) => setCover(e.target.value)}
+                placeholder="The innocent-looking text that will carry the message..."
+                rows={4}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="textStegoMessage">Secret Message</Label>
+              <Input
+                id="textStegoMessage"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="A short token or note..."
+                className="monaco-editor"
+              />
+              <p className={`text-xs ${fits ? 'text-muted-foreground' : 'text-red-500'}`}>
+                {capacity === Infinity
+                  ? `${required} bytes to hide${passphrase ? ' with encryption' : ''}; this carrier grows to fit.`
+                  : `${required} of ${capacity} bytes${fits ? '' : ' – use a longer cover text, a shorter message or another carrier'}.`}
+              </p>
+            </div>
+
+            <Button
+              onClick={handleHide}
+              disabled={!cover.trim() || !message || !fits || isProcessing}
+              className="w-full premium-button"
+            >
+              {isProcessing ? 'Processing...' : 'Hide Message in Text'}
+            </Button>
+
+            {output && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Text with Hidden Message</Label>
+                  <Button variant="ghost" size="sm" onClick={copyOutput}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copy
+                  </Button>
+                </div>
+                <Textarea value={output} readOnly rows={4} />
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="reveal" className="space-y-4 mt-0">
+            <div className="space-y-2">
+              <Label htmlFor="textStegoSuspect">Text to Inspect</Label>
+              <Textarea
+                id="textStegoSuspect"
+                value={suspect}
+                onChange={(e) => { setSuspect(e.target.value); setRevealed(null); }}
+                placeholder="Paste a message or document that may carry hidden data..."
+                rows={4}
+              />
+            </div>
+
+            {suspect && (
+              <div className="border rounded-lg p-3 space-y-2">
+                {scan.map(result => (
+                  <div key={result.method} className="flex items-center justify-between gap-2 text-sm">
+                    <span>{TEXT_STEGO_METHODS[result.method].name}</span>
+                    <span className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">{result.marks} suspicious</span>
+                      {result.frame ? (
+                        <Badge className="bg-red-500/20 text-red-300 text-xs">
+                          {result.frame.length} bytes hidden{result.frame.encrypted ? ', encrypted' : ''}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs">Nothing found</Badge>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button
+              onClick={handleReveal}
+              disabled={!suspect || isProcessing}
+              className="w-full premium-button-secondary"
+            >
+              {isProcessing ? 'Processing...' : 'Reveal Hidden Message'}
+            </Button>
+
+            {revealed && (
+              <div className="space-y-2">
+                <Label>Revealed Message</Label>
+                <Textarea value={revealed.message} readOnly rows={3} className="monaco-editor" />
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useVault } from '@/hooks/use-vault';
+import { analyzePasswordStrength } from '@/lib/crypto';
+import { createVault, unlockVault } from '@/lib/vault';
+import { Lock, Unlock, ShieldPlus } from 'lucide-react';
+
+// Unlock form for the key vault, or a setup form if no vault exists yet
+export const VaultUnlock = () => {
+  const { status } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+
+  if (status === null || status === 'unlocked') return null;
+
+  const isSetup = status === 'uninitialized';
+  const strength = isSetup && passphrase ? analyzePasswordStrength(passphrase) : null;
+  const canSubmit = passphrase.length > 0 && (!isSetup || passphrase === confirmation) && !isWorking;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+
+    setIsWorking(true);
+    try {
+      const migrated = isSetup ? await createVault(passphrase) : await unlockVault(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+      toast({
+        title: isSetup ? "Key Vault Created" : "Key Vault Unlocked",
+        description: migrated > 0
+          ? `${migrated} key pair(s) moved from unencrypted browser storage into the vault.`
+          : "Private keys are available until the vault locks.",
+      });
+    } catch (error) {
+      toast({
+        title: isSetup ? "Setup Failed" : "Unlock Failed",
+        description: error instanceof Error ? error.message : "Could not open the key vault.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {isSetup ? <ShieldPlus className="w-5 h-5 text-primary" /> : <Lock className="w-5 h-5 text-primary" />}
+          {isSetup ? 'Create Key Vault' : 'Key Vault Locked'}
+        </CardTitle>
+        <CardDescription>
+          {isSetup
+            ? 'Private keys are encrypted under a master passphrase. Keys saved by earlier versions are moved in automatically.'
+            : 'Enter your master passphrase to use stored private keys.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="vaultPassphrase">Master Passphrase</Label>
+            <Input
+              id="vaultPassphrase"
+              type="password"
+              autoComplete={isSetup ? 'new-password' : 'current-password'}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            {strength && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Strength: {strength.strength} · {Math.round(strength.entropy)} bits
+              </p>
+            )}
+          </div>
+
+          {isSetup && (
+            <div>
+              <Label htmlFor="vaultConfirmation">Confirm Passphrase</Label>
+              <Input
+                id="vaultConfirmation"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+              {confirmation && confirmation !== passphrase && (
+                <p className="text-xs text-destructive mt-1">Passphrases do not match</p>
+              )}
+            </div>
+          )}
+
+          <Button type="submit" disabled={!canSubmit}>
+            {isWorking ? (
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
+                {isSetup ? 'Creating...' : 'Unlocking...'}
+              </div>
+            ) : (
+              <>
+                <Unlock className="w-4 h-4 mr-2" />
+                {isSetup ? 'Create Vault' : 'Unlock'}
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
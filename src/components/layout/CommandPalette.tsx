@@ -91,7 +91,7 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
       description: 'Cryptanalysis and security testing tools',
       icon: BarChart3,
       category: 'Navigation',
-      keywords: ['analysis', 'frequency', 'entropy', 'benchmark'],
+      keywords: ['analysis', 'frequency', 'entropy', 'benchmark', 'steganalysis', 'hidden'],
       action: () => navigate('/analysis'),
     },
     {
@@ -0,0 +1,11 @@
+import { useEffect, useState } from "react";
+import { loadContacts, subscribeContacts, type Contact } from "@/lib/contacts";
+
+// Contacts from the address book, kept current as they are added or edited
+export function useContacts(): Contact[] {
+  const [contacts, setContacts] = useState<Contact[]>(loadContacts);
+
+  useEffect(() => subscribeContacts(() => setContacts(loadContacts())), []);
+
+  return contacts;
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { runCryptoJob, type JobOptions } from "@/lib/workerPool";
+import type { CryptoOpArgs, CryptoOpName, CryptoOpResult } from "@/lib/cryptoOps";
+
+// Runs crypto jobs in the worker pool. Starting a new job cancels the previous
+// one, which suits inputs that re-run on every keystroke.
+export function useCryptoJob() {
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsRunning(false);
+  }, []);
+
+  const run = useCallback(async <K extends CryptoOpName>(
+    op: K,
+    args: CryptoOpArgs<K>,
+    options: Omit<JobOptions, "signal"> = {}
+  ): Promise<CryptoOpResult<K>> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setProgress(0);
+
+    try {
+      return await runCryptoJob(op, args, {
+        ...options,
+        signal: controller.signal,
+        onProgress: (fraction) => {
+          setProgress(fraction);
+          options.onProgress?.(fraction);
+        },
+      });
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { run, cancel, isRunning, progress };
+}
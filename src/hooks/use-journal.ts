@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { listJournalEntries, subscribeJournal, type JournalEntry } from "@/lib/journal";
+
+// The operation journal's entries, newest first, kept current as operations
+// are recorded
+export function useJournal() {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const nextEntries = await listJournalEntries();
+        if (!cancelled) setEntries(nextEntries);
+      } catch (error) {
+        console.error("Failed to read operation journal:", error);
+      }
+    };
+
+    refresh();
+    const unsubscribe = subscribeJournal(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return entries;
+}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { getVaultKeyPairs, getVaultStatus, subscribeVault, touchVault, type StoredKeyPair, type VaultStatus } from "@/lib/vault";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown"] as const;
+
+interface VaultState {
+  // null until the vault has been checked for the first time
+  status: VaultStatus | null;
+  keyPairs: StoredKeyPair[];
+}
+
+// One copy of the vault's state is shared by every component using the hook,
+// so the records are decrypted once per change rather than once per component
+let memoryState: VaultState = { status: null, keyPairs: [] };
+const listeners = new Set<(state: VaultState) => void>();
+let unsubscribeVault: (() => void) | null = null;
+let latestRefresh = 0;
+let watchingActivity = false;
+
+// Activity anywhere in the app postpones the auto-lock
+function watchActivity(watch: boolean) {
+  if (watch === watchingActivity) return;
+  watchingActivity = watch;
+  ACTIVITY_EVENTS.forEach((event) => {
+    if (watch) window.addEventListener(event, touchVault);
+    else window.removeEventListener(event, touchVault);
+  });
+}
+
+async function refresh() {
+  const sequence = ++latestRefresh;
+  try {
+    const status = await getVaultStatus();
+    const keyPairs = status === "unlocked" ? await getVaultKeyPairs() : [];
+    // A refresh started later may already have finished; its result is newer
+    if (sequence !== latestRefresh) return;
+    // Decrypted keys are only held while a component shows them, but a lock
+    // always clears them
+    if (listeners.size === 0 && status === "unlocked") return;
+    memoryState = { status, keyPairs };
+    watchActivity(status === "unlocked");
+    listeners.forEach((listener) => listener(memoryState));
+  } catch (error) {
+    console.error("Failed to read key vault:", error);
+  }
+}
+
+// Tracks the key vault's lock state and, while it is unlocked, its key pairs.
+// status is null until the vault has been checked for the first time.
+export function useVault() {
+  const [state, setState] = useState<VaultState>(memoryState);
+
+  useEffect(() => {
+    listeners.add(setState);
+    if (!unsubscribeVault) {
+      unsubscribeVault = subscribeVault(refresh);
+      refresh();
+    } else {
+      setState(memoryState);
+    }
+
+    return () => {
+      listeners.delete(setState);
+      if (listeners.size === 0) {
+        unsubscribeVault?.();
+        unsubscribeVault = null;
+        watchActivity(false);
+        // Nothing keeps decrypted keys in memory once no component shows
+        // them, and the next caller must not see them after a lock
+        memoryState = { status: null, keyPairs: [] };
+      }
+    };
+  }, []);
+
+  return state;
+}
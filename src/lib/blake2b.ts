@@ -0,0 +1,145 @@
+// BLAKE2b (RFC 7693) using pairs of 32-bit words for the 64-bit state
+
+const IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19
+]);
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3]
+];
+
+// v[a] += v[b] + m (64-bit words stored as lo, hi at indices 2a, 2a + 1)
+function add64(v: Uint32Array, a: number, b: number, mLo: number, mHi: number) {
+  const lo = v[2 * a] + v[2 * b] + mLo;
+  v[2 * a + 1] = v[2 * a + 1] + v[2 * b + 1] + mHi + Math.floor(lo / 0x100000000);
+  v[2 * a] = lo;
+}
+
+// v[d] = (v[d] ^ v[a]) >>> shift for the rotations BLAKE2b uses
+function xorRotr(v: Uint32Array, d: number, a: number, shift: number) {
+  const lo = v[2 * d] ^ v[2 * a];
+  const hi = v[2 * d + 1] ^ v[2 * a + 1];
+  if (shift === 32) {
+    v[2 * d] = hi;
+    v[2 * d + 1] = lo;
+  } else if (shift < 32) {
+    v[2 * d] = (lo >>> shift) | (hi << (32 - shift));
+    v[2 * d + 1] = (hi >>> shift) | (lo << (32 - shift));
+  } else {
+    const s = shift - 32;
+    v[2 * d] = (hi >>> s) | (lo << (32 - s));
+    v[2 * d + 1] = (lo >>> s) | (hi << (32 - s));
+  }
+}
+
+function mix(v: Uint32Array, m: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number) {
+  add64(v, a, b, m[2 * x], m[2 * x + 1]);
+  xorRotr(v, d, a, 32);
+  add64(v, c, d, 0, 0);
+  xorRotr(v, b, c, 24);
+  add64(v, a, b, m[2 * y], m[2 * y + 1]);
+  xorRotr(v, d, a, 16);
+  add64(v, c, d, 0, 0);
+  xorRotr(v, b, c, 63);
+}
+
+function compress(h: Uint32Array, block: Uint8Array, counter: number, last: boolean) {
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  v.set(h, 0);
+  v.set(IV, 16);
+  v[24] ^= counter >>> 0;
+  v[25] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+
+  for (let i = 0; i < 32; i++) {
+    m[i] = block[i * 4] | (block[i * 4 + 1] << 8) | (block[i * 4 + 2] << 16) | (block[i * 4 + 3] << 24);
+  }
+
+  for (let round = 0; round < 12; round++) {
+    const s = SIGMA[round];
+    mix(v, m, 0, 4, 8, 12, s[0], s[1]);
+    mix(v, m, 1, 5, 9, 13, s[2], s[3]);
+    mix(v, m, 2, 6, 10, 14, s[4], s[5]);
+    mix(v, m, 3, 7, 11, 15, s[6], s[7]);
+    mix(v, m, 0, 5, 10, 15, s[8], s[9]);
+    mix(v, m, 1, 6, 11, 12, s[10], s[11]);
+    mix(v, m, 2, 7, 8, 13, s[12], s[13]);
+    mix(v, m, 3, 4, 9, 14, s[14], s[15]);
+  }
+
+  for (let i = 0; i < 16; i++) {
+    h[i] ^= v[i] ^ v[i + 16];
+  }
+}
+
+export interface Blake2b {
+  update(data: Uint8Array): Blake2b;
+  digest(): Uint8Array;
+}
+
+// Incremental BLAKE2b with optional key (keyed MAC mode)
+export function createBlake2b(outputLength = 64, key: Uint8Array = new Uint8Array(0)): Blake2b {
+  if (outputLength < 1 || outputLength > 64) throw new Error('BLAKE2b output length must be 1-64 bytes');
+  if (key.length > 64) throw new Error('BLAKE2b key must be at most 64 bytes');
+
+  const h = IV.slice();
+  h[0] ^= 0x01010000 ^ (key.length << 8) ^ outputLength;
+
+  const buffer = new Uint8Array(128);
+  let buffered = 0;
+  let counter = 0;
+
+  const hasher: Blake2b = {
+    update(data: Uint8Array) {
+      for (let i = 0; i < data.length; i++) {
+        // The final block must be compressed with the last-block flag, so only
+        // flush a full buffer once more input arrives
+        if (buffered === 128) {
+          counter += 128;
+          compress(h, buffer, counter, false);
+          buffered = 0;
+        }
+        buffer[buffered++] = data[i];
+      }
+      return hasher;
+    },
+    digest() {
+      counter += buffered;
+      buffer.fill(0, buffered);
+      compress(h, buffer, counter, true);
+
+      const output = new Uint8Array(outputLength);
+      for (let i = 0; i < outputLength; i++) {
+        output[i] = h[i >> 2] >>> (8 * (i & 3));
+      }
+      return output;
+    }
+  };
+
+  if (key.length > 0) {
+    const keyBlock = new Uint8Array(128);
+    keyBlock.set(key);
+    hasher.update(keyBlock);
+  }
+  return hasher;
+}
+
+export function blake2b(data: Uint8Array, outputLength = 64, key?: Uint8Array): Uint8Array {
+  return createBlake2b(outputLength, key).update(data).digest();
+}
@@ -0,0 +1,156 @@
+// BLAKE3 hashing mode with 32-byte output: 1 KiB chunks hashed with a
+// 7-round BLAKE2s-like compression and merged as a binary tree
+
+import type { Hasher } from './hashes';
+
+const IV = new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+]);
+
+const MSG_PERMUTATION = [2, 6, 3, 10, 7, 0, 4, 13, 1, 11, 12, 5, 9, 14, 15, 8];
+
+const BLOCK_LENGTH = 64;
+const CHUNK_LENGTH = 1024;
+const CHUNK_START = 1;
+const CHUNK_END = 2;
+const PARENT = 4;
+const ROOT = 8;
+
+function g(v: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number) {
+  v[a] = v[a] + v[b] + x;
+  v[d] = ((v[d] ^ v[a]) >>> 16) | ((v[d] ^ v[a]) << 16);
+  v[c] = v[c] + v[d];
+  v[b] = ((v[b] ^ v[c]) >>> 12) | ((v[b] ^ v[c]) << 20);
+  v[a] = v[a] + v[b] + y;
+  v[d] = ((v[d] ^ v[a]) >>> 8) | ((v[d] ^ v[a]) << 24);
+  v[c] = v[c] + v[d];
+  v[b] = ((v[b] ^ v[c]) >>> 7) | ((v[b] ^ v[c]) << 25);
+}
+
+// The first 8 words of the result are the next chaining value
+function compress(cv: Uint32Array, block: Uint32Array, counter: number, blockLength: number, flags: number): Uint32Array {
+  const v = new Uint32Array(16);
+  v.set(cv);
+  v.set(IV.subarray(0, 4), 8);
+  v[12] = counter >>> 0;
+  v[13] = Math.floor(counter / 0x100000000);
+  v[14] = blockLength;
+  v[15] = flags;
+
+  let m = block.slice();
+  for (let round = 0; round < 7; round++) {
+    g(v, 0, 4, 8, 12, m[0], m[1]);
+    g(v, 1, 5, 9, 13, m[2], m[3]);
+    g(v, 2, 6, 10, 14, m[4], m[5]);
+    g(v, 3, 7, 11, 15, m[6], m[7]);
+    g(v, 0, 5, 10, 15, m[8], m[9]);
+    g(v, 1, 6, 11, 12, m[10], m[11]);
+    g(v, 2, 7, 8, 13, m[12], m[13]);
+    g(v, 3, 4, 9, 14, m[14], m[15]);
+    const permuted = new Uint32Array(16);
+    MSG_PERMUTATION.forEach((source, i) => { permuted[i] = m[source]; });
+    m = permuted;
+  }
+
+  for (let i = 0; i < 8; i++) {
+    v[i] ^= v[i + 8];
+    v[i + 8] ^= cv[i];
+  }
+  return v;
+}
+
+function blockWords(bytes: Uint8Array): Uint32Array {
+  const words = new Uint32Array(16);
+  for (let i = 0; i < bytes.length; i++) {
+    words[i >> 2] |= bytes[i] << (8 * (i & 3));
+  }
+  return words;
+}
+
+// The inputs of a node's last compression, kept so the root can be
+// compressed again with the ROOT flag
+interface Output {
+  cv: Uint32Array;
+  block: Uint32Array;
+  counter: number;
+  blockLength: number;
+  flags: number;
+}
+
+const chainingValue = (output: Output) =>
+  compress(output.cv, output.block, output.counter, output.blockLength, output.flags).subarray(0, 8);
+
+function parentOutput(left: Uint32Array, right: Uint32Array): Output {
+  const block = new Uint32Array(16);
+  block.set(left);
+  block.set(right, 8);
+  return { cv: IV, block, counter: 0, blockLength: BLOCK_LENGTH, flags: PARENT };
+}
+
+export function createBlake3(): Hasher {
+  // Chaining values of completed subtrees, one per set bit of the chunk count
+  const stack: Uint32Array[] = [];
+  let cv = IV.slice();
+  let chunkCounter = 0;
+  let chunkLength = 0;
+  let blocksCompressed = 0;
+  const block = new Uint8Array(BLOCK_LENGTH);
+  let blockLength = 0;
+
+  const startFlag = () => (blocksCompressed === 0 ? CHUNK_START : 0);
+
+  const chunkOutput = (): Output => ({
+    cv,
+    block: blockWords(block.subarray(0, blockLength)),
+    counter: chunkCounter,
+    blockLength,
+    flags: startFlag() | CHUNK_END
+  });
+
+  const finishChunk = () => {
+    let chunkCv = chainingValue(chunkOutput());
+    chunkCounter++;
+    for (let total = chunkCounter; total % 2 === 0; total /= 2) {
+      chunkCv = chainingValue(parentOutput(stack.pop()!, chunkCv));
+    }
+    stack.push(chunkCv);
+    cv = IV.slice();
+    chunkLength = 0;
+    blocksCompressed = 0;
+    blockLength = 0;
+  };
+
+  const hasher: Hasher = {
+    update(data: Uint8Array) {
+      for (let i = 0; i < data.length; i++) {
+        // The last block of a chunk, and the last chunk, are only compressed
+        // once more input shows they are not the end of the input
+        if (chunkLength === CHUNK_LENGTH) {
+          finishChunk();
+        }
+        if (blockLength === BLOCK_LENGTH) {
+          cv = compress(cv, blockWords(block), chunkCounter, BLOCK_LENGTH, startFlag()).slice(0, 8);
+          blocksCompressed++;
+          blockLength = 0;
+        }
+        block[blockLength++] = data[i];
+        chunkLength++;
+      }
+      return hasher;
+    },
+    digest() {
+      let output = chunkOutput();
+      for (let i = stack.length - 1; i >= 0; i--) {
+        output = parentOutput(stack[i], chainingValue(output));
+      }
+      const root = compress(output.cv, output.block, 0, output.blockLength, output.flags | ROOT);
+
+      const digest = new Uint8Array(32);
+      for (let i = 0; i < 32; i++) {
+        digest[i] = root[i >> 2] >>> (8 * (i & 3));
+      }
+      return digest;
+    }
+  };
+  return hasher;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chacha20,
+  chacha20Block,
+  chacha20Poly1305Open,
+  chacha20Poly1305Seal,
+  hchacha20,
+  poly1305,
+  xchacha20Poly1305Open,
+  xchacha20Poly1305Seal,
+} from './chacha20';
+import { bytesToHex, hexToBytes } from './encoding';
+
+const hex = (value: string) => hexToBytes(value.replace(/[\s:]/g, ''));
+const range = (start: number, length: number) => Uint8Array.from({ length }, (_, i) => start + i);
+
+const SUNSCREEN = new TextEncoder().encode(
+  "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it."
+);
+
+describe('ChaCha20', () => {
+  it('matches the block function vector (RFC 8439 2.3.2)', () => {
+    const block = chacha20Block(range(0, 32), 1, hex('000000090000004a00000000'));
+    expect(bytesToHex(block)).toBe(
+      '10f1e7e4d13b5915500fdd1fa32071c4c7d1f4c733c068030422aa9ac3d46c4e' +
+      'd2826446079faa0914c2d705d98b02a2b5129cd1de164eb9cbd083e8a2503c4e'
+    );
+  });
+
+  it('matches the cipher vector (RFC 8439 2.4.2)', () => {
+    const key = range(0, 32);
+    const nonce = hex('000000000000004a00000000');
+    const ciphertext = chacha20(key, nonce, SUNSCREEN, 1);
+    expect(bytesToHex(ciphertext)).toBe(
+      '6e2e359a2568f98041ba0728dd0d6981e97e7aec1d4360c20a27afccfd9fae0b' +
+      'f91b65c5524733ab8f593dabcd62b3571639d624e65152ab8f530c359f0861d8' +
+      '07ca0dbf500d6a6156a38e088a22b65e52bc514d16ccf806818ce91ab7793736' +
+      '5af90bbf74a35be6b40b8eedf2785e42874d'
+    );
+    expect(chacha20(key, nonce, ciphertext, 1)).toEqual(SUNSCREEN);
+  });
+
+  it('matches the HChaCha20 vector (draft-irtf-cfrg-xchacha 2.2.1)', () => {
+    const subkey = hchacha20(range(0, 32), hex('000000090000004a0000000031415927'));
+    expect(bytesToHex(subkey)).toBe('82413b4227b27bfed30e42508a877d73a0f9e4d58a74a853c12ec41326d3ecdc');
+  });
+});
+
+describe('Poly1305', () => {
+  it('matches the MAC vector (RFC 8439 2.5.2)', () => {
+    const key = hex('85:d6:be:78:57:55:6d:33:7f:44:52:fe:42:d5:06:a8:01:03:80:8a:fb:0d:b2:fd:4a:bf:f6:af:41:49:f5:1b');
+    const tag = poly1305(key, new TextEncoder().encode('Cryptographic Forum Research Group'));
+    expect(bytesToHex(tag)).toBe('a8061dc1305136c6c22b8baf0c0127a9');
+  });
+});
+
+describe('ChaCha20-Poly1305', () => {
+  const key = range(0x80, 32);
+  const nonce = hex('07000000 4041424344454647');
+  const aad = hex('50515253c0c1c2c3c4c5c6c7');
+  const expected =
+    'd31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d6' +
+    '3dbea45e8ca9671282fafb69da92728b1a71de0a9e060b2905d6a5b67ecd3b36' +
+    '92ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc' +
+    '3ff4def08e4b7a9de576d26586cec64b6116' +
+    '1ae10b594f09e26a7e902ecbd0600691';
+
+  it('matches the AEAD vector (RFC 8439 2.8.2)', () => {
+    expect(bytesToHex(chacha20Poly1305Seal(key, nonce, SUNSCREEN, aad))).toBe(expected);
+    expect(chacha20Poly1305Open(key, nonce, hex(expected), aad)).toEqual(SUNSCREEN);
+  });
+
+  it('rejects a tampered tag, ciphertext or AAD', () => {
+    const tamperedTag = hex(expected);
+    tamperedTag[tamperedTag.length - 1] ^= 1;
+    expect(() => chacha20Poly1305Open(key, nonce, tamperedTag, aad)).toThrow('Authentication failed');
+
+    const tamperedCiphertext = hex(expected);
+    tamperedCiphertext[0] ^= 1;
+    expect(() => chacha20Poly1305Open(key, nonce, tamperedCiphertext, aad)).toThrow('Authentication failed');
+
+    expect(() => chacha20Poly1305Open(key, nonce, hex(expected), new Uint8Array(0))).toThrow('Authentication failed');
+  });
+});
+
+describe('XChaCha20-Poly1305', () => {
+  const key = range(0x80, 32);
+  const nonce = hex('404142434445464748494a4b4c4d4e4f5051525354555657');
+  const aad = hex('50515253c0c1c2c3c4c5c6c7');
+  const expected =
+    'bd6d179d3e83d43b9576579493c0e939572a1700252bfaccbed2902c21396cbb' +
+    '731c7f1b0b4aa6440bf3a82f4eda7e39ae64c6708c54c216cb96b72e1213b452' +
+    '2f8c9ba40db5d945b11b69b982c1bb9e3f3fac2bc369488f76b2383565d3fff9' +
+    '21f9664c97637da9768812f615c68b13b52e' +
+    'c0875924c1c7987947deafd8780acf49';
+
+  it('matches the AEAD vector (draft-irtf-cfrg-xchacha A.3.1)', () => {
+    expect(bytesToHex(xchacha20Poly1305Seal(key, nonce, SUNSCREEN, aad))).toBe(expected);
+    expect(xchacha20Poly1305Open(key, nonce, hex(expected), aad)).toEqual(SUNSCREEN);
+  });
+
+  it('rejects a tampered tag', () => {
+    const tampered = hex(expected);
+    tampered[tampered.length - 16] ^= 0x80;
+    expect(() => xchacha20Poly1305Open(key, nonce, tampered, aad)).toThrow('Authentication failed');
+  });
+
+  it('rejects nonces of the wrong length', () => {
+    expect(() => xchacha20Poly1305Seal(key, new Uint8Array(12), SUNSCREEN)).toThrow('24 bytes');
+  });
+});
@@ -0,0 +1,209 @@
+// ChaCha20-Poly1305 (RFC 8439) and XChaCha20-Poly1305 AEAD in plain TypeScript
+
+const SIGMA = new Uint32Array([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]); // "expand 32-byte k"
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function writeUint32LE(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >>> 8) & 0xff;
+  bytes[offset + 2] = (value >>> 16) & 0xff;
+  bytes[offset + 3] = (value >>> 24) & 0xff;
+}
+
+function rotl(value: number, shift: number): number {
+  return (value << shift) | (value >>> (32 - shift));
+}
+
+function quarterRound(x: Uint32Array, a: number, b: number, c: number, d: number) {
+  x[a] += x[b]; x[d] = rotl(x[d] ^ x[a], 16);
+  x[c] += x[d]; x[b] = rotl(x[b] ^ x[c], 12);
+  x[a] += x[b]; x[d] = rotl(x[d] ^ x[a], 8);
+  x[c] += x[d]; x[b] = rotl(x[b] ^ x[c], 7);
+}
+
+function doubleRounds(x: Uint32Array) {
+  for (let i = 0; i < 10; i++) {
+    quarterRound(x, 0, 4, 8, 12);
+    quarterRound(x, 1, 5, 9, 13);
+    quarterRound(x, 2, 6, 10, 14);
+    quarterRound(x, 3, 7, 11, 15);
+    quarterRound(x, 0, 5, 10, 15);
+    quarterRound(x, 1, 6, 11, 12);
+    quarterRound(x, 2, 7, 8, 13);
+    quarterRound(x, 3, 4, 9, 14);
+  }
+}
+
+function initialState(key: Uint8Array, counter: number, nonce: Uint8Array): Uint32Array {
+  const state = new Uint32Array(16);
+  state.set(SIGMA, 0);
+  for (let i = 0; i < 8; i++) state[4 + i] = readUint32LE(key, i * 4);
+  state[12] = counter;
+  for (let i = 0; i < 3; i++) state[13 + i] = readUint32LE(nonce, i * 4);
+  return state;
+}
+
+// ChaCha20 block function (RFC 8439 section 2.3)
+export function chacha20Block(key: Uint8Array, counter: number, nonce: Uint8Array): Uint8Array {
+  const state = initialState(key, counter, nonce);
+  const working = state.slice();
+  doubleRounds(working);
+
+  const output = new Uint8Array(64);
+  for (let i = 0; i < 16; i++) {
+    writeUint32LE(output, i * 4, working[i] + state[i]);
+  }
+  return output;
+}
+
+// ChaCha20 stream cipher (RFC 8439 section 2.4); encryption and decryption are the same
+export function chacha20(key: Uint8Array, nonce: Uint8Array, data: Uint8Array, initialCounter = 1): Uint8Array {
+  if (key.length !== 32) throw new Error('ChaCha20 key must be 32 bytes');
+  if (nonce.length !== 12) throw new Error('ChaCha20 nonce must be 12 bytes');
+
+  const output = new Uint8Array(data.length);
+  for (let offset = 0, counter = initialCounter; offset < data.length; offset += 64, counter++) {
+    const keystream = chacha20Block(key, counter, nonce);
+    const end = Math.min(offset + 64, data.length);
+    for (let i = offset; i < end; i++) {
+      output[i] = data[i] ^ keystream[i - offset];
+    }
+  }
+  return output;
+}
+
+// HChaCha20 subkey derivation used by XChaCha20
+export function hchacha20(key: Uint8Array, nonce: Uint8Array): Uint8Array {
+  if (nonce.length !== 16) throw new Error('HChaCha20 nonce must be 16 bytes');
+
+  const state = initialState(key, readUint32LE(nonce, 0), nonce.subarray(4));
+  doubleRounds(state);
+
+  const subkey = new Uint8Array(32);
+  for (let i = 0; i < 4; i++) {
+    writeUint32LE(subkey, i * 4, state[i]);
+    writeUint32LE(subkey, 16 + i * 4, state[12 + i]);
+  }
+  return subkey;
+}
+
+function leBytesToBigInt(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  return value;
+}
+
+// Poly1305 one-time authenticator (RFC 8439 section 2.5)
+export function poly1305(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const p = (1n << 130n) - 5n;
+  const r = leBytesToBigInt(key.subarray(0, 16)) & 0x0ffffffc0ffffffc0ffffffc0fffffffn;
+  const s = leBytesToBigInt(key.subarray(16, 32));
+
+  let accumulator = 0n;
+  for (let offset = 0; offset < message.length; offset += 16) {
+    const block = message.subarray(offset, offset + 16);
+    const n = leBytesToBigInt(block) | (1n << BigInt(block.length * 8));
+    accumulator = ((accumulator + n) * r) % p;
+  }
+  accumulator = (accumulator + s) & ((1n << 128n) - 1n);
+
+  const tag = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    tag[i] = Number(accumulator & 0xffn);
+    accumulator >>= 8n;
+  }
+  return tag;
+}
+
+function macData(aad: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const pad = (length: number) => (16 - (length % 16)) % 16;
+  const aadEnd = aad.length + pad(aad.length);
+  const ciphertextEnd = aadEnd + ciphertext.length + pad(ciphertext.length);
+
+  const data = new Uint8Array(ciphertextEnd + 16);
+  data.set(aad, 0);
+  data.set(ciphertext, aadEnd);
+  const view = new DataView(data.buffer);
+  view.setUint32(ciphertextEnd, aad.length, true);
+  view.setUint32(ciphertextEnd + 4, Math.floor(aad.length / 2 ** 32), true);
+  view.setUint32(ciphertextEnd + 8, ciphertext.length, true);
+  view.setUint32(ciphertextEnd + 12, Math.floor(ciphertext.length / 2 ** 32), true);
+  return data;
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+// AEAD_CHACHA20_POLY1305 (RFC 8439 section 2.8); returns ciphertext || 16-byte tag
+export function chacha20Poly1305Seal(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  const oneTimeKey = chacha20Block(key, 0, nonce).subarray(0, 32);
+  const ciphertext = chacha20(key, nonce, plaintext, 1);
+  const tag = poly1305(oneTimeKey, macData(aad, ciphertext));
+
+  const sealed = new Uint8Array(ciphertext.length + 16);
+  sealed.set(ciphertext, 0);
+  sealed.set(tag, ciphertext.length);
+  return sealed;
+}
+
+export function chacha20Poly1305Open(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  sealed: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  if (sealed.length < 16) throw new Error('Ciphertext is too short');
+
+  const ciphertext = sealed.subarray(0, sealed.length - 16);
+  const tag = sealed.subarray(sealed.length - 16);
+  const oneTimeKey = chacha20Block(key, 0, nonce).subarray(0, 32);
+
+  if (!constantTimeEqual(tag, poly1305(oneTimeKey, macData(aad, ciphertext)))) {
+    throw new Error('Authentication failed: wrong key or tampered data');
+  }
+  return chacha20(key, nonce, ciphertext, 1);
+}
+
+function xchachaSubkeyAndNonce(key: Uint8Array, nonce: Uint8Array): [Uint8Array, Uint8Array] {
+  if (nonce.length !== 24) throw new Error('XChaCha20 nonce must be 24 bytes');
+
+  const subkey = hchacha20(key, nonce.subarray(0, 16));
+  const chachaNonce = new Uint8Array(12);
+  chachaNonce.set(nonce.subarray(16), 4);
+  return [subkey, chachaNonce];
+}
+
+// XChaCha20-Poly1305 (draft-irtf-cfrg-xchacha) with 24-byte random-safe nonces
+export function xchacha20Poly1305Seal(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  const [subkey, chachaNonce] = xchachaSubkeyAndNonce(key, nonce);
+  return chacha20Poly1305Seal(subkey, chachaNonce, plaintext, aad);
+}
+
+export function xchacha20Poly1305Open(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  sealed: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  const [subkey, chachaNonce] = xchachaSubkeyAndNonce(key, nonce);
+  return chacha20Poly1305Open(subkey, chachaNonce, sealed, aad);
+}
@@ -0,0 +1,152 @@
+// File checksums and checksum manifests in the format of sha256sum and the
+// other GNU coreutils checksum tools:
+//   <hex digest>  <file name>
+// with a " *" separator for binary mode, which means the same here. Names
+// holding a backslash or line break are escaped and the line starts with
+// "\". Manifests written with --tag, and by BSD tools, are read as well:
+//   SHA256 (<file name>) = <hex digest>
+
+import { bytesToHex } from './encoding';
+import { HASH_ALGORITHMS, createHasher, type HashAlgorithm } from './hashes';
+
+export type FileDigests = Partial<Record<HashAlgorithm, string>>;
+
+export interface ChecksumEntry {
+  name: string;
+  algorithm: HashAlgorithm;
+  digest: string;
+}
+
+export interface ChecksumManifest {
+  entries: ChecksumEntry[];
+  // Lines that are neither blank, comments nor checksums
+  invalidLines: number[];
+}
+
+export type ChecksumStatus = 'ok' | 'failed' | 'missing';
+
+export interface ChecksumCheck extends ChecksumEntry {
+  status: ChecksumStatus;
+  actual?: string;
+}
+
+// The --tag name of each algorithm and the manifest file name it is
+// conventionally published under
+const MANIFEST_FORMATS: Record<HashAlgorithm, { tag: string; fileName: string }> = {
+  'MD5': { tag: 'MD5', fileName: 'MD5SUMS' },
+  'SHA-1': { tag: 'SHA1', fileName: 'SHA1SUMS' },
+  'SHA-256': { tag: 'SHA256', fileName: 'SHA256SUMS' },
+  'SHA-384': { tag: 'SHA384', fileName: 'SHA384SUMS' },
+  'SHA-512': { tag: 'SHA512', fileName: 'SHA512SUMS' },
+  'SHA3-256': { tag: 'SHA3-256', fileName: 'SHA3-256SUMS' },
+  'SHA3-512': { tag: 'SHA3-512', fileName: 'SHA3-512SUMS' },
+  'BLAKE2b-512': { tag: 'BLAKE2b', fileName: 'B2SUMS' },
+  'BLAKE3': { tag: 'BLAKE3', fileName: 'B3SUMS' },
+};
+
+const ALGORITHMS = Object.keys(MANIFEST_FORMATS) as HashAlgorithm[];
+
+// Reads the stream once, feeding each chunk to every algorithm
+export async function hashStream(stream: ReadableStream<Uint8Array>, algorithms: HashAlgorithm[]): Promise<FileDigests> {
+  if (algorithms.length === 0) {
+    throw new Error('Choose at least one hash algorithm');
+  }
+  const hashers = algorithms.map(createHasher);
+  await stream.pipeTo(new WritableStream<Uint8Array>({
+    write(chunk) {
+      for (const hasher of hashers) hasher.update(chunk);
+    }
+  }));
+  return Object.fromEntries(algorithms.map((algorithm, i) => [algorithm, bytesToHex(hashers[i].digest())]));
+}
+
+export function checksumManifestName(algorithm: HashAlgorithm): string {
+  return MANIFEST_FORMATS[algorithm].fileName;
+}
+
+export function formatChecksumManifest(entries: { name: string; digest: string }[]): string {
+  return entries.map(({ name, digest }) => {
+    const escaped = name.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/\r/g, '\\r');
+    return `${escaped !== name ? '\\' : ''}${digest}  ${escaped}\n`;
+  }).join('');
+}
+
+function unescapeName(name: string): string {
+  return name.replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char === 'r' ? '\r' : char));
+}
+
+// Plain lines do not say which algorithm made them. The manifest's own file
+// name does (SHA256SUMS), and failing that the digest length narrows it down
+// to the most common algorithm of that length.
+function algorithmForLine(digest: string, manifestName?: string): HashAlgorithm | undefined {
+  const bits = digest.length * 4;
+  const baseName = manifestName?.split(/[\\/]/).pop()?.toUpperCase() ?? '';
+  const named = ALGORITHMS.find(algorithm => baseName.startsWith(MANIFEST_FORMATS[algorithm].fileName));
+  if (named && HASH_ALGORITHMS[named].bits === bits) {
+    return named;
+  }
+  return ALGORITHMS.find(algorithm => HASH_ALGORITHMS[algorithm].bits === bits);
+}
+
+// Parses a manifest. Plain lines use the given algorithm when there is one,
+// so SHA3-256 or BLAKE3 manifests can be told apart from SHA-256 ones.
+export function parseChecksumManifest(text: string, manifestName?: string, algorithm?: HashAlgorithm): ChecksumManifest {
+  const entries: ChecksumEntry[] = [];
+  const invalidLines: number[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.startsWith('#')) return;
+
+    const tagged = line.match(/^(\\?)([\w-]+) \((.*)\) = ([0-9a-fA-F]+)$/);
+    if (tagged) {
+      const [, escaped, tag, name, digest] = tagged;
+      const tagAlgorithm = ALGORITHMS.find(candidate => MANIFEST_FORMATS[candidate].tag.toUpperCase() === tag.toUpperCase());
+      if (tagAlgorithm && HASH_ALGORITHMS[tagAlgorithm].bits === digest.length * 4) {
+        entries.push({ name: escaped ? unescapeName(name) : name, algorithm: tagAlgorithm, digest: digest.toLowerCase() });
+      } else {
+        invalidLines.push(index + 1);
+      }
+      return;
+    }
+
+    const plain = line.match(/^(\\?)([0-9a-fA-F]+) [ *](.+)$/);
+    const lineAlgorithm = plain && (algorithm ?? algorithmForLine(plain[2], manifestName));
+    if (plain && lineAlgorithm && HASH_ALGORITHMS[lineAlgorithm].bits === plain[2].length * 4) {
+      const [, escaped, digest, name] = plain;
+      entries.push({ name: escaped ? unescapeName(name) : name, algorithm: lineAlgorithm, digest: digest.toLowerCase() });
+    } else {
+      invalidLines.push(index + 1);
+    }
+  });
+
+  if (entries.length === 0) {
+    throw new Error('No checksums found; expected lines like "<hash>  <file name>"');
+  }
+  return { entries, invalidLines };
+}
+
+const normalizePath = (path: string) => path.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+
+// Finds the file a manifest entry names. Browsers only give folder-relative
+// paths for folder uploads, so a unique base name match is accepted too.
+export function findChecksumFile<T extends { path: string }>(entryName: string, files: T[]): T | undefined {
+  const name = normalizePath(entryName);
+  const exact = files.find(file => normalizePath(file.path) === name);
+  if (exact) return exact;
+
+  const baseName = name.split('/').pop();
+  const byBaseName = files.filter(file => normalizePath(file.path).split('/').pop() === baseName);
+  const suffixed = byBaseName.filter(file => name.endsWith(normalizePath(file.path)) || normalizePath(file.path).endsWith(`/${name}`));
+  if (suffixed.length === 1) return suffixed[0];
+  return byBaseName.length === 1 ? byBaseName[0] : undefined;
+}
+
+export function checkChecksums(entries: ChecksumEntry[], digestsFor: (entry: ChecksumEntry) => FileDigests | undefined): ChecksumCheck[] {
+  return entries.map(entry => {
+    const actual = digestsFor(entry)?.[entry.algorithm];
+    if (actual === undefined) {
+      return { ...entry, status: 'missing' };
+    }
+    return { ...entry, actual, status: actual === entry.digest ? 'ok' : 'failed' };
+  });
+}
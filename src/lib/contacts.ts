@@ -0,0 +1,194 @@
+// Other people's public keys, kept in localStorage
+//
+// Contacts hold no secrets, so unlike our own key pairs they live outside the
+// key vault and stay usable while it is locked. Each contact is identified by
+// its key fingerprint. Trust starts as 'unverified' and only changes when the
+// user compares fingerprints out-of-band; a shared keyring can add contacts
+// but never vouches for them.
+
+import type { KeyAlgorithm } from './crypto';
+import { eciesCurveOfKey } from './ecies';
+import { keyFingerprint, shortKeyId } from './fingerprint';
+import { KEY_FAMILY_ALGORITHMS, importKeyMaterial, type ImportedKey } from './keyformats';
+
+export type ContactTrust = 'unverified' | 'verified' | 'revoked';
+
+export interface Contact {
+  // Hex SHA-256 fingerprint of the public key
+  id: string;
+  name: string;
+  email?: string;
+  publicKey: string;
+  algorithm: KeyAlgorithm;
+  keySize: number;
+  trust: ContactTrust;
+  verifiedAt?: string;
+  notes?: string;
+  added: string;
+}
+
+export const CONTACT_TRUST_NAMES: Record<ContactTrust, string> = {
+  'unverified': 'Unverified',
+  'verified': 'Verified',
+  'revoked': 'Revoked',
+};
+
+const CONTACTS_KEY = 'word-lock-contacts';
+const KEYRING_TYPE = 'word-lock-keyring';
+
+const listeners = new Set<() => void>();
+
+export function subscribeContacts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function loadContacts(): Contact[] {
+  const savedContacts = localStorage.getItem(CONTACTS_KEY);
+  if (!savedContacts) return [];
+
+  try {
+    return JSON.parse(savedContacts);
+  } catch (error) {
+    console.error('Failed to load contacts:', error);
+    return [];
+  }
+}
+
+function saveContacts(contacts: Contact[]) {
+  localStorage.setItem(CONTACTS_KEY, JSON.stringify(contacts));
+  listeners.forEach(listener => listener());
+}
+
+// Adds contacts, or refreshes details of ones already known. Trust and notes
+// of existing contacts are kept. Returns the number of new contacts.
+export function addContacts(contacts: Contact[]): number {
+  const existing = loadContacts();
+  const byId = new Map(existing.map(contact => [contact.id, contact]));
+  let added = 0;
+
+  for (const contact of contacts) {
+    const known = byId.get(contact.id);
+    if (known) {
+      byId.set(contact.id, {
+        ...known,
+        name: known.name || contact.name,
+        email: known.email ?? contact.email,
+        notes: known.notes ?? contact.notes,
+      });
+    } else {
+      byId.set(contact.id, contact);
+      added++;
+    }
+  }
+
+  saveContacts([...byId.values()]);
+  return added;
+}
+
+export function updateContact(id: string, changes: Partial<Pick<Contact, 'name' | 'email' | 'notes' | 'trust'>>) {
+  const contacts = loadContacts();
+  if (!contacts.some(contact => contact.id === id)) {
+    throw new Error('Contact not found');
+  }
+
+  saveContacts(contacts.map(contact => {
+    if (contact.id !== id) return contact;
+    const updated = { ...contact, ...changes };
+    if (changes.trust && changes.trust !== contact.trust) {
+      updated.verifiedAt = changes.trust === 'verified' ? new Date().toISOString() : undefined;
+    }
+    return updated;
+  }));
+}
+
+export function removeContact(id: string) {
+  saveContacts(loadContacts().filter(contact => contact.id !== id));
+}
+
+// Whether hybrid encryption can wrap a message key for this contact
+export function isRecipientAlgorithm(algorithm: KeyAlgorithm | undefined): boolean {
+  return (algorithm ?? 'RSA-OAEP') === 'RSA-OAEP' || !!eciesCurveOfKey(algorithm);
+}
+
+// Contacts that may be offered as recipients of new messages
+export function recipientContacts(contacts: Contact[]): Contact[] {
+  return contacts.filter(contact => contact.trust !== 'revoked' && isRecipientAlgorithm(contact.algorithm));
+}
+
+// Builds contacts from public keys in any format importKeyMaterial reads.
+// Private keys in the input are ignored; only the public halves are kept.
+export async function contactsFromKeyMaterial(text: string, name?: string): Promise<Contact[]> {
+  const keys = await importKeyMaterial(text);
+  return Promise.all(keys.map(key => toContact(key, name)));
+}
+
+async function toContact(key: ImportedKey, name?: string): Promise<Contact> {
+  const id = await keyFingerprint(key.publicKey);
+  return {
+    id,
+    name: name?.trim() || key.comment || `Key ${shortKeyId(id)}`,
+    publicKey: key.publicKey,
+    algorithm: key.algorithm,
+    keySize: key.keySize,
+    trust: 'unverified',
+    added: new Date().toISOString(),
+  };
+}
+
+interface KeyringEntry {
+  name: string;
+  email?: string;
+  publicKey: string;
+  algorithm: KeyAlgorithm;
+  fingerprint: string;
+  notes?: string;
+}
+
+// A team keyring: public keys with names, as one JSON file
+export function exportKeyring(contacts: Pick<Contact, 'name' | 'email' | 'publicKey' | 'algorithm' | 'id' | 'notes'>[]): string {
+  const entries: KeyringEntry[] = contacts.map(contact => ({
+    name: contact.name,
+    email: contact.email,
+    publicKey: contact.publicKey,
+    algorithm: contact.algorithm,
+    fingerprint: contact.id,
+    notes: contact.notes,
+  }));
+  return JSON.stringify({ type: KEYRING_TYPE, version: 1, exported: new Date().toISOString(), keys: entries }, null, 2);
+}
+
+// Reads a Word Lock keyring, or any key file importKeyMaterial understands
+// (a JWK Set, a PEM bundle, an authorized_keys file...). Keyring entries whose
+// recorded fingerprint does not match their key are rejected.
+export async function parseKeyring(text: string): Promise<Contact[]> {
+  let keyring: { type?: unknown; keys?: unknown } | null = null;
+  try {
+    keyring = JSON.parse(text);
+  } catch {
+    // Not JSON; fall through to the key formats
+  }
+  if (keyring?.type !== KEYRING_TYPE) {
+    return contactsFromKeyMaterial(text);
+  }
+  if (!Array.isArray(keyring.keys)) {
+    throw new Error('Keyring has no keys');
+  }
+
+  const contacts: Contact[] = [];
+  for (const entry of keyring.keys as KeyringEntry[]) {
+    const [key] = await importKeyMaterial(entry.publicKey);
+    const algorithm = KEY_FAMILY_ALGORITHMS[key.family].includes(entry.algorithm) ? entry.algorithm : key.algorithm;
+    const contact = await toContact({ ...key, algorithm }, entry.name);
+    if (entry.fingerprint && entry.fingerprint.toLowerCase() !== contact.id) {
+      throw new Error(`Fingerprint mismatch for ${entry.name || 'a keyring entry'}; the keyring may have been tampered with`);
+    }
+
+    contacts.push({
+      ...contact,
+      email: typeof entry.email === 'string' ? entry.email : undefined,
+      notes: typeof entry.notes === 'string' ? entry.notes : undefined,
+    });
+  }
+  return contacts;
+}
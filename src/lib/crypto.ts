@@ -1,5 +1,26 @@
 // Advanced cryptography utilities using Web Crypto API
 
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { chacha20Poly1305Open, chacha20Poly1305Seal, xchacha20Poly1305Open, xchacha20Poly1305Seal } from './chacha20';
+import {
+  ENVELOPE_ALGORITHMS,
+  ENVELOPE_VERSION,
+  decodeEnvelope,
+  encodeEnvelope,
+  encodeEnvelopeHeader,
+  parseEnvelope,
+  serializeEnvelope,
+  type Envelope,
+  type EnvelopeAlgorithm,
+  type EnvelopeHeader,
+  type ParsedEnvelope
+} from './envelope';
+import { createDecryptionStream } from './stream';
+import { decryptForRecipients } from './recipients';
+import { ECIES_CURVES, eciesDecrypt, eciesKeyParams, type EciesCurve } from './ecies';
+import { DEFAULT_KDF_COST, deriveKeyBytes, newKdfParams, type KdfCost, type KdfParams, type Pbkdf2Cost } from './kdf';
+import { hashText } from './hashes';
+
 export interface EncryptionResult {
   encrypted: string;
   iv?: string;
@@ -7,105 +28,223 @@ export interface EncryptionResult {
   metadata?: any;
 }
 
-export interface KeyPair {
+export type KeyAlgorithm = 'RSA-OAEP' | 'RSA-PSS' | 'ECDSA-P256' | 'ECDSA-P384' | 'ECDH-P256' | 'ECDH-P384' | 'X25519';
+
+export type KeyPairUsage = 'encrypt' | 'sign';
+
+// Descriptive details kept alongside a key pair; none of them are secret
+export interface KeyMetadata {
+  label?: string;
+  owner?: string;
+  email?: string;
+  // Narrows what the key may be used for; defaults to what its algorithm supports
+  usages?: KeyPairUsage[];
+  // ISO date after which the key is no longer offered for encrypting or signing
+  expires?: string;
+}
+
+export interface KeyPair extends KeyMetadata {
   publicKey: string;
   privateKey: string;
   keySize: number;
   created: string;
+  // Missing on pairs saved before signing keys existed; those are RSA-OAEP
+  algorithm?: KeyAlgorithm;
+  // Hex SHA-256 fingerprint of the public key, assigned when the pair is stored
+  id?: string;
+  // When the pair was rotated out. Retired pairs still decrypt and verify but
+  // are not offered for new encryptions or signatures.
+  retired?: string;
+  // Ids of the pair this one replaced and of the pair that replaced it
+  replaces?: string;
+  replacedBy?: string;
+  // When a paper backup of the private key was last made
+  backedUp?: string;
 }
 
-// AES-256-GCM Encryption
-export async function encryptAES256(text: string, password: string): Promise<EncryptionResult> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(text);
-  
-  // Generate salt and derive key
-  const salt = crypto.getRandomValues(new Uint8Array(16));
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(password),
-    { name: 'PBKDF2' },
-    false,
-    ['deriveKey']
+// Older ciphertext predates recorded KDF parameters and always used these
+const LEGACY_PBKDF2: Pbkdf2Cost = { name: 'pbkdf2', hash: 'SHA-256', iterations: 100000 };
+
+async function derivePasswordKey(password: string, kdf: KdfParams, usages: KeyUsage[]): Promise<CryptoKey> {
+  const keyBytes = await deriveKeyBytes(password, kdf, 32);
+  return crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, usages);
+}
+
+// Password-based AES-GCM sealing for the symmetric envelopes
+async function sealWithPassword(
+  algorithm: EnvelopeAlgorithm,
+  data: Uint8Array,
+  password: string,
+  cost: KdfCost
+): Promise<Envelope> {
+  const kdf = newKdfParams(cost);
+  const key = await derivePasswordKey(password, kdf, ['encrypt']);
+
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    algorithm,
+    kdf,
+    nonce: crypto.getRandomValues(new Uint8Array(12)),
+    aad: new Uint8Array(0),
+    keys: []
+  };
+
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: header.nonce, additionalData: encodeEnvelopeHeader(header) },
+    key,
+    data
   );
-  
-  const key = await crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: salt,
-      iterations: 100000,
-      hash: 'SHA-256'
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt']
+
+  return { ...header, ciphertext: new Uint8Array(encrypted) };
+}
+
+async function openWithPassword(envelope: ParsedEnvelope, password: string): Promise<Uint8Array> {
+  if (!envelope.kdf) {
+    throw new Error('Envelope is missing key derivation parameters');
+  }
+  const key = await derivePasswordKey(password, envelope.kdf, ['decrypt']);
+
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: envelope.nonce, additionalData: envelope.header },
+    key,
+    envelope.ciphertext
   );
-  
-  // Generate IV and encrypt
-  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  return new Uint8Array(decrypted);
+}
+
+// Key encapsulation / data encapsulation (KEM/DEM)
+//
+// A KEM produces a fresh AES-256-GCM content key plus its encapsulation for
+// one recipient; the DEM encrypts data under that key. The DEM binds the whole
+// envelope header as associated data, so the algorithm id and the
+// encapsulated keys cannot be altered or swapped without detection.
+
+export interface Encapsulation {
+  key: CryptoKey;
+  encapsulatedKey: Uint8Array;
+}
+
+export async function rsaEncapsulate(publicKeyB64: string): Promise<Encapsulation> {
+  const contentKey = crypto.getRandomValues(new Uint8Array(32));
+  const publicKey = await importRSAPublicKey(publicKeyB64);
+  const encapsulatedKey = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, contentKey);
+
+  return {
+    key: await crypto.subtle.importKey('raw', contentKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']),
+    encapsulatedKey: new Uint8Array(encapsulatedKey)
+  };
+}
+
+export async function rsaDecapsulate(encapsulatedKey: Uint8Array, privateKeyB64: string): Promise<CryptoKey> {
+  const privateKey = await importRSAPrivateKey(privateKeyB64);
+  const contentKey = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, encapsulatedKey);
+  if (contentKey.byteLength !== 32) {
+    throw new Error('Encapsulated key has the wrong length');
+  }
+  return crypto.subtle.importKey('raw', contentKey, { name: 'AES-GCM' }, false, ['decrypt']);
+}
+
+export async function demSeal(
+  algorithm: EnvelopeAlgorithm,
+  key: CryptoKey,
+  data: Uint8Array,
+  encapsulatedKeys: Uint8Array[]
+): Promise<Envelope> {
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    algorithm,
+    kdf: null,
+    nonce: crypto.getRandomValues(new Uint8Array(12)),
+    aad: new Uint8Array(0),
+    keys: encapsulatedKeys
+  };
+
   const encrypted = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv: iv },
+    { name: 'AES-GCM', iv: header.nonce, additionalData: encodeEnvelopeHeader(header) },
     key,
     data
   );
-  
-  // Combine salt, iv, and encrypted data
-  const combined = new Uint8Array(salt.length + iv.length + encrypted.byteLength);
-  combined.set(salt, 0);
-  combined.set(iv, salt.length);
-  combined.set(new Uint8Array(encrypted), salt.length + iv.length);
-  
+
+  return { ...header, ciphertext: new Uint8Array(encrypted) };
+}
+
+export async function demOpen(envelope: ParsedEnvelope, key: CryptoKey): Promise<Uint8Array> {
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: envelope.nonce, additionalData: envelope.header },
+    key,
+    envelope.ciphertext
+  );
+  return new Uint8Array(decrypted);
+}
+
+function expectAlgorithm(envelope: ParsedEnvelope, algorithm: EnvelopeAlgorithm) {
+  if (envelope.algorithm !== algorithm) {
+    throw new Error(
+      `Expected ${ENVELOPE_ALGORITHMS[algorithm].name} data but found ${ENVELOPE_ALGORITHMS[envelope.algorithm].name}`
+    );
+  }
+}
+
+// AES-256-GCM Encryption
+export async function encryptAES256(text: string, password: string, cost: KdfCost = DEFAULT_KDF_COST): Promise<EncryptionResult> {
+  const envelope = await sealWithPassword('aes-256-gcm', new TextEncoder().encode(text), password, cost);
+
   return {
-    encrypted: btoa(String.fromCharCode(...combined)),
-    salt: btoa(String.fromCharCode(...salt)),
-    iv: btoa(String.fromCharCode(...iv))
+    encrypted: serializeEnvelope(envelope),
+    salt: bytesToBase64(envelope.kdf.salt),
+    iv: bytesToBase64(envelope.nonce),
+    metadata: { algorithm: envelope.algorithm, kdf: cost }
   };
 }
 
 export async function decryptAES256(encryptedData: string, password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  
-  // Decode the combined data
-  const combined = new Uint8Array(atob(encryptedData).split('').map(c => c.charCodeAt(0)));
-  
-  // Extract salt, IV, and encrypted data
-  const salt = combined.slice(0, 16);
-  const iv = combined.slice(16, 28);
-  const encrypted = combined.slice(28);
-  
-  // Derive key
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(password),
-    { name: 'PBKDF2' },
-    false,
-    ['deriveKey']
-  );
-  
-  const key = await crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: salt,
-      iterations: 100000,
-      hash: 'SHA-256'
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['decrypt']
-  );
-  
-  // Decrypt
+  const envelope = parseEnvelope(encryptedData);
+  if (envelope) {
+    expectAlgorithm(envelope, 'aes-256-gcm');
+    return new TextDecoder().decode(await openWithPassword(envelope, password));
+  }
+
+  // Legacy blobs: salt(16) | iv(12) | ciphertext with fixed PBKDF2 parameters
+  const combined = base64ToBytes(encryptedData);
+  const key = await derivePasswordKey(password, { ...LEGACY_PBKDF2, salt: combined.slice(0, 16) }, ['decrypt']);
+
   const decrypted = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv: iv },
+    { name: 'AES-GCM', iv: combined.slice(16, 28) },
     key,
-    encrypted
+    combined.slice(28)
   );
-  
+
   return new TextDecoder().decode(decrypted);
 }
 
+// Binary counterparts of encryptAES256 and decryptAES256: the envelope in
+// its byte form, for payloads that are not text
+export async function encryptBytesAES256(data: Uint8Array, password: string, cost: KdfCost = DEFAULT_KDF_COST): Promise<Uint8Array> {
+  return encodeEnvelope(await sealWithPassword('aes-256-gcm', data, password, cost));
+}
+
+export async function decryptBytesAES256(bytes: Uint8Array, password: string): Promise<Uint8Array> {
+  const envelope = decodeEnvelope(bytes);
+  expectAlgorithm(envelope, 'aes-256-gcm');
+  return openWithPassword(envelope, password);
+}
+
+// Size of what encryptBytesAES256 returns for data of the given length, for
+// callers that have to plan for the space it takes
+export function encryptedBytesAES256Length(length: number, cost: KdfCost = DEFAULT_KDF_COST): number {
+  const header = encodeEnvelopeHeader({
+    version: ENVELOPE_VERSION,
+    algorithm: 'aes-256-gcm',
+    kdf: newKdfParams(cost),
+    nonce: new Uint8Array(12),
+    aad: new Uint8Array(0),
+    keys: []
+  });
+  // AES-GCM appends a 16-byte tag
+  return header.length + length + 16;
+}
+
 // RSA Key Pair Generation
 export async function generateRSAKeyPair(keySize: 2048 | 4096 = 2048): Promise<KeyPair> {
   const keyPair = await crypto.subtle.generateKey(
@@ -126,55 +265,63 @@ export async function generateRSAKeyPair(keySize: 2048 | 4096 = 2048): Promise<K
     publicKey: btoa(String.fromCharCode(...new Uint8Array(publicKey))),
     privateKey: btoa(String.fromCharCode(...new Uint8Array(privateKey))),
     keySize,
-    created: new Date().toISOString()
+    created: new Date().toISOString(),
+    algorithm: 'RSA-OAEP'
   };
 }
 
-// RSA Encryption
-export async function encryptRSA(text: string, publicKeyB64: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(text);
-  
-  // Import public key
-  const publicKeyBuffer = new Uint8Array(atob(publicKeyB64).split('').map(c => c.charCodeAt(0)));
-  const publicKey = await crypto.subtle.importKey(
+async function importRSAPublicKey(publicKeyB64: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
     'spki',
-    publicKeyBuffer,
+    base64ToBytes(publicKeyB64),
     { name: 'RSA-OAEP', hash: 'SHA-256' },
     false,
     ['encrypt']
   );
-  
-  // Encrypt data
+}
+
+async function importRSAPrivateKey(privateKeyB64: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'pkcs8',
+    base64ToBytes(privateKeyB64),
+    { name: 'RSA-OAEP', hash: 'SHA-256' },
+    false,
+    ['decrypt']
+  );
+}
+
+// RSA Encryption
+export async function encryptRSA(text: string, publicKeyB64: string): Promise<string> {
+  const publicKey = await importRSAPublicKey(publicKeyB64);
   const encrypted = await crypto.subtle.encrypt(
     { name: 'RSA-OAEP' },
     publicKey,
-    data
+    new TextEncoder().encode(text)
   );
-  
-  return btoa(String.fromCharCode(...new Uint8Array(encrypted)));
+
+  return serializeEnvelope({
+    version: ENVELOPE_VERSION,
+    algorithm: 'rsa-oaep',
+    kdf: null,
+    nonce: new Uint8Array(0),
+    aad: new Uint8Array(0),
+    keys: [],
+    ciphertext: new Uint8Array(encrypted)
+  });
 }
 
 // RSA Decryption
 export async function decryptRSA(encryptedData: string, privateKeyB64: string): Promise<string> {
-  // Import private key
-  const privateKeyBuffer = new Uint8Array(atob(privateKeyB64).split('').map(c => c.charCodeAt(0)));
-  const privateKey = await crypto.subtle.importKey(
-    'pkcs8',
-    privateKeyBuffer,
-    { name: 'RSA-OAEP', hash: 'SHA-256' },
-    false,
-    ['decrypt']
-  );
-  
-  // Decrypt data
-  const encryptedBuffer = new Uint8Array(atob(encryptedData).split('').map(c => c.charCodeAt(0)));
+  const envelope = parseEnvelope(encryptedData);
+  if (envelope) expectAlgorithm(envelope, 'rsa-oaep');
+
+  const privateKey = await importRSAPrivateKey(privateKeyB64);
   const decrypted = await crypto.subtle.decrypt(
     { name: 'RSA-OAEP' },
     privateKey,
-    encryptedBuffer
+    envelope ? envelope.ciphertext : base64ToBytes(encryptedData)
   );
-  
+
   return new TextDecoder().decode(decrypted);
 }
 
@@ -195,17 +342,9 @@ export async function hashSHA512(text: string): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
-// Simple MD5 implementation (for compatibility)
+// MD5 for matching legacy checksums; it is not collision resistant
 export function hashMD5(text: string): string {
-  // Simplified MD5 - in production, use a proper crypto library
-  let hash = 0;
-  if (text.length === 0) return hash.toString();
-  for (let i = 0; i < text.length; i++) {
-    const char = text.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return Math.abs(hash).toString(16).padStart(8, '0');
+  return hashText('MD5', text);
 }
 
 // HMAC Generation
@@ -277,113 +416,202 @@ export function analyzePasswordStrength(password: string): {
   return { score, strength, entropy, feedback };
 }
 
-// Hybrid Encryption (RSA + AES)
+// Hybrid Encryption (RSA-OAEP KEM + AES-256-GCM DEM)
 export async function hybridEncrypt(text: string, publicKeyB64: string): Promise<EncryptionResult> {
-  // Generate random AES key
-  const aesKey = crypto.getRandomValues(new Uint8Array(32));
-  const aesKeyB64 = btoa(String.fromCharCode(...aesKey));
-  
-  // Encrypt text with AES
-  const aesResult = await encryptAES256(text, aesKeyB64);
-  
-  // Encrypt AES key with RSA
-  const encryptedKey = await encryptRSA(aesKeyB64, publicKeyB64);
-  
+  const { key, encapsulatedKey } = await rsaEncapsulate(publicKeyB64);
+  const envelope = await demSeal('hybrid-rsa-kem', key, new TextEncoder().encode(text), [encapsulatedKey]);
+
   return {
-    encrypted: aesResult.encrypted,
-    iv: aesResult.iv,
-    salt: aesResult.salt,
+    encrypted: serializeEnvelope(envelope),
+    iv: bytesToBase64(envelope.nonce),
     metadata: {
-      encryptedKey,
+      encryptedKey: bytesToBase64(encapsulatedKey),
       algorithm: 'hybrid'
     }
   };
 }
 
-export async function hybridDecrypt(encryptedData: string, privateKeyB64: string, metadata: any): Promise<string> {
+export async function hybridDecrypt(encryptedData: string, privateKeyB64: string, metadata?: any): Promise<string> {
+  const envelope = parseEnvelope(encryptedData);
+  if (envelope?.algorithm === 'hybrid-rsa-kem') {
+    if (envelope.keys.length !== 1) {
+      throw new Error('Missing encrypted key in envelope');
+    }
+    const key = await rsaDecapsulate(envelope.keys[0], privateKeyB64);
+    return new TextDecoder().decode(await demOpen(envelope, key));
+  }
+
+  if (envelope) {
+    // Earlier envelopes used the random key, base64-encoded, as a PBKDF2 password
+    expectAlgorithm(envelope, 'hybrid-rsa');
+    if (envelope.keys.length === 0) {
+      throw new Error('Missing encrypted key in envelope');
+    }
+
+    const privateKey = await importRSAPrivateKey(privateKeyB64);
+    const aesKey = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, envelope.keys[0]);
+    const decrypted = await openWithPassword(envelope, new TextDecoder().decode(aesKey));
+    return new TextDecoder().decode(decrypted);
+  }
+
+  // Legacy output kept the wrapped key outside the ciphertext
   if (!metadata?.encryptedKey) {
     throw new Error('Missing encrypted key in metadata');
   }
-  
+
   // Decrypt AES key with RSA
   const aesKey = await decryptRSA(metadata.encryptedKey, privateKeyB64);
-  
+
   // Decrypt text with AES
   return await decryptAES256(encryptedData, aesKey);
 }
 
-// ChaCha20 Encryption (lightweight alternative)
-export async function encryptChaCha20(text: string, password: string): Promise<EncryptionResult> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(text);
-  
-  // Simple XOR-based encryption (placeholder for actual ChaCha20)
-  const salt = crypto.getRandomValues(new Uint8Array(16));
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(password.padEnd(32, '0')),
-    { name: 'AES-GCM' },
-    false,
-    ['encrypt']
-  );
-  
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  const encrypted = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv },
-    key,
-    data
-  );
-  
+// ChaCha20-Poly1305 / XChaCha20-Poly1305 Encryption
+async function sealChaCha(
+  algorithm: 'chacha20-poly1305' | 'xchacha20-poly1305',
+  text: string,
+  password: string,
+  cost: KdfCost
+): Promise<EncryptionResult> {
+  const kdf = newKdfParams(cost);
+  const key = await deriveKeyBytes(password, kdf, 32);
+
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    algorithm,
+    kdf,
+    nonce: crypto.getRandomValues(new Uint8Array(algorithm === 'xchacha20-poly1305' ? 24 : 12)),
+    aad: new Uint8Array(0),
+    keys: []
+  };
+  const seal = algorithm === 'xchacha20-poly1305' ? xchacha20Poly1305Seal : chacha20Poly1305Seal;
+  const ciphertext = seal(key, header.nonce, new TextEncoder().encode(text), encodeEnvelopeHeader(header));
+
   return {
-    encrypted: btoa(String.fromCharCode(...new Uint8Array(encrypted))),
-    iv: btoa(String.fromCharCode(...iv)),
-    salt: btoa(String.fromCharCode(...salt))
+    encrypted: serializeEnvelope({ ...header, ciphertext }),
+    iv: bytesToBase64(header.nonce),
+    salt: bytesToBase64(kdf.salt),
+    metadata: { algorithm, kdf: cost }
   };
 }
 
-export async function decryptChaCha20(encryptedData: string, password: string, iv: string, salt: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-  
-  const key = await crypto.subtle.importKey(
+export async function encryptChaCha20(text: string, password: string, cost: KdfCost = DEFAULT_KDF_COST): Promise<EncryptionResult> {
+  return sealChaCha('chacha20-poly1305', text, password, cost);
+}
+
+export async function encryptXChaCha20(text: string, password: string, cost: KdfCost = DEFAULT_KDF_COST): Promise<EncryptionResult> {
+  return sealChaCha('xchacha20-poly1305', text, password, cost);
+}
+
+// Earlier "ChaCha20" output was AES-GCM under the zero-padded password
+async function legacyChaChaKey(password: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
     'raw',
-    encoder.encode(password.padEnd(32, '0')),
+    new TextEncoder().encode(password.padEnd(32, '0')),
     { name: 'AES-GCM' },
     false,
     ['decrypt']
   );
-  
-  const ivArray = new Uint8Array(atob(iv).split('').map(c => c.charCodeAt(0)));
-  const encryptedArray = new Uint8Array(atob(encryptedData).split('').map(c => c.charCodeAt(0)));
-  
-  const decrypted = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv: ivArray },
-    key,
-    encryptedArray
-  );
-  
-  return decoder.decode(decrypted);
 }
 
-// ECC Encryption using P-256 curve
-export async function generateECCKeyPair(): Promise<KeyPair> {
-  const keyPair = await crypto.subtle.generateKey(
-    {
-      name: 'ECDH',
-      namedCurve: 'P-256'
-    },
-    true,
-    ['deriveKey']
-  );
+// Handles ChaCha20-Poly1305 and XChaCha20-Poly1305 envelopes plus legacy output
+export async function decryptChaCha20(encryptedData: string, password: string, iv?: string, salt?: string): Promise<string> {
+  const decoder = new TextDecoder();
+  const envelope = parseEnvelope(encryptedData);
+
+  if (!envelope) {
+    if (!iv) {
+      throw new Error('Missing IV for legacy ChaCha20 data');
+    }
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(iv) },
+      await legacyChaChaKey(password),
+      base64ToBytes(encryptedData)
+    );
+    return decoder.decode(decrypted);
+  }
+
+  switch (envelope.algorithm) {
+    case 'chacha20-poly1305':
+    case 'xchacha20-poly1305': {
+      if (!envelope.kdf) {
+        throw new Error('Envelope is missing key derivation parameters');
+      }
+      const key = await deriveKeyBytes(password, envelope.kdf, 32);
+      const open = envelope.algorithm === 'xchacha20-poly1305' ? xchacha20Poly1305Open : chacha20Poly1305Open;
+      return decoder.decode(open(key, envelope.nonce, envelope.ciphertext, envelope.header));
+    }
+    case 'chacha20-legacy': {
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: envelope.nonce, additionalData: envelope.header },
+        await legacyChaChaKey(password),
+        envelope.ciphertext
+      );
+      return decoder.decode(decrypted);
+    }
+    default:
+      throw new Error(`Expected ChaCha20 data but found ${ENVELOPE_ALGORITHMS[envelope.algorithm].name}`);
+  }
+}
+
+export interface EnvelopeSecrets {
+  password?: string;
+  privateKey?: string;
+}
+
+// Decrypt any envelope, picking the algorithm from its header
+export async function decryptEnvelope(encryptedData: string, secrets: EnvelopeSecrets): Promise<string> {
+  const envelope = parseEnvelope(encryptedData);
+  if (!envelope) {
+    throw new Error('Input is not a recognized encrypted envelope');
+  }
+
+  const { secret, name } = ENVELOPE_ALGORITHMS[envelope.algorithm];
+  if (secret === 'password' && !secrets.password) {
+    throw new Error(`Password required to decrypt ${name} data`);
+  }
+  if (secret === 'privateKey' && !secrets.privateKey) {
+    throw new Error(`Private key required to decrypt ${name} data`);
+  }
+
+  switch (envelope.algorithm) {
+    case 'aes-256-gcm':
+      return decryptAES256(encryptedData, secrets.password);
+    case 'chacha20-legacy':
+    case 'chacha20-poly1305':
+    case 'xchacha20-poly1305':
+      return decryptChaCha20(encryptedData, secrets.password);
+    case 'rsa-oaep':
+      return decryptRSA(encryptedData, secrets.privateKey);
+    case 'hybrid-rsa':
+    case 'hybrid-rsa-kem':
+      return hybridDecrypt(encryptedData, secrets.privateKey);
+    case 'ecies-p256':
+    case 'ecies-p384':
+    case 'ecies-x25519':
+      return eciesDecrypt(encryptedData, secrets.privateKey);
+    case 'hybrid-multi':
+      return (await decryptForRecipients(encryptedData, [{ privateKey: secrets.privateKey }])).text;
+    case 'aes-256-gcm-stream': {
+      const stream = new Blob([base64ToBytes(encryptedData)]).stream().pipeThrough(createDecryptionStream(secrets.password));
+      return new Response(stream).text();
+    }
+  }
+}
+
+// ECC Key Pair Generation for ECIES (see ecies.ts)
+export async function generateECCKeyPair(curve: EciesCurve = 'P-256'): Promise<KeyPair> {
+  const keyPair = await crypto.subtle.generateKey(eciesKeyParams(curve), true, ['deriveBits']) as CryptoKeyPair;
   
   const publicKey = await crypto.subtle.exportKey('spki', keyPair.publicKey);
   const privateKey = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
   
   return {
-    publicKey: btoa(String.fromCharCode(...new Uint8Array(publicKey))),
-    privateKey: btoa(String.fromCharCode(...new Uint8Array(privateKey))),
-    keySize: 256,
-    created: new Date().toISOString()
+    publicKey: bytesToBase64(new Uint8Array(publicKey)),
+    privateKey: bytesToBase64(new Uint8Array(privateKey)),
+    keySize: ECIES_CURVES[curve].keySize,
+    created: new Date().toISOString(),
+    algorithm: ECIES_CURVES[curve].keyAlgorithm
   };
 }
 
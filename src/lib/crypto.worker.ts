@@ -0,0 +1,49 @@
+// Worker entry point for the crypto pool; runs one job at a time
+
+import { cryptoOps, type CryptoOpName, type JobContext } from './cryptoOps';
+import type { WorkerRequest, WorkerResponse } from './workerPool';
+
+interface WorkerScope {
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Hand typed-array results back without copying them
+function transferablesOf(value: unknown): Transferable[] {
+  if (value instanceof ArrayBuffer) return [value];
+  if (ArrayBuffer.isView(value) && value.buffer instanceof ArrayBuffer) return [value.buffer];
+  return [];
+}
+
+scope.addEventListener('message', async (event) => {
+  const { id, op, args } = event.data;
+
+  let reported = 0;
+  const context: JobContext = {
+    progress(fraction) {
+      // Only send whole-percent steps so huge files do not flood the main thread
+      if (fraction >= 1 || fraction - reported >= 0.01) {
+        reported = fraction;
+        scope.postMessage({ id, type: 'progress', fraction });
+      }
+    }
+  };
+
+  try {
+    const run = cryptoOps[op as CryptoOpName] as (context: JobContext, ...args: unknown[]) => Promise<unknown>;
+    if (!run) throw new Error(`Unknown crypto operation: ${op}`);
+
+    const value = await run(context, ...args);
+    scope.postMessage({ id, type: 'result', value }, transferablesOf(value));
+  } catch (error) {
+    // DOMExceptions from Web Crypto often have an empty message, so their
+    // name stands in for it
+    if (error instanceof Error || error instanceof DOMException) {
+      scope.postMessage({ id, type: 'error', name: error.name, message: error.message || error.name });
+    } else {
+      scope.postMessage({ id, type: 'error', name: 'Error', message: String(error) });
+    }
+  }
+});
@@ -0,0 +1,145 @@
+// Operations the worker pool can run, keyed by name
+//
+// Each operation receives a JobContext first so long-running jobs can report
+// progress; the remaining arguments and the result must be structured-cloneable.
+
+import {
+  decryptAES256,
+  decryptChaCha20,
+  decryptEnvelope,
+  decryptRSA,
+  encryptAES256,
+  encryptChaCha20,
+  encryptRSA,
+  encryptXChaCha20,
+  generateECCKeyPair,
+  generateHMAC,
+  generateRSAKeyPair,
+  hashMD5,
+  hashSHA256,
+  hashSHA512,
+  hybridDecrypt,
+  hybridEncrypt
+} from './crypto';
+import { hashStream, type FileDigests } from './checksums';
+import { contactsFromKeyMaterial, parseKeyring } from './contacts';
+import { eciesDecrypt, eciesEncrypt } from './ecies';
+import { hashText, type HashAlgorithm } from './hashes';
+import { hkdf, hkdfExpand, hkdfExtract, hmac, pbkdf2, verifyHmac } from './hmac';
+import { calibrateKdf, deriveKeyBytes } from './kdf';
+import {
+  exportJwks,
+  exportKeyPairJwk,
+  exportOpenSshPublicKey,
+  exportPrivateKeyPem,
+  importKeyMaterial,
+  inspectKeyMaterial
+} from './keyformats';
+import { createPaperKey, restorePaperKey, scanPaperKeyImage } from './paperkey';
+import { decryptForRecipients, encryptForRecipients } from './recipients';
+import { reencryptForKey } from './rotation';
+import { recoverSecretFromShares, splitSecretIntoShares } from './shamir';
+import { generateSigningKeyPair, signFile, signMessage, verifyFile, verifySignature } from './signatures';
+import { analyzeStegoImage } from './steganalysis';
+import { embedStegoPayload, extractStegoPayload } from './stego';
+import { embedTextStego, extractTextStego } from './textstego';
+import { embedWavPayload, extractWavPayload } from './wavstego';
+
+export interface JobContext {
+  progress(fraction: number): void;
+}
+
+function plain<A extends unknown[], R>(fn: (...args: A) => R | Promise<R>) {
+  return async (_context: JobContext, ...args: A): Promise<R> => fn(...args);
+}
+
+// Reads a Blob as a stream while reporting how much of it has been consumed
+function trackedStream(blob: Blob, context: JobContext): ReadableStream<Uint8Array> {
+  let consumed = 0;
+  return blob.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      consumed += chunk.length;
+      context.progress(blob.size > 0 ? consumed / blob.size : 1);
+      controller.enqueue(chunk);
+    }
+  }));
+}
+
+export const cryptoOps = {
+  encryptAES256: plain(encryptAES256),
+  decryptAES256: plain(decryptAES256),
+  encryptChaCha20: plain(encryptChaCha20),
+  encryptXChaCha20: plain(encryptXChaCha20),
+  decryptChaCha20: plain(decryptChaCha20),
+  encryptRSA: plain(encryptRSA),
+  decryptRSA: plain(decryptRSA),
+  hybridEncrypt: plain(hybridEncrypt),
+  hybridDecrypt: plain(hybridDecrypt),
+  decryptEnvelope: plain(decryptEnvelope),
+  generateRSAKeyPair: plain(generateRSAKeyPair),
+  generateECCKeyPair: plain(generateECCKeyPair),
+  eciesEncrypt: plain(eciesEncrypt),
+  eciesDecrypt: plain(eciesDecrypt),
+  encryptForRecipients: plain(encryptForRecipients),
+  decryptForRecipients: plain(decryptForRecipients),
+  reencryptForKey: plain(reencryptForKey),
+  hashSHA256: plain(hashSHA256),
+  hashSHA512: plain(hashSHA512),
+  hashMD5: plain(hashMD5),
+  hashText: plain(hashText),
+  generateHMAC: plain(generateHMAC),
+  hmac: plain(hmac),
+  verifyHmac: plain(verifyHmac),
+  hkdf: plain(hkdf),
+  hkdfExtract: plain(hkdfExtract),
+  hkdfExpand: plain(hkdfExpand),
+  deriveKeyBytes: plain(deriveKeyBytes),
+  calibrateKdf: plain(calibrateKdf),
+  generateSigningKeyPair: plain(generateSigningKeyPair),
+  signMessage: plain(signMessage),
+  verifySignature: plain(verifySignature),
+  signFile: plain(signFile),
+  verifyFile: plain(verifyFile),
+  importKeyMaterial: plain(importKeyMaterial),
+  inspectKeyMaterial: plain(inspectKeyMaterial),
+  exportPrivateKeyPem: plain(exportPrivateKeyPem),
+  exportKeyPairJwk: plain(exportKeyPairJwk),
+  exportJwks: plain(exportJwks),
+  exportOpenSshPublicKey: plain(exportOpenSshPublicKey),
+  splitSecretIntoShares: plain(splitSecretIntoShares),
+  recoverSecretFromShares: plain(recoverSecretFromShares),
+  createPaperKey: plain(createPaperKey),
+  restorePaperKey: plain(restorePaperKey),
+  scanPaperKeyImage: plain(scanPaperKeyImage),
+  contactsFromKeyMaterial: plain(contactsFromKeyMaterial),
+  parseKeyring: plain(parseKeyring),
+  embedStegoPayload: plain(embedStegoPayload),
+  extractStegoPayload: plain(extractStegoPayload),
+  analyzeStegoImage: plain(analyzeStegoImage),
+  embedTextStego: plain(embedTextStego),
+  extractTextStego: plain(extractTextStego),
+  embedWavPayload: plain(embedWavPayload),
+  extractWavPayload: plain(extractWavPayload),
+
+  async pbkdf2(
+    context: JobContext,
+    algorithm: HashAlgorithm,
+    password: Uint8Array,
+    salt: Uint8Array,
+    iterations: number,
+    length: number
+  ): Promise<Uint8Array> {
+    return pbkdf2(algorithm, password, salt, iterations, length, fraction => context.progress(fraction));
+  },
+
+  async hashFile(context: JobContext, file: Blob, algorithms: HashAlgorithm[]): Promise<FileDigests> {
+    return hashStream(trackedStream(file, context), algorithms);
+  },
+};
+
+export type CryptoOpName = keyof typeof cryptoOps;
+
+export type CryptoOpArgs<K extends CryptoOpName> =
+  Parameters<(typeof cryptoOps)[K]> extends [JobContext, ...infer A] ? A : never;
+
+export type CryptoOpResult<K extends CryptoOpName> = Awaited<ReturnType<(typeof cryptoOps)[K]>>;
@@ -0,0 +1,346 @@
+// MD5 (RFC 1321), SHA-1 and SHA-2 (FIPS 180-4), incremental so files can be
+// hashed as they stream in; WebCrypto only digests whole buffers and has no MD5
+
+import type { Hasher } from './hashes';
+
+const MD5_K = new Uint32Array([
+  0xd76aa478, 0xe8c7b756, 0x242070db, 0xc1bdceee, 0xf57c0faf, 0x4787c62a, 0xa8304613, 0xfd469501,
+  0x698098d8, 0x8b44f7af, 0xffff5bb1, 0x895cd7be, 0x6b901122, 0xfd987193, 0xa679438e, 0x49b40821,
+  0xf61e2562, 0xc040b340, 0x265e5a51, 0xe9b6c7aa, 0xd62f105d, 0x02441453, 0xd8a1e681, 0xe7d3fbc8,
+  0x21e1cde6, 0xc33707d6, 0xf4d50d87, 0x455a14ed, 0xa9e3e905, 0xfcefa3f8, 0x676f02d9, 0x8d2a4c8a,
+  0xfffa3942, 0x8771f681, 0x6d9d6122, 0xfde5380c, 0xa4beea44, 0x4bdecfa9, 0xf6bb4b60, 0xbebfbc70,
+  0x289b7ec6, 0xeaa127fa, 0xd4ef3085, 0x04881d05, 0xd9d4d039, 0xe6db99e5, 0x1fa27cf8, 0xc4ac5665,
+  0xf4292244, 0x432aff97, 0xab9423a7, 0xfc93a039, 0x655b59c3, 0x8f0ccc92, 0xffeff47d, 0x85845dd1,
+  0x6fa87e4f, 0xfe2ce6e0, 0xa3014314, 0x4e0811a1, 0xf7537e82, 0xbd3af235, 0x2ad7d2bb, 0xeb86d391
+]);
+
+// Per-round left rotations, four for each of the four rounds
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const SHA256_IV = new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+]);
+
+// SHA-512 works on 64-bit words, stored here as hi, lo pairs of 32-bit halves
+const SHA512_K = new Uint32Array([
+  0x428a2f98, 0xd728ae22, 0x71374491, 0x23ef65cd, 0xb5c0fbcf, 0xec4d3b2f, 0xe9b5dba5, 0x8189dbbc,
+  0x3956c25b, 0xf348b538, 0x59f111f1, 0xb605d019, 0x923f82a4, 0xaf194f9b, 0xab1c5ed5, 0xda6d8118,
+  0xd807aa98, 0xa3030242, 0x12835b01, 0x45706fbe, 0x243185be, 0x4ee4b28c, 0x550c7dc3, 0xd5ffb4e2,
+  0x72be5d74, 0xf27b896f, 0x80deb1fe, 0x3b1696b1, 0x9bdc06a7, 0x25c71235, 0xc19bf174, 0xcf692694,
+  0xe49b69c1, 0x9ef14ad2, 0xefbe4786, 0x384f25e3, 0x0fc19dc6, 0x8b8cd5b5, 0x240ca1cc, 0x77ac9c65,
+  0x2de92c6f, 0x592b0275, 0x4a7484aa, 0x6ea6e483, 0x5cb0a9dc, 0xbd41fbd4, 0x76f988da, 0x831153b5,
+  0x983e5152, 0xee66dfab, 0xa831c66d, 0x2db43210, 0xb00327c8, 0x98fb213f, 0xbf597fc7, 0xbeef0ee4,
+  0xc6e00bf3, 0x3da88fc2, 0xd5a79147, 0x930aa725, 0x06ca6351, 0xe003826f, 0x14292967, 0x0a0e6e70,
+  0x27b70a85, 0x46d22ffc, 0x2e1b2138, 0x5c26c926, 0x4d2c6dfc, 0x5ac42aed, 0x53380d13, 0x9d95b3df,
+  0x650a7354, 0x8baf63de, 0x766a0abb, 0x3c77b2a8, 0x81c2c92e, 0x47edaee6, 0x92722c85, 0x1482353b,
+  0xa2bfe8a1, 0x4cf10364, 0xa81a664b, 0xbc423001, 0xc24b8b70, 0xd0f89791, 0xc76c51a3, 0x0654be30,
+  0xd192e819, 0xd6ef5218, 0xd6990624, 0x5565a910, 0xf40e3585, 0x5771202a, 0x106aa070, 0x32bbd1b8,
+  0x19a4c116, 0xb8d2d0c8, 0x1e376c08, 0x5141ab53, 0x2748774c, 0xdf8eeb99, 0x34b0bcb5, 0xe19b48a8,
+  0x391c0cb3, 0xc5c95a63, 0x4ed8aa4a, 0xe3418acb, 0x5b9cca4f, 0x7763e373, 0x682e6ff3, 0xd6b2b8a3,
+  0x748f82ee, 0x5defb2fc, 0x78a5636f, 0x43172f60, 0x84c87814, 0xa1f0ab72, 0x8cc70208, 0x1a6439ec,
+  0x90befffa, 0x23631e28, 0xa4506ceb, 0xde82bde9, 0xbef9a3f7, 0xb2c67915, 0xc67178f2, 0xe372532b,
+  0xca273ece, 0xea26619c, 0xd186b8c7, 0x21c0c207, 0xeada7dd6, 0xcde0eb1e, 0xf57d4f7f, 0xee6ed178,
+  0x06f067aa, 0x72176fba, 0x0a637dc5, 0xa2c898a6, 0x113f9804, 0xbef90dae, 0x1b710b35, 0x131c471b,
+  0x28db77f5, 0x23047d84, 0x32caab7b, 0x40c72493, 0x3c9ebe0a, 0x15c9bebc, 0x431d67c4, 0x9c100d4c,
+  0x4cc5d4be, 0xcb3e42b6, 0x597f299c, 0xfc657e2a, 0x5fcb6fab, 0x3ad6faec, 0x6c44198c, 0x4a475817
+]);
+
+const SHA512_IV = new Uint32Array([
+  0x6a09e667, 0xf3bcc908, 0xbb67ae85, 0x84caa73b, 0x3c6ef372, 0xfe94f82b, 0xa54ff53a, 0x5f1d36f1,
+  0x510e527f, 0xade682d1, 0x9b05688c, 0x2b3e6c1f, 0x1f83d9ab, 0xfb41bd6b, 0x5be0cd19, 0x137e2179
+]);
+
+const SHA384_IV = new Uint32Array([
+  0xcbbb9d5d, 0xc1059ed8, 0x629a292a, 0x367cd507, 0x9159015a, 0x3070dd17, 0x152fecd8, 0xf70e5939,
+  0x67332667, 0xffc00b31, 0x8eb44a87, 0x68581511, 0xdb0c2e0d, 0x64f98fa7, 0x47b5481d, 0xbefa4fa4
+]);
+
+function readBE32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function readLE32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function wordsToBytes(words: Uint32Array, length: number, littleEndian: boolean): Uint8Array {
+  const output = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    const shift = littleEndian ? 8 * (i & 3) : 24 - 8 * (i & 3);
+    output[i] = words[i >> 2] >>> shift;
+  }
+  return output;
+}
+
+const rotl32 = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+const rotr32 = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+// Rotations of a 64-bit word given as its hi and lo halves, for 0 < n < 64, n !== 32
+const rotr64Hi = (hi: number, lo: number, n: number) =>
+  n < 32 ? (hi >>> n) | (lo << (32 - n)) : (lo >>> (n - 32)) | (hi << (64 - n));
+const rotr64Lo = (hi: number, lo: number, n: number) =>
+  n < 32 ? (lo >>> n) | (hi << (32 - n)) : (hi >>> (n - 32)) | (lo << (64 - n));
+
+// Block buffering and length padding shared by the Merkle-Damgard hashes:
+// a 0x80 byte, zeros, then the message length in bits at the end of the
+// last block, in the hash's byte order
+function merkleDamgard(
+  blockSize: number,
+  lengthSize: number,
+  littleEndian: boolean,
+  compress: (block: Uint8Array, offset: number) => void,
+  output: () => Uint8Array
+): Hasher {
+  const buffer = new Uint8Array(blockSize);
+  let buffered = 0;
+  let length = 0;
+
+  const hasher: Hasher = {
+    update(data: Uint8Array) {
+      length += data.length;
+      let offset = 0;
+      if (buffered > 0) {
+        offset = Math.min(blockSize - buffered, data.length);
+        buffer.set(data.subarray(0, offset), buffered);
+        buffered += offset;
+        if (buffered < blockSize) return hasher;
+        compress(buffer, 0);
+        buffered = 0;
+      }
+      for (; offset + blockSize <= data.length; offset += blockSize) {
+        compress(data, offset);
+      }
+      buffer.set(data.subarray(offset));
+      buffered = data.length - offset;
+      return hasher;
+    },
+    digest() {
+      buffer[buffered++] = 0x80;
+      if (buffered > blockSize - lengthSize) {
+        buffer.fill(0, buffered);
+        compress(buffer, 0);
+        buffered = 0;
+      }
+      buffer.fill(0, buffered);
+
+      const bitsHigh = Math.floor(length / 0x20000000);
+      const bitsLow = (length << 3) >>> 0;
+      const words = littleEndian ? [bitsLow, bitsHigh] : [bitsHigh, bitsLow];
+      const lengthBytes = wordsToBytes(new Uint32Array(words), 8, littleEndian);
+      buffer.set(lengthBytes, blockSize - 8);
+      compress(buffer, 0);
+      return output();
+    }
+  };
+  return hasher;
+}
+
+export function createMd5(): Hasher {
+  const h = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  const x = new Uint32Array(16);
+
+  return merkleDamgard(64, 8, true, (block, offset) => {
+    for (let i = 0; i < 16; i++) {
+      x[i] = readLE32(block, offset + 4 * i);
+    }
+    let [a, b, c, d] = h;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) & 15;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) & 15;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) & 15;
+      }
+      const t = (a + f + MD5_K[i] + x[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + rotl32(t, MD5_SHIFTS[((i >> 4) << 2) | (i & 3)])) | 0;
+    }
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+  }, () => wordsToBytes(h, 16, true));
+}
+
+export function createSha1(): Hasher {
+  const h = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+  const w = new Uint32Array(80);
+
+  return merkleDamgard(64, 8, false, (block, offset) => {
+    for (let i = 0; i < 16; i++) {
+      w[i] = readBE32(block, offset + 4 * i);
+    }
+    for (let i = 16; i < 80; i++) {
+      w[i] = rotl32(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+    }
+    let [a, b, c, d, e] = h;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const t = (rotl32(a, 5) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = rotl32(b, 30);
+      b = a;
+      a = t;
+    }
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+  }, () => wordsToBytes(h, 20, false));
+}
+
+export function createSha256(): Hasher {
+  const h = SHA256_IV.slice();
+  const w = new Uint32Array(64);
+
+  return merkleDamgard(64, 8, false, (block, offset) => {
+    for (let i = 0; i < 16; i++) {
+      w[i] = readBE32(block, offset + 4 * i);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr32(w[i - 15], 7) ^ rotr32(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr32(w[i - 2], 17) ^ rotr32(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr32(e, 6) ^ rotr32(e, 11) ^ rotr32(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + s1 + ch + SHA256_K[i] + w[i]) | 0;
+      const s0 = rotr32(a, 2) ^ rotr32(a, 13) ^ rotr32(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) | 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }, () => wordsToBytes(h, 32, false));
+}
+
+// SHA-512 and SHA-384 share the compression function and differ in the
+// initial state and how much of it is output. Low halves are kept unsigned
+// so sums of them carry into the high halves correctly.
+function createSha512Family(iv: Uint32Array, outputLength: number): Hasher {
+  const h = iv.slice();
+  const w = new Uint32Array(160);
+
+  return merkleDamgard(128, 16, false, (block, offset) => {
+    for (let i = 0; i < 32; i++) {
+      w[i] = readBE32(block, offset + 4 * i);
+    }
+    for (let i = 16; i < 80; i++) {
+      const xh = w[2 * (i - 15)];
+      const xl = w[2 * (i - 15) + 1];
+      const s0h = rotr64Hi(xh, xl, 1) ^ rotr64Hi(xh, xl, 8) ^ (xh >>> 7);
+      const s0l = (rotr64Lo(xh, xl, 1) ^ rotr64Lo(xh, xl, 8) ^ ((xl >>> 7) | (xh << 25))) >>> 0;
+      const yh = w[2 * (i - 2)];
+      const yl = w[2 * (i - 2) + 1];
+      const s1h = rotr64Hi(yh, yl, 19) ^ rotr64Hi(yh, yl, 61) ^ (yh >>> 6);
+      const s1l = (rotr64Lo(yh, yl, 19) ^ rotr64Lo(yh, yl, 61) ^ ((yl >>> 6) | (yh << 26))) >>> 0;
+
+      const lo = s0l + s1l + w[2 * (i - 7) + 1] + w[2 * (i - 16) + 1];
+      w[2 * i] = s0h + s1h + w[2 * (i - 7)] + w[2 * (i - 16)] + Math.floor(lo / 0x100000000);
+      w[2 * i + 1] = lo;
+    }
+
+    let [ah, al, bh, bl, ch, cl, dh, dl, eh, el, fh, fl, gh, gl, hh, hl] = h;
+    for (let i = 0; i < 80; i++) {
+      const sum1h = rotr64Hi(eh, el, 14) ^ rotr64Hi(eh, el, 18) ^ rotr64Hi(eh, el, 41);
+      const sum1l = (rotr64Lo(eh, el, 14) ^ rotr64Lo(eh, el, 18) ^ rotr64Lo(eh, el, 41)) >>> 0;
+      const chooseH = (eh & fh) ^ (~eh & gh);
+      const chooseL = ((el & fl) ^ (~el & gl)) >>> 0;
+      const t1l = hl + sum1l + chooseL + SHA512_K[2 * i + 1] + w[2 * i + 1];
+      const t1h = hh + sum1h + chooseH + SHA512_K[2 * i] + w[2 * i] + Math.floor(t1l / 0x100000000);
+
+      const sum0h = rotr64Hi(ah, al, 28) ^ rotr64Hi(ah, al, 34) ^ rotr64Hi(ah, al, 39);
+      const sum0l = (rotr64Lo(ah, al, 28) ^ rotr64Lo(ah, al, 34) ^ rotr64Lo(ah, al, 39)) >>> 0;
+      const majorityH = (ah & bh) ^ (ah & ch) ^ (bh & ch);
+      const majorityL = ((al & bl) ^ (al & cl) ^ (bl & cl)) >>> 0;
+
+      const eNewL = dl + (t1l >>> 0);
+      const aNewL = (t1l >>> 0) + sum0l + majorityL;
+      hh = gh;
+      hl = gl;
+      gh = fh;
+      gl = fl;
+      fh = eh;
+      fl = el;
+      eh = (dh + t1h + Math.floor(eNewL / 0x100000000)) | 0;
+      el = eNewL >>> 0;
+      dh = ch;
+      dl = cl;
+      ch = bh;
+      cl = bl;
+      bh = ah;
+      bl = al;
+      ah = (t1h + sum0h + majorityH + Math.floor(aNewL / 0x100000000)) | 0;
+      al = aNewL >>> 0;
+    }
+
+    const state = [ah, al, bh, bl, ch, cl, dh, dl, eh, el, fh, fl, gh, gl, hh, hl];
+    for (let i = 0; i < 16; i += 2) {
+      const lo = h[i + 1] + state[i + 1];
+      h[i] += state[i] + Math.floor(lo / 0x100000000);
+      h[i + 1] = lo;
+    }
+  }, () => wordsToBytes(h, outputLength, false));
+}
+
+export function createSha512(): Hasher {
+  return createSha512Family(SHA512_IV, 64);
+}
+
+export function createSha384(): Hasher {
+  return createSha512Family(SHA384_IV, 48);
+}
@@ -0,0 +1,229 @@
+// ECIES public-key encryption: ephemeral ECDH + HKDF-SHA-256 + AES-256-GCM
+//
+// The sender generates a fresh key pair on the recipient's curve and derives
+// a shared secret with the recipient's public key. HKDF, salted with the
+// ephemeral public key, turns that secret into a one-time AES-256-GCM key.
+// The ephemeral public key (raw encoding) travels in the envelope's key slot.
+//
+// The same agreement wraps content keys for multi-recipient envelopes (see
+// recipients.ts); a distinct HKDF info string keeps the two uses apart.
+
+import { base64ToBytes, concatBytes } from './encoding';
+import {
+  ENVELOPE_VERSION,
+  encodeEnvelopeHeader,
+  parseEnvelope,
+  serializeEnvelope,
+  type EnvelopeAlgorithm,
+  type EnvelopeHeader
+} from './envelope';
+import type { KeyAlgorithm } from './crypto';
+
+export type EciesCurve = 'P-256' | 'P-384' | 'X25519';
+
+interface EciesCurveInfo {
+  envelope: EnvelopeAlgorithm;
+  keyAlgorithm: KeyAlgorithm;
+  keySize: number;
+  secretBits: number;
+  publicKeyLength: number;
+  // Named curve / algorithm OID as it appears in SPKI
+  oid: number[];
+}
+
+export const ECIES_CURVES: Record<EciesCurve, EciesCurveInfo> = {
+  'P-256': {
+    envelope: 'ecies-p256',
+    keyAlgorithm: 'ECDH-P256',
+    keySize: 256,
+    secretBits: 256,
+    publicKeyLength: 65,
+    oid: [0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07]
+  },
+  'P-384': {
+    envelope: 'ecies-p384',
+    keyAlgorithm: 'ECDH-P384',
+    keySize: 384,
+    secretBits: 384,
+    publicKeyLength: 97,
+    oid: [0x2b, 0x81, 0x04, 0x00, 0x22]
+  },
+  'X25519': {
+    envelope: 'ecies-x25519',
+    keyAlgorithm: 'X25519',
+    keySize: 256,
+    secretBits: 256,
+    publicKeyLength: 32,
+    oid: [0x2b, 0x65, 0x6e]
+  },
+};
+
+export function eciesKeyParams(curve: EciesCurve): EcKeyImportParams | Algorithm {
+  return curve === 'X25519' ? { name: 'X25519' } : { name: 'ECDH', namedCurve: curve };
+}
+
+// The ECIES curve a stored key pair belongs to, if it is an ECIES key
+export function eciesCurveOfKey(algorithm: KeyAlgorithm | undefined): EciesCurve | undefined {
+  return (Object.keys(ECIES_CURVES) as EciesCurve[]).find(curve => ECIES_CURVES[curve].keyAlgorithm === algorithm);
+}
+
+function curveOfEnvelope(algorithm: EnvelopeAlgorithm): EciesCurve | undefined {
+  return (Object.keys(ECIES_CURVES) as EciesCurve[]).find(curve => ECIES_CURVES[curve].envelope === algorithm);
+}
+
+function containsBytes(haystack: Uint8Array, needle: number[]): boolean {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+// Works out the curve of an SPKI public key from the OID it carries
+export function eciesCurveOf(publicKeyB64: string): EciesCurve {
+  const spki = base64ToBytes(publicKeyB64);
+  // Search only the AlgorithmIdentifier so key bytes cannot fake a match
+  const algorithmIdentifier = spki.subarray(0, Math.min(spki.length, 32));
+  const curve = (Object.keys(ECIES_CURVES) as EciesCurve[])
+    .find(name => containsBytes(algorithmIdentifier, [0x06, ECIES_CURVES[name].oid.length, ...ECIES_CURVES[name].oid]));
+
+  if (!curve) {
+    throw new Error('Public key is not a P-256, P-384 or X25519 key');
+  }
+  return curve;
+}
+
+async function deriveMessageKey(
+  curve: EciesCurve,
+  purpose: 'message' | 'key wrap',
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array,
+  usages: KeyUsage[]
+): Promise<CryptoKey> {
+  const shared = await crypto.subtle.deriveBits(
+    { name: publicKey.algorithm.name, public: publicKey },
+    privateKey,
+    ECIES_CURVES[curve].secretBits
+  );
+
+  const ikm = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: ephemeralPublicKey,
+      info: new TextEncoder().encode(purpose === 'message' ? `word-lock ECIES ${curve}` : `word-lock ECIES ${curve} key wrap`)
+    },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    usages
+  );
+}
+
+// Sender side: a fresh ephemeral key pair agreed with the recipient's public key
+async function agreeWithRecipient(curve: EciesCurve, purpose: 'message' | 'key wrap', publicKeyB64: string) {
+  const params = eciesKeyParams(curve);
+
+  const recipientKey = await crypto.subtle.importKey('spki', base64ToBytes(publicKeyB64), params, false, []);
+  const ephemeral = await crypto.subtle.generateKey(params, true, ['deriveBits']) as CryptoKeyPair;
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const key = await deriveMessageKey(curve, purpose, ephemeral.privateKey, recipientKey, ephemeralPublicKey, ['encrypt']);
+
+  return { ephemeralPublicKey, key };
+}
+
+// Recipient side: the same key from the private key and the ephemeral public key
+async function agreeWithSender(
+  curve: EciesCurve,
+  purpose: 'message' | 'key wrap',
+  privateKeyB64: string,
+  ephemeralPublicKey: Uint8Array
+): Promise<CryptoKey> {
+  const params = eciesKeyParams(curve);
+  let privateKey: CryptoKey;
+  let ephemeralKey: CryptoKey;
+  try {
+    privateKey = await crypto.subtle.importKey('pkcs8', base64ToBytes(privateKeyB64), params, false, ['deriveBits']);
+    ephemeralKey = await crypto.subtle.importKey('raw', ephemeralPublicKey, params, false, []);
+  } catch {
+    throw new Error(`Private key is not a ${curve} key`);
+  }
+
+  return deriveMessageKey(curve, purpose, privateKey, ephemeralKey, ephemeralPublicKey, ['decrypt']);
+}
+
+// ECIES Encryption; the curve is taken from the recipient's public key
+export async function eciesEncrypt(data: string | Uint8Array, publicKeyB64: string): Promise<string> {
+  const curve = eciesCurveOf(publicKeyB64);
+  const { ephemeralPublicKey, key } = await agreeWithRecipient(curve, 'message', publicKeyB64);
+
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    algorithm: ECIES_CURVES[curve].envelope,
+    kdf: null,
+    nonce: crypto.getRandomValues(new Uint8Array(12)),
+    aad: new Uint8Array(0),
+    keys: [ephemeralPublicKey]
+  };
+
+  const plaintext = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: header.nonce, additionalData: encodeEnvelopeHeader(header) },
+    key,
+    plaintext
+  );
+
+  return serializeEnvelope({ ...header, ciphertext: new Uint8Array(encrypted) });
+}
+
+// ECIES Decryption
+export async function eciesDecrypt(encryptedData: string, privateKeyB64: string): Promise<string> {
+  const envelope = parseEnvelope(encryptedData);
+  const curve = envelope && curveOfEnvelope(envelope.algorithm);
+  if (!envelope || !curve) {
+    throw new Error('Input is not ECIES encrypted data');
+  }
+  if (envelope.keys.length !== 1) {
+    throw new Error('Missing ephemeral public key in envelope');
+  }
+
+  const key = await agreeWithSender(curve, 'message', privateKeyB64, envelope.keys[0]);
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: envelope.nonce, additionalData: envelope.header },
+      key,
+      envelope.ciphertext
+    );
+    return new TextDecoder().decode(decrypted);
+  } catch {
+    throw new Error('Decryption failed: wrong private key or corrupted data');
+  }
+}
+
+// Every wrap uses a fresh ephemeral key, so the wrapping key never repeats
+// and a fixed nonce is safe
+const WRAP_NONCE = new Uint8Array(12);
+
+// Wraps a content key as: ephemeral public key | AES-GCM(content key)
+export async function eciesWrapKey(contentKey: Uint8Array, publicKeyB64: string): Promise<Uint8Array> {
+  const curve = eciesCurveOf(publicKeyB64);
+  const { ephemeralPublicKey, key } = await agreeWithRecipient(curve, 'key wrap', publicKeyB64);
+  const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: WRAP_NONCE }, key, contentKey);
+  return concatBytes(ephemeralPublicKey, new Uint8Array(wrapped));
+}
+
+// Throws if the content key was not wrapped for this private key
+export async function eciesUnwrapKey(wrapped: Uint8Array, curve: EciesCurve, privateKeyB64: string): Promise<Uint8Array> {
+  const { publicKeyLength } = ECIES_CURVES[curve];
+  if (wrapped.length <= publicKeyLength) {
+    throw new Error('Truncated wrapped key');
+  }
+
+  const key = await agreeWithSender(curve, 'key wrap', privateKeyB64, wrapped.subarray(0, publicKeyLength));
+  const contentKey = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: WRAP_NONCE }, key, wrapped.subarray(publicKeyLength));
+  return new Uint8Array(contentKey);
+}
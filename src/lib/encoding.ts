@@ -0,0 +1,138 @@
+// Byte encoding helpers shared by the crypto modules
+
+// Base64 encoding without spreading the whole buffer onto the call stack
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const digits = hex.replace(/\s+/g, '').replace(/^0x/i, '');
+  if (!/^([0-9a-f]{2})*$/i.test(digits)) {
+    throw new Error('Invalid hex: expected pairs of 0-9 and a-f');
+  }
+  return new Uint8Array((digits.match(/../g) ?? []).map(byte => parseInt(byte, 16)));
+}
+
+// RFC 4648 base64url, unpadded as JWKs and JWTs use it
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlToBytes(value: string): Uint8Array {
+  return base64ToBytes(value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '='));
+}
+
+// How bytes are typed in and shown in the tools: UTF-8 text or a binary encoding
+export type ByteEncoding = 'text' | 'hex' | 'base64' | 'base64url';
+
+export const BYTE_ENCODING_NAMES: Record<ByteEncoding, string> = {
+  text: 'Text (UTF-8)',
+  hex: 'Hex',
+  base64: 'Base64',
+  base64url: 'Base64url',
+};
+
+// Base64 input may be in either alphabet, with or without padding
+export function stringToBytes(value: string, encoding: ByteEncoding): Uint8Array {
+  switch (encoding) {
+    case 'text':
+      return new TextEncoder().encode(value);
+    case 'hex':
+      return hexToBytes(value);
+    case 'base64':
+    case 'base64url': {
+      const text = value.replace(/\s+/g, '');
+      if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(text)) {
+        throw new Error('Invalid Base64');
+      }
+      return base64UrlToBytes(text.replace(/=+$/, ''));
+    }
+  }
+}
+
+export function bytesToString(bytes: Uint8Array, encoding: ByteEncoding): string {
+  switch (encoding) {
+    case 'text':
+      return new TextDecoder().decode(bytes);
+    case 'hex':
+      return bytesToHex(bytes);
+    case 'base64':
+      return bytesToBase64(bytes);
+    case 'base64url':
+      return bytesToBase64Url(bytes);
+  }
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// RFC 4648 Base32 without padding. The alphabet has no 0, 1 or 8, so a
+// printed O, I or B is never mistaken for a digit, and case does not matter.
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function bytesToBase32(bytes: Uint8Array): string {
+  let result = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      result += BASE32_ALPHABET[(buffer >> bits) & 31];
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) {
+    result += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return result;
+}
+
+export function base32ToBytes(base32: string): Uint8Array {
+  const text = base32.replace(/[\s=]+/g, '').toUpperCase();
+  const bytes = new Uint8Array(Math.floor((text.length * 5) / 8));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid Base32 character "${char}"`);
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  return bytes;
+}
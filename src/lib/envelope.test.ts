@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEnvelope, detectEnvelopeAlgorithm, encodeEnvelope, serializeEnvelope, type Envelope } from './envelope';
+import { KDF_PROFILES, deriveKeyBytes, type KdfParams } from './kdf';
+
+const salt = new Uint8Array(16).fill(7);
+
+function envelopeWith(kdf: KdfParams): Envelope {
+  return {
+    version: 1,
+    algorithm: 'aes-256-gcm',
+    kdf,
+    nonce: new Uint8Array(12),
+    aad: new Uint8Array(0),
+    keys: [],
+    ciphertext: new Uint8Array(32),
+  };
+}
+
+describe('envelope KDF costs', () => {
+  it('round-trips every profile', () => {
+    for (const profile of Object.values(KDF_PROFILES)) {
+      for (const cost of Object.values(profile)) {
+        const kdf = { ...cost, salt } as KdfParams;
+        expect(decodeEnvelope(encodeEnvelope(envelopeWith(kdf))).kdf).toEqual(kdf);
+      }
+    }
+  });
+
+  it.each([
+    ['scrypt N=2^40', { name: 'scrypt', logN: 40, r: 8, p: 1, salt }],
+    ['scrypt r*p', { name: 'scrypt', logN: 14, r: 8, p: 0xffffffff, salt }],
+    ['scrypt memory', { name: 'scrypt', logN: 20, r: 16, p: 1, salt }],
+    ['Argon2id memory', { name: 'argon2id', memory: 0xffffffff, iterations: 2, parallelism: 1, salt }],
+    ['Argon2id passes', { name: 'argon2id', memory: 19456, iterations: 0xffffffff, parallelism: 1, salt }],
+    ['PBKDF2 iterations', { name: 'pbkdf2', hash: 'SHA-256', iterations: 0xffffffff, salt }],
+  ] as [string, KdfParams][])('rejects a crafted %s', (_, kdf) => {
+    const bytes = encodeEnvelope(envelopeWith(kdf));
+    expect(() => decodeEnvelope(bytes)).toThrow('Unsupported KDF cost');
+    expect(detectEnvelopeAlgorithm(serializeEnvelope(envelopeWith(kdf)))).toBeNull();
+  });
+
+  it('refuses to derive keys with costs over the limits', async () => {
+    await expect(deriveKeyBytes('password', { name: 'scrypt', logN: 40, r: 8, p: 1, salt })).rejects.toThrow(
+      'Unsupported KDF cost'
+    );
+  });
+});
@@ -0,0 +1,271 @@
+// Versioned, self-describing ciphertext envelope
+//
+// Layout (integers are big-endian):
+//   magic "WLCK" (4) | version (1) | algorithm id (1) | kdf id (1)
+//   kdf params length (2) | kdf params
+//   nonce length (1) | nonce
+//   aad length (2) | aad
+//   key count (1) | per key: length (2) | wrapped key
+//   ciphertext (remainder)
+//
+// Everything before the ciphertext is the header. AEAD algorithms bind it
+// as associated data so the parameters cannot be swapped without detection.
+
+import { base64ToBytes, bytesToBase64, concatBytes } from './encoding';
+import { checkKdfCost, type KdfParams } from './kdf';
+
+export const ENVELOPE_MAGIC = new Uint8Array([0x57, 0x4c, 0x43, 0x4b]); // "WLCK"
+export const ENVELOPE_VERSION = 1;
+
+export const ENVELOPE_ALGORITHMS = {
+  'aes-256-gcm': { id: 1, name: 'AES-256-GCM', secret: 'password' },
+  'chacha20-legacy': { id: 2, name: 'ChaCha20 (legacy)', secret: 'password' },
+  'rsa-oaep': { id: 3, name: 'RSA-OAEP', secret: 'privateKey' },
+  'hybrid-rsa': { id: 4, name: 'Hybrid (RSA + AES-256-GCM, PBKDF2 legacy)', secret: 'privateKey' },
+  'chacha20-poly1305': { id: 5, name: 'ChaCha20-Poly1305', secret: 'password' },
+  'xchacha20-poly1305': { id: 6, name: 'XChaCha20-Poly1305', secret: 'password' },
+  'aes-256-gcm-stream': { id: 7, name: 'AES-256-GCM (streamed)', secret: 'password' },
+  'ecies-p256': { id: 8, name: 'ECIES P-256 (ECDH + AES-256-GCM)', secret: 'privateKey' },
+  'ecies-p384': { id: 9, name: 'ECIES P-384 (ECDH + AES-256-GCM)', secret: 'privateKey' },
+  'ecies-x25519': { id: 10, name: 'ECIES X25519 (ECDH + AES-256-GCM)', secret: 'privateKey' },
+  'hybrid-multi': { id: 11, name: 'Multi-recipient (AES-256-GCM)', secret: 'privateKey' },
+  'hybrid-rsa-kem': { id: 12, name: 'Hybrid (RSA-OAEP KEM + AES-256-GCM)', secret: 'privateKey' },
+} as const;
+
+export type EnvelopeAlgorithm = keyof typeof ENVELOPE_ALGORITHMS;
+
+// KDF params encodings (after the id byte):
+//   pbkdf2:   hash id (1) | iterations (4) | salt length (1) | salt
+//   scrypt:   log2 N (1) | r (4) | p (4) | salt length (1) | salt
+//   argon2id: memory KiB (4) | iterations (4) | parallelism (1) | salt length (1) | salt
+const KDF_IDS = { none: 0, pbkdf2: 1, scrypt: 2, argon2id: 3 } as const;
+const HASH_IDS = { 'SHA-256': 1, 'SHA-384': 2, 'SHA-512': 3 } as const;
+
+export interface Envelope {
+  version: number;
+  algorithm: EnvelopeAlgorithm;
+  kdf: KdfParams | null;
+  nonce: Uint8Array;
+  aad: Uint8Array;
+  keys: Uint8Array[];
+  ciphertext: Uint8Array;
+}
+
+export type EnvelopeHeader = Omit<Envelope, 'ciphertext'>;
+
+export interface ParsedEnvelope extends Envelope {
+  header: Uint8Array;
+}
+
+function lookupKey<T extends Record<string, number | { id: number }>>(table: T, id: number): keyof T | undefined {
+  return (Object.keys(table) as (keyof T)[]).find(key => {
+    const value = table[key];
+    return (typeof value === 'number' ? value : value.id) === id;
+  });
+}
+
+function encodeKdfParams(kdf: KdfParams | null): Uint8Array {
+  if (!kdf) return new Uint8Array(0);
+
+  const fixedLength = { pbkdf2: 5, scrypt: 9, argon2id: 9 }[kdf.name];
+  const params = new Uint8Array(fixedLength + 1 + kdf.salt.length);
+  const view = new DataView(params.buffer);
+  switch (kdf.name) {
+    case 'pbkdf2':
+      view.setUint8(0, HASH_IDS[kdf.hash]);
+      view.setUint32(1, kdf.iterations);
+      break;
+    case 'scrypt':
+      view.setUint8(0, kdf.logN);
+      view.setUint32(1, kdf.r);
+      view.setUint32(5, kdf.p);
+      break;
+    case 'argon2id':
+      view.setUint32(0, kdf.memory);
+      view.setUint32(4, kdf.iterations);
+      view.setUint8(8, kdf.parallelism);
+      break;
+  }
+  view.setUint8(fixedLength, kdf.salt.length);
+  params.set(kdf.salt, fixedLength + 1);
+  return params;
+}
+
+function decodeKdfParams(kdfId: number, params: Uint8Array): KdfParams | null {
+  if (kdfId === KDF_IDS.none) return null;
+
+  const view = new DataView(params.buffer, params.byteOffset, params.byteLength);
+  const salt = (fixedLength: number) => {
+    const saltLength = view.getUint8(fixedLength);
+    if (fixedLength + 1 + saltLength > params.length) throw new Error('Truncated envelope');
+    return params.slice(fixedLength + 1, fixedLength + 1 + saltLength);
+  };
+
+  let kdf: KdfParams;
+  try {
+    switch (kdfId) {
+      case KDF_IDS.pbkdf2: {
+        const hash = lookupKey(HASH_IDS, view.getUint8(0));
+        if (!hash) throw new Error('Unsupported PBKDF2 hash');
+        kdf = { name: 'pbkdf2', hash, iterations: view.getUint32(1), salt: salt(5) };
+        break;
+      }
+      case KDF_IDS.scrypt:
+        kdf = { name: 'scrypt', logN: view.getUint8(0), r: view.getUint32(1), p: view.getUint32(5), salt: salt(9) };
+        break;
+      case KDF_IDS.argon2id:
+        kdf = {
+          name: 'argon2id',
+          memory: view.getUint32(0),
+          iterations: view.getUint32(4),
+          parallelism: view.getUint8(8),
+          salt: salt(9)
+        };
+        break;
+      default:
+        throw new Error(`Unsupported key derivation function (id ${kdfId})`);
+    }
+  } catch (error) {
+    if (error instanceof RangeError) throw new Error('Truncated envelope');
+    throw error;
+  }
+  // The costs are untrusted until the ciphertext is authenticated, which
+  // needs the key they derive
+  checkKdfCost(kdf);
+  return kdf;
+}
+
+export function encodeEnvelopeHeader(header: EnvelopeHeader): Uint8Array {
+  const kdfParams = encodeKdfParams(header.kdf);
+  const parts: Uint8Array[] = [];
+
+  const fixed = new Uint8Array(9);
+  const view = new DataView(fixed.buffer);
+  fixed.set(ENVELOPE_MAGIC, 0);
+  view.setUint8(4, header.version);
+  view.setUint8(5, ENVELOPE_ALGORITHMS[header.algorithm].id);
+  view.setUint8(6, header.kdf ? KDF_IDS[header.kdf.name] : KDF_IDS.none);
+  view.setUint16(7, kdfParams.length);
+  parts.push(fixed, kdfParams);
+
+  parts.push(new Uint8Array([header.nonce.length]), header.nonce);
+
+  const aadLength = new Uint8Array(2);
+  new DataView(aadLength.buffer).setUint16(0, header.aad.length);
+  parts.push(aadLength, header.aad);
+
+  parts.push(new Uint8Array([header.keys.length]));
+  for (const key of header.keys) {
+    const keyLength = new Uint8Array(2);
+    new DataView(keyLength.buffer).setUint16(0, key.length);
+    parts.push(keyLength, key);
+  }
+
+  return concatBytes(...parts);
+}
+
+export function encodeEnvelope(envelope: Envelope): Uint8Array {
+  return concatBytes(encodeEnvelopeHeader(envelope), envelope.ciphertext);
+}
+
+export function isEnvelopeBytes(bytes: Uint8Array): boolean {
+  return bytes.length >= ENVELOPE_MAGIC.length &&
+    ENVELOPE_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+// Thrown internally when the input ends before the header does
+class TruncatedHeader extends Error {}
+
+function readHeader(bytes: Uint8Array): { header: EnvelopeHeader; length: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = ENVELOPE_MAGIC.length;
+
+  const take = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) {
+      throw new TruncatedHeader('Truncated envelope');
+    }
+    const slice = bytes.slice(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+  const readUint8 = () => take(1)[0];
+  const readUint16 = () => {
+    take(2);
+    return view.getUint16(offset - 2);
+  };
+
+  const version = readUint8();
+  if (version > ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version ${version}`);
+  }
+
+  const algorithm = lookupKey(ENVELOPE_ALGORITHMS, readUint8());
+  if (!algorithm) throw new Error('Unknown envelope algorithm');
+
+  const kdfId = readUint8();
+  const kdf = decodeKdfParams(kdfId, take(readUint16()));
+  const nonce = take(readUint8());
+  const aad = take(readUint16());
+
+  const keyCount = readUint8();
+  const keys: Uint8Array[] = [];
+  for (let i = 0; i < keyCount; i++) {
+    keys.push(take(readUint16()));
+  }
+
+  return { header: { version, algorithm, kdf, nonce, aad, keys }, length: offset };
+}
+
+export function decodeEnvelope(bytes: Uint8Array): ParsedEnvelope {
+  if (!isEnvelopeBytes(bytes)) {
+    throw new Error('Not an encrypted envelope');
+  }
+
+  const { header, length } = readHeader(bytes);
+  return {
+    ...header,
+    header: bytes.slice(0, length),
+    ciphertext: bytes.slice(length)
+  };
+}
+
+// For streamed input: returns null until enough bytes have arrived to hold the header
+export function decodeEnvelopeHeader(bytes: Uint8Array): { header: EnvelopeHeader; length: number } | null {
+  if (bytes.length < ENVELOPE_MAGIC.length) return null;
+  if (!isEnvelopeBytes(bytes)) {
+    throw new Error('Not an encrypted envelope');
+  }
+
+  try {
+    return readHeader(bytes);
+  } catch (error) {
+    if (error instanceof TruncatedHeader) return null;
+    throw error;
+  }
+}
+
+// Text form used everywhere ciphertext is shown, copied or pasted
+export function serializeEnvelope(envelope: Envelope): string {
+  return bytesToBase64(encodeEnvelope(envelope));
+}
+
+// Returns null for input that is not an envelope (plain text or legacy blobs)
+export function parseEnvelope(data: string): ParsedEnvelope | null {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(data.trim());
+  } catch {
+    return null;
+  }
+  if (!isEnvelopeBytes(bytes)) return null;
+  return decodeEnvelope(bytes);
+}
+
+// Never throws; lets the UI pick a decryptor for pasted data
+export function detectEnvelopeAlgorithm(data: string): EnvelopeAlgorithm | null {
+  try {
+    return parseEnvelope(data)?.algorithm ?? null;
+  } catch {
+    return null;
+  }
+}
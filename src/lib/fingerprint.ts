@@ -0,0 +1,101 @@
+// Key fingerprints and ways to compare them out-of-band
+//
+// A key's fingerprint is SHA-256 over its SPKI public key, which makes it a
+// stable id: the same key always gets the same fingerprint, wherever it was
+// generated or imported. The first 8 bytes form the short key id, the same id
+// multi-recipient stanzas carry (see recipients.ts).
+
+import { base64ToBytes, bytesToHex } from './encoding';
+
+const SHORT_ID_LENGTH = 16;
+
+// Hex SHA-256 of the SPKI public key
+export async function keyFingerprint(publicKeyB64: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', base64ToBytes(publicKeyB64));
+  return bytesToHex(new Uint8Array(digest));
+}
+
+export function shortKeyId(fingerprint: string): string {
+  return fingerprint.slice(0, SHORT_ID_LENGTH).toUpperCase();
+}
+
+// Upper-case hex in groups of four, for reading aloud
+export function formatFingerprint(fingerprint: string): string {
+  return fingerprint.toUpperCase().match(/.{1,4}/g)?.join(' ') ?? '';
+}
+
+function fingerprintBytes(fingerprint: string): Uint8Array {
+  return new Uint8Array(fingerprint.match(/.{2}/g)?.map(byte => parseInt(byte, 16)) ?? []);
+}
+
+const RANDOMART_WIDTH = 17;
+const RANDOMART_HEIGHT = 9;
+const RANDOMART_SYMBOLS = ' .o+=*BOX@%&#/^';
+
+function frameLine(text: string): string {
+  const label = text ? `[${text}]` : '';
+  const left = Math.floor((RANDOMART_WIDTH - label.length) / 2);
+  return `+${'-'.repeat(left)}${label}${'-'.repeat(RANDOMART_WIDTH - left - label.length)}+`;
+}
+
+// OpenSSH's "drunken bishop" picture: a walk across a small board steered by
+// the fingerprint's bits, two at a time. Small differences in the fingerprint
+// give visibly different pictures.
+export function fingerprintRandomart(fingerprint: string, title = ''): string {
+  const board = Array.from({ length: RANDOMART_HEIGHT }, () => new Array<number>(RANDOMART_WIDTH).fill(0));
+  let x = Math.floor(RANDOMART_WIDTH / 2);
+  let y = Math.floor(RANDOMART_HEIGHT / 2);
+  const start = { x, y };
+  const end = RANDOMART_SYMBOLS.length + 1;
+
+  for (const byte of fingerprintBytes(fingerprint)) {
+    for (let shift = 0; shift < 8; shift += 2) {
+      const step = (byte >> shift) & 3;
+      x = Math.max(0, Math.min(RANDOMART_WIDTH - 1, x + (step & 1 ? 1 : -1)));
+      y = Math.max(0, Math.min(RANDOMART_HEIGHT - 1, y + (step & 2 ? 1 : -1)));
+      board[y][x] = Math.min(board[y][x] + 1, RANDOMART_SYMBOLS.length - 1);
+    }
+  }
+  board[start.y][start.x] = end - 1;
+  board[y][x] = end;
+
+  const rows = board.map(row => '|' + row.map(count => {
+    if (count === end) return 'E';
+    if (count === end - 1) return 'S';
+    return RANDOMART_SYMBOLS[count];
+  }).join('') + '|');
+
+  return [frameLine(title), ...rows, frameLine('SHA256')].join('\n');
+}
+
+// 64 easily named pictures; each shows 6 bits of the fingerprint
+const FINGERPRINT_EMOJI: [string, string][] = [
+  ['🐶', 'Dog'], ['🐱', 'Cat'], ['🦁', 'Lion'], ['🐎', 'Horse'], ['🦄', 'Unicorn'], ['🐷', 'Pig'],
+  ['🐘', 'Elephant'], ['🐰', 'Rabbit'], ['🐼', 'Panda'], ['🐓', 'Rooster'], ['🐧', 'Penguin'], ['🐢', 'Turtle'],
+  ['🐟', 'Fish'], ['🐙', 'Octopus'], ['🦋', 'Butterfly'], ['🌷', 'Flower'], ['🌳', 'Tree'], ['🌵', 'Cactus'],
+  ['🍄', 'Mushroom'], ['🌏', 'Globe'], ['🌙', 'Moon'], ['☁️', 'Cloud'], ['🔥', 'Fire'], ['🍌', 'Banana'],
+  ['🍎', 'Apple'], ['🍓', 'Strawberry'], ['🌽', 'Corn'], ['🍕', 'Pizza'], ['🎂', 'Cake'], ['❤️', 'Heart'],
+  ['😀', 'Smiley'], ['🤖', 'Robot'], ['🎩', 'Hat'], ['👓', 'Glasses'], ['🔧', 'Spanner'], ['🎅', 'Santa'],
+  ['👍', 'Thumbs Up'], ['☂️', 'Umbrella'], ['⌛', 'Hourglass'], ['⏰', 'Clock'], ['🎁', 'Gift'], ['💡', 'Light Bulb'],
+  ['📕', 'Book'], ['✏️', 'Pencil'], ['📎', 'Paperclip'], ['✂️', 'Scissors'], ['🔒', 'Lock'], ['🔑', 'Key'],
+  ['🔨', 'Hammer'], ['☎️', 'Telephone'], ['🏁', 'Flag'], ['🚂', 'Train'], ['🚲', 'Bicycle'], ['✈️', 'Aeroplane'],
+  ['🚀', 'Rocket'], ['🏆', 'Trophy'], ['⚽', 'Ball'], ['🎸', 'Guitar'], ['🎺', 'Trumpet'], ['🔔', 'Bell'],
+  ['⚓', 'Anchor'], ['🎧', 'Headphones'], ['📁', 'Folder'], ['📌', 'Pin'],
+];
+
+const EMOJI_COUNT = 8;
+
+// The first 48 bits of the fingerprint as eight emoji with their names
+export function fingerprintEmoji(fingerprint: string): { emoji: string; word: string }[] {
+  const bytes = fingerprintBytes(fingerprint);
+  let bits = 0n;
+  for (const byte of bytes.subarray(0, (EMOJI_COUNT * 6) / 8)) {
+    bits = (bits << 8n) | BigInt(byte);
+  }
+
+  return Array.from({ length: EMOJI_COUNT }, (_, index) => {
+    const shift = BigInt((EMOJI_COUNT - 1 - index) * 6);
+    const [emoji, word] = FINGERPRINT_EMOJI[Number((bits >> shift) & 63n)];
+    return { emoji, word };
+  });
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { blake2b } from './blake2b';
+import { bytesToHex } from './encoding';
+import { createHasher, hashBytes, hashText, type HashAlgorithm } from './hashes';
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+// The input pattern of the official BLAKE3 test vectors
+const pattern = (length: number) => Uint8Array.from({ length }, (_, i) => i % 251);
+const MILLION_A = new Uint8Array(1_000_000).fill(0x61);
+
+// Hashes the input in pieces of the given size, so the hasher sees data
+// that starts and ends part way through its blocks
+function hashInPieces(algorithm: HashAlgorithm, data: Uint8Array, size: number): string {
+  const hasher = createHasher(algorithm);
+  for (let offset = 0; offset < data.length; offset += size) {
+    hasher.update(data.subarray(offset, offset + size));
+  }
+  return bytesToHex(hasher.digest());
+}
+
+const PIECE_SIZES = [1, 3, 63, 64, 65, 71, 127, 128, 129, 136, 1023, 1024, 1025];
+
+interface Vector {
+  input: Uint8Array;
+  digest: string;
+}
+
+const VECTORS: Partial<Record<HashAlgorithm, Vector[]>> = {
+  // RFC 1321 appendix A.5
+  'MD5': [
+    { input: ascii(''), digest: 'd41d8cd98f00b204e9800998ecf8427e' },
+    { input: ascii('a'), digest: '0cc175b9c0f1b6a831c399e269772661' },
+    { input: ascii('abc'), digest: '900150983cd24fb0d6963f7d28e17f72' },
+    { input: ascii('message digest'), digest: 'f96b697d7cb7938d525a2f31aaf161d0' },
+    { input: ascii('abcdefghijklmnopqrstuvwxyz'), digest: 'c3fcd3d76192e4007dfb496cca67e13b' },
+    {
+      input: ascii('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'),
+      digest: 'd174ab98d277d9f5a5611c2c9f419d9f',
+    },
+    { input: ascii('1234567890'.repeat(8)), digest: '57edf4a22be3c955ac49da2e2107b67a' },
+  ],
+  // FIPS 180-4 examples
+  'SHA-1': [
+    { input: ascii('abc'), digest: 'a9993e364706816aba3e25717850c26c9cd0d89d' },
+    {
+      input: ascii('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'),
+      digest: '84983e441c3bd26ebaae4aa1f95129e5e54670f1',
+    },
+    { input: MILLION_A, digest: '34aa973cd4c4daa4f61eeb2bdbad27316534016f' },
+  ],
+  'SHA-256': [
+    { input: ascii('abc'), digest: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad' },
+  ],
+  'SHA-384': [
+    {
+      input: ascii('abc'),
+      digest: 'cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7',
+    },
+    {
+      input: ascii(
+        'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu'
+      ),
+      digest: '09330c33f71147e83d192fc782cd1b4753111b173b3b05d22fa08086e3b0f712fcc7c71a557e2db966c3e9fa91746039',
+    },
+    {
+      input: MILLION_A,
+      digest: '9d0e1809716474cb086e834e310a4a1ced149e9c00f248527972cec5704c2a5b07b8b3dc38ecc4ebae97ddd87f3d8985',
+    },
+  ],
+  'SHA-512': [
+    {
+      input: ascii('abc'),
+      digest:
+        'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a' +
+        '2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+    },
+  ],
+  // FIPS 202 examples
+  'SHA3-256': [
+    { input: ascii(''), digest: 'a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a' },
+    { input: ascii('abc'), digest: '3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532' },
+    { input: MILLION_A, digest: '5c8875ae474a3634ba4fd55ec85bffd661f32aca75c6d699d0cdcb6c115891c1' },
+  ],
+  'SHA3-512': [
+    {
+      input: ascii(''),
+      digest:
+        'a69f73cca23a9ac5c8b567dc185a756e97c982164fe25859e0d1dcc1475c80a6' +
+        '15b2123af1f5f94c11e3e9402c3ac558f500199d95b6d3e301758586281dcd26',
+    },
+    {
+      input: ascii('abc'),
+      digest:
+        'b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e' +
+        '10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0',
+    },
+    {
+      input: MILLION_A,
+      digest:
+        '3c3a876da14034ab60627c077bb98f7e120a2a5370212dffb3385a18d4f38859' +
+        'ed311d0a9d5141ce9cc5c66ee689b266a8aa18ace8282a0e0db596c90b0a7b87',
+    },
+  ],
+  // RFC 7693 appendix A, plus the empty input
+  'BLAKE2b-512': [
+    {
+      input: ascii(''),
+      digest:
+        '786a02f742015903c6c6fd852552d272912f4740e15847618a86e217f71f5419' +
+        'd25e1031afee585313896444934eb04b903a685b1448b755d56f701afe9be2ce',
+    },
+    {
+      input: ascii('abc'),
+      digest:
+        'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1' +
+        '7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923',
+    },
+  ],
+  // test_vectors.json from the BLAKE3 repository, which hashes the
+  // repeating bytes 0, 1, ..., 250
+  'BLAKE3': [
+    { input: pattern(0), digest: 'af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262' },
+    { input: pattern(1), digest: '2d3adedff11b61f14c886e35afa036736dcd87a74d27b5c1510225d0f592e213' },
+    { input: pattern(64), digest: '4eed7141ea4a5cd4b788606bd23f46e212af9cacebacdc7d1f4c6dc7f2511b98' },
+    { input: pattern(65), digest: 'de1e5fa0be70df6d2be8fffd0e99ceaa8eb6e8c93a63f2d8d1c30ecb6b263dee' },
+    { input: pattern(1023), digest: '10108970eeda3eb932baac1428c7a2163b0e924c9a9e25b35bba72b28f70bd11' },
+    { input: pattern(1024), digest: '42214739f095a406f3fc83deb889744ac00df831c10daa55189b5d121c855af7' },
+    { input: pattern(1025), digest: 'd00278ae47eb27b34faecf67b4fe263f82d5412916c1ffd97c8cb7fb814b8444' },
+    { input: pattern(2048), digest: 'e776b6028c7cd22a4d0ba182a8bf62205d2ef576467e838ed6f2529b85fba24a' },
+    { input: pattern(2049), digest: '5f4d72f40d7a5f82b15ca2b2e44b1de3c2ef86c426c95c1af0b6879522563030' },
+    { input: pattern(8193), digest: 'bab6c09cb8ce8cf459261398d2e7aef35700bf488116ceb94a36d0f5f1b7bc3b' },
+  ],
+};
+
+describe.each(Object.entries(VECTORS) as [HashAlgorithm, Vector[]][])('%s', (algorithm, vectors) => {
+  it('matches the published vectors in one call', () => {
+    for (const { input, digest } of vectors) {
+      expect(bytesToHex(hashBytes(algorithm, input))).toBe(digest);
+    }
+  });
+
+  it('gives the same digests when fed in pieces across block boundaries', () => {
+    for (const { input, digest } of vectors) {
+      const sizes = input.length > 10_000 ? [997, 4096] : PIECE_SIZES;
+      for (const size of sizes) {
+        expect(hashInPieces(algorithm, input, size), `pieces of ${size} bytes`).toBe(digest);
+      }
+    }
+  });
+
+  it('starts each hasher afresh', () => {
+    const [{ input, digest }] = vectors;
+    createHasher(algorithm).update(ascii('unrelated'));
+    expect(bytesToHex(createHasher(algorithm).update(input).digest())).toBe(digest);
+  });
+});
+
+describe('hashText', () => {
+  it('hashes the UTF-8 encoding', () => {
+    expect(hashText('MD5', 'message digest')).toBe('f96b697d7cb7938d525a2f31aaf161d0');
+    expect(hashText('SHA-256', 'hé')).toBe(bytesToHex(hashBytes('SHA-256', new Uint8Array([0x68, 0xc3, 0xa9]))));
+  });
+});
+
+describe('BLAKE2b', () => {
+  it('matches the keyed vector from the reference test suite', () => {
+    const key = pattern(64);
+    expect(bytesToHex(blake2b(new Uint8Array(0), 64, key))).toBe(
+      '10ebb67700b1868efb4417987acf4690ae9d972fb7a590c2f02871799aaa4786' +
+      'b5e996e8f0f4eb981fc214b005f42d2ff4233499391653df7aefcbc13fc51568'
+    );
+  });
+});
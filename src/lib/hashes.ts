@@ -0,0 +1,72 @@
+// Hash algorithms offered for hashing text and files and for checking
+// digests. All are incremental, so large inputs can be hashed in pieces.
+
+import { createBlake2b } from './blake2b';
+import { createBlake3 } from './blake3';
+import { createMd5, createSha1, createSha256, createSha384, createSha512 } from './digests';
+import { bytesToHex } from './encoding';
+import { createSha3 } from './sha3';
+
+export type HashAlgorithm =
+  | 'MD5'
+  | 'SHA-1'
+  | 'SHA-256'
+  | 'SHA-384'
+  | 'SHA-512'
+  | 'SHA3-256'
+  | 'SHA3-512'
+  | 'BLAKE2b-512'
+  | 'BLAKE3';
+
+export interface Hasher {
+  update(data: Uint8Array): Hasher;
+  digest(): Uint8Array;
+}
+
+export interface HashAlgorithmInfo {
+  name: string;
+  description: string;
+  // Digest length in bits
+  bits: number;
+  // Input block size in bytes, which HMAC pads keys to; the rate for SHA-3
+  blockSize: number;
+  // Collisions can be produced; only fit for spotting accidental corruption
+  insecure?: boolean;
+  create: () => Hasher;
+}
+
+export const HASH_ALGORITHMS: Record<HashAlgorithm, HashAlgorithmInfo> = {
+  'MD5': { name: 'MD5', description: 'Message Digest 5 (legacy checksums only)', bits: 128, blockSize: 64, insecure: true, create: createMd5 },
+  'SHA-1': { name: 'SHA-1', description: 'Secure Hash Algorithm 1 (legacy checksums only)', bits: 160, blockSize: 64, insecure: true, create: createSha1 },
+  'SHA-256': { name: 'SHA-256', description: 'SHA-2 with a 256-bit digest', bits: 256, blockSize: 64, create: createSha256 },
+  'SHA-384': { name: 'SHA-384', description: 'SHA-2 with a 384-bit digest', bits: 384, blockSize: 128, create: createSha384 },
+  'SHA-512': { name: 'SHA-512', description: 'SHA-2 with a 512-bit digest', bits: 512, blockSize: 128, create: createSha512 },
+  'SHA3-256': { name: 'SHA3-256', description: 'Keccak-based SHA-3 with a 256-bit digest', bits: 256, blockSize: 136, create: () => createSha3(32) },
+  'SHA3-512': { name: 'SHA3-512', description: 'Keccak-based SHA-3 with a 512-bit digest', bits: 512, blockSize: 72, create: () => createSha3(64) },
+  'BLAKE2b-512': { name: 'BLAKE2b-512', description: 'BLAKE2b with a 512-bit digest', bits: 512, blockSize: 128, create: () => createBlake2b(64) },
+  'BLAKE3': { name: 'BLAKE3', description: 'BLAKE3 with a 256-bit digest', bits: 256, blockSize: 64, create: createBlake3 },
+};
+
+export function createHasher(algorithm: HashAlgorithm): Hasher {
+  const info = HASH_ALGORITHMS[algorithm];
+  if (!info) throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+  return info.create();
+}
+
+export function hashBytes(algorithm: HashAlgorithm, data: Uint8Array): Uint8Array {
+  return createHasher(algorithm).update(data).digest();
+}
+
+// Hex digest of the UTF-8 encoding of the text
+export function hashText(algorithm: HashAlgorithm, text: string): string {
+  return bytesToHex(hashBytes(algorithm, new TextEncoder().encode(text)));
+}
+
+// Algorithms whose hex digests are as long as the given one, to suggest
+// which was used when an expected hash does not match
+export function hashAlgorithmsForDigest(hex: string): HashAlgorithm[] {
+  const digest = hex.trim();
+  if (!/^[0-9a-f]+$/i.test(digest)) return [];
+  const bits = digest.length * 4;
+  return (Object.keys(HASH_ALGORITHMS) as HashAlgorithm[]).filter(algorithm => HASH_ALGORITHMS[algorithm].bits === bits);
+}
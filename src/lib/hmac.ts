@@ -0,0 +1,128 @@
+// HMAC (RFC 2104) over the hash algorithms in hashes.ts, and the key
+// derivations built on it: HKDF (RFC 5869) and PBKDF2 (RFC 8018). Running on
+// the TypeScript hashers makes HMAC-SHA3 available, which Web Crypto lacks.
+
+import { HASH_ALGORITHMS, createHasher, hashBytes, type HashAlgorithm, type Hasher } from './hashes';
+import { stringToBytes } from './encoding';
+
+// The hashes offered for HMAC and the derivations
+export const HMAC_ALGORITHMS: HashAlgorithm[] = ['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512', 'SHA3-256', 'SHA3-512'];
+
+// Web Crypto's PBKDF2 is far faster than looping over HMAC here
+const WEB_CRYPTO_HASHES: HashAlgorithm[] = ['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512'];
+
+const MAX_PBKDF2_ITERATIONS = 100_000_000;
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+const hashLength = (algorithm: HashAlgorithm) => HASH_ALGORITHMS[algorithm].bits / 8;
+
+export function createHmac(algorithm: HashAlgorithm, key: Uint8Array): Hasher {
+  const { blockSize } = HASH_ALGORITHMS[algorithm];
+  const blockKey = new Uint8Array(blockSize);
+  blockKey.set(key.length > blockSize ? hashBytes(algorithm, key) : key);
+  const pad = (value: number) => blockKey.map(byte => byte ^ value);
+
+  const inner = createHasher(algorithm).update(pad(0x36));
+  const hasher: Hasher = {
+    update(data: Uint8Array) {
+      inner.update(data);
+      return hasher;
+    },
+    digest() {
+      return createHasher(algorithm).update(pad(0x5c)).update(inner.digest()).digest();
+    }
+  };
+  return hasher;
+}
+
+export function hmac(algorithm: HashAlgorithm, key: Uint8Array, data: Uint8Array): Uint8Array {
+  return createHmac(algorithm, key).update(data).digest();
+}
+
+// Compares in constant time, so the check cannot leak how much of a guessed
+// MAC is right
+export function verifyHmac(algorithm: HashAlgorithm, key: Uint8Array, data: Uint8Array, expected: Uint8Array): boolean {
+  return constantTimeEqual(hmac(algorithm, key, data), expected);
+}
+
+// Reads a MAC as hex, Base64 or Base64url, with or without the "sha256="
+// style prefix that webhook signature headers put in front of it
+export function decodeMac(text: string): Uint8Array {
+  const value = text.trim().replace(/^[a-z][\w-]*=(?=[^=])/i, '');
+  if (/^([0-9a-f]{2})+$/i.test(value)) {
+    return stringToBytes(value, 'hex');
+  }
+  return stringToBytes(value, 'base64');
+}
+
+// An empty salt stands for HashLen zero bytes, which HMAC pads to the same key
+export function hkdfExtract(algorithm: HashAlgorithm, ikm: Uint8Array, salt: Uint8Array = new Uint8Array(0)): Uint8Array {
+  return hmac(algorithm, salt, ikm);
+}
+
+export function hkdfExpand(algorithm: HashAlgorithm, prk: Uint8Array, info: Uint8Array, length: number): Uint8Array {
+  const maxLength = 255 * hashLength(algorithm);
+  if (!Number.isInteger(length) || length < 1 || length > maxLength) {
+    throw new Error(`HKDF-${algorithm} output must be 1 to ${maxLength} bytes`);
+  }
+  if (prk.length < hashLength(algorithm)) {
+    throw new Error(`The pseudorandom key must be at least ${hashLength(algorithm)} bytes; run extract first`);
+  }
+
+  const okm = new Uint8Array(length);
+  let block = new Uint8Array(0);
+  for (let counter = 1, offset = 0; offset < length; counter++) {
+    block = createHmac(algorithm, prk).update(block).update(info).update(new Uint8Array([counter])).digest();
+    okm.set(block.subarray(0, length - offset), offset);
+    offset += block.length;
+  }
+  return okm;
+}
+
+export function hkdf(algorithm: HashAlgorithm, ikm: Uint8Array, salt: Uint8Array, info: Uint8Array, length: number): Uint8Array {
+  return hkdfExpand(algorithm, hkdfExtract(algorithm, ikm, salt), info, length);
+}
+
+export async function pbkdf2(
+  algorithm: HashAlgorithm,
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number,
+  onProgress?: (fraction: number) => void
+): Promise<Uint8Array> {
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error(`Iterations must be 1 to ${MAX_PBKDF2_ITERATIONS.toLocaleString()}`);
+  }
+  if (!Number.isInteger(length) || length < 1 || length > 1024) {
+    throw new Error('PBKDF2 output must be 1 to 1024 bytes');
+  }
+
+  if (WEB_CRYPTO_HASHES.includes(algorithm)) {
+    const keyMaterial = await crypto.subtle.importKey('raw', password, { name: 'PBKDF2' }, false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: algorithm }, keyMaterial, length * 8);
+    return new Uint8Array(bits);
+  }
+
+  const blocks = Math.ceil(length / hashLength(algorithm));
+  const output = new Uint8Array(length);
+  for (let block = 1; block <= blocks; block++) {
+    const index = new Uint8Array([block >>> 24, block >>> 16, block >>> 8, block]);
+    let u = createHmac(algorithm, password).update(salt).update(index).digest();
+    const t = u.slice();
+    for (let i = 1; i < iterations; i++) {
+      u = hmac(algorithm, password, u);
+      for (let j = 0; j < t.length; j++) t[j] ^= u[j];
+      if (i % 1000 === 0) onProgress?.(((block - 1) * iterations + i) / (blocks * iterations));
+    }
+    const offset = (block - 1) * t.length;
+    output.set(t.subarray(0, length - offset), offset);
+  }
+  return output;
+}
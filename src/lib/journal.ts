@@ -0,0 +1,300 @@
+// Operation journal: an opt-in record of what the Studio tools did, kept in
+// IndexedDB
+//
+// Inputs and outputs are recorded by SHA-256 fingerprint and size, so the
+// journal can show that two runs saw the same data without holding the data.
+// Text previews and file names are only kept when the settings allow it.
+// Keys and passwords are never handed to the journal, not even to be
+// fingerprinted, since a hash of a password is enough to test guesses.
+// Entries past the retention limits are pruned as new ones are written, and
+// with Clear on Exit the journal does not outlive the session.
+
+import { bytesToHex } from './encoding';
+import { loadSettings } from './settings';
+import { isAbortError, runCryptoJob } from './workerPool';
+
+// The Studio tools, by the ids the Studio selects them with
+export type JournalTool = 'standard' | 'hybrid' | 'hash' | 'sign' | 'steganography' | 'custom';
+
+export const JOURNAL_TOOL_NAMES: Record<JournalTool, string> = {
+  standard: 'Standard Encryption',
+  hybrid: 'Hybrid Encryption',
+  hash: 'Hash Functions',
+  sign: 'Sign & Verify',
+  steganography: 'Steganography',
+  custom: 'Custom Algorithm',
+};
+
+export type JournalStatus = 'success' | 'failure';
+
+export interface JournalFingerprint {
+  // SHA-256 of the data, hex
+  sha256: string;
+  bytes: number;
+  // The start of the text, or the file name; only with plaintext allowed
+  preview?: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  tool: JournalTool;
+  operation: string;
+  algorithm: string;
+  startedAt: number;
+  finishedAt: number;
+  status: JournalStatus;
+  error?: string;
+  input?: JournalFingerprint;
+  output?: JournalFingerprint;
+}
+
+// Text is fingerprinted as UTF-8 and files are hashed in a worker, unless
+// the caller already has the fingerprint
+export type JournalData = string | Uint8Array | Blob | JournalFingerprint;
+
+export interface JournalRecord {
+  tool: JournalTool;
+  operation: string;
+  algorithm: string;
+  input?: JournalData;
+  output?: JournalData;
+  // Defaults to the time of recording
+  startedAt?: number;
+  // Set for operations that failed
+  error?: unknown;
+}
+
+export type JournalExportFormat = 'csv' | 'json';
+
+const DB_NAME = 'word-lock-journal';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const STARTED_INDEX = 'startedAt';
+const PREVIEW_LENGTH = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let database: Promise<IDBDatabase> | null = null;
+let clearsOnPageHide = false;
+const listeners = new Set<() => void>();
+
+// Clear on Exit cannot rely on the page staying alive long enough to empty
+// the store, so the first open of a session finishes the job
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        store.createIndex(STARTED_INDEX, 'startedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open the operation journal'));
+    }).then(async db => {
+      if (loadSettings().clearOnExit) {
+        await transact(db, 'readwrite', store => { store.clear(); });
+      }
+      if (!clearsOnPageHide && typeof window !== 'undefined') {
+        clearsOnPageHide = true;
+        window.addEventListener('pagehide', () => {
+          if (loadSettings().clearOnExit) clearJournal().catch(() => {});
+        });
+      }
+      return db;
+    });
+    database.catch(() => { database = null; });
+  }
+  return database;
+}
+
+function transact<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ENTRY_STORE, mode);
+    const request = fn(transaction.objectStore(ENTRY_STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error ?? new Error('Operation journal transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Operation journal transaction aborted'));
+  });
+}
+
+async function withEntries<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> {
+  return transact(await openDatabase(), mode, fn);
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+// Called whenever entries are added or removed
+export function subscribeJournal(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function isJournalEnabled(): boolean {
+  return loadSettings().journalEnabled;
+}
+
+async function fingerprint(data: JournalData, withPreview: boolean): Promise<JournalFingerprint> {
+  let sha256: string;
+  let bytes: number;
+  let preview: string | undefined;
+  if (typeof data === 'object' && 'sha256' in data) {
+    ({ sha256, bytes, preview } = data);
+  } else if (data instanceof Blob) {
+    sha256 = (await runCryptoJob('hashFile', [data, ['SHA-256']]))['SHA-256']!;
+    bytes = data.size;
+    preview = data instanceof File ? data.name : undefined;
+  } else {
+    const encoded = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    sha256 = bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encoded)));
+    bytes = encoded.length;
+    preview = typeof data === 'string' ? data.slice(0, PREVIEW_LENGTH) : undefined;
+  }
+  return withPreview && preview ? { sha256, bytes, preview } : { sha256, bytes };
+}
+
+// Drops entries older than the retention period, then the oldest ones past
+// the entry limit
+async function prune(retentionDays: number, maxEntries: number) {
+  const cutoff = retentionDays > 0 ? Date.now() - retentionDays * DAY_MS : -Infinity;
+  await withEntries('readwrite', store => {
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      let excess = maxEntries > 0 ? countRequest.result - maxEntries : 0;
+      const cursorRequest = store.index(STARTED_INDEX).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || (excess <= 0 && cursor.value.startedAt >= cutoff)) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    };
+  });
+}
+
+// Writes an entry when the journal is switched on. Journaling never gets in
+// the way of the operation itself, so failures are logged, not thrown.
+export async function recordOperation(record: JournalRecord): Promise<void> {
+  const settings = loadSettings();
+  if (!settings.journalEnabled) return;
+
+  try {
+    const finishedAt = Date.now();
+    const entry: JournalEntry = {
+      id: crypto.randomUUID(),
+      tool: record.tool,
+      operation: record.operation,
+      algorithm: record.algorithm,
+      startedAt: record.startedAt ?? finishedAt,
+      finishedAt,
+      status: record.error === undefined ? 'success' : 'failure',
+    };
+    if (record.error !== undefined) {
+      entry.error = record.error instanceof Error ? record.error.message : String(record.error);
+    }
+    if (record.input !== undefined) {
+      entry.input = await fingerprint(record.input, settings.journalPlaintext);
+    }
+    if (record.output !== undefined) {
+      entry.output = await fingerprint(record.output, settings.journalPlaintext);
+    }
+
+    await withEntries('readwrite', store => { store.put(entry); });
+    await prune(settings.journalRetentionDays, settings.journalMaxEntries);
+    notify();
+  } catch (error) {
+    console.error('Failed to record operation:', error);
+  }
+}
+
+// Runs an operation and journals how it went. outcome picks the output to
+// fingerprint, and can mark a completed run as failed, such as a signature
+// that did not verify. Cancelled runs are not recorded; errors are rethrown
+// for the caller to report.
+export async function journaled<T>(
+  record: Omit<JournalRecord, 'output' | 'startedAt' | 'error'>,
+  run: () => Promise<T>,
+  outcome?: (result: T) => Pick<JournalRecord, 'output' | 'error'>
+): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const result = await run();
+    void recordOperation({ ...record, startedAt, ...outcome?.(result) });
+    return result;
+  } catch (error) {
+    if (!isAbortError(error)) {
+      void recordOperation({ ...record, startedAt, error });
+    }
+    throw error;
+  }
+}
+
+// Newest first
+export async function listJournalEntries(): Promise<JournalEntry[]> {
+  const entries = await withEntries<JournalEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteJournalEntry(id: string) {
+  await withEntries('readwrite', store => { store.delete(id); });
+  notify();
+}
+
+export async function clearJournal() {
+  await withEntries('readwrite', store => { store.clear(); });
+  notify();
+}
+
+// Removes the journal database altogether
+export async function deleteJournal() {
+  if (database) {
+    (await database).close();
+    database = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error ?? new Error('Could not delete the operation journal'));
+  });
+  notify();
+}
+
+const CSV_COLUMNS = [
+  'startedAt', 'finishedAt', 'tool', 'operation', 'algorithm', 'status', 'error',
+  'inputSha256', 'inputBytes', 'inputPreview', 'outputSha256', 'outputBytes', 'outputPreview',
+] as const;
+
+// Quotes where needed, and defuses text a spreadsheet would run as a formula
+function csvField(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportJournal(entries: JournalEntry[], format: JournalExportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(entries, null, 2);
+  }
+
+  const rows = entries.map(entry => [
+    new Date(entry.startedAt).toISOString(),
+    new Date(entry.finishedAt).toISOString(),
+    entry.tool,
+    entry.operation,
+    entry.algorithm,
+    entry.status,
+    entry.error,
+    entry.input?.sha256,
+    entry.input?.bytes,
+    entry.input?.preview,
+    entry.output?.sha256,
+    entry.output?.bytes,
+    entry.output?.preview,
+  ].map(csvField).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
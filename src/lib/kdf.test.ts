@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToHex } from './encoding';
+import { argon2id, deriveKeyBytes, scrypt } from './kdf';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('scrypt', () => {
+  // RFC 7914 section 12
+  it('matches test vector 1', async () => {
+    const key = await scrypt('', { name: 'scrypt', logN: 4, r: 1, p: 1, salt: new Uint8Array(0) }, 64);
+    expect(bytesToHex(key)).toBe(
+      '77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442' +
+      'fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906'
+    );
+  });
+
+  it('matches test vector 2', async () => {
+    const key = await scrypt('password', { name: 'scrypt', logN: 10, r: 8, p: 16, salt: text('NaCl') }, 64);
+    expect(bytesToHex(key)).toBe(
+      'fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162' +
+      '2eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640'
+    );
+  });
+});
+
+describe('argon2id', () => {
+  // The reference implementation's test.c vectors, and one more lanes case
+  // cross-checked against @noble/hashes
+  it.each([
+    [2, 256, 1, '9dfeb910e80bad0311fee20f9c0e2b12c17987b4cac90c2ef54d5b3021c68bfe'],
+    [2, 256, 2, '6d093c501fd5999645e0ea3bf620d7b8be7fd2db59c20d9fff9539da2bf57037'],
+    [1, 64, 4, '19938945ef59b95503dae9c597a52c1ff4b1dfa6d09e852796716f433eef4fcf'],
+  ])('matches t=%i, m=%i KiB, p=%i', async (iterations, memory, parallelism, expected) => {
+    const key = await argon2id('password', { name: 'argon2id', memory, iterations, parallelism, salt: text('somesalt') });
+    expect(bytesToHex(key)).toBe(expected);
+  });
+
+  it('rejects a salt shorter than 8 bytes', async () => {
+    const params = { name: 'argon2id' as const, memory: 64, iterations: 1, parallelism: 1, salt: text('short') };
+    await expect(argon2id('password', params)).rejects.toThrow('at least 8 bytes');
+  });
+});
+
+describe('deriveKeyBytes', () => {
+  it('refuses costs above the limits before doing any work', async () => {
+    const params = { name: 'scrypt' as const, logN: 30, r: 8, p: 1, salt: text('NaCl') };
+    await expect(deriveKeyBytes('password', params)).rejects.toThrow('Unsupported KDF cost');
+  });
+});
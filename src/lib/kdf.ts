@@ -0,0 +1,482 @@
+// Password-based key derivation: PBKDF2, scrypt and Argon2id
+//
+// PBKDF2 runs through Web Crypto. scrypt (RFC 7914) and Argon2id (RFC 9106)
+// are implemented here in plain TypeScript so they work in every browser.
+
+import { blake2b, createBlake2b } from './blake2b';
+
+export type KdfName = 'pbkdf2' | 'scrypt' | 'argon2id';
+export type KdfHash = 'SHA-256' | 'SHA-384' | 'SHA-512';
+export type KdfProfile = 'interactive' | 'moderate' | 'paranoid';
+
+export interface Pbkdf2Cost {
+  name: 'pbkdf2';
+  hash: KdfHash;
+  iterations: number;
+}
+
+export interface ScryptCost {
+  name: 'scrypt';
+  logN: number; // CPU/memory cost N = 2^logN
+  r: number;
+  p: number;
+}
+
+export interface Argon2idCost {
+  name: 'argon2id';
+  memory: number; // KiB
+  iterations: number;
+  parallelism: number;
+}
+
+// Cost parameters without a salt, as stored in settings and profiles
+export type KdfCost = Pbkdf2Cost | ScryptCost | Argon2idCost;
+
+export type Pbkdf2Params = Pbkdf2Cost & { salt: Uint8Array };
+export type ScryptParams = ScryptCost & { salt: Uint8Array };
+export type Argon2idParams = Argon2idCost & { salt: Uint8Array };
+export type KdfParams = Pbkdf2Params | ScryptParams | Argon2idParams;
+
+export const KDF_NAMES: Record<KdfName, string> = {
+  pbkdf2: 'PBKDF2',
+  scrypt: 'scrypt',
+  argon2id: 'Argon2id',
+};
+
+export const KDF_PROFILES: Record<KdfProfile, Record<KdfName, KdfCost>> = {
+  interactive: {
+    pbkdf2: { name: 'pbkdf2', hash: 'SHA-256', iterations: 100000 },
+    scrypt: { name: 'scrypt', logN: 15, r: 8, p: 1 },
+    argon2id: { name: 'argon2id', memory: 19456, iterations: 2, parallelism: 1 },
+  },
+  moderate: {
+    pbkdf2: { name: 'pbkdf2', hash: 'SHA-256', iterations: 600000 },
+    scrypt: { name: 'scrypt', logN: 17, r: 8, p: 1 },
+    argon2id: { name: 'argon2id', memory: 65536, iterations: 3, parallelism: 1 },
+  },
+  paranoid: {
+    pbkdf2: { name: 'pbkdf2', hash: 'SHA-512', iterations: 2000000 },
+    scrypt: { name: 'scrypt', logN: 18, r: 8, p: 1 },
+    argon2id: { name: 'argon2id', memory: 262144, iterations: 4, parallelism: 1 },
+  },
+};
+
+// Matches what encryptAES256 used before key derivation became configurable
+export const DEFAULT_KDF_COST: KdfCost = KDF_PROFILES.interactive.pbkdf2;
+
+// Upper bounds, a margin above the paranoid profile. Costs come from the
+// ciphertext when decrypting, so without them a crafted envelope could ask
+// for hours of work or more memory than the tab has.
+export const KDF_COST_LIMITS = {
+  pbkdf2Iterations: 10_000_000,
+  scryptLogN: 20,
+  // r * p, and 128 * r * N bytes of memory
+  scryptParallelWork: 2 ** 10,
+  scryptMemoryBytes: 2 ** 30,
+  argon2MemoryKiB: 2 ** 20,
+  argon2Iterations: 64,
+};
+
+export function checkKdfCost(cost: KdfCost) {
+  const unsupported = (detail: string) => new Error(`Unsupported KDF cost: ${detail}`);
+  switch (cost.name) {
+    case 'pbkdf2':
+      if (cost.iterations > KDF_COST_LIMITS.pbkdf2Iterations) {
+        throw unsupported(`${cost.iterations.toLocaleString()} PBKDF2 iterations is above the limit of ${KDF_COST_LIMITS.pbkdf2Iterations.toLocaleString()}`);
+      }
+      break;
+    case 'scrypt':
+      if (cost.logN > KDF_COST_LIMITS.scryptLogN) {
+        throw unsupported(`scrypt N=2^${cost.logN} is above the limit of 2^${KDF_COST_LIMITS.scryptLogN}`);
+      }
+      if (cost.r * cost.p > KDF_COST_LIMITS.scryptParallelWork) {
+        throw unsupported(`scrypt r*p=${cost.r * cost.p} is above the limit of ${KDF_COST_LIMITS.scryptParallelWork}`);
+      }
+      if (128 * cost.r * 2 ** cost.logN > KDF_COST_LIMITS.scryptMemoryBytes) {
+        throw unsupported(`scrypt needs more than ${KDF_COST_LIMITS.scryptMemoryBytes / 2 ** 30} GiB of memory`);
+      }
+      break;
+    case 'argon2id':
+      if (cost.memory > KDF_COST_LIMITS.argon2MemoryKiB) {
+        throw unsupported(`Argon2id memory of ${Math.round(cost.memory / 1024).toLocaleString()} MiB is above the limit of ${KDF_COST_LIMITS.argon2MemoryKiB / 1024} MiB`);
+      }
+      if (cost.iterations > KDF_COST_LIMITS.argon2Iterations) {
+        throw unsupported(`${cost.iterations.toLocaleString()} Argon2id passes is above the limit of ${KDF_COST_LIMITS.argon2Iterations}`);
+      }
+      break;
+  }
+}
+
+export function newKdfParams(cost: KdfCost = DEFAULT_KDF_COST): KdfParams {
+  return { ...cost, salt: crypto.getRandomValues(new Uint8Array(16)) };
+}
+
+export function describeKdf(cost: KdfCost): string {
+  switch (cost.name) {
+    case 'pbkdf2':
+      return `PBKDF2-${cost.hash} · ${cost.iterations.toLocaleString()} iterations`;
+    case 'scrypt':
+      return `scrypt · N=2^${cost.logN}, r=${cost.r}, p=${cost.p}`;
+    case 'argon2id':
+      return `Argon2id · ${Math.round(cost.memory / 1024)} MiB, t=${cost.iterations}, p=${cost.parallelism}`;
+  }
+}
+
+function toBytes(password: string | Uint8Array): Uint8Array {
+  return typeof password === 'string' ? new TextEncoder().encode(password) : password;
+}
+
+async function pbkdf2(password: Uint8Array, salt: Uint8Array, iterations: number, hash: KdfHash, length: number): Promise<Uint8Array> {
+  const keyMaterial = await crypto.subtle.importKey('raw', password, { name: 'PBKDF2' }, false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash }, keyMaterial, length * 8);
+  return new Uint8Array(bits);
+}
+
+// scrypt (RFC 7914)
+
+function salsa208(block: Uint32Array, x: Uint32Array) {
+  x.set(block);
+  const R = (a: number, b: number) => (a << b) | (a >>> (32 - b));
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= R(x[0] + x[12], 7); x[8] ^= R(x[4] + x[0], 9);
+    x[12] ^= R(x[8] + x[4], 13); x[0] ^= R(x[12] + x[8], 18);
+    x[9] ^= R(x[5] + x[1], 7); x[13] ^= R(x[9] + x[5], 9);
+    x[1] ^= R(x[13] + x[9], 13); x[5] ^= R(x[1] + x[13], 18);
+    x[14] ^= R(x[10] + x[6], 7); x[2] ^= R(x[14] + x[10], 9);
+    x[6] ^= R(x[2] + x[14], 13); x[10] ^= R(x[6] + x[2], 18);
+    x[3] ^= R(x[15] + x[11], 7); x[7] ^= R(x[3] + x[15], 9);
+    x[11] ^= R(x[7] + x[3], 13); x[15] ^= R(x[11] + x[7], 18);
+    x[1] ^= R(x[0] + x[3], 7); x[2] ^= R(x[1] + x[0], 9);
+    x[3] ^= R(x[2] + x[1], 13); x[0] ^= R(x[3] + x[2], 18);
+    x[6] ^= R(x[5] + x[4], 7); x[7] ^= R(x[6] + x[5], 9);
+    x[4] ^= R(x[7] + x[6], 13); x[5] ^= R(x[4] + x[7], 18);
+    x[11] ^= R(x[10] + x[9], 7); x[8] ^= R(x[11] + x[10], 9);
+    x[9] ^= R(x[8] + x[11], 13); x[10] ^= R(x[9] + x[8], 18);
+    x[12] ^= R(x[15] + x[14], 7); x[13] ^= R(x[12] + x[15], 9);
+    x[14] ^= R(x[13] + x[12], 13); x[15] ^= R(x[14] + x[13], 18);
+  }
+  for (let i = 0; i < 16; i++) block[i] += x[i];
+}
+
+function blockMix(input: Uint32Array, output: Uint32Array, r: number, scratch: Uint32Array) {
+  const block = scratch.subarray(0, 16);
+  const x = scratch.subarray(16, 32);
+  block.set(input.subarray((2 * r - 1) * 16, 2 * r * 16));
+
+  for (let i = 0; i < 2 * r; i++) {
+    for (let j = 0; j < 16; j++) block[j] ^= input[i * 16 + j];
+    salsa208(block, x);
+    // Even blocks go to the first half of the output, odd blocks to the second
+    output.set(block, ((i >> 1) + (i & 1) * r) * 16);
+  }
+}
+
+function roMix(b: Uint32Array, n: number, r: number) {
+  const words = 32 * r;
+  const v = new Uint32Array(words * n);
+  const x = b.slice();
+  const y = new Uint32Array(words);
+  const scratch = new Uint32Array(32);
+
+  for (let i = 0; i < n; i++) {
+    v.set(x, i * words);
+    blockMix(x, y, r, scratch);
+    x.set(y);
+  }
+  for (let i = 0; i < n; i++) {
+    const j = x[(2 * r - 1) * 16] & (n - 1);
+    for (let k = 0; k < words; k++) x[k] ^= v[j * words + k];
+    blockMix(x, y, r, scratch);
+    x.set(y);
+  }
+  b.set(x);
+}
+
+export async function scrypt(password: string | Uint8Array, params: ScryptParams, length = 32): Promise<Uint8Array> {
+  const passwordBytes = toBytes(password);
+  const { r, p } = params;
+  const n = 2 ** params.logN;
+  const blockBytes = 128 * r;
+
+  const b = await pbkdf2(passwordBytes, params.salt, 1, 'SHA-256', p * blockBytes);
+  const view = new DataView(b.buffer);
+  const words = new Uint32Array(32 * r);
+
+  for (let i = 0; i < p; i++) {
+    for (let k = 0; k < words.length; k++) words[k] = view.getUint32(i * blockBytes + k * 4, true);
+    roMix(words, n, r);
+    for (let k = 0; k < words.length; k++) view.setUint32(i * blockBytes + k * 4, words[k], true);
+  }
+
+  return pbkdf2(passwordBytes, b, 1, 'SHA-256', length);
+}
+
+// Argon2id (RFC 9106, version 0x13)
+
+const ARGON2_VERSION = 0x13;
+const ARGON2_TYPE_ID = 2;
+const SYNC_POINTS = 4;
+const BLOCK_WORDS = 256; // 1 KiB blocks as 32-bit words
+
+function le32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+}
+
+// Variable-length hash H' built from BLAKE2b
+function argon2Hash(input: Uint8Array, length: number): Uint8Array {
+  if (length <= 64) {
+    return createBlake2b(length).update(le32(length)).update(input).digest();
+  }
+
+  const output = new Uint8Array(length);
+  let v = createBlake2b(64).update(le32(length)).update(input).digest();
+  let offset = 0;
+  while (length - offset > 64) {
+    output.set(v.subarray(0, 32), offset);
+    offset += 32;
+    v = length - offset > 64 ? blake2b(v) : blake2b(v, length - offset);
+  }
+  output.set(v, offset);
+  return output;
+}
+
+// x = x + y + 2 * lo32(x) * lo32(y) on 64-bit words stored as lo, hi pairs
+function blamka(v: Uint32Array, x: number, y: number) {
+  const xl = v[2 * x], yl = v[2 * y];
+  const a0 = xl & 0xffff, a1 = xl >>> 16, b0 = yl & 0xffff, b1 = yl >>> 16;
+  const p00 = a0 * b0, p01 = a0 * b1, p10 = a1 * b0;
+  const mid = (p00 >>> 16) + (p01 & 0xffff) + (p10 & 0xffff);
+  const productLo = (((mid & 0xffff) << 16) | (p00 & 0xffff)) >>> 0;
+  const productHi = a1 * b1 + (p01 >>> 16) + (p10 >>> 16) + (mid >>> 16);
+
+  const lo = xl + yl + productLo * 2;
+  v[2 * x + 1] = v[2 * x + 1] + v[2 * y + 1] + productHi * 2 + Math.floor(lo / 0x100000000);
+  v[2 * x] = lo;
+}
+
+function rotrXor(v: Uint32Array, d: number, a: number, shift: number) {
+  const lo = v[2 * d] ^ v[2 * a];
+  const hi = v[2 * d + 1] ^ v[2 * a + 1];
+  if (shift === 32) {
+    v[2 * d] = hi;
+    v[2 * d + 1] = lo;
+  } else if (shift < 32) {
+    v[2 * d] = (lo >>> shift) | (hi << (32 - shift));
+    v[2 * d + 1] = (hi >>> shift) | (lo << (32 - shift));
+  } else {
+    const s = shift - 32;
+    v[2 * d] = (hi >>> s) | (lo << (32 - s));
+    v[2 * d + 1] = (lo >>> s) | (hi << (32 - s));
+  }
+}
+
+function gb(v: Uint32Array, a: number, b: number, c: number, d: number) {
+  blamka(v, a, b); rotrXor(v, d, a, 32);
+  blamka(v, c, d); rotrXor(v, b, c, 24);
+  blamka(v, a, b); rotrXor(v, d, a, 16);
+  blamka(v, c, d); rotrXor(v, b, c, 63);
+}
+
+// Permutation P over sixteen 64-bit words picked from the block by index
+function permute(block: Uint32Array, indices: number[], v: Uint32Array) {
+  for (let i = 0; i < 16; i++) {
+    v[2 * i] = block[2 * indices[i]];
+    v[2 * i + 1] = block[2 * indices[i] + 1];
+  }
+  gb(v, 0, 4, 8, 12); gb(v, 1, 5, 9, 13); gb(v, 2, 6, 10, 14); gb(v, 3, 7, 11, 15);
+  gb(v, 0, 5, 10, 15); gb(v, 1, 6, 11, 12); gb(v, 2, 7, 8, 13); gb(v, 3, 4, 9, 14);
+  for (let i = 0; i < 16; i++) {
+    block[2 * indices[i]] = v[2 * i];
+    block[2 * indices[i] + 1] = v[2 * i + 1];
+  }
+}
+
+const ROW_INDICES = Array.from({ length: 8 }, (_, row) => Array.from({ length: 16 }, (_, k) => row * 16 + k));
+const COLUMN_INDICES = Array.from({ length: 8 }, (_, column) =>
+  Array.from({ length: 16 }, (_, k) => 2 * column + 16 * (k >> 1) + (k & 1))
+);
+
+// Compression function G; with xorInto the result is XORed over the destination
+function compressBlock(
+  memory: Uint32Array, x: number, y: number, destination: number, xorInto: boolean,
+  r: Uint32Array, z: Uint32Array, v: Uint32Array
+) {
+  for (let i = 0; i < BLOCK_WORDS; i++) r[i] = memory[x + i] ^ memory[y + i];
+  z.set(r);
+  for (const indices of ROW_INDICES) permute(z, indices, v);
+  for (const indices of COLUMN_INDICES) permute(z, indices, v);
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    const value = z[i] ^ r[i];
+    memory[destination + i] = xorInto ? memory[destination + i] ^ value : value;
+  }
+}
+
+// floor(a * b / 2^32) for 32-bit unsigned a and b without losing precision
+function mulHi32(a: number, b: number): number {
+  const a0 = a & 0xffff, a1 = a >>> 16, b0 = b & 0xffff, b1 = b >>> 16;
+  const mid = ((a0 * b0) >>> 16) + ((a1 * b0) & 0xffff) + ((a0 * b1) & 0xffff);
+  return a1 * b1 + ((a1 * b0) >>> 16) + ((a0 * b1) >>> 16) + (mid >>> 16);
+}
+
+export async function argon2id(password: string | Uint8Array, params: Argon2idParams, length = 32): Promise<Uint8Array> {
+  const passwordBytes = toBytes(password);
+  const { iterations, parallelism: lanes, salt } = params;
+  if (salt.length < 8) throw new Error('Argon2 salt must be at least 8 bytes');
+  if (lanes < 1 || iterations < 1) throw new Error('Invalid Argon2 parameters');
+
+  const blockCount = Math.max(params.memory, 8 * lanes) - (Math.max(params.memory, 8 * lanes) % (4 * lanes));
+  const laneLength = blockCount / lanes;
+  const segmentLength = laneLength / SYNC_POINTS;
+
+  const h0 = createBlake2b(64)
+    .update(le32(lanes)).update(le32(length)).update(le32(params.memory)).update(le32(iterations))
+    .update(le32(ARGON2_VERSION)).update(le32(ARGON2_TYPE_ID))
+    .update(le32(passwordBytes.length)).update(passwordBytes)
+    .update(le32(salt.length)).update(salt)
+    .update(le32(0)).update(le32(0))
+    .digest();
+
+  const memory = new Uint32Array(blockCount * BLOCK_WORDS);
+  const blockOffset = (lane: number, index: number) => (lane * laneLength + index) * BLOCK_WORDS;
+  const loadBlock = (offset: number, bytes: Uint8Array) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let i = 0; i < BLOCK_WORDS; i++) memory[offset + i] = view.getUint32(i * 4, true);
+  };
+
+  const seed = new Uint8Array(72);
+  seed.set(h0);
+  for (let lane = 0; lane < lanes; lane++) {
+    seed.set(le32(lane), 68);
+    seed.set(le32(0), 64);
+    loadBlock(blockOffset(lane, 0), argon2Hash(seed, 1024));
+    seed.set(le32(1), 64);
+    loadBlock(blockOffset(lane, 1), argon2Hash(seed, 1024));
+  }
+
+  // Scratch space: R, Z and the 16-word working vector, plus address generation blocks
+  const r = new Uint32Array(BLOCK_WORDS);
+  const z = new Uint32Array(BLOCK_WORDS);
+  const v = new Uint32Array(32);
+  const addressMemory = new Uint32Array(BLOCK_WORDS * 4); // zero | input | temp | addresses
+  const ZERO = 0, INPUT = BLOCK_WORDS, TEMP = 2 * BLOCK_WORDS, ADDRESSES = 3 * BLOCK_WORDS;
+
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      for (let lane = 0; lane < lanes; lane++) {
+        const independent = pass === 0 && slice < 2;
+        if (independent) {
+          addressMemory.fill(0, INPUT, INPUT + BLOCK_WORDS);
+          addressMemory[INPUT] = pass;
+          addressMemory[INPUT + 2] = lane;
+          addressMemory[INPUT + 4] = slice;
+          addressMemory[INPUT + 6] = blockCount;
+          addressMemory[INPUT + 8] = iterations;
+          addressMemory[INPUT + 10] = ARGON2_TYPE_ID;
+        }
+
+        const startIndex = pass === 0 && slice === 0 ? 2 : 0;
+        for (let index = startIndex; index < segmentLength; index++) {
+          const position = slice * segmentLength + index;
+          const previous = blockOffset(lane, position === 0 ? laneLength - 1 : position - 1);
+
+          let j1: number, j2: number;
+          if (independent) {
+            if (index % 128 === 0 || index === startIndex) {
+              // Counter lives in the seventh 64-bit word of the input block
+              addressMemory[INPUT + 12] += 1;
+              compressBlock(addressMemory, ZERO, INPUT, TEMP, false, r, z, v);
+              compressBlock(addressMemory, ZERO, TEMP, ADDRESSES, false, r, z, v);
+            }
+            j1 = addressMemory[ADDRESSES + 2 * (index % 128)];
+            j2 = addressMemory[ADDRESSES + 2 * (index % 128) + 1];
+          } else {
+            j1 = memory[previous];
+            j2 = memory[previous + 1];
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+          const sameLane = refLane === lane;
+
+          let areaSize: number;
+          if (pass === 0) {
+            areaSize = sameLane
+              ? position - 1
+              : slice * segmentLength - (index === 0 ? 1 : 0);
+          } else {
+            areaSize = sameLane
+              ? laneLength - segmentLength + index - 1
+              : laneLength - segmentLength - (index === 0 ? 1 : 0);
+          }
+
+          const x = mulHi32(j1, j1);
+          const relative = areaSize - 1 - mulHi32(areaSize, x);
+          const start = pass === 0 || slice === SYNC_POINTS - 1 ? 0 : (slice + 1) * segmentLength;
+          const refIndex = (start + relative) % laneLength;
+
+          compressBlock(memory, previous, blockOffset(refLane, refIndex), blockOffset(lane, position), pass > 0, r, z, v);
+        }
+      }
+      // Let the event loop breathe between slices on large memory settings
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  const final = memory.slice(blockOffset(0, laneLength - 1), blockOffset(0, laneLength - 1) + BLOCK_WORDS);
+  for (let lane = 1; lane < lanes; lane++) {
+    const offset = blockOffset(lane, laneLength - 1);
+    for (let i = 0; i < BLOCK_WORDS; i++) final[i] ^= memory[offset + i];
+  }
+  const finalBytes = new Uint8Array(1024);
+  const finalView = new DataView(finalBytes.buffer);
+  for (let i = 0; i < BLOCK_WORDS; i++) finalView.setUint32(i * 4, final[i], true);
+
+  return argon2Hash(finalBytes, length);
+}
+
+export async function deriveKeyBytes(password: string | Uint8Array, params: KdfParams, length = 32): Promise<Uint8Array> {
+  checkKdfCost(params);
+  switch (params.name) {
+    case 'pbkdf2':
+      return pbkdf2(toBytes(password), params.salt, params.iterations, params.hash, length);
+    case 'scrypt':
+      return scrypt(password, params, length);
+    case 'argon2id':
+      return argon2id(password, params, length);
+  }
+}
+
+// Find the cost that makes one derivation take roughly targetMs on this machine
+export async function calibrateKdf(cost: KdfCost, targetMs: number): Promise<KdfCost> {
+  const time = async (candidate: KdfCost) => {
+    const start = performance.now();
+    await deriveKeyBytes('calibration', newKdfParams(candidate));
+    return performance.now() - start;
+  };
+
+  switch (cost.name) {
+    case 'pbkdf2': {
+      const sample = { ...cost, iterations: 50000 };
+      const elapsed = await time(sample);
+      const iterations = Math.round((sample.iterations * targetMs) / Math.max(elapsed, 1) / 1000) * 1000;
+      return { ...cost, iterations: Math.min(KDF_COST_LIMITS.pbkdf2Iterations, Math.max(10000, iterations)) };
+    }
+    case 'scrypt': {
+      // Memory and time both double with N, so step logN until the target is crossed
+      let logN = 10;
+      let elapsed = await time({ ...cost, logN });
+      while (elapsed * 2 <= targetMs && logN < 20) {
+        logN++;
+        elapsed = await time({ ...cost, logN });
+      }
+      return { ...cost, logN };
+    }
+    case 'argon2id': {
+      // Keep the memory cost and scale passes, which grow time linearly
+      const elapsed = await time({ ...cost, iterations: 1 });
+      const iterations = Math.max(1, Math.round(targetMs / Math.max(elapsed, 1)));
+      return { ...cost, iterations: Math.min(KDF_COST_LIMITS.argon2Iterations, iterations) };
+    }
+  }
+}
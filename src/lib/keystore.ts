@@ -0,0 +1,36 @@
+// Algorithms of the key pairs kept in the key vault (see vault.ts)
+
+import type { KeyAlgorithm, KeyPair, KeyPairUsage } from './crypto';
+
+export const KEY_ALGORITHMS: Record<KeyAlgorithm, { name: string; usage: 'encryption' | 'signing' }> = {
+  'RSA-OAEP': { name: 'RSA-OAEP', usage: 'encryption' },
+  'RSA-PSS': { name: 'RSA-PSS', usage: 'signing' },
+  'ECDSA-P256': { name: 'ECDSA P-256', usage: 'signing' },
+  'ECDSA-P384': { name: 'ECDSA P-384', usage: 'signing' },
+  'ECDH-P256': { name: 'ECDH P-256', usage: 'encryption' },
+  'ECDH-P384': { name: 'ECDH P-384', usage: 'encryption' },
+  'X25519': { name: 'X25519', usage: 'encryption' },
+};
+
+export function keyAlgorithmOf(keyPair: Pick<KeyPair, 'algorithm'>): KeyAlgorithm {
+  return keyPair.algorithm ?? 'RSA-OAEP';
+}
+
+// What the algorithm allows, narrowed by the key's usage flags
+export function keyUsagesOf(keyPair: Pick<KeyPair, 'algorithm' | 'usages'>): KeyPairUsage[] {
+  const supported: KeyPairUsage = KEY_ALGORITHMS[keyAlgorithmOf(keyPair)].usage === 'encryption' ? 'encrypt' : 'sign';
+  return (keyPair.usages ?? [supported]).filter(usage => usage === supported);
+}
+
+export function isKeyExpired(keyPair: Pick<KeyPair, 'expires'>, now = new Date()): boolean {
+  return !!keyPair.expires && new Date(keyPair.expires) <= now;
+}
+
+// Whether a key should be offered for new encryptions or signatures. Expired,
+// retired and restricted keys still decrypt and verify what they produced earlier.
+export function canUseKeyFor(
+  keyPair: Pick<KeyPair, 'algorithm' | 'usages' | 'expires' | 'retired'>,
+  usage: KeyPairUsage
+): boolean {
+  return keyUsagesOf(keyPair).includes(usage) && !isKeyExpired(keyPair) && !keyPair.retired;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToBase64 } from './encoding';
+import { createPaperKey, restorePaperKey, scanPaperKeyImage } from './paperkey';
+import { encodeQr, type QrImage, type QrMatrix } from './qrcode';
+
+const SCALE = 4;
+const MARGIN = 4;
+
+// Draws the matrix black on white, as a scan of a printed page would show it
+function render(matrix: QrMatrix): QrImage {
+  const size = (matrix.length + MARGIN * 2) * SCALE;
+  const data = new Uint8ClampedArray(size * size * 4).fill(255);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const row = matrix[Math.floor(y / SCALE) - MARGIN];
+      if (row?.[Math.floor(x / SCALE) - MARGIN]) {
+        const offset = (y * size + x) * 4;
+        data[offset] = data[offset + 1] = data[offset + 2] = 0;
+      }
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+async function exportPrivateKey(keyPair: CryptoKeyPair): Promise<string> {
+  return bytesToBase64(new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey)));
+}
+
+function generateP256(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+}
+
+function generateRsa2048(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(
+    { name: 'RSA-OAEP', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Prints each code on its own page and scans the pages back, last first
+function printAndScan(qrCodes: string[]): string[] {
+  return [...qrCodes].reverse().flatMap(code => scanPaperKeyImage(render(encodeQr(code))));
+}
+
+describe('paper key round trips', () => {
+  it('restores a P-256 key from scanned QR codes', async () => {
+    const privateKey = await exportPrivateKey(await generateP256());
+    const paperKey = await createPaperKey(privateKey, 'ECDSA-P256');
+    expect(paperKey.qrCodes).toHaveLength(1);
+
+    const restored = await restorePaperKey({ qrCodes: printAndScan(paperKey.qrCodes) });
+    expect(restored).toMatchObject({ privateKey, algorithm: 'ECDSA-P256' });
+  });
+
+  it('restores an RSA-2048 key spread over four QR codes', async () => {
+    const privateKey = await exportPrivateKey(await generateRsa2048());
+    const paperKey = await createPaperKey(privateKey, 'RSA-OAEP');
+    expect(paperKey.words).toBeUndefined();
+    expect(paperKey.qrCodes).toHaveLength(4);
+
+    const scanned = printAndScan(paperKey.qrCodes);
+    expect(await restorePaperKey({ qrCodes: scanned })).toMatchObject({ privateKey, algorithm: 'RSA-OAEP', keySize: 2048 });
+    await expect(restorePaperKey({ qrCodes: scanned.slice(1) })).rejects.toThrow('QR code 4 of 4 missing');
+  });
+
+  it('restores a P-256 key from its words', async () => {
+    const privateKey = await exportPrivateKey(await generateP256());
+    const paperKey = await createPaperKey(privateKey, 'ECDSA-P256');
+    const words = paperKey.words!.join(' ');
+
+    expect(await restorePaperKey({ words })).toMatchObject({ privateKey, algorithm: 'ECDSA-P256' });
+    // Words are read on their first four letters
+    const shortened = paperKey.words!.map(word => word.slice(0, 4)).join(' ');
+    expect(await restorePaperKey({ words: shortened })).toMatchObject({ privateKey });
+    const swapped = [paperKey.words![1], paperKey.words![0], ...paperKey.words!.slice(2)].join(' ');
+    await expect(restorePaperKey({ words: swapped })).rejects.toThrow('checksum does not match');
+  });
+
+  it('restores a passphrase-protected key from its words', async () => {
+    const privateKey = await exportPrivateKey(await generateP256());
+    const paperKey = await createPaperKey(privateKey, 'ECDSA-P256', 'paper tiger');
+    expect(paperKey.encrypted).toBe(true);
+    const words = paperKey.words!.join(' ');
+
+    expect(await restorePaperKey({ words }, 'paper tiger')).toMatchObject({ privateKey, algorithm: 'ECDSA-P256' });
+    await expect(restorePaperKey({ words })).rejects.toThrow('protected by a passphrase');
+    await expect(restorePaperKey({ words }, 'paper lion')).rejects.toThrow('Wrong passphrase');
+  });
+});
+
+describe('scanPaperKeyImage', () => {
+  it('says when the image has no QR code at all', () => {
+    const blank = { width: 100, height: 100, data: new Uint8ClampedArray(100 * 100 * 4).fill(255) };
+    expect(() => scanPaperKeyImage(blank)).toThrow('No QR code found');
+  });
+
+  it('says when the QR codes are not from a paper backup', () => {
+    expect(() => scanPaperKeyImage(render(encodeQr('https://example.com')))).toThrow('none from a paper backup');
+  });
+});
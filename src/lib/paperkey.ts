@@ -0,0 +1,221 @@
+// Paper backups of private keys: a word list and QR codes to print and
+// type or scan back in, without any file to lose
+//
+// The payload is
+//   version (1) | flags (1) | algorithm (1) | body length (2) | body | checksum (4)
+// where the body is the PKCS#8 private key or, with a passphrase, a PBES2
+// EncryptedPrivateKeyInfo around it, and the checksum is the start of
+// SHA-256 over everything before it. Each word carries 11 bits of the
+// payload. QR codes carry it as Base32 split into chunks:
+//   WLPK:<index>/<count>:<backup id>:<data>
+// which stays in the QR alphanumeric set; the backup id (the checksum in
+// Base32) keeps chunks of different backups apart.
+
+import type { KeyAlgorithm } from './crypto';
+import { base32ToBytes, base64ToBytes, bytesToBase32, bytesToBase64, concatBytes } from './encoding';
+import { KEY_FAMILY_ALGORITHMS, decryptPkcs8, encryptPkcs8, importKeyMaterial, type ImportedKey } from './keyformats';
+import { decodeQrCodes, type QrImage } from './qrcode';
+import { WORDLIST } from './wordlist';
+
+export interface PaperKey {
+  encrypted: boolean;
+  // Missing when the key is too long to write down, as RSA keys are
+  words?: string[];
+  // Texts of the QR codes to print, in order
+  qrCodes: string[];
+}
+
+export interface PaperKeyInput {
+  words?: string;
+  qrCodes?: string[];
+}
+
+const PAPER_KEY_PREFIX = 'WLPK';
+const PAPER_KEY_VERSION = 1;
+const FLAG_ENCRYPTED = 0x01;
+const HEADER_LENGTH = 5;
+const CHECKSUM_LENGTH = 4;
+const BITS_PER_WORD = 11;
+// Beyond this many words, typing them back in is not a realistic recovery
+const MAX_WORDS = 200;
+// Base32 characters per QR code; about version 16 at medium error correction
+const QR_CHUNK_LENGTH = 600;
+
+// Stored by position: add new algorithms at the end, never reorder
+const ALGORITHM_IDS: KeyAlgorithm[] = ['RSA-OAEP', 'RSA-PSS', 'ECDSA-P256', 'ECDSA-P384', 'ECDH-P256', 'ECDH-P384', 'X25519'];
+
+async function checksum(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes), 0, CHECKSUM_LENGTH);
+}
+
+function bytesToWords(bytes: Uint8Array): string[] {
+  const words: string[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= BITS_PER_WORD) {
+      bits -= BITS_PER_WORD;
+      words.push(WORDLIST[(buffer >> bits) & 0x7ff]);
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) {
+    words.push(WORDLIST[(buffer << (BITS_PER_WORD - bits)) & 0x7ff]);
+  }
+  return words;
+}
+
+// Words are matched on their first four letters, so "abando" or a
+// misspelled ending still reads as "abandon"
+function wordsToBytes(text: string): Uint8Array {
+  const words = text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const bytes = new Uint8Array(Math.floor((words.length * BITS_PER_WORD) / 8));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  words.forEach((word, index) => {
+    const value = WORDLIST.findIndex(candidate => candidate.startsWith(word.slice(0, 4)) && (word.length >= 4 || candidate === word));
+    if (value < 0) {
+      throw new Error(`Word ${index + 1} ("${word}") is not in the word list`);
+    }
+    buffer = (buffer << BITS_PER_WORD) | value;
+    bits += BITS_PER_WORD;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+    buffer &= (1 << bits) - 1;
+  });
+  return bytes;
+}
+
+async function encodePayload(body: Uint8Array, algorithm: KeyAlgorithm, encrypted: boolean): Promise<Uint8Array> {
+  const header = new Uint8Array([
+    PAPER_KEY_VERSION,
+    encrypted ? FLAG_ENCRYPTED : 0,
+    ALGORITHM_IDS.indexOf(algorithm),
+    body.length >> 8,
+    body.length & 0xff
+  ]);
+  const payload = concatBytes(header, body);
+  return concatBytes(payload, await checksum(payload));
+}
+
+// Trailing bytes are the padding of the last word
+async function decodePayload(bytes: Uint8Array) {
+  if (bytes.length < HEADER_LENGTH + CHECKSUM_LENGTH) {
+    throw new Error('The backup is incomplete');
+  }
+  const [version, flags, algorithmId, lengthHigh, lengthLow] = bytes;
+  const length = HEADER_LENGTH + ((lengthHigh << 8) | lengthLow);
+  if (bytes.length < length + CHECKSUM_LENGTH) {
+    throw new Error('The backup is incomplete; check that no words or QR codes are missing');
+  }
+
+  const expected = await checksum(bytes.subarray(0, length));
+  if (expected.some((byte, i) => byte !== bytes[length + i])) {
+    throw new Error('The backup checksum does not match; check the words for typos');
+  }
+  if (version !== PAPER_KEY_VERSION) {
+    throw new Error(`Unsupported paper backup version ${version}`);
+  }
+  const algorithm = ALGORITHM_IDS[algorithmId];
+  if (!algorithm) {
+    throw new Error('The backup is for an unknown key algorithm');
+  }
+
+  return { encrypted: (flags & FLAG_ENCRYPTED) !== 0, algorithm, body: bytes.slice(HEADER_LENGTH, length) };
+}
+
+export async function createPaperKey(privateKeyB64: string, algorithm: KeyAlgorithm, passphrase?: string): Promise<PaperKey> {
+  const pkcs8 = base64ToBytes(privateKeyB64);
+  const body = passphrase ? await encryptPkcs8(pkcs8, passphrase) : pkcs8;
+  const payload = await encodePayload(body, algorithm, Boolean(passphrase));
+
+  const data = bytesToBase32(payload);
+  const id = bytesToBase32(payload.subarray(payload.length - CHECKSUM_LENGTH));
+  const count = Math.ceil(data.length / QR_CHUNK_LENGTH);
+  const qrCodes = Array.from({ length: count }, (_, i) =>
+    `${PAPER_KEY_PREFIX}:${i + 1}/${count}:${id}:${data.slice(i * QR_CHUNK_LENGTH, (i + 1) * QR_CHUNK_LENGTH)}`
+  );
+
+  const words = bytesToWords(payload);
+  return { encrypted: Boolean(passphrase), words: words.length <= MAX_WORDS ? words : undefined, qrCodes };
+}
+
+export function isPaperKeyQrCode(text: string): boolean {
+  return text.startsWith(`${PAPER_KEY_PREFIX}:`);
+}
+
+// Puts scanned chunks back together in order; duplicates from scanning
+// the same code twice are fine
+function joinQrChunks(texts: string[]): Uint8Array {
+  const chunks = new Map<number, string>();
+  let expectedCount: number | null = null;
+  let expectedId: string | null = null;
+
+  for (const text of texts.filter(isPaperKeyQrCode)) {
+    const match = text.match(/^WLPK:(\d+)\/(\d+):([A-Z2-7]+):([A-Z2-7]*)$/);
+    if (!match) {
+      throw new Error('Malformed paper backup QR code');
+    }
+    const [, index, count, id, data] = match;
+    if ((expectedId !== null && id !== expectedId) || (expectedCount !== null && Number(count) !== expectedCount)) {
+      throw new Error('The QR codes come from different backups');
+    }
+    expectedId = id;
+    expectedCount = Number(count);
+    chunks.set(Number(index), data);
+  }
+
+  if (expectedCount === null) {
+    throw new Error('No paper backup QR codes found');
+  }
+  const missing = Array.from({ length: expectedCount }, (_, i) => i + 1).filter(index => !chunks.has(index));
+  if (missing.length > 0) {
+    throw new Error(`QR code${missing.length > 1 ? 's' : ''} ${missing.join(', ')} of ${expectedCount} missing`);
+  }
+  return base32ToBytes([...chunks.entries()].sort(([a], [b]) => a - b).map(([, data]) => data).join(''));
+}
+
+// Reads the backup QR codes in a photo or scan of a printed backup page
+export function scanPaperKeyImage(image: QrImage): string[] {
+  const decoded = decodeQrCodes(image);
+  if (decoded.length === 0) {
+    throw new Error('No QR code found in the image; try a sharper, straighter photo with the whole page in view');
+  }
+  const codes = decoded.filter(isPaperKeyQrCode);
+  if (codes.length === 0) {
+    throw new Error('The image has QR codes, but none from a paper backup');
+  }
+  return codes;
+}
+
+// Restores the key pair from typed words or scanned QR codes. The algorithm
+// stored in the backup replaces the one guessed from the key type.
+export async function restorePaperKey(input: PaperKeyInput, passphrase?: string): Promise<ImportedKey> {
+  const bytes = input.qrCodes?.length ? joinQrChunks(input.qrCodes) : wordsToBytes(input.words ?? '');
+  const { encrypted, algorithm, body } = await decodePayload(bytes);
+
+  let pkcs8 = body;
+  if (encrypted) {
+    if (!passphrase) {
+      throw new Error('This backup is protected by a passphrase; enter it');
+    }
+    try {
+      pkcs8 = await decryptPkcs8(body, passphrase);
+    } catch (error) {
+      // A crafted backup can ask for more PBKDF2 work than is allowed
+      if (error instanceof Error && error.message.startsWith('Unsupported KDF cost')) throw error;
+      throw new Error('Wrong passphrase for this backup');
+    }
+  }
+
+  const [key] = await importKeyMaterial(bytesToBase64(pkcs8));
+  if (!KEY_FAMILY_ALGORITHMS[key.family].includes(algorithm)) {
+    throw new Error(`The backup says ${algorithm}, but holds a ${key.family} key`);
+  }
+  return { ...key, algorithm };
+}
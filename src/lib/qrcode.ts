@@ -0,0 +1,1031 @@
+// QR Code (ISO/IEC 18004) encoding and decoding in plain TypeScript
+//
+// The encoder picks the smallest version that fits, using alphanumeric mode
+// when the text allows it and UTF-8 byte mode otherwise. The decoder reads
+// QR codes from an image: it binarizes against local brightness, finds the
+// three finder patterns (and the bottom-right alignment pattern, to undo
+// perspective), samples the module grid and corrects errors with
+// Reed-Solomon. An image may hold several codes, such as a scanned page.
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// true is a dark module; rows top to bottom
+export type QrMatrix = boolean[][];
+
+export interface QrImage {
+  width: number;
+  height: number;
+  // RGBA, as in ImageData
+  data: Uint8ClampedArray;
+}
+
+const EC_LEVELS: QrErrorCorrection[] = ['L', 'M', 'Q', 'H'];
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Per version 1-40 (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+const ALPHANUMERIC = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+const MODE_NUMERIC = 0x1;
+const MODE_ALPHANUMERIC = 0x2;
+const MODE_BYTE = 0x4;
+const MODE_ECI = 0x7;
+
+// GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1; generator 2
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = x;
+  LOG[x] = i;
+  x = (x << 1) ^ (x & 0x80 ? 0x11d : 0);
+}
+
+function gfMul(a: number, b: number): number {
+  return a && b ? EXP[LOG[a] + LOG[b]] : 0;
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero');
+  return a ? EXP[LOG[a] + 255 - LOG[b]] : 0;
+}
+
+function gfPow2(power: number): number {
+  return EXP[((power % 255) + 255) % 255];
+}
+
+// Structure of a version
+
+function sizeOf(version: number): number {
+  return version * 4 + 17;
+}
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number, level: QrErrorCorrection): number {
+  return Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version];
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let position = sizeOf(version) - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+function characterCountBits(mode: number, version: number): number {
+  const band = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  switch (mode) {
+    case MODE_NUMERIC: return [10, 12, 14][band];
+    case MODE_ALPHANUMERIC: return [9, 11, 13][band];
+    default: return [8, 16, 16][band];
+  }
+}
+
+function formatInfo(level: QrErrorCorrection, mask: number): number {
+  const data = (FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+function versionInfo(version: number): number {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  return (version << 12) | remainder;
+}
+
+// Format information positions, bit 0 first: [x, y] for each copy
+function formatPositions(size: number): [number, number][][] {
+  const first: [number, number][] = [];
+  const second: [number, number][] = [];
+  for (let i = 0; i <= 5; i++) first.push([8, i]);
+  first.push([8, 7], [8, 8], [7, 8]);
+  for (let i = 9; i < 15; i++) first.push([14 - i, 8]);
+  for (let i = 0; i < 8; i++) second.push([size - 1 - i, 8]);
+  for (let i = 8; i < 15; i++) second.push([8, size - 15 + i]);
+  return [first, second];
+}
+
+interface Template {
+  size: number;
+  modules: QrMatrix;
+  isFunction: boolean[][];
+}
+
+// Finder, alignment and timing patterns plus reserved format and version
+// areas; the same template tells the decoder which modules hold data
+function functionTemplate(version: number): Template {
+  const size = sizeOf(version);
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        set(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => positions.forEach((cy, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }));
+
+  // Reserve the format areas and the always-dark module
+  for (const copy of formatPositions(size)) {
+    for (const [x, y] of copy) set(x, y, false);
+  }
+  set(8, size - 8, true);
+
+  if (version >= 7) {
+    const bits = versionInfo(version);
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
+
+  return { size, modules, isFunction };
+}
+
+// Data module coordinates in placement order: two-column strips from the
+// right edge, alternating upwards and downwards, skipping the timing column
+function dataPositions({ size, isFunction }: Template): [number, number][] {
+  const positions: [number, number][] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const y = upward ? size - 1 - vertical : vertical;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (!isFunction[y][x]) positions.push([x, y]);
+      }
+    }
+  }
+  return positions;
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// Block layout: short blocks come first and hold one data codeword fewer
+function blockLayout(version: number, level: QrErrorCorrection) {
+  const blocks = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blocks - (rawCodewords % blocks);
+  const shortBlockLength = Math.floor(rawCodewords / blocks);
+  return { blocks, eccLength, rawCodewords, shortBlocks, shortBlockLength };
+}
+
+// Reed-Solomon
+
+function generatorPolynomial(degree: number): Uint8Array {
+  // Coefficients from the highest power down, monic term omitted
+  const result = new Uint8Array(degree);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMul(result[j], root) ^ (j + 1 < degree ? result[j + 1] : 0);
+    }
+    root = gfMul(root, 2);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: Uint8Array, generator: Uint8Array): Uint8Array {
+  const result = new Uint8Array(generator.length);
+  for (const byte of data) {
+    const factor = byte ^ result[0];
+    result.copyWithin(0, 1);
+    result[result.length - 1] = 0;
+    generator.forEach((coefficient, i) => {
+      result[i] ^= gfMul(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// Corrects up to eccLength / 2 errors in place (Berlekamp-Massey, Chien
+// search, Forney). Codeword k is the coefficient of x^(n - 1 - k).
+function reedSolomonCorrect(codewords: Uint8Array, eccLength: number) {
+  const n = codewords.length;
+  const syndromes = new Uint8Array(eccLength);
+  let hasErrors = false;
+  for (let j = 0; j < eccLength; j++) {
+    let value = 0;
+    const root = gfPow2(j);
+    for (const codeword of codewords) value = gfMul(value, root) ^ codeword;
+    syndromes[j] = value;
+    if (value) hasErrors = true;
+  }
+  if (!hasErrors) return;
+
+  // Error locator, lowest power first
+  let locator = [1];
+  let previous = [1];
+  let length = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+  for (let i = 0; i < eccLength; i++) {
+    let discrepancy = syndromes[i];
+    for (let j = 1; j <= length; j++) discrepancy ^= gfMul(locator[j] ?? 0, syndromes[i - j]);
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+
+    const scale = gfDiv(discrepancy, previousDiscrepancy);
+    const updated = locator.slice();
+    previous.forEach((coefficient, j) => {
+      updated[j + shift] = (updated[j + shift] ?? 0) ^ gfMul(scale, coefficient);
+    });
+    if (2 * length <= i) {
+      previous = locator;
+      length = i + 1 - length;
+      previousDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = updated;
+  }
+  if (2 * length > eccLength) {
+    throw new Error('Too many errors to correct');
+  }
+
+  const evaluate = (poly: number[], x: number) => poly.reduceRight((sum, coefficient) => gfMul(sum, x) ^ coefficient, 0);
+
+  // Error evaluator: syndromes times locator, mod x^eccLength
+  const evaluator = new Array<number>(eccLength).fill(0);
+  for (let i = 0; i < eccLength; i++) {
+    for (let j = 0; j <= Math.min(i, locator.length - 1); j++) {
+      evaluator[i] ^= gfMul(syndromes[i - j], locator[j] ?? 0);
+    }
+  }
+  const derivative = locator.map((coefficient, i) => (i % 2 === 1 ? coefficient : 0)).slice(1);
+
+  let found = 0;
+  for (let power = 0; power < n; power++) {
+    const inverse = gfPow2(-power);
+    if (evaluate(locator, inverse) !== 0) continue;
+    const denominator = evaluate(derivative, inverse);
+    if (denominator === 0) throw new Error('Too many errors to correct');
+    const magnitude = gfMul(gfPow2(power), gfDiv(evaluate(evaluator, inverse), denominator));
+    codewords[n - 1 - power] ^= magnitude;
+    found++;
+  }
+  if (found !== length) {
+    throw new Error('Too many errors to correct');
+  }
+}
+
+// Encoding
+
+class BitBuffer {
+  bits: number[] = [];
+
+  append(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) this.bits.push((value >>> i) & 1);
+  }
+}
+
+function encodeSegment(text: string, version: number): BitBuffer {
+  const buffer = new BitBuffer();
+  if ([...text].every(char => ALPHANUMERIC.includes(char))) {
+    buffer.append(MODE_ALPHANUMERIC, 4);
+    buffer.append(text.length, characterCountBits(MODE_ALPHANUMERIC, version));
+    for (let i = 0; i + 1 < text.length; i += 2) {
+      buffer.append(ALPHANUMERIC.indexOf(text[i]) * 45 + ALPHANUMERIC.indexOf(text[i + 1]), 11);
+    }
+    if (text.length % 2 === 1) buffer.append(ALPHANUMERIC.indexOf(text[text.length - 1]), 6);
+  } else {
+    const bytes = new TextEncoder().encode(text);
+    buffer.append(MODE_BYTE, 4);
+    buffer.append(bytes.length, characterCountBits(MODE_BYTE, version));
+    bytes.forEach(byte => buffer.append(byte, 8));
+  }
+  return buffer;
+}
+
+function penaltyScore(modules: QrMatrix): number {
+  const size = modules.length;
+  let penalty = 0;
+
+  const linePenalty = (line: boolean[]) => {
+    let score = 0;
+    let run = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        run++;
+        continue;
+      }
+      if (run >= 5) score += run - 2;
+      run = 1;
+    }
+    // Finder-like 1:1:3:1:1 runs with four light modules on either side
+    const text = line.map(dark => (dark ? '1' : '0')).join('');
+    for (const pattern of ['10111010000', '00001011101']) {
+      for (let index = text.indexOf(pattern); index >= 0; index = text.indexOf(pattern, index + 1)) score += 40;
+    }
+    return score;
+  };
+
+  for (let y = 0; y < size; y++) penalty += linePenalty(modules[y]);
+  for (let x = 0; x < size; x++) penalty += linePenalty(modules.map(row => row[x]));
+
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (x + 1 < size && y + 1 < size) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) penalty += 3;
+      }
+    }
+  }
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+}
+
+// Encodes text at the smallest version that fits, raising the error
+// correction level when that costs no extra size
+export function encodeQr(text: string, level: QrErrorCorrection = 'M'): QrMatrix {
+  let version = 1;
+  let segment = encodeSegment(text, version);
+  for (; ; version++) {
+    if (version > 40) throw new Error('Text is too long for a QR code');
+    if (version === 10 || version === 27) segment = encodeSegment(text, version);
+    if (segment.bits.length <= dataCodewords(version, level) * 8) break;
+  }
+  for (const higher of EC_LEVELS.slice(EC_LEVELS.indexOf(level) + 1)) {
+    if (segment.bits.length <= dataCodewords(version, higher) * 8) level = higher;
+  }
+
+  // Terminator, byte alignment and alternating pad bytes
+  const capacity = dataCodewords(version, level) * 8;
+  const buffer = new BitBuffer();
+  buffer.bits = segment.bits.slice();
+  buffer.append(0, Math.min(4, capacity - buffer.bits.length));
+  buffer.append(0, (8 - (buffer.bits.length % 8)) % 8);
+  for (let pad = 0xec; buffer.bits.length < capacity; pad ^= 0xec ^ 0x11) buffer.append(pad, 8);
+
+  const data = new Uint8Array(buffer.bits.length / 8);
+  buffer.bits.forEach((bit, i) => {
+    data[i >>> 3] |= bit << (7 - (i & 7));
+  });
+
+  // Split into blocks, add error correction and interleave
+  const { blocks, eccLength, rawCodewords, shortBlocks, shortBlockLength } = blockLayout(version, level);
+  const generator = generatorPolynomial(eccLength);
+  const blockData: number[][] = [];
+  for (let i = 0, offset = 0; i < blocks; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const chunk = data.subarray(offset, offset + length);
+    offset += length;
+    const block = [...chunk];
+    if (i < shortBlocks) block.push(0);
+    blockData.push([...block, ...reedSolomonRemainder(chunk, generator)]);
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i <= shortBlockLength; i++) {
+    blockData.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) codewords.push(block[i]);
+    });
+  }
+  if (codewords.length !== rawCodewords) throw new Error('QR block layout mismatch');
+
+  const template = functionTemplate(version);
+  const positions = dataPositions(template);
+
+  let best: QrMatrix | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    const modules = template.modules.map(row => row.slice());
+    positions.forEach(([x, y], i) => {
+      const bit = i < codewords.length * 8 && ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+      modules[y][x] = bit !== maskBit(mask, x, y);
+    });
+    const format = formatInfo(level, mask);
+    for (const copy of formatPositions(template.size)) {
+      copy.forEach(([x, y], i) => {
+        modules[y][x] = ((format >>> i) & 1) === 1;
+      });
+    }
+
+    const penalty = penaltyScore(modules);
+    if (penalty < bestPenalty) {
+      best = modules;
+      bestPenalty = penalty;
+    }
+  }
+  return best!;
+}
+
+// SVG path drawing every dark module as a unit square, offset by the quiet zone
+export function qrSvgPath(matrix: QrMatrix, margin = 4): string {
+  const parts: string[] = [];
+  matrix.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`);
+  }));
+  return parts.join('');
+}
+
+// Decoding a module grid
+
+function decodeFormat(matrix: QrMatrix): { level: QrErrorCorrection; mask: number } {
+  const size = matrix.length;
+  let best: { level: QrErrorCorrection; mask: number } | null = null;
+  let bestDistance = Infinity;
+
+  for (const copy of formatPositions(size)) {
+    const read = copy.reduce((bits, [x, y], i) => bits | ((matrix[y][x] ? 1 : 0) << i), 0);
+    for (const level of EC_LEVELS) {
+      for (let mask = 0; mask < 8; mask++) {
+        let difference = read ^ formatInfo(level, mask);
+        let distance = 0;
+        for (; difference; difference &= difference - 1) distance++;
+        if (distance < bestDistance) {
+          best = { level, mask };
+          bestDistance = distance;
+        }
+      }
+    }
+  }
+  if (!best || bestDistance > 3) {
+    throw new Error('Unreadable QR format information');
+  }
+  return best;
+}
+
+function readSegments(data: Uint8Array, version: number): string {
+  let offset = 0;
+  const read = (length: number) => {
+    let value = 0;
+    for (let i = 0; i < length; i++, offset++) {
+      value = (value << 1) | ((data[offset >>> 3] >>> (7 - (offset & 7))) & 1);
+    }
+    return value;
+  };
+  const remaining = () => data.length * 8 - offset;
+
+  let text = '';
+  while (remaining() >= 4) {
+    const mode = read(4);
+    if (mode === 0) break;
+
+    if (mode === MODE_ECI) {
+      // Only UTF-8 and ASCII-compatible sets are expected; skip the designator
+      const first = read(8);
+      if ((first & 0x80) !== 0) read((first & 0x40) === 0 ? 8 : 16);
+      continue;
+    }
+
+    const count = read(characterCountBits(mode, version));
+    if (mode === MODE_NUMERIC) {
+      for (let left = count; left > 0; left -= 3) {
+        const digits = Math.min(3, left);
+        text += read([0, 4, 7, 10][digits]).toString().padStart(digits, '0');
+      }
+    } else if (mode === MODE_ALPHANUMERIC) {
+      for (let left = count; left > 0; left -= 2) {
+        if (left >= 2) {
+          const pair = read(11);
+          text += ALPHANUMERIC[Math.floor(pair / 45)] + ALPHANUMERIC[pair % 45];
+        } else {
+          text += ALPHANUMERIC[read(6)];
+        }
+      }
+    } else if (mode === MODE_BYTE) {
+      const bytes = new Uint8Array(count);
+      for (let i = 0; i < count; i++) bytes[i] = read(8);
+      text += new TextDecoder().decode(bytes);
+    } else {
+      throw new Error('Unsupported QR data mode');
+    }
+    if (remaining() < 0) throw new Error('QR data is truncated');
+  }
+  return text;
+}
+
+export function decodeQrMatrix(matrix: QrMatrix): string {
+  const size = matrix.length;
+  const version = (size - 17) / 4;
+  if (!Number.isInteger(version) || version < 1 || version > 40) {
+    throw new Error('Invalid QR code size');
+  }
+
+  const { level, mask } = decodeFormat(matrix);
+  const template = functionTemplate(version);
+  const { blocks, eccLength, rawCodewords, shortBlocks, shortBlockLength } = blockLayout(version, level);
+
+  const codewords = new Uint8Array(rawCodewords);
+  dataPositions(template).forEach(([x, y], i) => {
+    if (i >= rawCodewords * 8) return;
+    if (matrix[y][x] !== maskBit(mask, x, y)) codewords[i >>> 3] |= 1 << (7 - (i & 7));
+  });
+
+  // Undo the interleaving, then correct each block
+  const blockData = Array.from({ length: blocks }, () => new Uint8Array(shortBlockLength + 1));
+  let index = 0;
+  for (let i = 0; i <= shortBlockLength; i++) {
+    for (let j = 0; j < blocks; j++) {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) blockData[j][i] = codewords[index++];
+    }
+  }
+
+  const data: number[] = [];
+  blockData.forEach((block, j) => {
+    const dataLength = shortBlockLength - eccLength + (j < shortBlocks ? 0 : 1);
+    const codeword = j < shortBlocks
+      ? new Uint8Array([...block.subarray(0, dataLength), ...block.subarray(dataLength + 1)])
+      : block;
+    reedSolomonCorrect(codeword, eccLength);
+    data.push(...codeword.subarray(0, dataLength));
+  });
+
+  return readSegments(new Uint8Array(data), version);
+}
+
+// Locating codes in an image
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface FinderPattern extends Point {
+  moduleSize: number;
+  count: number;
+}
+
+interface BitImage {
+  width: number;
+  height: number;
+  dark: Uint8Array;
+}
+
+// Thresholds each pixel against the brightness of its neighbourhood, in
+// 8x8 blocks, so shadows and uneven lighting do not swamp the code
+function binarize({ width, height, data }: QrImage): BitImage {
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const gray = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+    luminance[i] = Math.round(gray * alpha + 255 * (1 - alpha));
+  }
+
+  const blockSize = 8;
+  const blocksWide = Math.ceil(width / blockSize);
+  const blocksHigh = Math.ceil(height / blockSize);
+  const blackPoints = new Float32Array(blocksWide * blocksHigh);
+  for (let by = 0; by < blocksHigh; by++) {
+    for (let bx = 0; bx < blocksWide; bx++) {
+      let sum = 0;
+      let count = 0;
+      let min = 255;
+      let max = 0;
+      for (let y = by * blockSize; y < Math.min(height, (by + 1) * blockSize); y++) {
+        for (let x = bx * blockSize; x < Math.min(width, (bx + 1) * blockSize); x++) {
+          const value = luminance[y * width + x];
+          sum += value;
+          count++;
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        }
+      }
+
+      let average = sum / count;
+      // A flat block is most likely background; lean towards calling it light
+      if (max - min <= 24) {
+        average = min / 2;
+        if (by > 0 && bx > 0) {
+          const neighbours = (blackPoints[(by - 1) * blocksWide + bx] +
+            2 * blackPoints[by * blocksWide + bx - 1] +
+            blackPoints[(by - 1) * blocksWide + bx - 1]) / 4;
+          if (min < neighbours) average = neighbours;
+        }
+      }
+      blackPoints[by * blocksWide + bx] = average;
+    }
+  }
+
+  const dark = new Uint8Array(width * height);
+  for (let by = 0; by < blocksHigh; by++) {
+    for (let bx = 0; bx < blocksWide; bx++) {
+      let sum = 0;
+      let count = 0;
+      for (let ny = Math.max(0, by - 2); ny <= Math.min(blocksHigh - 1, by + 2); ny++) {
+        for (let nx = Math.max(0, bx - 2); nx <= Math.min(blocksWide - 1, bx + 2); nx++) {
+          sum += blackPoints[ny * blocksWide + nx];
+          count++;
+        }
+      }
+      const threshold = sum / count;
+      for (let y = by * blockSize; y < Math.min(height, (by + 1) * blockSize); y++) {
+        for (let x = bx * blockSize; x < Math.min(width, (bx + 1) * blockSize); x++) {
+          dark[y * width + x] = luminance[y * width + x] <= threshold ? 1 : 0;
+        }
+      }
+    }
+  }
+  return { width, height, dark };
+}
+
+function isDark(image: BitImage, x: number, y: number): boolean {
+  const px = Math.floor(x);
+  const py = Math.floor(y);
+  return px >= 0 && py >= 0 && px < image.width && py < image.height && image.dark[py * image.width + px] === 1;
+}
+
+// Run lengths of dark/light/dark/light/dark in the ratio 1:1:3:1:1
+function isFinderRatio(counts: number[]): boolean {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total < 7) return false;
+  const module = total / 7;
+  const variance = module / 1.5;
+  return Math.abs(module - counts[0]) < variance &&
+    Math.abs(module - counts[1]) < variance &&
+    Math.abs(3 * module - counts[2]) < 3 * variance &&
+    Math.abs(module - counts[3]) < variance &&
+    Math.abs(module - counts[4]) < variance;
+}
+
+// Measures the five runs through a point along a direction. Returns the
+// offset of the middle run's centre from the point, in steps, and the
+// total length, or null when the runs are not a finder pattern.
+function crossCheck(image: BitImage, center: Point, dx: number, dy: number, maxTotal: number) {
+  if (!isDark(image, center.x, center.y)) return null;
+
+  const counts = [0, 1, 0, 0, 0];
+  const walk = (sign: number) => {
+    const runs = [0, 0, 0];
+    let step = 1;
+    for (let state = 0; state < 3; state++) {
+      const wantDark = state !== 1;
+      while (isDark(image, center.x + sign * dx * step, center.y + sign * dy * step) === wantDark) {
+        runs[state]++;
+        step++;
+        if (runs[state] > maxTotal) return null;
+        // The outer dark run may end at the image edge
+        if (state === 2 && step > maxTotal * 2) break;
+      }
+      if (state > 0 && runs[state] === 0) return null;
+    }
+    return runs;
+  };
+
+  const backward = walk(-1);
+  const forward = walk(1);
+  if (!backward || !forward) return null;
+  counts[2] = 1 + backward[0] + forward[0];
+  counts[1] = backward[1];
+  counts[0] = backward[2];
+  counts[3] = forward[1];
+  counts[4] = forward[2];
+  if (!isFinderRatio(counts)) return null;
+
+  return {
+    offset: (forward[0] - backward[0]) / 2,
+    total: counts.reduce((sum, count) => sum + count, 0)
+  };
+}
+
+function findFinderPatterns(image: BitImage): FinderPattern[] {
+  const found: FinderPattern[] = [];
+
+  const consider = (x: number, y: number, rowTotal: number) => {
+    const vertical = crossCheck(image, { x, y }, 0, 1, rowTotal * 2);
+    if (!vertical) return;
+    const centerY = y + vertical.offset;
+    const horizontal = crossCheck(image, { x, y: centerY }, 1, 0, rowTotal * 2);
+    if (!horizontal) return;
+    const centerX = x + horizontal.offset;
+    if (!crossCheck(image, { x: centerX, y: centerY }, 1, 1, rowTotal * 2)) return;
+
+    const moduleSize = (vertical.total + horizontal.total) / 14;
+    const existing = found.find(pattern =>
+      Math.hypot(pattern.x - centerX, pattern.y - centerY) <= Math.max(pattern.moduleSize, moduleSize) * 1.5 &&
+      Math.abs(pattern.moduleSize - moduleSize) <= Math.max(1, pattern.moduleSize / 2));
+    if (existing) {
+      const count = existing.count + 1;
+      existing.x = (existing.x * existing.count + centerX) / count;
+      existing.y = (existing.y * existing.count + centerY) / count;
+      existing.moduleSize = (existing.moduleSize * existing.count + moduleSize) / count;
+      existing.count = count;
+    } else {
+      found.push({ x: centerX, y: centerY, moduleSize, count: 1 });
+    }
+  };
+
+  for (let y = 0; y < image.height; y++) {
+    // Alternating runs along the row; even indexes are dark
+    const runs: number[] = [];
+    const starts: number[] = [];
+    let previous = false;
+    for (let x = 0; x < image.width; x++) {
+      const dark = image.dark[y * image.width + x] === 1;
+      if (x === 0 || dark !== previous) {
+        if (runs.length === 0 && !dark) {
+          previous = dark;
+          continue;
+        }
+        runs.push(0);
+        starts.push(x);
+      }
+      runs[runs.length - 1]++;
+      previous = dark;
+    }
+
+    for (let i = 0; i + 4 < runs.length; i += 2) {
+      const counts = runs.slice(i, i + 5);
+      if (!isFinderRatio(counts)) continue;
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      consider(starts[i + 2] + counts[2] / 2, y + 0.5, total);
+    }
+  }
+
+  // A real finder pattern crosses several rows; specks of noise only a few
+  const confirmed = found.filter(pattern => pattern.count >= Math.max(3, pattern.moduleSize * 1.5));
+  return (confirmed.length >= 3 ? confirmed : found).sort((a, b) => b.count - a.count);
+}
+
+// Perspective transform taking module coordinates to image coordinates,
+// fitted to four point pairs
+function solveHomography(from: Point[], to: Point[]): (point: Point) => Point {
+  const rows: number[][] = [];
+  from.forEach(({ x: u, y: v }, i) => {
+    const { x, y } = to[i];
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-12) throw new Error('Degenerate QR code outline');
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = 0; row < 8; row++) {
+      if (row === column) continue;
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k < 9; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+  const [a, b, c, d, e, f, g, h] = rows.map((row, i) => row[8] / row[i]);
+
+  return ({ x: u, y: v }) => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+}
+
+// Looks for the bottom-right alignment pattern near where the finder
+// patterns put it, scoring positions against the 5x5 module template on a
+// coarse grid and then pixel by pixel around the best one. Perspective makes
+// modules there larger or smaller, so a few scales are tried.
+function findAlignmentPattern(
+  image: BitImage,
+  estimate: Point,
+  across: Point,
+  down: Point,
+  moduleSize: number
+): Point | null {
+  const score = (x: number, y: number, scale: number) => {
+    let matches = 0;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        const expected = Math.max(Math.abs(dx), Math.abs(dy)) !== 1;
+        const sampleX = x + scale * (dx * across.x + dy * down.x);
+        const sampleY = y + scale * (dx * across.y + dy * down.y);
+        if (isDark(image, sampleX, sampleY) === expected) matches++;
+      }
+    }
+    return matches;
+  };
+
+  let best: Point | null = null;
+  let bestScore = 0;
+  let bestDistance = Infinity;
+  const search = (center: Point, radius: number, step: number, scale: number) => {
+    for (let y = Math.round(center.y - radius); y <= center.y + radius; y += step) {
+      for (let x = Math.round(center.x - radius); x <= center.x + radius; x += step) {
+        const matches = score(x, y, scale);
+        // Prefer the position closest to the estimate among equal scores
+        const distance = Math.hypot(x - estimate.x, y - estimate.y);
+        if (matches > bestScore || (matches === bestScore && distance < bestDistance)) {
+          best = { x, y };
+          bestScore = matches;
+          bestDistance = distance;
+        }
+      }
+    }
+  };
+
+  const step = Math.max(1, Math.floor(moduleSize / 2));
+  for (const scale of [1, 0.8, 1.25]) {
+    bestScore = 0;
+    search(estimate, moduleSize * 8, step, scale);
+    if (best) search(best, step, 1, scale);
+    if (bestScore >= 23) return best;
+  }
+  return null;
+}
+
+function sampleGrid(image: BitImage, size: number, transform: (point: Point) => Point): QrMatrix {
+  return Array.from({ length: size }, (_, y) => Array.from({ length: size }, (_, x) => {
+    const point = transform({ x: x + 0.5, y: y + 0.5 });
+    return isDark(image, point.x, point.y);
+  }));
+}
+
+// Distance from a finder centre to its outer edge, heading towards another
+// finder: 3.5 modules whatever the rotation
+function finderRadius(image: BitImage, from: Point, to: Point): number | null {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const dx = (to.x - from.x) / length;
+  const dy = (to.y - from.y) / length;
+  let state = 0;
+  for (let step = 0; step < length / 2; step++) {
+    const dark = isDark(image, from.x + dx * step, from.y + dy * step);
+    if (dark !== (state % 2 === 0)) state++;
+    if (state === 3) return step;
+  }
+  return null;
+}
+
+// Reads the code outlined by three finder patterns, trying nearby sizes
+// when the estimate from the finder spacing is off
+function decodeAt(image: BitImage, topLeft: FinderPattern, topRight: FinderPattern, bottomLeft: FinderPattern): string {
+  const radii = [
+    finderRadius(image, topLeft, topRight),
+    finderRadius(image, topRight, topLeft),
+    finderRadius(image, topLeft, bottomLeft),
+    finderRadius(image, bottomLeft, topLeft)
+  ].filter((radius): radius is number => radius !== null);
+  const moduleSize = radii.length > 0
+    ? radii.reduce((sum, radius) => sum + radius, 0) / radii.length / 3.5
+    : (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+  const span = (Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y) +
+    Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y)) / 2;
+  const estimated = Math.round((span / moduleSize + 7 - 1) / 4) * 4 + 1;
+
+  let lastError: unknown = new Error('No QR code found');
+  for (const size of [estimated, estimated - 4, estimated + 4]) {
+    if (size < 21 || size > 177) continue;
+
+    // Finder centres sit 3.5 modules in from their corners
+    const across = { x: (topRight.x - topLeft.x) / (size - 7), y: (topRight.y - topLeft.y) / (size - 7) };
+    const down = { x: (bottomLeft.x - topLeft.x) / (size - 7), y: (bottomLeft.y - topLeft.y) / (size - 7) };
+    const corners = [{ x: 3.5, y: 3.5 }, { x: size - 3.5, y: 3.5 }, { x: 3.5, y: size - 3.5 }];
+    const points: Point[] = [topLeft, topRight, bottomLeft];
+
+    let fourth = { x: size - 3.5, y: size - 3.5 };
+    let fourthPoint = {
+      x: topRight.x + bottomLeft.x - topLeft.x,
+      y: topRight.y + bottomLeft.y - topLeft.y
+    };
+    if (size > 21) {
+      const offset = size - 10;
+      const estimate = {
+        x: topLeft.x + offset * (across.x + down.x),
+        y: topLeft.y + offset * (across.y + down.y)
+      };
+      const alignment = findAlignmentPattern(image, estimate, across, down, moduleSize);
+      if (alignment) {
+        fourth = { x: size - 6.5, y: size - 6.5 };
+        fourthPoint = alignment;
+      }
+    }
+
+    try {
+      const transform = solveHomography([...corners, fourth], [...points, fourthPoint]);
+      return decodeQrMatrix(sampleGrid(image, size, transform));
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+// Decodes every QR code found in an image, such as a photo or scan of a
+// printed page. Throws if none can be read.
+export function decodeQrCodes(image: QrImage): string[] {
+  const bits = binarize(image);
+  const finders = findFinderPatterns(bits);
+
+  // Candidate triples: two equal legs at a right angle, similar module sizes
+  const triples: { corners: [FinderPattern, FinderPattern, FinderPattern]; score: number }[] = [];
+  for (let i = 0; i < finders.length; i++) {
+    for (let j = i + 1; j < finders.length; j++) {
+      for (let k = j + 1; k < finders.length; k++) {
+        const group = [finders[i], finders[j], finders[k]];
+        const sizes = group.map(pattern => pattern.moduleSize);
+        if (Math.max(...sizes) > Math.min(...sizes) * 1.5) continue;
+
+        for (let corner = 0; corner < 3; corner++) {
+          const topLeft = group[corner];
+          let [a, b] = group.filter((_, index) => index !== corner);
+          const legA = Math.hypot(a.x - topLeft.x, a.y - topLeft.y);
+          const legB = Math.hypot(b.x - topLeft.x, b.y - topLeft.y);
+          const cosine = ((a.x - topLeft.x) * (b.x - topLeft.x) + (a.y - topLeft.y) * (b.y - topLeft.y)) / (legA * legB);
+          if (Math.abs(cosine) > 0.25 || Math.max(legA, legB) > Math.min(legA, legB) * 1.4) continue;
+          if (Math.min(legA, legB) < topLeft.moduleSize * 12) continue;
+
+          // With y pointing down, top-right then bottom-left turns clockwise
+          const cross = (a.x - topLeft.x) * (b.y - topLeft.y) - (a.y - topLeft.y) * (b.x - topLeft.x);
+          if (cross < 0) [a, b] = [b, a];
+          triples.push({
+            corners: [topLeft, a, b],
+            score: Math.abs(cosine) + Math.abs(legA - legB) / Math.max(legA, legB)
+          });
+        }
+      }
+    }
+  }
+  triples.sort((first, second) => first.score - second.score);
+
+  const results: string[] = [];
+  const used = new Set<FinderPattern>();
+  let lastError: unknown = new Error('No QR code found in the image');
+  for (const { corners } of triples) {
+    if (corners.some(pattern => used.has(pattern))) continue;
+    try {
+      results.push(decodeAt(bits, ...corners));
+      corners.forEach(pattern => used.add(pattern));
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  if (results.length === 0) throw lastError;
+  return results;
+}
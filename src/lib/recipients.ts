@@ -0,0 +1,250 @@
+// Multi-recipient hybrid encryption
+//
+// A random AES-256-GCM content key encrypts the message once, and that key
+// is wrapped separately for every recipient. Each wrapped key is a stanza
+// in the envelope's key list:
+//   stanza type (1) | key id (8) | wrapped content key
+// The key id is the start of SHA-256 over the recipient's SPKI public key,
+// so a recipient can find their stanza without trial decryption. RSA stanzas
+// hold RSA-OAEP(content key); ECIES stanzas hold the output of eciesWrapKey.
+// The whole header, stanzas included, is bound as AES-GCM associated data.
+
+import { base64ToBytes, bytesToHex, concatBytes } from './encoding';
+import { eciesCurveOf, eciesUnwrapKey, eciesWrapKey, type EciesCurve } from './ecies';
+import { ENVELOPE_VERSION, encodeEnvelopeHeader, parseEnvelope, serializeEnvelope, type EnvelopeHeader } from './envelope';
+
+export type RecipientKeyType = 'RSA-OAEP' | EciesCurve;
+
+const STANZA_TYPES: Record<RecipientKeyType, number> = {
+  'RSA-OAEP': 1,
+  'P-256': 2,
+  'P-384': 3,
+  'X25519': 4,
+};
+
+const KEY_ID_LENGTH = 8;
+const MAX_RECIPIENTS = 255;
+
+// rsaEncryption OID (1.2.840.113549.1.1.1) as DER
+const RSA_OID_HEX = '06092a864886f70d010101';
+
+export interface RecipientKey {
+  privateKey: string;
+  // Without a public key every stanza of a matching type is tried
+  publicKey?: string;
+}
+
+export interface RecipientStanza {
+  type: RecipientKeyType;
+  keyId: string;
+}
+
+export function recipientKeyType(publicKeyB64: string): RecipientKeyType {
+  const spki = base64ToBytes(publicKeyB64);
+  if (bytesToHex(spki.subarray(0, 32)).includes(RSA_OID_HEX)) {
+    return 'RSA-OAEP';
+  }
+  try {
+    return eciesCurveOf(publicKeyB64);
+  } catch {
+    throw new Error('Recipient key must be an RSA, P-256, P-384 or X25519 public key');
+  }
+}
+
+async function keyIdBytes(publicKeyB64: string): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest('SHA-256', base64ToBytes(publicKeyB64));
+  return new Uint8Array(digest, 0, KEY_ID_LENGTH);
+}
+
+// Short hex id of a recipient public key, as recorded in stanzas
+export async function recipientKeyId(publicKeyB64: string): Promise<string> {
+  return bytesToHex(await keyIdBytes(publicKeyB64));
+}
+
+function stanzaType(id: number): RecipientKeyType | undefined {
+  return (Object.keys(STANZA_TYPES) as RecipientKeyType[]).find(type => STANZA_TYPES[type] === id);
+}
+
+async function wrapForRecipient(contentKey: Uint8Array, publicKeyB64: string): Promise<Uint8Array> {
+  const type = recipientKeyType(publicKeyB64);
+
+  let wrapped: Uint8Array;
+  if (type === 'RSA-OAEP') {
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      base64ToBytes(publicKeyB64),
+      { name: 'RSA-OAEP', hash: 'SHA-256' },
+      false,
+      ['encrypt']
+    );
+    wrapped = new Uint8Array(await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, contentKey));
+  } else {
+    wrapped = await eciesWrapKey(contentKey, publicKeyB64);
+  }
+
+  return concatBytes(new Uint8Array([STANZA_TYPES[type]]), await keyIdBytes(publicKeyB64), wrapped);
+}
+
+async function unwrapStanza(type: RecipientKeyType, wrapped: Uint8Array, privateKeyB64: string): Promise<Uint8Array> {
+  if (type !== 'RSA-OAEP') {
+    return eciesUnwrapKey(wrapped, type, privateKeyB64);
+  }
+
+  const privateKey = await crypto.subtle.importKey(
+    'pkcs8',
+    base64ToBytes(privateKeyB64),
+    { name: 'RSA-OAEP', hash: 'SHA-256' },
+    false,
+    ['decrypt']
+  );
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, wrapped));
+}
+
+function normalizeRecipients(publicKeys: string[]): string[] {
+  return [...new Set(publicKeys.map(key => key.replace(/\s+/g, '')).filter(Boolean))];
+}
+
+async function sealForStanzas(stanzas: Uint8Array[], contentKeyBytes: Uint8Array, plaintext: Uint8Array): Promise<string> {
+  if (stanzas.length > MAX_RECIPIENTS) {
+    throw new Error(`At most ${MAX_RECIPIENTS} recipients are supported`);
+  }
+
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    algorithm: 'hybrid-multi',
+    kdf: null,
+    nonce: crypto.getRandomValues(new Uint8Array(12)),
+    aad: new Uint8Array(0),
+    keys: stanzas
+  };
+
+  const contentKey = await crypto.subtle.importKey('raw', contentKeyBytes, { name: 'AES-GCM' }, false, ['encrypt']);
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: header.nonce, additionalData: encodeEnvelopeHeader(header) },
+    contentKey,
+    plaintext
+  );
+
+  return serializeEnvelope({ ...header, ciphertext: new Uint8Array(encrypted) });
+}
+
+// Encrypts text so that any one of the recipients' private keys can open it
+export async function encryptForRecipients(text: string, publicKeys: string[]): Promise<string> {
+  const recipients = normalizeRecipients(publicKeys);
+  if (recipients.length === 0) {
+    throw new Error('Add at least one recipient public key');
+  }
+  if (recipients.length > MAX_RECIPIENTS) {
+    throw new Error(`At most ${MAX_RECIPIENTS} recipients are supported`);
+  }
+
+  const contentKeyBytes = crypto.getRandomValues(new Uint8Array(32));
+  const stanzas = await Promise.all(recipients.map(publicKey => wrapForRecipient(contentKeyBytes, publicKey)));
+  return sealForStanzas(stanzas, contentKeyBytes, new TextEncoder().encode(text));
+}
+
+function parseMultiRecipient(encryptedData: string) {
+  const envelope = parseEnvelope(encryptedData);
+  if (!envelope || envelope.algorithm !== 'hybrid-multi') {
+    throw new Error('Input is not multi-recipient encrypted data');
+  }
+
+  const stanzas = envelope.keys.map(stanza => {
+    const type = stanzaType(stanza[0]);
+    if (!type || stanza.length <= 1 + KEY_ID_LENGTH) {
+      throw new Error('Malformed recipient stanza');
+    }
+    return {
+      type,
+      keyId: bytesToHex(stanza.subarray(1, 1 + KEY_ID_LENGTH)),
+      wrapped: stanza.subarray(1 + KEY_ID_LENGTH)
+    };
+  });
+
+  return { envelope, stanzas };
+}
+
+// Recipients a message was encrypted for, without decrypting it
+export function listRecipients(encryptedData: string): RecipientStanza[] {
+  return parseMultiRecipient(encryptedData).stanzas.map(({ type, keyId }) => ({ type, keyId }));
+}
+
+type MultiRecipientMessage = ReturnType<typeof parseMultiRecipient>;
+
+// Finds the stanza a key can unwrap, returning its index and the content key
+async function openStanza(
+  { stanzas }: MultiRecipientMessage,
+  key: RecipientKey
+): Promise<{ index: number; contentKeyBytes: Uint8Array } | null> {
+  const keyId = key.publicKey ? await recipientKeyId(key.publicKey) : null;
+
+  for (const [index, stanza] of stanzas.entries()) {
+    if (keyId && stanza.keyId !== keyId) continue;
+    try {
+      return { index, contentKeyBytes: await unwrapStanza(stanza.type, stanza.wrapped, key.privateKey) };
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+async function openContent({ envelope }: MultiRecipientMessage, contentKeyBytes: Uint8Array): Promise<Uint8Array> {
+  const contentKey = await crypto.subtle.importKey('raw', contentKeyBytes, { name: 'AES-GCM' }, false, ['decrypt']);
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: envelope.nonce, additionalData: envelope.header },
+      contentKey,
+      envelope.ciphertext
+    );
+    return new Uint8Array(decrypted);
+  } catch {
+    throw new Error('Decryption failed: the message has been corrupted or tampered with');
+  }
+}
+
+// Decrypts with whichever of the given keys the message was encrypted for.
+// Returns the index of the key that worked alongside the text.
+export async function decryptForRecipients(
+  encryptedData: string,
+  keys: RecipientKey[]
+): Promise<{ text: string; keyIndex: number }> {
+  const message = parseMultiRecipient(encryptedData);
+
+  for (const [keyIndex, key] of keys.entries()) {
+    const opened = await openStanza(message, key);
+    if (opened) {
+      const decrypted = await openContent(message, opened.contentKeyBytes);
+      return { text: new TextDecoder().decode(decrypted), keyIndex };
+    }
+  }
+
+  const count = message.stanzas.length;
+  throw new Error(`None of your keys can open this message (encrypted for ${count} recipient${count === 1 ? '' : 's'})`);
+}
+
+// Swaps one recipient for another and leaves the rest alone. The message is
+// re-encrypted under the same content key with a fresh nonce, so the other
+// recipients' stanzas stay valid; only the old key's stanza is replaced.
+export async function replaceRecipient(encryptedData: string, oldKey: RecipientKey, newPublicKey: string): Promise<string> {
+  const message = parseMultiRecipient(encryptedData);
+  const opened = await openStanza(message, oldKey);
+  if (!opened) {
+    throw new Error('The message was not encrypted for this key');
+  }
+
+  const plaintext = await openContent(message, opened.contentKeyBytes);
+  const [recipient] = normalizeRecipients([newPublicKey]);
+  if (!recipient) {
+    throw new Error('Add a recipient public key');
+  }
+
+  const newKeyId = await recipientKeyId(recipient);
+  const kept = message.envelope.keys.filter((_, index) => index !== opened.index && message.stanzas[index].keyId !== newKeyId);
+  const stanzas = [...kept, await wrapForRecipient(opened.contentKeyBytes, recipient)];
+  return sealForStanzas(stanzas, opened.contentKeyBytes, plaintext);
+}
+
+export function recipientTypeName(type: RecipientKeyType): string {
+  return type === 'RSA-OAEP' ? 'RSA-OAEP' : `ECIES ${type}`;
+}
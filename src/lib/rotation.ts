@@ -0,0 +1,26 @@
+// Moving encrypted data from a rotated-out key pair to its successor
+//
+// Multi-recipient messages keep their other recipients: only the old key's
+// stanza is swapped for one wrapping the same content key for the new key.
+// Single-key envelopes (RSA-OAEP, hybrid RSA, ECIES) are decrypted and sealed
+// again as multi-recipient messages, which work for RSA and EC successors alike.
+
+import { decryptEnvelope } from './crypto';
+import { ENVELOPE_ALGORITHMS, detectEnvelopeAlgorithm } from './envelope';
+import { encryptForRecipients, replaceRecipient, type RecipientKey } from './recipients';
+
+export async function reencryptForKey(encryptedData: string, oldKey: RecipientKey, newPublicKey: string): Promise<string> {
+  const algorithm = detectEnvelopeAlgorithm(encryptedData);
+  if (!algorithm) {
+    throw new Error('Input is not a recognized encrypted envelope');
+  }
+  if (ENVELOPE_ALGORITHMS[algorithm].secret !== 'privateKey') {
+    throw new Error(`${ENVELOPE_ALGORITHMS[algorithm].name} data is protected by a password, not a key`);
+  }
+
+  if (algorithm === 'hybrid-multi') {
+    return replaceRecipient(encryptedData, oldKey, newPublicKey);
+  }
+  const text = await decryptEnvelope(encryptedData, { privateKey: oldKey.privateKey });
+  return encryptForRecipients(text, [newPublicKey]);
+}
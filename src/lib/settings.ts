@@ -0,0 +1,82 @@
+// User preferences persisted in localStorage
+
+import { KDF_PROFILES, type KdfCost, type KdfName, type KdfProfile } from './kdf';
+
+export interface SettingsData {
+  theme: 'dark' | 'light' | 'auto';
+  autoSave: boolean;
+  encryptionDefault: string;
+  keySize: number;
+  showAdvanced: boolean;
+  enableAnimations: boolean;
+  enableSounds: boolean;
+  maxFileSize: number;
+  compressionLevel: number;
+  // Flag key pairs that have no paper backup yet
+  backupKeys: boolean;
+  clearOnExit: boolean;
+  kdfAlgorithm: KdfName;
+  kdfProfile: KdfProfile | 'calibrated';
+  kdfCalibrated: KdfCost | null;
+  // 0 keeps the key vault unlocked until it is locked by hand
+  vaultAutoLockMinutes: number;
+  // Record Studio operations in the operation journal
+  journalEnabled: boolean;
+  // Keep text previews and file names in the journal, not just fingerprints
+  journalPlaintext: boolean;
+  // 0 keeps journal entries however old they get
+  journalRetentionDays: number;
+  // 0 puts no cap on the number of journal entries
+  journalMaxEntries: number;
+}
+
+export const defaultSettings: SettingsData = {
+  theme: 'dark',
+  autoSave: true,
+  encryptionDefault: 'aes256',
+  keySize: 2048,
+  showAdvanced: false,
+  enableAnimations: true,
+  enableSounds: false,
+  maxFileSize: 10,
+  compressionLevel: 6,
+  backupKeys: true,
+  clearOnExit: false,
+  kdfAlgorithm: 'pbkdf2',
+  kdfProfile: 'interactive',
+  kdfCalibrated: null,
+  vaultAutoLockMinutes: 15,
+  journalEnabled: false,
+  journalPlaintext: false,
+  journalRetentionDays: 30,
+  journalMaxEntries: 1000,
+};
+
+const SETTINGS_KEY = 'securetext-settings';
+
+export function loadSettings(): SettingsData {
+  const savedSettings = localStorage.getItem(SETTINGS_KEY);
+  if (!savedSettings) return defaultSettings;
+
+  try {
+    return { ...defaultSettings, ...JSON.parse(savedSettings) };
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return defaultSettings;
+  }
+}
+
+export function saveSettings(settings: SettingsData) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// Cost parameters new password-based encryptions should use
+export function kdfCostFromSettings(settings: SettingsData = loadSettings()): KdfCost {
+  if (settings.kdfProfile === 'calibrated') {
+    if (settings.kdfCalibrated?.name === settings.kdfAlgorithm) {
+      return settings.kdfCalibrated;
+    }
+    return KDF_PROFILES.interactive[settings.kdfAlgorithm];
+  }
+  return KDF_PROFILES[settings.kdfProfile][settings.kdfAlgorithm];
+}
@@ -0,0 +1,124 @@
+// SHA-3 (FIPS 202): Keccak-f[1600] with 64-bit lanes stored as lo, hi pairs
+// of 32-bit words, so the state's bytes are in little-endian order
+
+import type { Hasher } from './hashes';
+
+const ROUND_CONSTANTS = new Uint32Array([
+  0x00000001, 0x00000000, 0x00008082, 0x00000000, 0x0000808a, 0x80000000, 0x80008000, 0x80000000,
+  0x0000808b, 0x00000000, 0x80000001, 0x00000000, 0x80008081, 0x80000000, 0x00008009, 0x80000000,
+  0x0000008a, 0x00000000, 0x00000088, 0x00000000, 0x80008009, 0x00000000, 0x8000000a, 0x00000000,
+  0x8000808b, 0x00000000, 0x0000008b, 0x80000000, 0x00008089, 0x80000000, 0x00008003, 0x80000000,
+  0x00008002, 0x80000000, 0x00000080, 0x80000000, 0x0000800a, 0x00000000, 0x8000000a, 0x80000000,
+  0x80008081, 0x80000000, 0x00008080, 0x80000000, 0x80000001, 0x00000000, 0x80008008, 0x80000000
+]);
+
+// Rho rotation of the lane at x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14
+];
+
+// Pi moves the lane at x + 5y to y + 5((2x + 3y) mod 5)
+const PI_TARGETS = ROTATIONS.map((_, i) => {
+  const x = i % 5;
+  const y = Math.floor(i / 5);
+  return y + 5 * ((2 * x + 3 * y) % 5);
+});
+
+// Scratch space for keccakF: column parities and the lanes after rho and pi
+const c = new Uint32Array(10);
+const b = new Uint32Array(50);
+
+function keccakF(s: Uint32Array) {
+  for (let round = 0; round < 24; round++) {
+    // Theta
+    for (let x = 0; x < 10; x++) {
+      c[x] = s[x] ^ s[x + 10] ^ s[x + 20] ^ s[x + 30] ^ s[x + 40];
+    }
+    for (let x = 0; x < 5; x++) {
+      const next = 2 * ((x + 1) % 5);
+      const prev = 2 * ((x + 4) % 5);
+      const dLo = c[prev] ^ ((c[next] << 1) | (c[next + 1] >>> 31));
+      const dHi = c[prev + 1] ^ ((c[next + 1] << 1) | (c[next] >>> 31));
+      for (let y = 0; y < 50; y += 10) {
+        s[y + 2 * x] ^= dLo;
+        s[y + 2 * x + 1] ^= dHi;
+      }
+    }
+
+    // Rho and pi
+    for (let i = 0; i < 25; i++) {
+      const lo = s[2 * i];
+      const hi = s[2 * i + 1];
+      const n = ROTATIONS[i];
+      const target = 2 * PI_TARGETS[i];
+      if (n === 0) {
+        b[target] = lo;
+        b[target + 1] = hi;
+      } else if (n < 32) {
+        b[target] = (lo << n) | (hi >>> (32 - n));
+        b[target + 1] = (hi << n) | (lo >>> (32 - n));
+      } else {
+        b[target] = (hi << (n - 32)) | (lo >>> (64 - n));
+        b[target + 1] = (lo << (n - 32)) | (hi >>> (64 - n));
+      }
+    }
+
+    // Chi
+    for (let y = 0; y < 50; y += 10) {
+      for (let x = 0; x < 10; x++) {
+        s[y + x] = b[y + x] ^ (~b[y + ((x + 2) % 10)] & b[y + ((x + 4) % 10)]);
+      }
+    }
+
+    // Iota
+    s[0] ^= ROUND_CONSTANTS[2 * round];
+    s[1] ^= ROUND_CONSTANTS[2 * round + 1];
+  }
+}
+
+// SHA3-224/256/384/512 by output length in bytes; the rate is what is left
+// of the 200-byte state after twice the output length of capacity
+export function createSha3(outputLength: 28 | 32 | 48 | 64): Hasher {
+  const rate = 200 - 2 * outputLength;
+  const s = new Uint32Array(50);
+  let position = 0;
+
+  const hasher: Hasher = {
+    update(data: Uint8Array) {
+      let i = 0;
+      // Whole words at a time once the input lines up with the state
+      while (i < data.length) {
+        if ((position & 3) === 0 && data.length - i >= 4) {
+          s[position >> 2] ^= data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24);
+          position += 4;
+          i += 4;
+        } else {
+          s[position >> 2] ^= data[i++] << (8 * (position & 3));
+          position++;
+        }
+        if (position === rate) {
+          keccakF(s);
+          position = 0;
+        }
+      }
+      return hasher;
+    },
+    digest() {
+      // SHA-3 domain separation bits 01, then pad10*1
+      s[position >> 2] ^= 0x06 << (8 * (position & 3));
+      s[(rate - 1) >> 2] ^= 0x80 << (8 * ((rate - 1) & 3));
+      keccakF(s);
+
+      const output = new Uint8Array(outputLength);
+      for (let i = 0; i < outputLength; i++) {
+        output[i] = s[i >> 2] >>> (8 * (i & 3));
+      }
+      return output;
+    }
+  };
+  return hasher;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  combineShares,
+  decodeShare,
+  encodeShare,
+  findShareTexts,
+  recoverSecretFromShares,
+  splitSecret,
+  splitSecretIntoShares,
+  type SecretShare
+} from './shamir';
+
+const secret = new TextEncoder().encode('correct horse battery staple');
+
+// Every way of picking `size` items from the list
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) => combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+}
+
+describe('splitSecret and combineShares', () => {
+  it('recovers the secret from any k of n shares, in any order', () => {
+    const shares = splitSecret(secret, 5, 3);
+    expect(shares.map(share => share.index)).toEqual([1, 2, 3, 4, 5]);
+    for (const chosen of combinations(shares, 3)) {
+      expect(combineShares(chosen)).toEqual(secret);
+      expect(combineShares([...chosen].reverse())).toEqual(secret);
+    }
+    expect(combineShares(shares)).toEqual(secret);
+  });
+
+  it('needs at least k shares', () => {
+    const shares = splitSecret(secret, 5, 3);
+    expect(() => combineShares(shares.slice(0, 2))).toThrow('3 different shares are needed; only 2 given');
+    expect(() => combineShares([])).toThrow('No shares given');
+  });
+
+  it('does not count a share given twice', () => {
+    const [first, second] = splitSecret(secret, 5, 3);
+    expect(() => combineShares([first, second, { ...first }])).toThrow('only 2 given');
+  });
+
+  it('refuses shares from different splits', () => {
+    const [a1, a2] = splitSecret(secret, 3, 2);
+    const [, b2] = splitSecret(secret, 3, 2);
+    expect(combineShares([a1, a2])).toEqual(secret);
+    expect(() => combineShares([a1, b2])).toThrow('different splits');
+  });
+
+  it('rejects impossible parameters', () => {
+    expect(() => splitSecret(new Uint8Array(0), 3, 2)).toThrow('Nothing to split');
+    expect(() => splitSecret(secret, 3, 1)).toThrow('At least 2 shares');
+    expect(() => splitSecret(secret, 2, 3)).toThrow('between the threshold and 255');
+    expect(() => splitSecret(secret, 256, 3)).toThrow('between the threshold and 255');
+  });
+});
+
+describe('encodeShare and decodeShare', () => {
+  it('round-trips a share', async () => {
+    const [share] = splitSecret(secret, 3, 2);
+    const text = await encodeShare(share);
+    expect(text.startsWith('WLSS:\n')).toBe(true);
+    expect(await decodeShare(text)).toEqual<SecretShare>(share);
+  });
+
+  it('catches a mistyped character with the checksum', async () => {
+    const [share] = splitSecret(secret, 3, 2);
+    const text = await encodeShare(share);
+    const position = text.indexOf('\n') + 8;
+    const typo = text.slice(0, position) + (text[position] === 'A' ? 'B' : 'A') + text.slice(position + 1);
+    await expect(decodeShare(typo)).rejects.toThrow('checksum does not match');
+  });
+
+  it('rejects text that is not a share', async () => {
+    await expect(decodeShare('hello')).rejects.toThrow('A share starts with "WLSS:"');
+    await expect(decodeShare('WLSS: AAAA')).rejects.toThrow('too short');
+  });
+
+  it('recovers a secret from pasted share files', async () => {
+    const texts = await splitSecretIntoShares('correct horse battery staple', 4, 2);
+    const pasted = `# share 4\n${texts[3]}\n\n# share 2\n${texts[1]}\n`;
+    expect(await recoverSecretFromShares(findShareTexts(pasted))).toEqual(secret);
+  });
+});
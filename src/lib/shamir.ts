@@ -0,0 +1,194 @@
+// Shamir secret sharing over GF(256)
+//
+// Every byte of the secret becomes the constant term of its own random
+// polynomial of degree threshold - 1; share i holds each polynomial evaluated
+// at x = i. Any `threshold` shares recover the secret by Lagrange
+// interpolation at x = 0, and fewer reveal nothing about it.
+//
+// Encoded shares are printable Base32 text prefixed with "WLSS:":
+//   version (1) | threshold (1) | share count (1) | index (1) | set id (4) | share bytes | checksum (4)
+// The set id is random per split so shares of different secrets are not
+// mixed up; the checksum is the start of SHA-256 over everything before it
+// and catches typos made copying a share by hand.
+
+import { base32ToBytes, bytesToBase32, bytesToHex, concatBytes } from './encoding';
+
+export interface SecretShare {
+  threshold: number;
+  shares: number;
+  // x coordinate, 1 to 255
+  index: number;
+  setId: string;
+  data: Uint8Array;
+}
+
+const SHARE_PREFIX = 'WLSS:';
+const SHARE_VERSION = 1;
+const SET_ID_LENGTH = 4;
+const CHECKSUM_LENGTH = 4;
+const HEADER_LENGTH = 4 + SET_ID_LENGTH;
+const MAX_SHARES = 255;
+
+// Exponent and logarithm tables for GF(2^8) with the AES polynomial
+// x^8 + x^4 + x^3 + x + 1, using 3 as the generator
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+
+function gfMul(a: number, b: number): number {
+  return a && b ? EXP[LOG[a] + LOG[b]] : 0;
+}
+
+function gfDiv(a: number, b: number): number {
+  return a ? EXP[LOG[a] + 255 - LOG[b]] : 0;
+}
+
+// Splits a secret into `shares` shares, any `threshold` of which recover it
+export function splitSecret(secret: Uint8Array, shares: number, threshold: number): SecretShare[] {
+  if (secret.length === 0) {
+    throw new Error('Nothing to split');
+  }
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error('At least 2 shares must be required to recover the secret');
+  }
+  if (!Number.isInteger(shares) || shares < threshold || shares > MAX_SHARES) {
+    throw new Error(`Share count must be between the threshold and ${MAX_SHARES}`);
+  }
+
+  const setId = bytesToHex(crypto.getRandomValues(new Uint8Array(SET_ID_LENGTH)));
+  const data = Array.from({ length: shares }, () => new Uint8Array(secret.length));
+  const coefficients = new Uint8Array(threshold - 1);
+
+  for (const [position, byte] of secret.entries()) {
+    crypto.getRandomValues(coefficients);
+    for (let share = 0; share < shares; share++) {
+      // Horner's rule from the highest coefficient down to the secret byte
+      const x = share + 1;
+      let y = 0;
+      for (let i = coefficients.length - 1; i >= 0; i--) {
+        y = gfMul(y, x) ^ coefficients[i];
+      }
+      data[share][position] = gfMul(y, x) ^ byte;
+    }
+  }
+  coefficients.fill(0);
+
+  return data.map((bytes, share) => ({ threshold, shares, index: share + 1, setId, data: bytes }));
+}
+
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error('No shares given');
+  }
+
+  const [first] = shares;
+  const unique = [...new Map(shares.map(share => [share.index, share])).values()];
+  for (const share of unique) {
+    if (share.setId !== first.setId || share.threshold !== first.threshold || share.data.length !== first.data.length) {
+      throw new Error('The shares come from different splits');
+    }
+  }
+  if (unique.length < first.threshold) {
+    throw new Error(`${first.threshold} different shares are needed; only ${unique.length} given`);
+  }
+
+  const used = unique.slice(0, first.threshold);
+  // Lagrange basis polynomials evaluated at x = 0; subtraction is XOR
+  const weights = used.map(({ index }) => used.reduce(
+    (weight, other) => other.index === index ? weight : gfMul(weight, gfDiv(other.index, other.index ^ index)),
+    1
+  ));
+
+  const secret = new Uint8Array(first.data.length);
+  for (let position = 0; position < secret.length; position++) {
+    let byte = 0;
+    used.forEach((share, i) => {
+      byte ^= gfMul(share.data[position], weights[i]);
+    });
+    secret[position] = byte;
+  }
+  return secret;
+}
+
+async function checksum(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes), 0, CHECKSUM_LENGTH);
+}
+
+// Printable text for a share: Base32 in groups of five, eight groups a line
+export async function encodeShare(share: SecretShare): Promise<string> {
+  const setId = new Uint8Array(share.setId.match(/.{2}/g)?.map(byte => parseInt(byte, 16)) ?? []);
+  const body = concatBytes(
+    new Uint8Array([SHARE_VERSION, share.threshold, share.shares, share.index]),
+    setId,
+    share.data
+  );
+  const groups = bytesToBase32(concatBytes(body, await checksum(body))).match(/.{1,5}/g) ?? [];
+
+  const lines: string[] = [];
+  for (let i = 0; i < groups.length; i += 8) {
+    lines.push(groups.slice(i, i + 8).join(' '));
+  }
+  return `${SHARE_PREFIX}\n${lines.join('\n')}`;
+}
+
+export async function decodeShare(text: string): Promise<SecretShare> {
+  const trimmed = text.trim();
+  if (!trimmed.toUpperCase().startsWith(SHARE_PREFIX)) {
+    throw new Error(`A share starts with "${SHARE_PREFIX}"`);
+  }
+
+  const bytes = base32ToBytes(trimmed.slice(SHARE_PREFIX.length).replace(/-/g, ''));
+  if (bytes.length <= HEADER_LENGTH + CHECKSUM_LENGTH) {
+    throw new Error('Share is too short');
+  }
+
+  const body = bytes.subarray(0, bytes.length - CHECKSUM_LENGTH);
+  const expected = await checksum(body);
+  if (expected.some((byte, i) => byte !== bytes[body.length + i])) {
+    throw new Error('Share checksum does not match; check it for typos');
+  }
+
+  const [version, threshold, shares, index] = body;
+  if (version !== SHARE_VERSION) {
+    throw new Error(`Unsupported share version ${version}`);
+  }
+  if (index === 0 || index > shares || threshold < 2 || threshold > shares) {
+    throw new Error('Share header is invalid');
+  }
+
+  return {
+    threshold,
+    shares,
+    index,
+    setId: bytesToHex(body.subarray(4, HEADER_LENGTH)),
+    data: body.slice(HEADER_LENGTH)
+  };
+}
+
+// Finds the shares in pasted text, such as several share files one after
+// another. Lines starting with "#" are comments.
+export function findShareTexts(text: string): string[] {
+  const withoutComments = text.split('\n').filter(line => !line.trim().startsWith('#')).join('\n');
+  return withoutComments
+    .split(new RegExp(`(?=${SHARE_PREFIX})`, 'i'))
+    .map(block => block.trim())
+    .filter(block => block.toUpperCase().startsWith(SHARE_PREFIX));
+}
+
+// Secrets are bytes; text such as a passphrase is split as UTF-8
+export async function splitSecretIntoShares(
+  secret: Uint8Array | string,
+  shares: number,
+  threshold: number
+): Promise<string[]> {
+  const bytes = typeof secret === 'string' ? new TextEncoder().encode(secret) : secret;
+  return Promise.all(splitSecret(bytes, shares, threshold).map(encodeShare));
+}
+
+export async function recoverSecretFromShares(shareTexts: string[]): Promise<Uint8Array> {
+  return combineShares(await Promise.all(shareTexts.map(decodeShare)));
+}
@@ -0,0 +1,132 @@
+// RSA-PSS and ECDSA signatures, including detached signature files
+
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import type { KeyPair } from './crypto';
+
+export type SignatureAlgorithm = 'RSA-PSS' | 'ECDSA-P256' | 'ECDSA-P384';
+
+export const SIGNATURE_ALGORITHMS: Record<SignatureAlgorithm, { name: string; hash: 'SHA-256' | 'SHA-384' }> = {
+  'RSA-PSS': { name: 'RSA-PSS (SHA-256)', hash: 'SHA-256' },
+  'ECDSA-P256': { name: 'ECDSA P-256 (SHA-256)', hash: 'SHA-256' },
+  'ECDSA-P384': { name: 'ECDSA P-384 (SHA-384)', hash: 'SHA-384' },
+};
+
+export function isSignatureAlgorithm(algorithm: string | undefined): algorithm is SignatureAlgorithm {
+  return !!algorithm && algorithm in SIGNATURE_ALGORITHMS;
+}
+
+function keyParams(algorithm: SignatureAlgorithm): RsaHashedImportParams | EcKeyImportParams {
+  switch (algorithm) {
+    case 'RSA-PSS':
+      return { name: 'RSA-PSS', hash: 'SHA-256' };
+    case 'ECDSA-P256':
+      return { name: 'ECDSA', namedCurve: 'P-256' };
+    case 'ECDSA-P384':
+      return { name: 'ECDSA', namedCurve: 'P-384' };
+  }
+}
+
+function signParams(algorithm: SignatureAlgorithm): RsaPssParams | EcdsaParams {
+  if (algorithm === 'RSA-PSS') {
+    return { name: 'RSA-PSS', saltLength: 32 };
+  }
+  return { name: 'ECDSA', hash: SIGNATURE_ALGORITHMS[algorithm].hash };
+}
+
+function toBytes(message: string | Uint8Array): Uint8Array {
+  return typeof message === 'string' ? new TextEncoder().encode(message) : message;
+}
+
+// Signing Key Pair Generation
+export async function generateSigningKeyPair(algorithm: SignatureAlgorithm, keySize: 2048 | 4096 = 2048): Promise<KeyPair> {
+  const params = algorithm === 'RSA-PSS'
+    ? { name: 'RSA-PSS', modulusLength: keySize, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' }
+    : keyParams(algorithm);
+
+  const keyPair = await crypto.subtle.generateKey(params, true, ['sign', 'verify']) as CryptoKeyPair;
+  const publicKey = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+  const privateKey = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+
+  return {
+    publicKey: bytesToBase64(new Uint8Array(publicKey)),
+    privateKey: bytesToBase64(new Uint8Array(privateKey)),
+    keySize: algorithm === 'RSA-PSS' ? keySize : algorithm === 'ECDSA-P256' ? 256 : 384,
+    created: new Date().toISOString(),
+    algorithm
+  };
+}
+
+export async function signMessage(
+  message: string | Uint8Array,
+  privateKeyB64: string,
+  algorithm: SignatureAlgorithm
+): Promise<string> {
+  const privateKey = await crypto.subtle.importKey('pkcs8', base64ToBytes(privateKeyB64), keyParams(algorithm), false, ['sign']);
+  const signature = await crypto.subtle.sign(signParams(algorithm), privateKey, toBytes(message));
+  return bytesToBase64(new Uint8Array(signature));
+}
+
+// Returns false for a bad signature; throws only for unusable keys or input
+export async function verifySignature(
+  message: string | Uint8Array,
+  signatureB64: string,
+  publicKeyB64: string,
+  algorithm: SignatureAlgorithm
+): Promise<boolean> {
+  const publicKey = await crypto.subtle.importKey('spki', base64ToBytes(publicKeyB64), keyParams(algorithm), false, ['verify']);
+  return crypto.subtle.verify(signParams(algorithm), publicKey, base64ToBytes(signatureB64), toBytes(message));
+}
+
+// Detached signature files (.sig) travel next to the file they sign
+export interface DetachedSignature {
+  format: 'word-lock-signature';
+  version: 1;
+  algorithm: SignatureAlgorithm;
+  fileName: string;
+  fileSize: number;
+  publicKey: string;
+  signature: string;
+  created: string;
+}
+
+export async function signFile(file: Blob, fileName: string, keyPair: KeyPair): Promise<DetachedSignature> {
+  if (!isSignatureAlgorithm(keyPair.algorithm)) {
+    throw new Error('Selected key cannot create signatures');
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return {
+    format: 'word-lock-signature',
+    version: 1,
+    algorithm: keyPair.algorithm,
+    fileName,
+    fileSize: file.size,
+    publicKey: keyPair.publicKey,
+    signature: await signMessage(bytes, keyPair.privateKey, keyPair.algorithm),
+    created: new Date().toISOString()
+  };
+}
+
+// Checks the file against the signature; publicKey overrides the key embedded in the .sig
+export async function verifyFile(file: Blob, detached: DetachedSignature, publicKey = detached.publicKey): Promise<boolean> {
+  if (detached.fileSize !== file.size) return false;
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return verifySignature(bytes, detached.signature, publicKey, detached.algorithm);
+}
+
+export function parseDetachedSignature(text: string): DetachedSignature {
+  let parsed: Partial<DetachedSignature>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Signature file is not valid JSON');
+  }
+
+  if (parsed.format !== 'word-lock-signature' || parsed.version !== 1) {
+    throw new Error('Unsupported signature file format');
+  }
+  if (!isSignatureAlgorithm(parsed.algorithm) || !parsed.signature || !parsed.publicKey) {
+    throw new Error('Signature file is missing required fields');
+  }
+  return parsed as DetachedSignature;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { KdfCost } from './kdf';
+import { analyzeStegoImage, steganalysisVerdict } from './steganalysis';
+import { embedStegoPayload, type StegoImage } from './stego';
+
+const cost: KdfCost = { name: 'pbkdf2', hash: 'SHA-256', iterations: 1000 };
+
+// A smooth gradient with a little noise, standing in for a photo
+function coverImage(width = 64, height = 64): StegoImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return (seed >> 16) % 3;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      data[offset] = x * 3 + noise();
+      data[offset + 1] = y * 3 + noise();
+      data[offset + 2] = (x + y) + noise();
+      data[offset + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+describe('analyzeStegoImage', () => {
+  it('reports nothing hidden in a clean image', async () => {
+    const report = await analyzeStegoImage(coverImage());
+    expect(report.frame).toBeNull();
+    expect(report.payload).toBeUndefined();
+    expect(report.extractionError).toBeUndefined();
+  });
+
+  it('locates and reads a plain payload', async () => {
+    const image = await embedStegoPayload(coverImage(), { kind: 'text', text: 'hello' }, { bitsPerChannel: 2 });
+    const report = await analyzeStegoImage(image);
+    expect(report.frame).toMatchObject({ bitsPerChannel: 2, encrypted: false, scattered: false });
+    expect(report.payload?.content).toEqual({ kind: 'text', text: 'hello' });
+    expect(steganalysisVerdict(report)).toBe('found');
+  });
+
+  it('reads a scattered, encrypted payload only with its passphrase', async () => {
+    const image = await embedStegoPayload(coverImage(), { kind: 'text', text: 'secret' }, { bitsPerChannel: 1, passphrase: 'right', cost });
+
+    const found = await analyzeStegoImage(image, 'right');
+    expect(found.frame).toMatchObject({ encrypted: true, scattered: true });
+    expect(found.payload?.content).toEqual({ kind: 'text', text: 'secret' });
+
+    const withoutPassphrase = await analyzeStegoImage(image);
+    expect(withoutPassphrase.frame).toBeNull();
+  });
+});
@@ -0,0 +1,302 @@
+// Steganalysis: looking for data hidden in the low bits of an image
+//
+// Three independent checks are run:
+// - The chi-square attack (Westfeld and Pfitzmann). Writing random bits into
+//   the lowest bit evens out the counts of each pair of values 2k and 2k+1.
+//   The test measures how even they are over a growing share of the image,
+//   so data written from the top of the image shows up as a probability near
+//   1 that falls off where the data ends.
+// - RS analysis (Fridrich, Goljan and Du). Small groups of pixels are
+//   classed as regular or singular by whether flipping their low bits makes
+//   them noisier. Natural images have more regular groups, and embedding
+//   pulls the two classes together in a way that gives an estimate of how
+//   much of the image was used, even when it was scattered.
+// - Extraction with the format the Steganography tool writes.
+//
+// Only fully opaque pixels are looked at, as those are the only ones the
+// Steganography tool writes to.
+
+import {
+  inspectStegoImage,
+  type StegoFrameInfo,
+  type StegoImage,
+  type StegoPayload
+} from './stego';
+
+export type ImageChannel = 0 | 1 | 2;
+
+export const IMAGE_CHANNEL_NAMES = ['Red', 'Green', 'Blue'] as const;
+
+export interface ChiSquarePoint {
+  // Share of the image tested, from the top, in percent
+  sampled: number;
+  // Probability that the tested part carries embedded data, 0 to 1
+  probability: number;
+}
+
+export interface RsResult {
+  channel: ImageChannel;
+  // Shares of the pixel groups, 0 to 1, under the mask and the negated mask
+  regular: number;
+  singular: number;
+  regularNegative: number;
+  singularNegative: number;
+  // Estimated share of the channel's low bits carrying data, 0 to 1
+  estimate: number;
+}
+
+// found: a Steganography frame was located; likely and possible: the
+// statistics point to embedding; clean: nothing stands out
+export type SteganalysisVerdict = 'found' | 'likely' | 'possible' | 'clean';
+
+export interface SteganalysisReport {
+  width: number;
+  height: number;
+  opaquePixels: number;
+  chiSquare: ChiSquarePoint[];
+  rs: RsResult[];
+  // The largest of the RS estimates
+  estimate: number;
+  frame: StegoFrameInfo | null;
+  payload?: StegoPayload;
+  extractionError?: string;
+}
+
+const CHI_SQUARE_STEPS = 50;
+// RS estimates below a few percent are within what clean photos show
+const LIKELY_ESTIMATE = 0.1;
+const POSSIBLE_ESTIMATE = 0.04;
+const LIKELY_CHI_SQUARE = 0.95;
+// Pairs expected to hold fewer values than this are left out of the test,
+// where they would only add noise
+const MIN_EXPECTED = 5;
+const RS_MASK = [0, 1, 1, 0];
+
+function isOpaque(image: StegoImage, pixel: number) {
+  return image.data[pixel * 4 + 3] === 255;
+}
+
+// A black and white picture of one bit of one channel
+export function bitPlane(image: StegoImage, channel: ImageChannel, bit: number): StegoImage {
+  const data = new Uint8ClampedArray(image.width * image.height * 4);
+  for (let pixel = 0; pixel < image.width * image.height; pixel++) {
+    const offset = pixel * 4;
+    const value = isOpaque(image, pixel) && (image.data[offset + channel] >> bit) & 1 ? 255 : 0;
+    data[offset] = data[offset + 1] = data[offset + 2] = value;
+    data[offset + 3] = 255;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+// ln Γ(x), Lanczos approximation
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941678, 24.01409824083091,
+    -1.231739572450155, 1.208650973866179e-3, -5.395239384953e-6,
+  ];
+  let series = 1.000000000190015;
+  coefficients.forEach((c, i) => { series += c / (x + i + 1); });
+  const t = x + 5.5;
+  return Math.log(Math.sqrt(2 * Math.PI) * series / x) + (x + 0.5) * Math.log(t) - t;
+}
+
+// Upper regularised incomplete gamma function Q(a, x), by its series below
+// a + 1 and its continued fraction above
+function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const scale = Math.exp(-x + a * Math.log(x) - logGamma(a));
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 1000 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * scale);
+  }
+
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 1000; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.min(1, h * scale);
+}
+
+function pairsOfValuesProbability(histogram: Uint32Array): number {
+  let statistic = 0;
+  let categories = 0;
+  for (let value = 0; value < 256; value += 2) {
+    const expected = (histogram[value] + histogram[value + 1]) / 2;
+    if (expected < MIN_EXPECTED) continue;
+    statistic += (histogram[value] - expected) ** 2 / expected;
+    categories++;
+  }
+  if (categories < 2) return 0;
+  return gammaQ((categories - 1) / 2, statistic / 2);
+}
+
+// The embedding probability over the first 2%, 4%, ... of the image, in
+// reading order, counting the red, green and blue values together
+export function chiSquareAnalysis(image: StegoImage, steps = CHI_SQUARE_STEPS): ChiSquarePoint[] {
+  const pixels = image.width * image.height;
+  const histogram = new Uint32Array(256);
+  const points: ChiSquarePoint[] = [];
+  let pixel = 0;
+  for (let step = 1; step <= steps; step++) {
+    const end = Math.round(pixels * step / steps);
+    for (; pixel < end; pixel++) {
+      if (!isOpaque(image, pixel)) continue;
+      const offset = pixel * 4;
+      histogram[image.data[offset]]++;
+      histogram[image.data[offset + 1]]++;
+      histogram[image.data[offset + 2]]++;
+    }
+    points.push({ sampled: (step / steps) * 100, probability: pairsOfValuesProbability(histogram) });
+  }
+  return points;
+}
+
+// Flips 0 <-> 1, 2 <-> 3, ... for a mask value of 1, and -1 <-> 0, 1 <-> 2,
+// ... for -1
+function flip(value: number, direction: number): number {
+  if (direction === 1) return value ^ 1;
+  if (direction === -1) return ((value + 1) ^ 1) - 1;
+  return value;
+}
+
+function smoothness(group: number[]): number {
+  let total = 0;
+  for (let i = 1; i < group.length; i++) total += Math.abs(group[i] - group[i - 1]);
+  return total;
+}
+
+// Counts regular and singular groups of four pixels side by side, as shares
+// of all groups, with the low bits inverted first if asked
+function rsCounts(image: StegoImage, channel: ImageChannel, inverted: boolean) {
+  const size = RS_MASK.length;
+  const group = new Array<number>(size);
+  const flipped = new Array<number>(size);
+  let groups = 0;
+  let regular = 0;
+  let singular = 0;
+  let regularNegative = 0;
+  let singularNegative = 0;
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x + size <= image.width; x += size) {
+      const first = y * image.width + x;
+      let opaque = true;
+      for (let i = 0; i < size; i++) {
+        if (!isOpaque(image, first + i)) opaque = false;
+        const value = image.data[(first + i) * 4 + channel];
+        group[i] = inverted ? value ^ 1 : value;
+      }
+      if (!opaque) continue;
+
+      groups++;
+      const original = smoothness(group);
+      for (let i = 0; i < size; i++) flipped[i] = flip(group[i], RS_MASK[i]);
+      const positive = smoothness(flipped);
+      if (positive > original) regular++;
+      else if (positive < original) singular++;
+      for (let i = 0; i < size; i++) flipped[i] = flip(group[i], -RS_MASK[i]);
+      const negative = smoothness(flipped);
+      if (negative > original) regularNegative++;
+      else if (negative < original) singularNegative++;
+    }
+  }
+
+  const share = (count: number) => (groups > 0 ? count / groups : 0);
+  return {
+    regular: share(regular),
+    singular: share(singular),
+    regularNegative: share(regularNegative),
+    singularNegative: share(singularNegative),
+  };
+}
+
+// Solves for the embedding rate from the counts of the image as it is and
+// with every low bit inverted
+function rsEstimate(plain: ReturnType<typeof rsCounts>, inverted: ReturnType<typeof rsCounts>): number {
+  const d0 = plain.regular - plain.singular;
+  const d1 = inverted.regular - inverted.singular;
+  const n0 = plain.regularNegative - plain.singularNegative;
+  const n1 = inverted.regularNegative - inverted.singularNegative;
+
+  const a = 2 * (d1 + d0);
+  const b = n0 - n1 - d1 - 3 * d0;
+  const c = d0 - n0;
+  let z: number;
+  if (Math.abs(a) < 1e-12) {
+    if (Math.abs(b) < 1e-12) return 0;
+    z = -c / b;
+  } else {
+    const discriminant = Math.max(0, b * b - 4 * a * c);
+    const roots = [(-b + Math.sqrt(discriminant)) / (2 * a), (-b - Math.sqrt(discriminant)) / (2 * a)];
+    z = Math.abs(roots[0]) < Math.abs(roots[1]) ? roots[0] : roots[1];
+  }
+  const estimate = z / (z - 0.5);
+  return Number.isFinite(estimate) ? Math.min(1, Math.max(0, estimate)) : 0;
+}
+
+export function rsAnalysis(image: StegoImage): RsResult[] {
+  return ([0, 1, 2] as ImageChannel[]).map(channel => {
+    const plain = rsCounts(image, channel, false);
+    const inverted = rsCounts(image, channel, true);
+    return { channel, ...plain, estimate: rsEstimate(plain, inverted) };
+  });
+}
+
+// Runs every check. A passphrase lets scattered, encrypted payloads be
+// found and read.
+export async function analyzeStegoImage(image: StegoImage, passphrase?: string): Promise<SteganalysisReport> {
+  let opaquePixels = 0;
+  for (let pixel = 0; pixel < image.width * image.height; pixel++) {
+    if (isOpaque(image, pixel)) opaquePixels++;
+  }
+  const rs = rsAnalysis(image);
+  const report: SteganalysisReport = {
+    width: image.width,
+    height: image.height,
+    opaquePixels,
+    chiSquare: chiSquareAnalysis(image),
+    rs,
+    estimate: Math.max(...rs.map(result => result.estimate)),
+    frame: null,
+  };
+
+  try {
+    const { frame, payload, error } = await inspectStegoImage(image, passphrase);
+    report.frame = frame;
+    report.payload = payload;
+    report.extractionError = error;
+  } catch (error) {
+    report.extractionError = error instanceof Error ? error.message : String(error);
+  }
+  return report;
+}
+
+// Small chi-square samples are unreliable, so only the test over at least a
+// tenth of the image counts
+export function steganalysisVerdict(report: SteganalysisReport): SteganalysisVerdict {
+  if (report.frame) return 'found';
+  const chiSquare = report.chiSquare.filter(point => point.sampled >= 10);
+  const chiSquareHigh = chiSquare.length > 0 && chiSquare[0].probability >= LIKELY_CHI_SQUARE;
+  if (report.estimate >= LIKELY_ESTIMATE || chiSquareHigh) return 'likely';
+  if (report.estimate >= POSSIBLE_ESTIMATE) return 'possible';
+  return 'clean';
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { embedStegoPayload, extractStegoPayload, type StegoImage } from './stego';
+
+function coverImage(width = 48, height = 48): StegoImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    data[pixel * 4] = (pixel * 7) % 256;
+    data[pixel * 4 + 1] = (pixel * 13) % 256;
+    data[pixel * 4 + 2] = (pixel * 29) % 256;
+    data[pixel * 4 + 3] = 255;
+  }
+  return { width, height, data };
+}
+
+// What the first version of the Steganography tab wrote
+function legacyEmbed(image: StegoImage, secret: string, password?: string): StegoImage {
+  const text = password ? btoa(secret + '|' + password) : secret;
+  const binary = text.split('').map(char => char.charCodeAt(0).toString(2).padStart(8, '0')).join('') + '1111111111111110';
+  const data = image.data.slice();
+  for (let i = 0, bit = 0; i < data.length && bit < binary.length; i += 4, bit++) {
+    data[i] = (data[i] & 0xfe) | Number(binary[bit]);
+  }
+  return { ...image, data };
+}
+
+describe('extractStegoPayload', () => {
+  it('reads what embedStegoPayload wrote', async () => {
+    const content = { kind: 'file' as const, name: 'notes.txt', type: 'text/plain', data: new Uint8Array([1, 2, 3]) };
+    const image = await embedStegoPayload(coverImage(), content, { bitsPerChannel: 3 });
+    expect(await extractStegoPayload(image)).toEqual({ content, bitsPerChannel: 3, encrypted: false });
+  });
+
+  it('reads text hidden by the first version of the tool', async () => {
+    const payload = await extractStegoPayload(legacyEmbed(coverImage(), 'Meet at noon'));
+    expect(payload).toMatchObject({ content: { kind: 'text', text: 'Meet at noon' }, legacy: true });
+  });
+
+  it('checks the password the first version stored with the text', async () => {
+    const image = legacyEmbed(coverImage(), 'Meet at noon', 'hunter2');
+    expect((await extractStegoPayload(image, 'hunter2')).content).toEqual({ kind: 'text', text: 'Meet at noon' });
+    await expect(extractStegoPayload(image, 'wrong')).rejects.toThrow('does not match');
+    await expect(extractStegoPayload(image)).rejects.toThrow('protected with a password');
+  });
+
+  it('finds nothing in an image with nothing hidden', async () => {
+    await expect(extractStegoPayload(coverImage())).rejects.toThrow('No hidden data found');
+  });
+});
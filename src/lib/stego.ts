@@ -0,0 +1,441 @@
+// Image steganography: payloads hidden in the low bits of pixel colours
+//
+// The payload is framed as in stegoframe.ts:
+//   magic "WLSG" | version (1) | flags (1) | length (4, big-endian) | payload
+// where the payload is a text or a file along with its SHA-256:
+//   kind (1) | SHA-256 of the data (32) | data                     for text
+//   kind (1) | SHA-256 (32) | name length (2) | name | type length (1) |
+//     MIME type | data                                              for files
+// The frame is written most
+// significant bit first into the lowest 1-4 bits of the red, green and blue
+// channels of each pixel. Alpha is left alone, and pixels that are not fully
+// opaque are skipped: browsers premultiply their colours, which would round
+// the hidden bits away.
+//
+// With a passphrase the payload is sealed in an AES-256-GCM envelope, and the
+// pixels are visited in an order shuffled by a key derived from the
+// passphrase, so the data is neither readable nor sitting in the first rows.
+// Reading tries each bit depth in turn, so it never has to be told which one
+// was used. The file name and type sit inside the encryption too.
+//
+// Images from the first version of the tool are still read: their text was
+// written one bit per pixel into the red channel of every pixel, ended by the
+// marker 1111111111111110, and a "password" was only appended before base64.
+
+import { chacha20 } from './chacha20';
+import { concatBytes } from './encoding';
+import { DEFAULT_KDF_COST, deriveKeyBytes, type KdfCost, type Pbkdf2Params } from './kdf';
+import {
+  decodeFrameHeader,
+  encodeFrame,
+  frameHeaderLength,
+  openBody,
+  sealBody,
+  sealedBodyLength,
+  type FrameFormat
+} from './stegoframe';
+
+// RGBA pixels, as in ImageData, which can be passed in directly
+export interface StegoImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface StegoOptions {
+  // Low bits used in each colour channel, 1 to 4
+  bitsPerChannel: number;
+  // Encrypts the payload and scatters it across the image
+  passphrase?: string;
+  cost?: KdfCost;
+}
+
+export type StegoContent =
+  | { kind: 'text'; text: string }
+  | { kind: 'file'; name: string; type: string; data: Uint8Array };
+
+export interface StegoPayload {
+  content: StegoContent;
+  bitsPerChannel: number;
+  encrypted: boolean;
+  // Read from the first version's red-channel format, which has no checksum
+  legacy?: boolean;
+}
+
+export interface StegoFrameInfo {
+  bitsPerChannel: number;
+  encrypted: boolean;
+  // Found in the passphrase-shuffled pixel order
+  scattered: boolean;
+  // Bytes after the frame header
+  length: number;
+}
+
+export const STEGO_BIT_DEPTHS = [1, 2, 3, 4];
+
+const FRAME: FrameFormat = {
+  magic: new Uint8Array([0x57, 0x4c, 0x53, 0x47]), // "WLSG"
+  version: 2,
+  compact: false,
+  noun: 'hidden data',
+};
+const KIND_TEXT = 0;
+const KIND_FILE = 1;
+const CHECKSUM_BYTES = 32;
+const MAX_NAME_LENGTH = 255;
+const HEADER_BYTES = frameHeaderLength(FRAME);
+const CHANNELS = 3;
+
+// Shuffling is only as strong as the passphrase; the slow derivation makes
+// guessing at the order cost something
+const ORDER_KDF: Pbkdf2Params = {
+  name: 'pbkdf2',
+  hash: 'SHA-256',
+  iterations: 100000,
+  salt: new TextEncoder().encode('word-lock stego pixel order'),
+};
+const ORDER_NONCE = new Uint8Array(12);
+const KEYSTREAM_CHUNK = 64 * 1024;
+
+const LEGACY_MARKER_ONES = 15;
+// Printable Latin-1 and line breaks; anything else is taken as noise
+const LEGACY_TEXT = /^[\t\n\r\x20-\x7e\xa0-\xff]+$/;
+
+function checkBitDepth(bitsPerChannel: number) {
+  if (!STEGO_BIT_DEPTHS.includes(bitsPerChannel)) {
+    throw new Error('Bits per channel must be 1 to 4');
+  }
+}
+
+function opaquePixels(image: StegoImage): Uint32Array {
+  const pixels = new Uint32Array(image.width * image.height);
+  let count = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    if (image.data[i * 4 + 3] === 255) pixels[count++] = i;
+  }
+  return pixels.subarray(0, count);
+}
+
+// Visits the pixels in place order, or in an order shuffled by a partial
+// Fisher-Yates driven by a ChaCha20 keystream. Each call returns the next
+// pixel index, or -1 once every pixel has been used.
+function pixelOrder(pixels: Uint32Array, orderKey: Uint8Array | null): () => number {
+  let next = 0;
+  if (!orderKey) {
+    return () => (next < pixels.length ? pixels[next++] : -1);
+  }
+
+  const shuffled = pixels.slice();
+  let keystream = new Uint32Array(0);
+  let used = 0;
+  let counter = 0;
+  const random = () => {
+    if (used === keystream.length) {
+      keystream = new Uint32Array(chacha20(orderKey, ORDER_NONCE, new Uint8Array(KEYSTREAM_CHUNK), counter).buffer);
+      counter += KEYSTREAM_CHUNK / 64;
+      used = 0;
+    }
+    return keystream[used++];
+  };
+
+  return () => {
+    if (next >= shuffled.length) return -1;
+    const swap = next + (random() % (shuffled.length - next));
+    const pixel = shuffled[swap];
+    shuffled[swap] = shuffled[next];
+    shuffled[next++] = pixel;
+    return pixel;
+  };
+}
+
+// Each colour channel holds one symbol of bitsPerChannel bits; returns the
+// byte offset of the next channel to use
+function channelCursor(pixels: Uint32Array, orderKey: Uint8Array | null): () => number {
+  const nextPixel = pixelOrder(pixels, orderKey);
+  let pixel = -1;
+  let channel = CHANNELS;
+  return () => {
+    if (channel === CHANNELS) {
+      pixel = nextPixel();
+      if (pixel < 0) throw new Error('The image is too small for the payload');
+      channel = 0;
+    }
+    return pixel * 4 + channel++;
+  };
+}
+
+function writeBits(data: Uint8ClampedArray, nextChannel: () => number, bytes: Uint8Array, bitsPerChannel: number) {
+  const mask = (1 << bitsPerChannel) - 1;
+  let buffer = 0;
+  let buffered = 0;
+  for (let i = 0; i < bytes.length || buffered > 0; ) {
+    if (buffered < bitsPerChannel && i < bytes.length) {
+      buffer = (buffer << 8) | bytes[i++];
+      buffered += 8;
+      continue;
+    }
+    // The last symbol is padded with zero bits
+    const shift = buffered - bitsPerChannel;
+    const symbol = shift >= 0 ? (buffer >> shift) & mask : (buffer << -shift) & mask;
+    buffered = Math.max(shift, 0);
+    buffer &= (1 << buffered) - 1;
+    const offset = nextChannel();
+    data[offset] = (data[offset] & ~mask) | symbol;
+  }
+}
+
+// Reads bytes back in the order writeBits stored them, continuing from where
+// the previous read stopped
+function bitReader(data: Uint8ClampedArray, nextChannel: () => number, bitsPerChannel: number) {
+  const mask = (1 << bitsPerChannel) - 1;
+  let buffer = 0;
+  let buffered = 0;
+  return (length: number): Uint8Array => {
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      while (buffered < 8) {
+        buffer = ((buffer << bitsPerChannel) | (data[nextChannel()] & mask)) & 0xffff;
+        buffered += bitsPerChannel;
+      }
+      buffered -= 8;
+      bytes[i] = (buffer >> buffered) & 0xff;
+    }
+    return bytes;
+  };
+}
+
+async function orderKeyFor(passphrase?: string): Promise<Uint8Array | null> {
+  return passphrase ? deriveKeyBytes(passphrase, ORDER_KDF, 32) : null;
+}
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+// Long names are cut down and paths dropped; the type is only kept if it fits
+function fileMetadata(name: string, type: string) {
+  const baseName = name.split(/[\\/]/).pop() || 'hidden-file';
+  const nameBytes = utf8([...baseName].slice(0, MAX_NAME_LENGTH).join(''));
+  const typeBytes = utf8(type);
+  return { nameBytes, typeBytes: typeBytes.length <= 255 ? typeBytes : new Uint8Array(0) };
+}
+
+function contentData(content: StegoContent): Uint8Array {
+  return content.kind === 'text' ? utf8(content.text) : content.data;
+}
+
+function contentLength(content: StegoContent): number {
+  const length = 1 + CHECKSUM_BYTES + contentData(content).length;
+  if (content.kind === 'text') return length;
+  const { nameBytes, typeBytes } = fileMetadata(content.name, content.type);
+  return length + 2 + nameBytes.length + 1 + typeBytes.length;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+// The content with its kind, checksum and file details, as the frame body
+// holds it before any encryption. Shared with the audio carrier.
+export async function encodeStegoContent(content: StegoContent): Promise<Uint8Array> {
+  const data = contentData(content);
+  const parts = [new Uint8Array([content.kind === 'text' ? KIND_TEXT : KIND_FILE]), await sha256(data)];
+  if (content.kind === 'file') {
+    const { nameBytes, typeBytes } = fileMetadata(content.name, content.type);
+    const nameLength = new Uint8Array(2);
+    new DataView(nameLength.buffer).setUint16(0, nameBytes.length);
+    parts.push(nameLength, nameBytes, new Uint8Array([typeBytes.length]), typeBytes);
+  }
+  return concatBytes(...parts, data);
+}
+
+// Reverses encodeStegoContent, checking the checksum
+export async function decodeStegoContent(bytes: Uint8Array): Promise<StegoContent> {
+  const damaged = () => new Error('The hidden data is damaged; the file may have been edited or recompressed');
+  if (bytes.length < 1 + CHECKSUM_BYTES) throw damaged();
+  const kind = bytes[0];
+  const checksum = bytes.subarray(1, 1 + CHECKSUM_BYTES);
+  let offset = 1 + CHECKSUM_BYTES;
+  let name = '';
+  let type = '';
+
+  if (kind === KIND_FILE) {
+    if (offset + 2 > bytes.length) throw damaged();
+    const nameLength = new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset);
+    offset += 2;
+    if (offset + nameLength + 1 > bytes.length) throw damaged();
+    name = new TextDecoder().decode(bytes.subarray(offset, offset + nameLength));
+    offset += nameLength;
+    const typeLength = bytes[offset++];
+    if (offset + typeLength > bytes.length) throw damaged();
+    type = new TextDecoder().decode(bytes.subarray(offset, offset + typeLength));
+    offset += typeLength;
+  } else if (kind !== KIND_TEXT) {
+    throw new Error(`Unknown kind of hidden data (${kind})`);
+  }
+
+  const data = bytes.slice(offset);
+  const actual = await sha256(data);
+  if (!actual.every((byte, i) => byte === checksum[i])) {
+    throw new Error('The hidden data failed its checksum; the file may have been edited or recompressed');
+  }
+  return kind === KIND_TEXT
+    ? { kind: 'text', text: new TextDecoder().decode(data) }
+    : { kind: 'file', name: name || 'hidden-file', type, data };
+}
+
+// Payload bytes the image holds at the given depth, after the frame header
+export function stegoCapacity(image: StegoImage, bitsPerChannel: number): number {
+  checkBitDepth(bitsPerChannel);
+  const bits = opaquePixels(image).length * CHANNELS * bitsPerChannel;
+  return Math.max(0, Math.floor(bits / 8) - HEADER_BYTES);
+}
+
+// Size of the frame body for the content
+export function stegoPayloadSize(content: StegoContent, encrypted: boolean, cost: KdfCost = DEFAULT_KDF_COST): number {
+  return sealedBodyLength(contentLength(content), encrypted, cost);
+}
+
+function tooSmallError(image: StegoImage, needed: number, bitsPerChannel: number): Error {
+  const depthName = (bits: number) => `${bits} bit${bits > 1 ? 's' : ''} per channel`;
+  const deeper = STEGO_BIT_DEPTHS.find(bits => bits > bitsPerChannel && stegoCapacity(image, bits) >= needed);
+  return new Error(
+    `The image is too small: the payload needs ${needed.toLocaleString()} bytes but the image holds ` +
+    `${stegoCapacity(image, bitsPerChannel).toLocaleString()} at ${depthName(bitsPerChannel)}. ` +
+    (deeper ? `Use ${depthName(deeper)} or a larger image.` : 'Use a larger image or a smaller payload.')
+  );
+}
+
+// Returns a copy of the image with the content hidden in it
+export async function embedStegoPayload(image: StegoImage, content: StegoContent, options: StegoOptions): Promise<StegoImage> {
+  const { bitsPerChannel, passphrase, cost } = options;
+  checkBitDepth(bitsPerChannel);
+
+  const body = await sealBody(await encodeStegoContent(content), passphrase, cost);
+  if (body.length > stegoCapacity(image, bitsPerChannel)) {
+    throw tooSmallError(image, body.length, bitsPerChannel);
+  }
+
+  const data = image.data.slice();
+  const nextChannel = channelCursor(opaquePixels(image), await orderKeyFor(passphrase));
+  writeBits(data, nextChannel, encodeFrame(FRAME, body, !!passphrase), bitsPerChannel);
+  return { width: image.width, height: image.height, data };
+}
+
+function readFrame(image: StegoImage, pixels: Uint32Array, orderKey: Uint8Array | null, bitsPerChannel: number) {
+  const capacity = Math.floor(pixels.length * CHANNELS * bitsPerChannel / 8) - HEADER_BYTES;
+  if (capacity < 0) return null;
+
+  const read = bitReader(image.data, channelCursor(pixels, orderKey), bitsPerChannel);
+  const header = decodeFrameHeader(FRAME, read(HEADER_BYTES));
+  if (!header || header.length > capacity) return null;
+  return { version: header.version, body: read(header.length), encrypted: header.encrypted };
+}
+
+type StegoFrame = NonNullable<ReturnType<typeof readFrame>> & { bitsPerChannel: number; scattered: boolean };
+
+async function findFrame(image: StegoImage, passphrase?: string): Promise<StegoFrame | null> {
+  const pixels = opaquePixels(image);
+  const orderKeys = passphrase ? [await orderKeyFor(passphrase), null] : [null];
+
+  for (const orderKey of orderKeys) {
+    for (const bitsPerChannel of STEGO_BIT_DEPTHS) {
+      const frame = readFrame(image, pixels, orderKey, bitsPerChannel);
+      if (frame) return { ...frame, bitsPerChannel, scattered: orderKey !== null };
+    }
+  }
+  return null;
+}
+
+function frameInfo({ bitsPerChannel, encrypted, scattered, body }: StegoFrame): StegoFrameInfo {
+  return { bitsPerChannel, encrypted, scattered, length: body.length };
+}
+
+async function decodeFrame(frame: StegoFrame, passphrase?: string): Promise<StegoPayload> {
+  const { body, bitsPerChannel, encrypted } = frame;
+  const opened = await openBody(FRAME, body, encrypted, passphrase);
+  return { content: await decodeStegoContent(opened), bitsPerChannel, encrypted };
+}
+
+// The first version's format: the text's character codes, 8 bits each, in
+// the red low bits of every pixel, up to the first run of fifteen 1s and a 0.
+// The marker is unaligned and unchecked, so natural images often hold one by
+// chance; only text that ends on a character boundary and reads as such is
+// taken. Returns null when there is none.
+function readLegacyText(image: StegoImage): string | null {
+  const pixels = image.width * image.height;
+  let ones = 0;
+  let end = -1;
+  for (let i = 0; i < pixels; i++) {
+    if (image.data[i * 4] & 1) {
+      ones++;
+    } else if (ones >= LEGACY_MARKER_ONES) {
+      end = i - LEGACY_MARKER_ONES;
+      break;
+    } else {
+      ones = 0;
+    }
+  }
+  if (end <= 0 || end % 8 !== 0) return null;
+
+  let text = '';
+  for (let bit = 0; bit < end; bit += 8) {
+    let code = 0;
+    for (let i = 0; i < 8; i++) code = (code << 1) | (image.data[(bit + i) * 4] & 1);
+    text += String.fromCharCode(code);
+  }
+  return LEGACY_TEXT.test(text) && /[\p{L}\p{N}]/u.test(text) ? text : null;
+}
+
+// The first version "protected" text by storing base64 of text|password
+function readLegacyPayload(image: StegoImage, passphrase?: string): StegoPayload | null {
+  const text = readLegacyText(image);
+  if (text === null) return null;
+  const payload = (content: string): StegoPayload => ({
+    content: { kind: 'text', text: content },
+    bitsPerChannel: 1,
+    encrypted: false,
+    legacy: true,
+  });
+
+  let parts: string[] = [];
+  try {
+    parts = atob(text).split('|');
+  } catch {
+    return payload(text);
+  }
+  if (parts.length !== 2) return payload(text);
+  if (!passphrase) {
+    throw new Error('The hidden text is protected with a password; enter it as the passphrase');
+  }
+  if (parts[1] !== passphrase) {
+    throw new Error('The password does not match the hidden text');
+  }
+  return payload(parts[0]);
+}
+
+// Finds a payload hidden by embedStegoPayload, or text hidden by the first
+// version of the tool. Without the passphrase a scattered payload cannot be
+// located at all, so a wrong passphrase and no payload look the same.
+export async function extractStegoPayload(image: StegoImage, passphrase?: string): Promise<StegoPayload> {
+  const frame = await findFrame(image, passphrase);
+  if (frame) return decodeFrame(frame, passphrase);
+
+  const legacy = readLegacyPayload(image, passphrase);
+  if (legacy) return legacy;
+  throw new Error(passphrase ? 'No hidden data found with this passphrase' : 'No hidden data found; if it was hidden with a passphrase, enter it');
+}
+
+// For steganalysis: the frame found, if any, and what it holds. The search
+// derives the pixel order and tries every bit depth, so it is done once and
+// a frame that cannot be decoded is still reported, with the reason.
+export async function inspectStegoImage(
+  image: StegoImage,
+  passphrase?: string
+): Promise<{ frame: StegoFrameInfo | null; payload?: StegoPayload; error?: string }> {
+  const frame = await findFrame(image, passphrase);
+  if (!frame) return { frame: null };
+  try {
+    return { frame: frameInfo(frame), payload: await decodeFrame(frame, passphrase) };
+  } catch (error) {
+    return { frame: frameInfo(frame), error: error instanceof Error ? error.message : String(error) };
+  }
+}
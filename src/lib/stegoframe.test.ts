@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { KdfCost } from './kdf';
+import { decodeFrameHeader, encodeFrame, openBody, sealBody, type FrameFormat } from './stegoframe';
+
+const WIDE: FrameFormat = { magic: new Uint8Array([0x57, 0x4c, 0x53, 0x47]), version: 2, compact: false, noun: 'hidden data' };
+const COMPACT: FrameFormat = { magic: new Uint8Array([0x57, 0x54]), version: 1, compact: true, noun: 'hidden message' };
+
+const cost: KdfCost = { name: 'pbkdf2', hash: 'SHA-256', iterations: 1234 };
+const body = new Uint8Array([0xaa, 0xbb, 0xcc]);
+
+describe('frames', () => {
+  it('writes the wide header the media carriers use', () => {
+    const framed = encodeFrame(WIDE, body, true);
+    expect([...framed]).toEqual([0x57, 0x4c, 0x53, 0x47, 2, 1, 0, 0, 0, 3, 0xaa, 0xbb, 0xcc]);
+    expect(decodeFrameHeader(WIDE, framed)).toEqual({ version: 2, encrypted: true, length: 3 });
+  });
+
+  it('writes the compact header the text carriers use', () => {
+    const framed = encodeFrame(COMPACT, body, false);
+    expect([...framed]).toEqual([0x57, 0x54, 0x10, 0, 3, 0xaa, 0xbb, 0xcc]);
+    expect(decodeFrameHeader(COMPACT, framed)).toEqual({ version: 1, encrypted: false, length: 3 });
+  });
+
+  it('finds no frame without the magic', () => {
+    expect(decodeFrameHeader(WIDE, encodeFrame(COMPACT, body, false))).toBeNull();
+    expect(decodeFrameHeader(WIDE, new Uint8Array([0x57, 0x4c]))).toBeNull();
+  });
+
+  it('refuses frames from a newer version', () => {
+    const framed = encodeFrame({ ...COMPACT, version: 2 }, body, false);
+    expect(() => decodeFrameHeader(COMPACT, framed)).toThrow('Hidden message uses a newer format (version 2)');
+  });
+});
+
+describe('sealed bodies', () => {
+  it('opens what it sealed', async () => {
+    const sealed = await sealBody(body, 'passphrase', cost);
+    expect(sealed).not.toEqual(body);
+    expect(await openBody(WIDE, sealed, true, 'passphrase')).toEqual(body);
+    expect(await sealBody(body)).toBe(body);
+    expect(await openBody(WIDE, body, false)).toBe(body);
+  });
+
+  it('says what is wrong with the passphrase', async () => {
+    const sealed = await sealBody(body, 'passphrase', cost);
+    await expect(openBody(WIDE, sealed, true)).rejects.toThrow('The hidden data is encrypted; enter its passphrase');
+    await expect(openBody(COMPACT, sealed, true, 'wrong')).rejects.toThrow('The hidden message could not be decrypted');
+  });
+
+  it('reports a KDF cost above the limits rather than a wrong passphrase', async () => {
+    const sealed = await sealBody(body, 'passphrase', cost);
+    // The PBKDF2 iteration count is stored big-endian in the envelope header
+    const at = sealed.findIndex((_, i) => sealed[i] === 0 && sealed[i + 1] === 0 && sealed[i + 2] === 0x04 && sealed[i + 3] === 0xd2);
+    expect(at).toBeGreaterThan(0);
+    const costly = sealed.slice();
+    new DataView(costly.buffer).setUint32(at, 0x7fffffff);
+    await expect(openBody(WIDE, costly, true, 'passphrase')).rejects.toThrow('Unsupported KDF cost');
+  });
+});
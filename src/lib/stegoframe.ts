@@ -0,0 +1,95 @@
+// Frames shared by the steganography carriers
+//
+// Image, audio and text carriers all hide a frame of
+//   magic | version | flags | length (big-endian) | body
+// whose magic names the carrier. Media carriers give the version and flags a
+// byte each and the length four; text carriers, which hold only a few bytes,
+// use a compact header with the version and flags sharing a byte (4 bits
+// each) and a two-byte length. With a passphrase the body is sealed in an
+// AES-256-GCM envelope before it is framed.
+
+import { decryptBytesAES256, encryptBytesAES256, encryptedBytesAES256Length } from './crypto';
+import type { KdfCost } from './kdf';
+
+export interface FrameFormat {
+  magic: Uint8Array;
+  // Newest version written; frames from later versions are refused
+  version: number;
+  compact: boolean;
+  // What the carrier calls its payload in messages, such as "hidden data"
+  noun: string;
+}
+
+export interface FrameHeader {
+  version: number;
+  encrypted: boolean;
+  // Bytes of body after the header
+  length: number;
+}
+
+const FLAG_ENCRYPTED = 0x01;
+
+export function frameHeaderLength(format: FrameFormat): number {
+  return format.magic.length + (format.compact ? 3 : 6);
+}
+
+export function encodeFrame(format: FrameFormat, body: Uint8Array, encrypted: boolean): Uint8Array {
+  const headerLength = frameHeaderLength(format);
+  const flags = encrypted ? FLAG_ENCRYPTED : 0;
+  const framed = new Uint8Array(headerLength + body.length);
+  const view = new DataView(framed.buffer);
+  const at = format.magic.length;
+
+  framed.set(format.magic, 0);
+  if (format.compact) {
+    framed[at] = (format.version << 4) | flags;
+    view.setUint16(at + 1, body.length);
+  } else {
+    framed[at] = format.version;
+    framed[at + 1] = flags;
+    view.setUint32(at + 2, body.length);
+  }
+  framed.set(body, headerLength);
+  return framed;
+}
+
+// Reads the header at the start of the bytes, or returns null when they do
+// not start with one
+export function decodeFrameHeader(format: FrameFormat, bytes: Uint8Array): FrameHeader | null {
+  if (bytes.length < frameHeaderLength(format) || !format.magic.every((byte, i) => bytes[i] === byte)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const at = format.magic.length;
+  const { version, flags, length } = format.compact
+    ? { version: bytes[at] >> 4, flags: bytes[at] & 0x0f, length: view.getUint16(at + 1) }
+    : { version: bytes[at], flags: bytes[at + 1], length: view.getUint32(at + 2) };
+  if (version > format.version) {
+    const noun = format.noun[0].toUpperCase() + format.noun.slice(1);
+    throw new Error(`${noun} uses a newer format (version ${version})`);
+  }
+  return { version, encrypted: (flags & FLAG_ENCRYPTED) !== 0, length };
+}
+
+// Bytes a frame body of this length takes up once sealed, if it is
+export function sealedBodyLength(length: number, encrypted: boolean, cost?: KdfCost): number {
+  return encrypted ? encryptedBytesAES256Length(length, cost) : length;
+}
+
+export async function sealBody(body: Uint8Array, passphrase?: string, cost?: KdfCost): Promise<Uint8Array> {
+  return passphrase ? encryptBytesAES256(body, passphrase, cost) : body;
+}
+
+// Reverses sealBody. A KDF cost the envelope may not ask for is reported as
+// it is, since it says more than a wrong passphrase would.
+export async function openBody(format: FrameFormat, body: Uint8Array, encrypted: boolean, passphrase?: string): Promise<Uint8Array> {
+  if (!encrypted) return body;
+  if (!passphrase) {
+    throw new Error(`The ${format.noun} is encrypted; enter its passphrase`);
+  }
+  try {
+    return await decryptBytesAES256(body, passphrase);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Unsupported KDF cost')) throw error;
+    throw new Error(`The ${format.noun} could not be decrypted; check the passphrase`);
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { KdfCost } from './kdf';
+import { STREAM_CHUNK_SIZE, decryptBlob, detectBlobEnvelope, encryptBlob } from './stream';
+
+const cost: KdfCost = { name: 'pbkdf2', hash: 'SHA-256', iterations: 1000 };
+const MAX_HEADER_LENGTH = 4096;
+const SEALED_CHUNK_SIZE = STREAM_CHUNK_SIZE + 16;
+
+function plaintext(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = (i * 31 + 7) % 256;
+  return bytes;
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function encrypt(bytes: Uint8Array): Promise<Uint8Array> {
+  return collect(encryptBlob(new Blob([bytes]), 'correct horse', cost));
+}
+
+// Length of the envelope header, found by where the first sealed chunk must start
+function headerLength(sealed: Uint8Array, plainLength: number): number {
+  const chunks = Math.max(1, Math.ceil(plainLength / STREAM_CHUNK_SIZE));
+  const length = sealed.length - plainLength - chunks * 16;
+  expect(length).toBeGreaterThan(0);
+  expect(length).toBeLessThan(MAX_HEADER_LENGTH);
+  return length;
+}
+
+describe('streamed envelopes', () => {
+  it.each([
+    ['one short chunk', 1000],
+    ['exactly one chunk', STREAM_CHUNK_SIZE],
+    ['several chunks', STREAM_CHUNK_SIZE * 2 + 12345]
+  ])('round-trips %s', async (_name, length) => {
+    const bytes = plaintext(length);
+    const sealed = await encrypt(bytes);
+    expect(await detectBlobEnvelope(new Blob([sealed]))).toBe('aes-256-gcm-stream');
+    expect(await collect(decryptBlob(new Blob([sealed]), 'correct horse'))).toEqual(bytes);
+  });
+
+  it('round-trips an empty input', async () => {
+    const sealed = await encrypt(new Uint8Array(0));
+    expect(sealed.length).toBe(headerLength(sealed, 0) + 16);
+    expect(await collect(decryptBlob(new Blob([sealed]), 'correct horse'))).toEqual(new Uint8Array(0));
+  });
+
+  it('rejects the wrong password', async () => {
+    const sealed = await encrypt(plaintext(1000));
+    await expect(collect(decryptBlob(new Blob([sealed]), 'wrong'))).rejects.toThrow('wrong password');
+  });
+
+  it('rejects a truncated final chunk', async () => {
+    const sealed = await encrypt(plaintext(STREAM_CHUNK_SIZE + 500));
+    await expect(collect(decryptBlob(new Blob([sealed.subarray(0, sealed.length - 1)]), 'correct horse')))
+      .rejects.toThrow('failed authentication');
+    await expect(collect(decryptBlob(new Blob([sealed.subarray(0, sealed.length - 510)]), 'correct horse')))
+      .rejects.toThrow('truncated');
+  });
+
+  it('rejects a stream cut at a chunk boundary', async () => {
+    const length = STREAM_CHUNK_SIZE * 3;
+    const sealed = await encrypt(plaintext(length));
+    const cut = headerLength(sealed, length) + SEALED_CHUNK_SIZE * 2;
+    await expect(collect(decryptBlob(new Blob([sealed.subarray(0, cut)]), 'correct horse')))
+      .rejects.toThrow('Chunk 1 failed authentication');
+  });
+
+  it('rejects swapped chunks', async () => {
+    const length = STREAM_CHUNK_SIZE * 3;
+    const sealed = await encrypt(plaintext(length));
+    const start = headerLength(sealed, length);
+    const first = sealed.slice(start, start + SEALED_CHUNK_SIZE);
+    const second = sealed.slice(start + SEALED_CHUNK_SIZE, start + SEALED_CHUNK_SIZE * 2);
+    const swapped = sealed.slice();
+    swapped.set(second, start);
+    swapped.set(first, start + SEALED_CHUNK_SIZE);
+    await expect(collect(decryptBlob(new Blob([swapped]), 'correct horse'))).rejects.toThrow();
+  });
+});
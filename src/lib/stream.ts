@@ -0,0 +1,250 @@
+// Chunked AES-256-GCM for files too large to hold in memory
+//
+// Output is an 'aes-256-gcm-stream' envelope header followed by sealed chunks.
+// Every chunk is STREAM_CHUNK_SIZE bytes of plaintext (the last may be shorter,
+// even empty) plus a 16-byte tag. Chunk nonces are built from the header's
+// 7-byte random prefix:
+//
+//   nonce prefix (7) | chunk counter (4, big-endian) | last-chunk flag (1)
+//
+// so chunks cannot be reordered, and dropping the tail is detected because
+// only the real final chunk authenticates with the flag set. The header is
+// the associated data of every chunk.
+
+import {
+  ENVELOPE_VERSION,
+  decodeEnvelopeHeader,
+  detectEnvelopeAlgorithm,
+  encodeEnvelopeHeader,
+  isEnvelopeBytes,
+  type EnvelopeAlgorithm,
+  type EnvelopeHeader
+} from './envelope';
+import { DEFAULT_KDF_COST, deriveKeyBytes, newKdfParams, type KdfCost } from './kdf';
+
+export const STREAM_CHUNK_SIZE = 64 * 1024;
+
+const TAG_LENGTH = 16;
+const NONCE_PREFIX_LENGTH = 7;
+const MAX_CHUNKS = 0xffffffff;
+
+// FIFO of incoming chunks so large inputs are not re-copied on every read
+function createByteQueue() {
+  const parts: Uint8Array[] = [];
+  let length = 0;
+
+  return {
+    get length() {
+      return length;
+    },
+    push(bytes: Uint8Array) {
+      if (bytes.length === 0) return;
+      parts.push(bytes);
+      length += bytes.length;
+    },
+    peek(count: number): Uint8Array {
+      const result = new Uint8Array(Math.min(count, length));
+      let offset = 0;
+      for (const part of parts) {
+        if (offset === result.length) break;
+        const piece = part.subarray(0, result.length - offset);
+        result.set(piece, offset);
+        offset += piece.length;
+      }
+      return result;
+    },
+    take(count: number): Uint8Array {
+      const result = this.peek(count);
+      let remaining = result.length;
+      while (remaining > 0) {
+        const part = parts[0];
+        if (part.length <= remaining) {
+          parts.shift();
+          remaining -= part.length;
+        } else {
+          parts[0] = part.subarray(remaining);
+          remaining = 0;
+        }
+      }
+      length -= result.length;
+      return result;
+    }
+  };
+}
+
+function chunkNonce(prefix: Uint8Array, counter: number, last: boolean): Uint8Array {
+  if (counter > MAX_CHUNKS) {
+    throw new Error('Stream is too long for its nonce space');
+  }
+  const nonce = new Uint8Array(12);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, counter);
+  nonce[11] = last ? 1 : 0;
+  return nonce;
+}
+
+async function importChunkKey(password: string, header: EnvelopeHeader, usages: KeyUsage[]): Promise<CryptoKey> {
+  if (!header.kdf) {
+    throw new Error('Envelope is missing key derivation parameters');
+  }
+  const keyBytes = await deriveKeyBytes(password, header.kdf, 32);
+  return crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, usages);
+}
+
+// TransformStream that turns plaintext bytes into a streamed envelope
+export function createEncryptionStream(password: string, cost: KdfCost = DEFAULT_KDF_COST): TransformStream<Uint8Array, Uint8Array> {
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    algorithm: 'aes-256-gcm-stream',
+    kdf: newKdfParams(cost),
+    nonce: crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH)),
+    aad: new Uint8Array(0),
+    keys: []
+  };
+  const headerBytes = encodeEnvelopeHeader(header);
+  const pending = createByteQueue();
+  let key: CryptoKey;
+  let counter = 0;
+
+  const sealChunk = async (chunk: Uint8Array, last: boolean) => {
+    const sealed = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: chunkNonce(header.nonce, counter++, last), additionalData: headerBytes },
+      key,
+      chunk
+    );
+    return new Uint8Array(sealed);
+  };
+
+  return new TransformStream({
+    async start(controller) {
+      key = await importChunkKey(password, header, ['encrypt']);
+      controller.enqueue(headerBytes);
+    },
+    async transform(bytes, controller) {
+      pending.push(bytes);
+      // Hold back a full chunk until more input proves it is not the last one
+      while (pending.length > STREAM_CHUNK_SIZE) {
+        controller.enqueue(await sealChunk(pending.take(STREAM_CHUNK_SIZE), false));
+      }
+    },
+    async flush(controller) {
+      controller.enqueue(await sealChunk(pending.take(STREAM_CHUNK_SIZE), true));
+    }
+  });
+}
+
+// TransformStream that verifies and decrypts a streamed envelope. Plaintext is
+// released chunk by chunk, so consumers must discard partial output if the
+// stream errors (wrong password, tampering or truncation).
+export function createDecryptionStream(password: string): TransformStream<Uint8Array, Uint8Array> {
+  const pending = createByteQueue();
+  const sealedChunkSize = STREAM_CHUNK_SIZE + TAG_LENGTH;
+  let header: EnvelopeHeader | null = null;
+  let headerBytes: Uint8Array;
+  let key: CryptoKey;
+  let counter = 0;
+
+  const openChunk = async (chunk: Uint8Array, last: boolean) => {
+    const index = counter++;
+    try {
+      const opened = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: chunkNonce(header!.nonce, index, last), additionalData: headerBytes },
+        key,
+        chunk
+      );
+      return new Uint8Array(opened);
+    } catch {
+      throw new Error(
+        index === 0
+          ? 'Decryption failed: wrong password or corrupted data'
+          : `Chunk ${index} failed authentication: data was tampered with, reordered or truncated`
+      );
+    }
+  };
+
+  const readHeader = async () => {
+    const parsed = decodeEnvelopeHeader(pending.peek(pending.length));
+    if (!parsed) return;
+    if (parsed.header.algorithm !== 'aes-256-gcm-stream') {
+      throw new Error('Not a streamed envelope');
+    }
+
+    headerBytes = pending.take(parsed.length);
+    key = await importChunkKey(password, parsed.header, ['decrypt']);
+    header = parsed.header;
+  };
+
+  return new TransformStream({
+    async transform(bytes, controller) {
+      pending.push(bytes);
+      if (!header) await readHeader();
+      if (!header) return;
+
+      while (pending.length > sealedChunkSize) {
+        controller.enqueue(await openChunk(pending.take(sealedChunkSize), false));
+      }
+    },
+    async flush(controller) {
+      if (!header) await readHeader();
+      if (!header) {
+        throw new Error('Truncated envelope');
+      }
+      if (pending.length < TAG_LENGTH) {
+        throw new Error('Stream ended before its final chunk: the file is truncated');
+      }
+      controller.enqueue(await openChunk(pending.take(sealedChunkSize), true));
+    }
+  });
+}
+
+export function encryptBlob(blob: Blob, password: string, cost?: KdfCost): ReadableStream<Uint8Array> {
+  return blob.stream().pipeThrough(createEncryptionStream(password, cost));
+}
+
+export function decryptBlob(blob: Blob, password: string): ReadableStream<Uint8Array> {
+  return blob.stream().pipeThrough(createDecryptionStream(password));
+}
+
+// Recognizes both binary envelopes and base64 text envelopes without reading the whole file
+export async function detectBlobEnvelope(blob: Blob): Promise<EnvelopeAlgorithm | null> {
+  const head = new Uint8Array(await blob.slice(0, 4096).arrayBuffer());
+  if (isEnvelopeBytes(head)) {
+    try {
+      return decodeEnvelopeHeader(head)?.header.algorithm ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Base64 text envelopes start with "V0xDSw" ("WLCK")
+  if (new TextDecoder().decode(head.subarray(0, 6)) === 'V0xDSw') {
+    return detectEnvelopeAlgorithm(await blob.text());
+  }
+  return null;
+}
+
+interface SaveFilePickerWindow extends Window {
+  showSaveFilePicker?: (options: { suggestedName: string }) => Promise<FileSystemFileHandle>;
+}
+
+// Writes straight to disk where the File System Access API exists; otherwise
+// the browser buffers the stream into a Blob (which it may page to disk)
+export async function saveStream(stream: ReadableStream<Uint8Array>, fileName: string) {
+  const pickerWindow = window as SaveFilePickerWindow;
+  if (pickerWindow.showSaveFilePicker) {
+    const handle = await pickerWindow.showSaveFilePicker({ suggestedName: fileName });
+    const writable = await handle.createWritable();
+    await stream.pipeTo(writable);
+    return;
+  }
+
+  const blob = await new Response(stream).blob();
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
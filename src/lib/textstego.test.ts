@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { KdfCost } from './kdf';
+import {
+  embedTextStego,
+  extractTextStego,
+  scanTextStego,
+  textStegoCapacity,
+  type TextStegoMethod
+} from './textstego';
+
+const cost: KdfCost = { name: 'pbkdf2', hash: 'SHA-256', iterations: 1000 };
+const METHODS: TextStegoMethod[] = ['zero-width', 'whitespace', 'homoglyph'];
+
+const cover = Array.from({ length: 12 }, () => 'The quick brown fox jumps over the lazy dog beside a calm river.').join('\n');
+
+describe('text steganography', () => {
+  it.each(METHODS)('round-trips a message through %s', async method => {
+    const stego = await embedTextStego(cover, 'hi', method);
+    expect(await extractTextStego(stego)).toEqual({ method, message: 'hi', encrypted: false });
+  });
+
+  it.each(METHODS)('round-trips an encrypted message through %s', async method => {
+    const longCover = method === 'homoglyph' ? Array(8).fill(cover).join('\n') : cover;
+    const stego = await embedTextStego(longCover, 'hi', method, { passphrase: 'open sesame', cost });
+    expect(await extractTextStego(stego, 'open sesame')).toEqual({ method, message: 'hi', encrypted: true });
+    await expect(extractTextStego(stego)).rejects.toThrow('enter its passphrase');
+    await expect(extractTextStego(stego, 'wrong')).rejects.toThrow('check the passphrase');
+  });
+
+  it('keeps the visible text for the invisible carriers', async () => {
+    const zeroWidth = await embedTextStego(cover, 'hi', 'zero-width');
+    expect(zeroWidth.replace(/[\u200B-\u200D\u2060]/g, '')).toBe(cover);
+
+    const whitespace = await embedTextStego(cover, 'hi', 'whitespace');
+    expect(whitespace.split('\n').map(line => line.trimEnd())).toEqual(cover.split('\n'));
+  });
+
+  it('keeps the length of a homoglyph cover', async () => {
+    const stego = await embedTextStego(cover, 'hi', 'homoglyph');
+    expect(stego).not.toBe(cover);
+    expect(stego.length).toBe(cover.length);
+  });
+
+  it('leaves Cyrillic words in a homoglyph cover alone', async () => {
+    const russian = 'Привет, как дела? А у нас с ним всё о нём.';
+    const mixed = [russian, cover, russian].join('\n');
+    const stego = await embedTextStego(mixed, 'hi', 'homoglyph');
+    const lines = stego.split('\n');
+    expect(lines[0]).toBe(russian);
+    expect(lines[lines.length - 1]).toBe(russian);
+    expect(await extractTextStego(stego)).toMatchObject({ method: 'homoglyph', message: 'hi' });
+    expect(textStegoCapacity(russian, 'homoglyph')).toBe(0);
+  });
+
+  it('refuses a homoglyph cover that is too short', async () => {
+    await expect(embedTextStego('The quick brown fox', 'hi', 'homoglyph')).rejects.toThrow('cover text is too short');
+  });
+
+  it('scans each carrier without decrypting', async () => {
+    const stego = await embedTextStego(cover, 'hi', 'whitespace', { passphrase: 'open sesame', cost });
+    const scan = scanTextStego(stego);
+    expect(scan.find(result => result.method === 'whitespace')?.frame).toMatchObject({ encrypted: true });
+    expect(scan.filter(result => result.frame)).toHaveLength(1);
+  });
+
+  it('finds nothing in plain text', async () => {
+    await expect(extractTextStego(cover)).rejects.toThrow('No hidden message found');
+    expect(scanTextStego(cover).every(result => result.marks === 0 && !result.frame)).toBe(true);
+  });
+});
@@ -0,0 +1,279 @@
+// Text steganography: short messages hidden in ordinary text
+//
+// Three carriers, for places an image cannot go:
+// - zero-width: invisible Unicode characters, two bits each, slipped in
+//   after the first character of the cover text. Survives most chat apps.
+// - whitespace: spaces (0) and tabs (1) at the ends of lines, in the manner
+//   of SNOW. Blank lines are added when the cover runs out. Survives plain
+//   text files and email, but editors that trim lines destroy it.
+// - homoglyph: Latin letters swapped for identical-looking Cyrillic ones, one
+//   bit per letter that has a twin. Only words written in Latin script carry
+//   bits, so text in other scripts is left as it is. The text keeps its
+//   length, but only a few bytes fit in a typical message.
+//
+// Every carrier holds the same compact stegoframe.ts frame:
+//   magic "WT" | version (4 bits) and flags (4 bits) | length (2, big-endian) | body
+// written most significant bit first. The body is the message as UTF-8,
+// sealed before it is embedded when a passphrase is given.
+
+import { DEFAULT_KDF_COST, type KdfCost } from './kdf';
+import {
+  decodeFrameHeader,
+  encodeFrame,
+  frameHeaderLength,
+  openBody,
+  sealBody,
+  sealedBodyLength,
+  type FrameFormat
+} from './stegoframe';
+
+export type TextStegoMethod = 'zero-width' | 'whitespace' | 'homoglyph';
+
+export const TEXT_STEGO_METHODS: Record<TextStegoMethod, { name: string; description: string }> = {
+  'zero-width': {
+    name: 'Zero-width characters',
+    description: 'Invisible Unicode characters after the first letter; fits any amount',
+  },
+  whitespace: {
+    name: 'Trailing whitespace',
+    description: 'Spaces and tabs at line ends, adding lines as needed; lost if lines are trimmed',
+  },
+  homoglyph: {
+    name: 'Homoglyph substitution',
+    description: 'Latin letters swapped for identical Cyrillic ones; one bit per swappable letter',
+  },
+};
+
+export interface TextStegoOptions {
+  passphrase?: string;
+  cost?: KdfCost;
+}
+
+export interface TextStegoPayload {
+  method: TextStegoMethod;
+  message: string;
+  encrypted: boolean;
+}
+
+// What a carrier shows in a text: marks counts the characters that could
+// carry data, and frame is set when they hold one
+export interface TextStegoScan {
+  method: TextStegoMethod;
+  marks: number;
+  frame: { encrypted: boolean; length: number } | null;
+}
+
+const FRAME: FrameFormat = {
+  magic: new Uint8Array([0x57, 0x54]), // "WT"
+  version: 1,
+  compact: true,
+  noun: 'hidden message',
+};
+const HEADER_BYTES = frameHeaderLength(FRAME);
+const MAX_BODY_BYTES = 0xffff;
+
+// Zero width space, non-joiner, joiner and word joiner
+const ZERO_WIDTH = ['\u200B', '\u200C', '\u200D', '\u2060'];
+// Also stripped from covers and counted as marks, though never written
+const OTHER_INVISIBLE = ['\uFEFF', '\u180E'];
+const INVISIBLE = new Set([...ZERO_WIDTH, ...OTHER_INVISIBLE]);
+
+// Trailing whitespace goes into lines this many bits at a time
+const WHITESPACE_BITS_PER_LINE = 24;
+
+// Latin letters and the Cyrillic letters drawn the same in common fonts,
+// written as escapes since the two are indistinguishable in an editor
+const HOMOGLYPHS: Record<string, string> = {
+  a: '\u0430', c: '\u0441', e: '\u0435', i: '\u0456', j: '\u0458', o: '\u043E',
+  p: '\u0440', s: '\u0455', x: '\u0445', y: '\u0443', A: '\u0410', B: '\u0412',
+  C: '\u0421', E: '\u0415', H: '\u041D', I: '\u0406', J: '\u0408', K: '\u041A',
+  M: '\u041C', O: '\u041E', P: '\u0420', S: '\u0405', T: '\u0422', X: '\u0425',
+};
+const LATIN_FOR = Object.fromEntries(Object.entries(HOMOGLYPHS).map(([latin, cyrillic]) => [cyrillic, latin]));
+const WORD = /\p{L}+/gu;
+const LATIN_LETTER = /\p{Script=Latin}/u;
+
+function frame(body: Uint8Array, encrypted: boolean): Uint8Array {
+  if (body.length > MAX_BODY_BYTES) {
+    throw new Error(`Text carriers hold at most ${MAX_BODY_BYTES.toLocaleString()} bytes`);
+  }
+  return encodeFrame(FRAME, body, encrypted);
+}
+
+// Reads a frame from the start of a bit sequence, or returns null when the
+// bits do not hold one
+function unframe(bits: number[]): { body: Uint8Array; encrypted: boolean } | null {
+  const bytes = bitsToBytes(bits);
+  const header = decodeFrameHeader(FRAME, bytes);
+  if (!header || HEADER_BYTES + header.length > bytes.length) return null;
+  return { body: bytes.slice(HEADER_BYTES, HEADER_BYTES + header.length), encrypted: header.encrypted };
+}
+
+function bytesToBits(bytes: Uint8Array): number[] {
+  const bits: number[] = [];
+  for (const byte of bytes) {
+    for (let shift = 7; shift >= 0; shift--) bits.push((byte >> shift) & 1);
+  }
+  return bits;
+}
+
+function bitsToBytes(bits: number[]): Uint8Array {
+  const bytes = new Uint8Array(Math.floor(bits.length / 8));
+  for (let i = 0; i < bytes.length * 8; i++) {
+    bytes[i >> 3] = (bytes[i >> 3] << 1) | bits[i];
+  }
+  return bytes;
+}
+
+function splitLines(text: string) {
+  return text.split('\n').map(line => {
+    const ending = line.endsWith('\r') ? '\r' : '';
+    return { content: ending ? line.slice(0, -1) : line, ending };
+  });
+}
+
+function zeroWidthEmbed(cover: string, bits: number[]): string {
+  let hidden = '';
+  for (let i = 0; i < bits.length; i += 2) {
+    hidden += ZERO_WIDTH[(bits[i] << 1) | (bits[i + 1] ?? 0)];
+  }
+  const [first = '', ...rest] = [...cover].filter(char => !INVISIBLE.has(char));
+  return first + hidden + rest.join('');
+}
+
+function zeroWidthBits(text: string): number[] {
+  const bits: number[] = [];
+  for (const char of text) {
+    const symbol = ZERO_WIDTH.indexOf(char);
+    if (symbol >= 0) bits.push(symbol >> 1, symbol & 1);
+  }
+  return bits;
+}
+
+function whitespaceEmbed(cover: string, bits: number[]): string {
+  const lines = splitLines(cover).map(line => ({ ...line, content: line.content.replace(/[ \t]+$/, '') }));
+  for (let i = 0, line = 0; i < bits.length; i += WHITESPACE_BITS_PER_LINE, line++) {
+    if (line === lines.length) lines.push({ content: '', ending: lines[line - 1]?.ending ?? '' });
+    const chunk = bits.slice(i, i + WHITESPACE_BITS_PER_LINE);
+    lines[line].content += chunk.map(bit => (bit ? '\t' : ' ')).join('');
+  }
+  return lines.map(line => line.content + line.ending).join('\n');
+}
+
+function whitespaceBits(text: string): number[] {
+  const bits: number[] = [];
+  for (const { content } of splitLines(text)) {
+    const trailing = /[ \t]+$/.exec(content)?.[0] ?? '';
+    for (const char of trailing) bits.push(char === '\t' ? 1 : 0);
+  }
+  return bits;
+}
+
+// A word carries bits when it is Latin apart from swapped twins and keeps a
+// Latin letter without a twin, which embedding never changes. Words in other
+// scripts, including Cyrillic ones made only of look-alike letters, do not.
+function isLatinWord(word: string): boolean {
+  const letters = [...word];
+  return letters.some(char => LATIN_LETTER.test(char) && !HOMOGLYPHS[char]) &&
+    letters.every(char => LATIN_LETTER.test(char) || LATIN_FOR[char]);
+}
+
+function homoglyphEmbed(cover: string, bits: number[]): string {
+  let next = 0;
+  return cover.replace(WORD, word => {
+    if (!isLatinWord(word)) return word;
+    return [...word].map(char => {
+      const latin = LATIN_FOR[char] ?? (HOMOGLYPHS[char] ? char : undefined);
+      if (latin === undefined || next >= bits.length) return char;
+      return bits[next++] ? HOMOGLYPHS[latin] : latin;
+    }).join('');
+  });
+}
+
+function homoglyphBits(text: string): number[] {
+  const bits: number[] = [];
+  for (const [word] of text.matchAll(WORD)) {
+    if (!isLatinWord(word)) continue;
+    for (const char of word) {
+      if (HOMOGLYPHS[char]) bits.push(0);
+      else if (LATIN_FOR[char]) bits.push(1);
+    }
+  }
+  return bits;
+}
+
+const CARRIERS: Record<TextStegoMethod, {
+  embed: (cover: string, bits: number[]) => string;
+  bits: (text: string) => number[];
+}> = {
+  'zero-width': { embed: zeroWidthEmbed, bits: zeroWidthBits },
+  whitespace: { embed: whitespaceEmbed, bits: whitespaceBits },
+  homoglyph: { embed: homoglyphEmbed, bits: homoglyphBits },
+};
+
+function countMarks(text: string, method: TextStegoMethod): number {
+  switch (method) {
+    case 'zero-width':
+      return [...text].filter(char => INVISIBLE.has(char)).length;
+    case 'whitespace':
+      return splitLines(text).filter(({ content }) => /[ \t]$/.test(content)).length;
+    case 'homoglyph':
+      return homoglyphBits(text).filter(bit => bit === 1).length;
+  }
+}
+
+// Message bytes the cover can carry, after the frame header; Infinity for
+// carriers that grow to fit
+export function textStegoCapacity(cover: string, method: TextStegoMethod): number {
+  if (method !== 'homoglyph') return Infinity;
+  return Math.max(0, Math.floor(homoglyphBits(cover).length / 8) - HEADER_BYTES);
+}
+
+// Size of the frame body for the message
+export function textStegoPayloadSize(message: string, encrypted: boolean, cost: KdfCost = DEFAULT_KDF_COST): number {
+  return sealedBodyLength(new TextEncoder().encode(message).length, encrypted, cost);
+}
+
+// Returns the cover text with the message hidden in it
+export async function embedTextStego(
+  cover: string,
+  message: string,
+  method: TextStegoMethod,
+  options: TextStegoOptions = {}
+): Promise<string> {
+  const { passphrase, cost } = options;
+  const body = await sealBody(new TextEncoder().encode(message), passphrase, cost);
+
+  const capacity = textStegoCapacity(cover, method);
+  if (body.length > capacity) {
+    throw new Error(
+      `The cover text is too short: the message needs ${body.length} bytes but the text has room for ${capacity}. ` +
+      'Use a longer cover text or another carrier.'
+    );
+  }
+  return CARRIERS[method].embed(cover, bytesToBits(frame(body, !!passphrase)));
+}
+
+// Looks at each carrier without decrypting anything
+export function scanTextStego(text: string): TextStegoScan[] {
+  return (Object.keys(CARRIERS) as TextStegoMethod[]).map(method => {
+    const found = unframe(CARRIERS[method].bits(text));
+    return {
+      method,
+      marks: countMarks(text, method),
+      frame: found && { encrypted: found.encrypted, length: found.body.length },
+    };
+  });
+}
+
+// Finds a message hidden by embedTextStego in any of the carriers
+export async function extractTextStego(text: string, passphrase?: string): Promise<TextStegoPayload> {
+  for (const method of Object.keys(CARRIERS) as TextStegoMethod[]) {
+    const found = unframe(CARRIERS[method].bits(text));
+    if (!found) continue;
+
+    const opened = await openBody(FRAME, found.body, found.encrypted, passphrase);
+    return { method, message: new TextDecoder().decode(opened), encrypted: found.encrypted };
+  }
+  throw new Error('No hidden message found in this text');
+}
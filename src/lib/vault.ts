@@ -0,0 +1,428 @@
+// Key Vault: private keys encrypted under a master passphrase in IndexedDB
+//
+// The passphrase, stretched with the configured KDF, unwraps a random vault
+// key. While the vault is unlocked that key lives only in memory, as a
+// non-extractable AES-GCM CryptoKey; locking drops it. Every private key is
+// sealed under the vault key with its id and public key as associated data,
+// so records cannot be swapped around. Public keys are stored in the clear
+// and can be listed while the vault is locked.
+
+import type { KeyMetadata, KeyPair } from './crypto';
+import { keyFingerprint } from './fingerprint';
+import { newKdfParams, type KdfCost, type KdfParams } from './kdf';
+import { kdfCostFromSettings, loadSettings } from './settings';
+import { runCryptoJob } from './workerPool';
+
+export type VaultStatus = 'uninitialized' | 'locked' | 'unlocked';
+
+// Key pairs come out of the vault with their fingerprint id filled in
+export type StoredKeyPair = KeyPair & { id: string };
+
+export type VaultPublicKey = Omit<StoredKeyPair, 'privateKey'>;
+
+const DB_NAME = 'word-lock-vault';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const KEY_STORE = 'keys';
+const META_ID = 'vault';
+
+// Where key pairs were kept, unencrypted, before the vault existed
+const LEGACY_KEYPAIRS_KEY = 'rsa-keypairs';
+const LEGACY_HYBRID_KEY = 'hybrid-keypair';
+
+const VAULT_KEY_AAD = new TextEncoder().encode('word-lock vault key');
+
+interface VaultMeta {
+  id: typeof META_ID;
+  version: 1;
+  kdf: KdfParams;
+  nonce: Uint8Array;
+  wrappedKey: Uint8Array;
+  created: string;
+}
+
+// Records written before fingerprint ids were keyed by creation timestamp;
+// unlocking re-files them
+interface VaultKeyRecord extends VaultPublicKey {
+  nonce: Uint8Array;
+  encryptedPrivateKey: Uint8Array;
+}
+
+let vaultKey: CryptoKey | null = null;
+let autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+let database: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(META_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(KEY_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open the key vault database'));
+    });
+    database.catch(() => { database = null; });
+  }
+  return database;
+}
+
+// Runs fn against the given stores in one transaction and resolves once it commits
+async function withStores<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  fn: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(stores, mode);
+    const request = fn(transaction);
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error ?? new Error('Key vault transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Key vault transaction aborted'));
+  });
+}
+
+function readMeta(): Promise<VaultMeta | undefined> {
+  return withStores([META_STORE], 'readonly', tx => tx.objectStore(META_STORE).get(META_ID));
+}
+
+function readRecords(): Promise<VaultKeyRecord[]> {
+  return withStores([KEY_STORE], 'readonly', tx => tx.objectStore(KEY_STORE).getAll());
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+// Called whenever the vault changes: locked, unlocked or keys added/removed
+export function subscribeVault(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// Restarts the auto-lock countdown; call on user activity
+export function touchVault() {
+  if (!vaultKey) return;
+  if (autoLockTimer) clearTimeout(autoLockTimer);
+  autoLockTimer = null;
+
+  const minutes = loadSettings().vaultAutoLockMinutes;
+  if (minutes > 0) {
+    autoLockTimer = setTimeout(lockVault, minutes * 60 * 1000);
+  }
+}
+
+export function isVaultUnlocked(): boolean {
+  return vaultKey !== null;
+}
+
+export async function getVaultStatus(): Promise<VaultStatus> {
+  if (vaultKey) return 'unlocked';
+  return (await readMeta()) ? 'locked' : 'uninitialized';
+}
+
+function requireVaultKey(): CryptoKey {
+  if (!vaultKey) {
+    throw new Error('The key vault is locked');
+  }
+  touchVault();
+  return vaultKey;
+}
+
+async function passphraseKey(passphrase: string, kdf: KdfParams): Promise<CryptoKey> {
+  const bytes = await runCryptoJob('deriveKeyBytes', [passphrase, kdf, 32]);
+  try {
+    return await crypto.subtle.importKey('raw', bytes, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  } finally {
+    bytes.fill(0);
+  }
+}
+
+async function wrapVaultKey(rawKey: Uint8Array, passphrase: string, cost: KdfCost) {
+  const kdf = newKdfParams(cost);
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await passphraseKey(passphrase, kdf);
+  const wrappedKey = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce, additionalData: VAULT_KEY_AAD },
+    wrappingKey,
+    rawKey
+  );
+  return { kdf, nonce, wrappedKey: new Uint8Array(wrappedKey) };
+}
+
+async function unwrapVaultKey(meta: VaultMeta, passphrase: string): Promise<Uint8Array> {
+  const wrappingKey = await passphraseKey(passphrase, meta.kdf);
+  try {
+    const rawKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: meta.nonce, additionalData: VAULT_KEY_AAD },
+      wrappingKey,
+      meta.wrappedKey
+    );
+    return new Uint8Array(rawKey);
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+}
+
+async function openWithRawKey(rawKey: Uint8Array) {
+  try {
+    vaultKey = await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  } finally {
+    rawKey.fill(0);
+  }
+  touchVault();
+}
+
+function recordAad(id: string, publicKey: string): Uint8Array {
+  return new TextEncoder().encode(`${id}\n${publicKey}`);
+}
+
+async function sealKeyPair(key: CryptoKey, keyPair: KeyPair): Promise<VaultKeyRecord> {
+  const { privateKey, ...publicPart } = keyPair;
+  const id = await keyFingerprint(keyPair.publicKey);
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce, additionalData: recordAad(id, keyPair.publicKey) },
+    key,
+    new TextEncoder().encode(privateKey)
+  );
+  return { ...publicPart, id, nonce, encryptedPrivateKey: new Uint8Array(encrypted) };
+}
+
+async function openKeyPair(key: CryptoKey, record: VaultKeyRecord): Promise<StoredKeyPair> {
+  const { nonce, encryptedPrivateKey, ...publicPart } = record;
+  let decrypted: ArrayBuffer;
+  try {
+    decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: nonce, additionalData: recordAad(record.id, record.publicKey) },
+      key,
+      encryptedPrivateKey
+    );
+  } catch {
+    throw new Error(`Vault entry ${record.id} is corrupted`);
+  }
+  return { ...publicPart, privateKey: new TextDecoder().decode(decrypted) };
+}
+
+function readLegacyKeyPairs(): KeyPair[] {
+  const legacy: KeyPair[] = [];
+  try {
+    const saved = localStorage.getItem(LEGACY_KEYPAIRS_KEY);
+    if (saved) legacy.push(...JSON.parse(saved));
+    const hybrid = localStorage.getItem(LEGACY_HYBRID_KEY);
+    if (hybrid) legacy.push(JSON.parse(hybrid));
+  } catch (error) {
+    console.error('Failed to read legacy key pairs:', error);
+  }
+  return legacy.filter(keyPair => keyPair?.publicKey && keyPair?.privateKey && keyPair?.created);
+}
+
+// Re-files records from before fingerprint ids under their fingerprint
+async function rekeyLegacyRecords(key: CryptoKey) {
+  const records = await readRecords();
+  const stale: VaultKeyRecord[] = [];
+  for (const record of records) {
+    if (record.id !== await keyFingerprint(record.publicKey)) stale.push(record);
+  }
+  if (stale.length === 0) return;
+
+  const resealed = await Promise.all(stale.map(async record => sealKeyPair(key, await openKeyPair(key, record))));
+  await withStores([KEY_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(KEY_STORE);
+    stale.forEach(record => store.delete(record.id));
+    resealed.forEach(record => store.put(record));
+  });
+}
+
+// Moves key pairs left in localStorage by older versions into the vault,
+// then removes the plaintext copies
+async function migrateLegacyKeyPairs(): Promise<number> {
+  const known = new Set((await readRecords()).map(record => record.publicKey));
+  const fresh = readLegacyKeyPairs().filter(keyPair => {
+    if (known.has(keyPair.publicKey)) return false;
+    known.add(keyPair.publicKey);
+    return true;
+  });
+  await addVaultKeyPairs(fresh);
+
+  localStorage.removeItem(LEGACY_KEYPAIRS_KEY);
+  localStorage.removeItem(LEGACY_HYBRID_KEY);
+  return fresh.length;
+}
+
+// Creates the vault and unlocks it. Resolves to the number of migrated keys.
+export async function createVault(passphrase: string, cost: KdfCost = kdfCostFromSettings()): Promise<number> {
+  if (await readMeta()) {
+    throw new Error('A key vault already exists');
+  }
+  if (!passphrase) {
+    throw new Error('Choose a master passphrase');
+  }
+
+  const rawKey = crypto.getRandomValues(new Uint8Array(32));
+  const meta: VaultMeta = {
+    id: META_ID,
+    version: 1,
+    ...(await wrapVaultKey(rawKey, passphrase, cost)),
+    created: new Date().toISOString()
+  };
+  await withStores([META_STORE], 'readwrite', tx => { tx.objectStore(META_STORE).add(meta); });
+
+  await openWithRawKey(rawKey);
+  const migrated = await migrateLegacyKeyPairs();
+  notify();
+  return migrated;
+}
+
+// Unlocks the vault. Resolves to the number of migrated keys.
+export async function unlockVault(passphrase: string): Promise<number> {
+  const meta = await readMeta();
+  if (!meta) {
+    throw new Error('No key vault has been created yet');
+  }
+
+  await openWithRawKey(await unwrapVaultKey(meta, passphrase));
+  await rekeyLegacyRecords(requireVaultKey());
+  const migrated = await migrateLegacyKeyPairs();
+  notify();
+  return migrated;
+}
+
+export function lockVault() {
+  if (autoLockTimer) clearTimeout(autoLockTimer);
+  autoLockTimer = null;
+  if (!vaultKey) return;
+
+  vaultKey = null;
+  notify();
+}
+
+// Re-wraps the vault key; stored keys do not need re-encrypting
+export async function changeVaultPassphrase(
+  currentPassphrase: string,
+  newPassphrase: string,
+  cost: KdfCost = kdfCostFromSettings()
+) {
+  const meta = await readMeta();
+  if (!meta) {
+    throw new Error('No key vault has been created yet');
+  }
+  if (!newPassphrase) {
+    throw new Error('Choose a master passphrase');
+  }
+
+  const rawKey = await unwrapVaultKey(meta, currentPassphrase);
+  try {
+    const updated: VaultMeta = { ...meta, ...(await wrapVaultKey(rawKey, newPassphrase, cost)) };
+    await withStores([META_STORE], 'readwrite', tx => { tx.objectStore(META_STORE).put(updated); });
+  } finally {
+    rawKey.fill(0);
+  }
+  touchVault();
+}
+
+// Public halves of the stored key pairs, newest first; works while locked
+export async function listVaultPublicKeys(): Promise<VaultPublicKey[]> {
+  const records = await readRecords();
+  return records
+    .map(({ nonce, encryptedPrivateKey, ...publicPart }) => publicPart)
+    .sort((a, b) => b.created.localeCompare(a.created));
+}
+
+// Decrypted key pairs, newest first; the vault must be unlocked
+export async function getVaultKeyPairs(): Promise<StoredKeyPair[]> {
+  const key = requireVaultKey();
+  const records = await readRecords();
+  const keyPairs = await Promise.all(records.map(record => openKeyPair(key, record)));
+  return keyPairs.sort((a, b) => b.created.localeCompare(a.created));
+}
+
+// Stores key pairs, replacing any with the same public key. Resolves to their ids.
+export async function addVaultKeyPairs(keyPairs: KeyPair[]): Promise<string[]> {
+  const key = requireVaultKey();
+  if (keyPairs.length === 0) return [];
+
+  const records = await Promise.all(keyPairs.map(keyPair => sealKeyPair(key, keyPair)));
+  await withStores([KEY_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(KEY_STORE);
+    records.forEach(record => store.put(record));
+  });
+  notify();
+  return records.map(record => record.id);
+}
+
+export async function addVaultKeyPair(keyPair: KeyPair): Promise<string> {
+  const [id] = await addVaultKeyPairs([keyPair]);
+  return id;
+}
+
+async function updateKeyRecord(id: string, changes: Partial<VaultPublicKey>) {
+  requireVaultKey();
+  const record: VaultKeyRecord | undefined = await withStores([KEY_STORE], 'readonly', tx => tx.objectStore(KEY_STORE).get(id));
+  if (!record) {
+    throw new Error('Key pair not found in the vault');
+  }
+
+  const updated: VaultKeyRecord = { ...record, ...changes };
+  await withStores([KEY_STORE], 'readwrite', tx => { tx.objectStore(KEY_STORE).put(updated); });
+  notify();
+}
+
+// Labels, usage flags and expiry are not encrypted, so editing them never
+// touches the sealed private key
+export async function updateVaultKeyMetadata(id: string, metadata: KeyMetadata) {
+  await updateKeyRecord(id, metadata);
+}
+
+export async function markVaultKeyBackedUp(id: string) {
+  await updateKeyRecord(id, { backedUp: new Date().toISOString() });
+}
+
+// Replaces a key pair with a successor that inherits its label, owner and
+// usages. The old pair stays in the vault, retired, so whatever was encrypted
+// to it can still be opened and moved to the successor.
+export async function rotateVaultKeyPair(id: string, successor: KeyPair): Promise<string> {
+  const key = requireVaultKey();
+  const record: VaultKeyRecord | undefined = await withStores([KEY_STORE], 'readonly', tx => tx.objectStore(KEY_STORE).get(id));
+  if (!record) {
+    throw new Error('Key pair not found in the vault');
+  }
+  if (record.replacedBy) {
+    throw new Error('This key pair has already been rotated');
+  }
+
+  const { label, owner, email, usages } = record;
+  const sealed = await sealKeyPair(key, { label, owner, email, usages, ...successor, replaces: id });
+  const retired: VaultKeyRecord = { ...record, retired: new Date().toISOString(), replacedBy: sealed.id };
+  await withStores([KEY_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(KEY_STORE);
+    store.put(sealed);
+    store.put(retired);
+  });
+  notify();
+  return sealed.id;
+}
+
+export async function removeVaultKeyPair(id: string) {
+  requireVaultKey();
+  await withStores([KEY_STORE], 'readwrite', tx => { tx.objectStore(KEY_STORE).delete(id); });
+  notify();
+}
+
+// Destroys the vault and every key in it
+export async function deleteVault() {
+  lockVault();
+  if (database) {
+    (await database).close();
+    database = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error ?? new Error('Could not delete the key vault'));
+  });
+  notify();
+}
@@ -0,0 +1,209 @@
+// Audio steganography: payloads hidden in the lowest bit of 16-bit PCM WAV
+// samples
+//
+// A WAV file is a RIFF container: "RIFF" | size | "WAVE" followed by chunks
+// of id (4) | size (4, little-endian) | data, padded to an even length. The
+// "fmt " chunk describes the samples and the "data" chunk holds them. Other
+// chunks, such as LIST metadata, are carried over unchanged.
+//
+// The payload is framed as in stegoframe.ts:
+//   magic "WLSA" | version (1) | flags (1) | length (4, big-endian) | body
+// where the body is the same text or file encoding the image carrier uses,
+// sealed in an AES-256-GCM envelope when a passphrase is given. The frame is
+// written most significant bit first into the lowest bit of one sample after
+// another, across all channels. A change of one step in 65536 is far below
+// hearing, but any lossy re-encoding destroys it.
+
+import type { KdfCost } from './kdf';
+import { decodeStegoContent, encodeStegoContent, type StegoContent } from './stego';
+import { decodeFrameHeader, encodeFrame, frameHeaderLength, openBody, sealBody, type FrameFormat } from './stegoframe';
+
+export interface WavFormat {
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+}
+
+export interface WavChunk {
+  id: string;
+  data: Uint8Array;
+}
+
+export interface WavFile {
+  format: WavFormat;
+  chunks: WavChunk[];
+}
+
+export interface WavInfo extends WavFormat {
+  // Samples across all channels
+  samples: number;
+  // Seconds
+  duration: number;
+}
+
+export interface WavStegoOptions {
+  passphrase?: string;
+  cost?: KdfCost;
+}
+
+export interface WavStegoPayload {
+  content: StegoContent;
+  encrypted: boolean;
+}
+
+const FRAME: FrameFormat = {
+  magic: new Uint8Array([0x57, 0x4c, 0x53, 0x41]), // "WLSA"
+  version: 1,
+  compact: false,
+  noun: 'hidden data',
+};
+const HEADER_BYTES = frameHeaderLength(FRAME);
+const BYTES_PER_SAMPLE = 2;
+
+const FORMAT_PCM = 1;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+const ascii = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+function readFormat(chunk: Uint8Array): WavFormat {
+  if (chunk.length < 16) {
+    throw new Error('The WAV format chunk is too short');
+  }
+  const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  let format = view.getUint16(0, true);
+  // Extensible files name the real format in the first two bytes of a GUID
+  if (format === FORMAT_EXTENSIBLE && chunk.length >= 26) {
+    format = view.getUint16(24, true);
+  }
+  const result = {
+    channels: view.getUint16(2, true),
+    sampleRate: view.getUint32(4, true),
+    bitsPerSample: view.getUint16(14, true),
+  };
+  if (format !== FORMAT_PCM || result.bitsPerSample !== 16) {
+    throw new Error('Only uncompressed 16-bit PCM WAV files are supported');
+  }
+  return result;
+}
+
+// Splits a WAV file into its chunks. Sizes that run past the end of the file,
+// as left by recorders that were stopped early, are cut to what is there.
+export function parseWav(bytes: Uint8Array): WavFile {
+  if (bytes.length < 12 || ascii(bytes, 0) !== 'RIFF' || ascii(bytes, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: WavChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset);
+    const size = Math.min(view.getUint32(offset + 4, true), bytes.length - offset - 8);
+    chunks.push({ id, data: bytes.slice(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+
+  const format = chunks.find(chunk => chunk.id === 'fmt ');
+  if (!format) {
+    throw new Error('The WAV file has no format chunk');
+  }
+  if (!chunks.some(chunk => chunk.id === 'data')) {
+    throw new Error('The WAV file has no audio data');
+  }
+  return { format: readFormat(format.data), chunks };
+}
+
+export function writeWav(file: WavFile): Uint8Array {
+  const length = 12 + file.chunks.reduce((total, chunk) => total + 8 + chunk.data.length + (chunk.data.length % 2), 0);
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  const writeId = (id: string, at: number) => {
+    for (let i = 0; i < 4; i++) bytes[at + i] = id.charCodeAt(i);
+  };
+
+  writeId('RIFF', 0);
+  view.setUint32(4, length - 8, true);
+  writeId('WAVE', 8);
+  let offset = 12;
+  for (const chunk of file.chunks) {
+    writeId(chunk.id, offset);
+    view.setUint32(offset + 4, chunk.data.length, true);
+    bytes.set(chunk.data, offset + 8);
+    offset += 8 + chunk.data.length + (chunk.data.length % 2);
+  }
+  return bytes;
+}
+
+function samplesOf(file: WavFile): Uint8Array {
+  return file.chunks.find(chunk => chunk.id === 'data')!.data;
+}
+
+function infoOf(file: WavFile): WavInfo {
+  const samples = Math.floor(samplesOf(file).length / BYTES_PER_SAMPLE);
+  const { channels, sampleRate } = file.format;
+  return { ...file.format, samples, duration: channels && sampleRate ? samples / channels / sampleRate : 0 };
+}
+
+export function wavInfo(bytes: Uint8Array): WavInfo {
+  return infoOf(parseWav(bytes));
+}
+
+// Payload bytes the file holds, after the frame header
+export function wavStegoCapacity(info: WavInfo): number {
+  return Math.max(0, Math.floor(info.samples / 8) - HEADER_BYTES);
+}
+
+// Samples are little-endian, so the lowest bit of each is in its first byte
+function writeSampleBits(samples: Uint8Array, bytes: Uint8Array) {
+  for (let i = 0; i < bytes.length * 8; i++) {
+    const bit = (bytes[i >> 3] >> (7 - (i & 7))) & 1;
+    const offset = i * BYTES_PER_SAMPLE;
+    samples[offset] = (samples[offset] & 0xfe) | bit;
+  }
+}
+
+function readSampleBits(samples: Uint8Array, start: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length * 8; i++) {
+    const offset = (start * 8 + i) * BYTES_PER_SAMPLE;
+    bytes[i >> 3] = (bytes[i >> 3] << 1) | (samples[offset] & 1);
+  }
+  return bytes;
+}
+
+// Returns a copy of the WAV file with the content hidden in it
+export async function embedWavPayload(bytes: Uint8Array, content: StegoContent, options: WavStegoOptions = {}): Promise<Uint8Array> {
+  const { passphrase, cost } = options;
+  const file = parseWav(bytes);
+  const body = await sealBody(await encodeStegoContent(content), passphrase, cost);
+
+  const capacity = wavStegoCapacity(infoOf(file));
+  if (body.length > capacity) {
+    throw new Error(
+      `The audio is too short: the payload needs ${body.length.toLocaleString()} bytes but the file holds ` +
+      `${capacity.toLocaleString()}. Use a longer recording or a smaller payload.`
+    );
+  }
+
+  writeSampleBits(samplesOf(file), encodeFrame(FRAME, body, !!passphrase));
+  return writeWav(file);
+}
+
+// Finds a payload hidden by embedWavPayload
+export async function extractWavPayload(bytes: Uint8Array, passphrase?: string): Promise<WavStegoPayload> {
+  const file = parseWav(bytes);
+  const samples = samplesOf(file);
+  const capacity = wavStegoCapacity(infoOf(file));
+
+  const header = capacity > 0 ? decodeFrameHeader(FRAME, readSampleBits(samples, 0, HEADER_BYTES)) : null;
+  if (!header) {
+    throw new Error('No hidden data found in this audio');
+  }
+  if (header.length > capacity) {
+    throw new Error('The hidden data is damaged; the file may have been edited or recompressed');
+  }
+
+  const body = readSampleBits(samples, HEADER_BYTES, header.length);
+  const opened = await openBody(FRAME, body, header.encrypted, passphrase);
+  return { content: await decodeStegoContent(opened), encrypted: header.encrypted };
+}
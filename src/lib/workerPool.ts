@@ -0,0 +1,217 @@
+// Pool of Web Workers that keeps crypto work off the main thread
+//
+// Jobs are queued and handed to idle workers one at a time. Cancelling a job
+// that is already running terminates its worker (crypto.subtle calls cannot be
+// interrupted) and a fresh worker takes its slot.
+
+import { cryptoOps, type CryptoOpArgs, type CryptoOpName, type CryptoOpResult, type JobContext } from './cryptoOps';
+
+export interface WorkerRequest {
+  id: number;
+  op: string;
+  args: unknown[];
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'result'; value: unknown }
+  | { id: number; type: 'error'; name: string; message: string };
+
+export interface JobOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+  // Buffers in the arguments to move into the worker instead of copying
+  transfer?: Transferable[];
+}
+
+export interface WorkerPool {
+  readonly size: number;
+  run<K extends CryptoOpName>(op: K, args: CryptoOpArgs<K>, options?: JobOptions): Promise<CryptoOpResult<K>>;
+  terminate(): void;
+}
+
+interface Job {
+  id: number;
+  request: WorkerRequest;
+  options: JobOptions;
+  resolve(value: unknown): void;
+  reject(error: Error): void;
+}
+
+interface Slot {
+  worker: Worker;
+  job: Job | null;
+}
+
+function abortError(): Error {
+  return new DOMException('The operation was cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export function defaultPoolSize(): number {
+  // Leave one core for the UI thread
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 4 : 4;
+  return Math.max(1, Math.min(cores - 1, 8));
+}
+
+function spawnWorker(): Worker {
+  return new Worker(new URL('./crypto.worker.ts', import.meta.url), { type: 'module' });
+}
+
+export function createWorkerPool(size = defaultPoolSize()): WorkerPool {
+  const slots: Slot[] = [];
+  const queue: Job[] = [];
+  let nextId = 1;
+
+  const finish = (slot: Slot) => {
+    slot.job = null;
+    dispatch();
+  };
+
+  const attach = (slot: Slot) => {
+    slot.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const job = slot.job;
+      const message = event.data;
+      if (!job || message.id !== job.id) return;
+
+      if (message.type === 'progress') {
+        job.options.onProgress?.(message.fraction);
+        return;
+      }
+      if (message.type === 'result') {
+        job.resolve(message.value);
+      } else {
+        // Errors cannot cross to the main thread as they are; keep the name
+        // for callers that check it
+        const error = new Error(message.message);
+        error.name = message.name;
+        job.reject(error);
+      }
+      finish(slot);
+    };
+
+    // Uncaught failures (e.g. the worker script failed to load) take the worker down
+    slot.worker.onerror = (event) => {
+      event.preventDefault();
+      slot.job?.reject(new Error(event.message || 'Crypto worker crashed'));
+      replace(slot);
+      finish(slot);
+    };
+  };
+
+  const replace = (slot: Slot) => {
+    slot.worker.terminate();
+    slot.worker = spawnWorker();
+    attach(slot);
+  };
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      let slot = slots.find(candidate => !candidate.job);
+      if (!slot && slots.length < size) {
+        slot = { worker: spawnWorker(), job: null };
+        attach(slot);
+        slots.push(slot);
+      }
+      if (!slot) return;
+
+      const job = queue.shift()!;
+      slot.job = job;
+      slot.worker.postMessage(job.request, job.options.transfer ?? []);
+    }
+  };
+
+  const cancel = (job: Job) => {
+    const queued = queue.indexOf(job);
+    if (queued !== -1) {
+      queue.splice(queued, 1);
+      job.reject(abortError());
+      return;
+    }
+
+    const slot = slots.find(candidate => candidate.job === job);
+    if (slot) {
+      job.reject(abortError());
+      replace(slot);
+      finish(slot);
+    }
+  };
+
+  return {
+    size,
+    run(op, args, options = {}) {
+      return new Promise((resolve, reject) => {
+        if (options.signal?.aborted) {
+          reject(abortError());
+          return;
+        }
+
+        const id = nextId++;
+        const job: Job = {
+          id,
+          request: { id, op, args },
+          options,
+          resolve: value => {
+            options.signal?.removeEventListener('abort', onAbort);
+            resolve(value as CryptoOpResult<typeof op>);
+          },
+          reject: error => {
+            options.signal?.removeEventListener('abort', onAbort);
+            reject(error);
+          }
+        };
+        const onAbort = () => cancel(job);
+        options.signal?.addEventListener('abort', onAbort);
+
+        queue.push(job);
+        dispatch();
+      });
+    },
+    terminate() {
+      for (const job of queue.splice(0)) job.reject(abortError());
+      for (const slot of slots.splice(0)) {
+        slot.job?.reject(abortError());
+        slot.worker.terminate();
+      }
+    }
+  };
+}
+
+// Same interface on the main thread for environments without Worker support
+function createInlinePool(): WorkerPool {
+  return {
+    size: 1,
+    async run(op, args, options = {}) {
+      if (options.signal?.aborted) throw abortError();
+
+      const context: JobContext = { progress: fraction => options.onProgress?.(fraction) };
+      const run = cryptoOps[op] as (context: JobContext, ...args: unknown[]) => Promise<CryptoOpResult<typeof op>>;
+      const result = await run(context, ...args);
+
+      // The work cannot be interrupted here, but a cancelled caller must not see the result
+      if (options.signal?.aborted) throw abortError();
+      return result;
+    },
+    terminate() {}
+  };
+}
+
+let sharedPool: WorkerPool | null = null;
+
+export function getCryptoPool(): WorkerPool {
+  if (!sharedPool) {
+    sharedPool = typeof Worker !== 'undefined' ? createWorkerPool() : createInlinePool();
+  }
+  return sharedPool;
+}
+
+export function runCryptoJob<K extends CryptoOpName>(
+  op: K,
+  args: CryptoOpArgs<K>,
+  options?: JobOptions
+): Promise<CryptoOpResult<K>> {
+  return getCryptoPool().run(op, args, options);
+}
@@ -0,0 +1,23 @@
+import { Steganalysis } from '@/components/Steganalysis';
+import { BarChart3 } from 'lucide-react';
+
+export default function AnalysisCenter() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="text-center space-y-4">
+        <div className="flex items-center justify-center gap-3">
+          <div className="p-3 bg-primary/10 rounded-lg">
+            <BarChart3 className="w-8 h-8 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold gradient-text">Analysis Center</h1>
+            <p className="text-muted-foreground">Inspect suspicious files for hidden data</p>
+          </div>
+        </div>
+      </div>
+
+      <Steganalysis />
+    </div>
+  );
+}
@@ -3,12 +3,14 @@ import { useSearchParams } from 'react-router-dom';
 import { EncryptionCard } from '@/components/EncryptionCard';
 import { HybridEncryption } from '@/components/HybridEncryption';
 import { HashSuite } from '@/components/HashSuite';
+import { SignVerify } from '@/components/SignVerify';
 import { Steganography } from '@/components/Steganography';
 import { CustomAlgorithm } from '@/components/CustomAlgorithm';
+import { OperationJournal } from '@/components/OperationJournal';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { Shield, Layers, Hash, Image, Code, Zap } from 'lucide-react';
+import { Shield, Layers, Hash, PenTool, Image, Code, Zap } from 'lucide-react';
 
 export default function EncryptionStudio() {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -37,10 +39,17 @@ export default function EncryptionStudio() {
       icon: Hash,
       badge: 'Verification'
     },
+    {
+      id: 'sign',
+      label: 'Sign & Verify',
+      description: 'RSA-PSS and ECDSA digital signatures',
+      icon: PenTool,
+      badge: 'Authenticity'
+    },
     {
       id: 'steganography',
       label: 'Steganography',
-      description: 'Hide messages in images',
+      description: 'Hide messages in images, text and audio',
       icon: Image,
       badge: 'Covert'
     },
@@ -83,7 +92,7 @@ export default function EncryptionStudio() {
         </CardHeader>
         <CardContent>
           <Tabs value={tool} onValueChange={handleToolChange}>
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className="grid w-full grid-cols-6">
               {tools.map((toolItem) => (
                 <TabsTrigger key={toolItem.id} value={toolItem.id} className="data-[state=active]:bg-primary/10">
                   <div className="flex items-center gap-2">
@@ -127,6 +136,10 @@ export default function EncryptionStudio() {
                 <HashSuite />
               </TabsContent>
 
+              <TabsContent value="sign">
+                <SignVerify />
+              </TabsContent>
+
               <TabsContent value="steganography">
                 <Steganography />
               </TabsContent>
@@ -138,6 +151,8 @@ export default function EncryptionStudio() {
           </Tabs>
         </CardContent>
       </Card>
+
+      <OperationJournal />
     </div>
   );
 }
\ No newline at end of file
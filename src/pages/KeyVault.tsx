@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { KeyManager } from '@/components/KeyManager';
+import { Contacts } from '@/components/Contacts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useVault } from '@/hooks/use-vault';
+import { loadSettings } from '@/lib/settings';
+import { changeVaultPassphrase, lockVault } from '@/lib/vault';
+import { KeyRound, Lock, ShieldCheck, Users } from 'lucide-react';
+
+export default function KeyVault() {
+  const { status, keyPairs } = useVault();
+  const [showPassphraseForm, setShowPassphraseForm] = useState(false);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isChanging, setIsChanging] = useState(false);
+  const { toast } = useToast();
+
+  const autoLockMinutes = loadSettings().vaultAutoLockMinutes;
+
+  const handleChangePassphrase = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsChanging(true);
+    try {
+      await changeVaultPassphrase(currentPassphrase, newPassphrase);
+      setCurrentPassphrase('');
+      setNewPassphrase('');
+      setConfirmation('');
+      setShowPassphraseForm(false);
+      toast({
+        title: "Passphrase Changed",
+        description: "The vault now opens with the new master passphrase.",
+      });
+    } catch (error) {
+      toast({
+        title: "Change Failed",
+        description: error instanceof Error ? error.message : "Could not change the passphrase.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChanging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="text-center space-y-4">
+        <div className="flex items-center justify-center gap-3">
+          <div className="p-3 bg-primary/10 rounded-lg">
+            <KeyRound className="w-8 h-8 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold gradient-text">Key Vault</h1>
+            <p className="text-muted-foreground">Private keys encrypted under your master passphrase</p>
+          </div>
+        </div>
+      </div>
+
+      {status === 'unlocked' && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="w-5 h-5 text-primary" />
+                  Vault Unlocked
+                  <Badge variant="secondary">{keyPairs.length} key pair(s)</Badge>
+                </CardTitle>
+                <CardDescription>
+                  {autoLockMinutes > 0
+                    ? `Locks automatically after ${autoLockMinutes} minute(s) without activity.`
+                    : 'Auto-lock is off; lock the vault when you are done.'}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setShowPassphraseForm(show => !show)}>
+                  Change Passphrase
+                </Button>
+                <Button onClick={lockVault}>
+                  <Lock className="w-4 h-4 mr-2" />
+                  Lock Now
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+
+          {showPassphraseForm && (
+            <CardContent>
+              <form onSubmit={handleChangePassphrase} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div>
+                  <Label htmlFor="currentPassphrase">Current Passphrase</Label>
+                  <Input
+                    id="currentPassphrase"
+                    type="password"
+                    autoComplete="current-password"
+                    value={currentPassphrase}
+                    onChange={(e) => setCurrentPassphrase(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="newPassphrase">New Passphrase</Label>
+                  <Input
+                    id="newPassphrase"
+                    type="password"
+                    autoComplete="new-password"
+                    value={newPassphrase}
+                    onChange={(e) => setNewPassphrase(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="confirmPassphrase">Confirm New Passphrase</Label>
+                  <Input
+                    id="confirmPassphrase"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  disabled={isChanging || !currentPassphrase || !newPassphrase || newPassphrase !== confirmation}
+                  className="md:col-span-3 md:w-fit"
+                >
+                  {isChanging ? 'Re-encrypting...' : 'Change Passphrase'}
+                </Button>
+              </form>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      <Tabs defaultValue="keys">
+        <TabsList className="grid w-full grid-cols-2 glass-card">
+          <TabsTrigger value="keys" className="data-[state=active]:bg-primary/20">
+            <KeyRound className="w-4 h-4 mr-2" />
+            My Keys
+          </TabsTrigger>
+          <TabsTrigger value="contacts" className="data-[state=active]:bg-secondary/20">
+            <Users className="w-4 h-4 mr-2" />
+            Contacts
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="keys" className="mt-6">
+          <KeyManager />
+        </TabsContent>
+        <TabsContent value="contacts" className="mt-6">
+          <Contacts />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}